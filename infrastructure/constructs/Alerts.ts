@@ -44,6 +44,16 @@ export class AlertsConstruct extends Construct {
       defaultValue: 0,
     });
 
+    // How far behind a subreddit's cursor the listing ran out (posts in the gap were missed)
+    new logs.MetricFilter(this, 'CursorGapMetric', {
+      logGroup: props.pollLogGroup,
+      filterPattern: logs.FilterPattern.literal('{ $.cursorGapMinutes = * }'),
+      metricNamespace: namespace,
+      metricName: 'CursorGapMinutes',
+      metricValue: '$.cursorGapMinutes',
+      defaultValue: 0,
+    });
+
     // No emails in 24h alarm
     const emailsMetric = new cloudwatch.Metric({
       namespace,
@@ -0,0 +1,56 @@
+import { Construct } from 'constructs';
+import * as cdk from 'aws-cdk-lib';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as lambdaNode from 'aws-cdk-lib/aws-lambda-nodejs';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as path from 'path';
+
+export interface FeedbackConstructProps {
+    ssmParamArns: string[];
+}
+
+export class FeedbackConstruct extends Construct {
+  public readonly func: lambdaNode.NodejsFunction;
+  public readonly logGroup: logs.LogGroup;
+  public readonly url: lambda.FunctionUrl;
+
+  constructor(scope: Construct, id: string, props: FeedbackConstructProps) {
+    super(scope, id);
+
+    this.logGroup = new logs.LogGroup(this, 'Logs', {
+      retention: logs.RetentionDays.ONE_MONTH,
+    });
+
+    this.func = new lambdaNode.NodejsFunction(this, 'Function', {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      architecture: lambda.Architecture.ARM_64,
+      entry: path.join(__dirname, '..', '..', 'lambda', 'feedback.ts'),
+      handler: 'handler',
+      bundling: {
+        minify: true,
+        sourceMap: false,
+        target: 'node20',
+        define: { 'process.env.NODE_ENV': '"production"' },
+      },
+      timeout: cdk.Duration.seconds(15),
+      memorySize: 256,
+      environment: {
+        NODE_ENV: 'production',
+      },
+      logGroup: this.logGroup,
+    });
+
+    // Least-privilege SSM read
+    this.func.addToRolePolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: ['ssm:GetParameter', 'ssm:GetParameters'],
+      resources: props.ssmParamArns,
+    }));
+
+    // Digest readers click through unauthenticated; every link carries an HMAC signature instead
+    this.url = this.func.addFunctionUrl({
+      authType: lambda.FunctionUrlAuthType.NONE,
+    });
+  }
+}
@@ -16,6 +16,8 @@ import { AlertsConstruct } from './constructs/Alerts';
 import { PerformanceReportConstruct } from './constructs/PerformanceReport';
 import { BackfillLlmTickersConstruct } from './constructs/BackfillLlmTickers';
 import { UpdateTickersConstruct } from './constructs/UpdateTickers';
+import { RescoreConstruct } from './constructs/Rescore';
+import { FeedbackConstruct } from './constructs/Feedback';
 
 export class RedditStockWatcherStack extends cdk.Stack {
   constructor(scope: Construct, id: string, props?: cdk.StackProps) {
@@ -36,6 +38,16 @@ export class RedditStockWatcherStack extends cdk.Stack {
       'SUPABASE_ANON_KEY',
       'SUPABASE_ANON_KEY',
       'OPENAI_API_KEY',
+      'ANTHROPIC_API_KEY',
+      'LLM_BASE_URL',
+      'LLM_API_KEY',
+      'LLM_MODEL',
+      'LLM_TEMPERATURE',
+      'LLM_MAX_TOKENS',
+      'LLM_DAILY_SPEND_CAP_USD',
+      'LLM_MAX_ATTEMPTS',
+      'LLM_PROMPT_COST_PER_MTOK',
+      'LLM_COMPLETION_COST_PER_MTOK',
       'RESEND_API_KEY',
       'EMAIL_FROM',
       'EMAIL_TO',
@@ -44,11 +56,36 @@ export class RedditStockWatcherStack extends cdk.Stack {
       'LLM_BATCH_SIZE',
       'MIN_SCORE_FOR_LLM',
       'QUALITY_THRESHOLD',
+      'MIN_CONFIDENCE_FOR_EMAIL',
       'MAX_POSTS_PER_RUN',
       'CRON_WINDOW_MINUTES',
       'LLM_MAX_BODY_CHARS',
       'MIN_VOTES_PER_MINUTE_FOR_LLM',
       'MAX_PRICE_MOVE_PCT_FOR_ALERT',
+      'COMMENTS_PER_POST',
+      'MAX_COMMENT_POSTS_PER_RUN',
+      'RESCORE_LOOKBACK_HOURS',
+      'EMAIL_INCLUDE_FLAIRS',
+      'EMAIL_EXCLUDE_FLAIRS',
+      'FLAIR_BOOSTS',
+      'MIN_CLUE_SCORE',
+      'ALERT_ASSET_CLASSES',
+      'MENTION_SPIKE_Z_SCORE',
+      'MENTION_SPIKE_MIN_MENTIONS',
+      'PUMP_RISK_SUPPRESS_SCORE',
+      'NOTIFY_DIGEST',
+      'NOTIFY_PRICE_WATCH',
+      'NOTIFY_POSITION_DROP',
+      'NOTIFY_PERFORMANCE_REPORT',
+      'SLACK_WEBHOOK_URL',
+      'DISCORD_WEBHOOK_URL',
+      'WEBHOOK_URL',
+      'WEBHOOK_SECRET',
+      'DIGEST_SCHEDULE',
+      'DIGEST_IMMEDIATE_MIN_QUALITY',
+      'QUIET_HOURS_ET',
+      'FEEDBACK_URL',
+      'FEEDBACK_SECRET',
       'TARGET_EMAILS_PER_DAY',
       'ALPHA_VANTAGE_API_KEY',
       'BACKTEST_TP_PCT',
@@ -83,6 +120,14 @@ export class RedditStockWatcherStack extends cdk.Stack {
       tickersBucket: updateTickers.bucket,
     });
 
+    const rescore = new RescoreConstruct(this, 'Rescore', {
+      ssmParamArns,
+    });
+
+    const feedback = new FeedbackConstruct(this, 'Feedback', {
+      ssmParamArns,
+    });
+
     // Parameter Store parameters for configuration
     const parameterNames = [
       'REDDIT_CLIENT_ID',
@@ -92,6 +137,16 @@ export class RedditStockWatcherStack extends cdk.Stack {
       'SUPABASE_URL',
       'SUPABASE_API_KEY',
       'OPENAI_API_KEY',
+      'ANTHROPIC_API_KEY',
+      'LLM_BASE_URL',
+      'LLM_API_KEY',
+      'LLM_MODEL',
+      'LLM_TEMPERATURE',
+      'LLM_MAX_TOKENS',
+      'LLM_DAILY_SPEND_CAP_USD',
+      'LLM_MAX_ATTEMPTS',
+      'LLM_PROMPT_COST_PER_MTOK',
+      'LLM_COMPLETION_COST_PER_MTOK',
       'RESEND_API_KEY',
       'EMAIL_FROM',
       'EMAIL_TO',
@@ -100,11 +155,36 @@ export class RedditStockWatcherStack extends cdk.Stack {
       'LLM_BATCH_SIZE',
       'MIN_SCORE_FOR_LLM',
       'QUALITY_THRESHOLD',
+      'MIN_CONFIDENCE_FOR_EMAIL',
       'MAX_POSTS_PER_RUN',
       'CRON_WINDOW_MINUTES',
       'LLM_MAX_BODY_CHARS',
       'MIN_VOTES_PER_MINUTE_FOR_LLM',
       'MAX_PRICE_MOVE_PCT_FOR_ALERT'
+      , 'COMMENTS_PER_POST'
+      , 'MAX_COMMENT_POSTS_PER_RUN'
+      , 'RESCORE_LOOKBACK_HOURS'
+      , 'EMAIL_INCLUDE_FLAIRS'
+      , 'EMAIL_EXCLUDE_FLAIRS'
+      , 'FLAIR_BOOSTS'
+      , 'MIN_CLUE_SCORE'
+      , 'ALERT_ASSET_CLASSES'
+      , 'MENTION_SPIKE_Z_SCORE'
+      , 'MENTION_SPIKE_MIN_MENTIONS'
+      , 'PUMP_RISK_SUPPRESS_SCORE'
+      , 'NOTIFY_DIGEST'
+      , 'NOTIFY_PRICE_WATCH'
+      , 'NOTIFY_POSITION_DROP'
+      , 'NOTIFY_PERFORMANCE_REPORT'
+      , 'SLACK_WEBHOOK_URL'
+      , 'DISCORD_WEBHOOK_URL'
+      , 'WEBHOOK_URL'
+      , 'WEBHOOK_SECRET'
+      , 'DIGEST_SCHEDULE'
+      , 'DIGEST_IMMEDIATE_MIN_QUALITY'
+      , 'QUIET_HOURS_ET'
+      , 'FEEDBACK_URL'
+      , 'FEEDBACK_SECRET'
       , 'TARGET_EMAILS_PER_DAY'
       , 'ALPHA_VANTAGE_API_KEY'
       , 'BACKTEST_TP_PCT'
@@ -214,6 +294,16 @@ export class RedditStockWatcherStack extends cdk.Stack {
       description: 'ARN of the Lambda function',
     });
 
+    new cdk.CfnOutput(this, 'RescoreFunctionName', {
+      value: rescore.func.functionName,
+      description: 'Scheduled Lambda that refreshes post scores and promotes gated posts',
+    });
+
+    new cdk.CfnOutput(this, 'FeedbackUrl', {
+      value: feedback.url.url,
+      description: 'Function URL for digest feedback links; store it in FEEDBACK_URL',
+    });
+
     new cdk.CfnOutput(this, 'BackfillFunctionName', {
       value: backfill.func.functionName,
       description: 'Manual backfill Lambda function for LLM tickers',
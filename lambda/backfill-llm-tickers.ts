@@ -3,6 +3,7 @@ import { parseEnv } from '../lib/config';
 import { getSupabaseClient } from '../lib/db';
 import { logger } from '../lib/logger';
 import tickers from '../assets/tickers.json';
+import { normalizeTickers } from '../lib/tickers';
 
 interface BackfillEvent {
   limit?: number;
@@ -49,15 +50,7 @@ function buildUserPrompt(post: PostRow): string {
 }
 
 function sanitizeTickers(raw: unknown): string[] {
-  if (!Array.isArray(raw)) {
-    return [];
-  }
-
-  return raw
-    .map(token => (typeof token === 'string' ? token : String(token ?? '')).
-      trim().toUpperCase())
-    .filter(token => /^[A-Z]{1,5}$/.test(token))
-    .filter(token => KNOWN_TICKERS.has(token));
+  return normalizeTickers(raw).filter(token => KNOWN_TICKERS.has(token));
 }
 
 async function extractTickers(
@@ -1,15 +1,19 @@
 import type { Context } from 'aws-lambda';
 import { logger } from '../lib/logger';
 import { parseEnv } from '../lib/config';
-import { getSupabaseClient } from '../lib/db';
+import { getSupabaseClient, selectFeedbackVotes } from '../lib/db';
 import { SSMClient, PutParameterCommand, GetParameterCommand } from '@aws-sdk/client-ssm';
 import { TiingoClient } from '../lib/tiingo';
+import { normalizeTickers } from '../lib/tickers';
+import { summarizeFeedbackByQuality, type FeedbackQualityReport } from '../lib/feedback';
 
 interface BacktestResult {
     ok: boolean;
     selectedThreshold?: number;
     dailyCounts?: Record<string, number>;
     windowDays?: number;
+    // How reader votes on the window's emailed posts line up with their quality_score
+    feedback?: FeedbackQualityReport;
     error?: string;
 }
 
@@ -60,7 +64,7 @@ export async function handler(event: any, context: Context): Promise<BacktestRes
             const llm = Array.isArray(r.llm_tickers) ? (r.llm_tickers as string[]) : [];
             const detected = Array.isArray(r.detected_tickers) ? (r.detected_tickers as string[]) : [];
             const chosen = llm.length > 0 ? llm : detected;
-            return chosen.map(t => String(t).toUpperCase());
+            return normalizeTickers(chosen);
           })(),
           quality_score: typeof r.quality_score === 'number' ? r.quality_score as number : null,
         }))
@@ -365,6 +369,20 @@ export async function handler(event: any, context: Context): Promise<BacktestRes
 
         // Remove duplicated fallback block from earlier; bestThr is already chosen above
 
+        // Reader feedback only informs the report; the threshold stays tuned on outcomes
+        let feedback: FeedbackQualityReport | undefined;
+        try {
+          const votes = await selectFeedbackVotes(config, alerts.map(a => a.post_id));
+          feedback = summarizeFeedbackByQuality(alerts.map(a => ({
+            qualityScore: a.quality_score,
+            up: votes.get(a.post_id)?.up ?? 0,
+            down: votes.get(a.post_id)?.down ?? 0,
+          })));
+          log.info('Feedback vs quality_score', { ...feedback });
+        } catch (error) {
+          log.warn('Skipping feedback correlation', { error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+
         // Write back to SSM if different from current (idempotent write)
         const ssm = new SSMClient({});
         await ssm.send(new PutParameterCommand({
@@ -375,7 +393,7 @@ export async function handler(event: any, context: Context): Promise<BacktestRes
         }));
 
         log.info('Backtest completed', { windowDays, selectedThreshold: bestThr, precisionByThr });
-        return { ok: true, selectedThreshold: bestThr, dailyCounts: Object.fromEntries(Object.entries(precisionByThr).map(([k, v]) => [k, Number(v.toFixed(3))])), windowDays };
+        return { ok: true, selectedThreshold: bestThr, dailyCounts: Object.fromEntries(Object.entries(precisionByThr).map(([k, v]) => [k, Number(v.toFixed(3))])), windowDays, feedback };
 
   } catch (e) {
     const msg = e instanceof Error ? e.message : 'Unknown error';
@@ -0,0 +1,78 @@
+import type { Context, LambdaFunctionURLEvent, LambdaFunctionURLResult } from 'aws-lambda';
+import { parseEnv } from '../lib/config';
+import { recordPostFeedback } from '../lib/db';
+import { escapeHtml } from '../lib/email-utils';
+import { verifyFeedbackLink, type FeedbackLink } from '../lib/feedback';
+import { logger } from '../lib/logger';
+
+const CONFIRMATIONS: Record<FeedbackLink['action'], (link: FeedbackLink) => string> = {
+  up: () => 'Thanks, marked as useful.',
+  down: () => 'Thanks, marked as garbage.',
+  mute_ticker: link => `${link.target} is muted in your future digests.`,
+  mute_author: link => `Posts by u/${link.target} are muted in your future digests.`,
+};
+
+function page(statusCode: number, title: string, body: string): LambdaFunctionURLResult {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'no-store',
+    },
+    body: '<!doctype html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">'
+      + `<title>${escapeHtml(title)}</title></head>`
+      + `<body style="font-family: sans-serif; max-width: 480px; margin: 40px auto; padding: 0 16px;">${body}</body></html>`,
+  };
+}
+
+// Mail scanners open every link in a message, so a GET only renders a form that records the click
+// when posted. Browsers submit it straight away; scanners do not run the script.
+function confirmationForm(event: LambdaFunctionURLEvent): LambdaFunctionURLResult {
+  const action = `?${escapeHtml(event.rawQueryString)}`;
+  return page(200, 'Stock Watch feedback', `
+    <form id="feedback" method="post" action="${action}">
+      <p>Recording your feedback…</p>
+      <noscript><button type="submit">Confirm</button></noscript>
+    </form>
+    <script>document.getElementById('feedback').submit();</script>
+  `);
+}
+
+export async function handler(
+  event: LambdaFunctionURLEvent,
+  context: Context,
+): Promise<LambdaFunctionURLResult> {
+  const requestLogger = logger.withContext({
+    requestId: context.awsRequestId,
+    functionName: context.functionName,
+  });
+  const method = event.requestContext.http.method.toUpperCase();
+
+  try {
+    const config = await parseEnv();
+    if (!config.email.feedbackSecret) {
+      requestLogger.error('Feedback link received but FEEDBACK_SECRET is not configured');
+      return page(503, 'Feedback unavailable', '<p>Feedback is not enabled.</p>');
+    }
+
+    const verification = verifyFeedbackLink(event.queryStringParameters ?? {}, config.email.feedbackSecret, new Date());
+    if (!verification.ok) {
+      requestLogger.warn('Rejected feedback link', { reason: verification.reason, method });
+      return page(400, 'Feedback link not accepted', `<p>${escapeHtml(verification.reason)}.</p>`);
+    }
+
+    if (method !== 'POST') {
+      return confirmationForm(event);
+    }
+
+    await recordPostFeedback(config, verification.link, new Date().toISOString());
+    return page(200, 'Feedback recorded', `<p>${escapeHtml(CONFIRMATIONS[verification.link.action](verification.link))}</p>`);
+
+  } catch (error) {
+    requestLogger.error('Feedback request failed', {
+      method,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return page(500, 'Feedback not recorded', '<p>Something went wrong recording your feedback. Please try again later.</p>');
+  }
+}
@@ -3,11 +3,36 @@ import { S3Client, PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { logger } from '../lib/logger';
 import { parseEnv } from '../lib/config';
-import { getSupabaseClient, upsertPostPerformance, applyTickerPerformanceIncrements } from '../lib/db';
+import {
+  getSupabaseClient,
+  upsertPostPerformance,
+  applyTickerPerformanceIncrements,
+  applyAuthorReputationIncrements,
+  recordOptionOutcomes,
+  recordTargetOutcomes,
+  recordTargetRetries,
+  selectDueOptionClaims,
+  selectPendingTargetClaims,
+  type OptionClaim,
+  type OptionClaimUpdate,
+  type TargetClaim,
+  type TargetOutcome,
+  type TargetRetry,
+} from '../lib/db';
 import { TiingoClient, findFirstBarOnOrAfter, findLastBarOnOrBefore } from '../lib/tiingo';
 import { addDays, easternDateTime, getEasternComponents, isEasternWeekend, startOfEasternDay } from '../lib/time';
-import type { PositionReport, ReportPayload, ReportSummary } from '../lib/performance-types';
+import type { OptionContractReport, PositionReport, ReportPayload, ReportSummary, TargetReport } from '../lib/performance-types';
+import { claimDeadline, scoreAgainstTarget } from '../lib/claim-targets';
+import { accumulateAuthorOutcomes } from '../lib/author-reputation';
 import { sendPerformanceReportEmail } from '../lib/email';
+import { normalizeTickers } from '../lib/tickers';
+import {
+  evaluateOptionContract,
+  formatOptionContract,
+  nextOptionDueDate,
+  type OptionContract,
+  type StoredOptionOutcome,
+} from '../lib/options';
 
 interface LambdaEvent {
   runDate?: string;
@@ -25,6 +50,7 @@ interface SupabaseRow {
   emailed_at: string;
   created_utc: string;
   subreddit: string | null;
+  stance?: string | null;
 }
 
 interface PositionCandidate {
@@ -42,18 +68,31 @@ interface PositionCandidate {
   error?: string;
 }
 
+interface OptionCandidate {
+  claim: OptionClaim;
+  // Position of the contract in claim.contracts
+  contractIndex: number;
+  postId: string;
+  title: string;
+  url: string;
+  contract: OptionContract;
+  entryTime?: Date;
+  error?: string;
+}
+
 const INVESTMENT_USD = 1000;
+// Stated horizons run up to five years; older claims are not worth a Tiingo request
+const TARGET_LOOKBACK_DAYS = 5 * 366;
+// Due claims, and posts with expired option contracts, scored per run
+const MAX_TARGETS_PER_RUN = 15;
+const MAX_OPTION_CLAIMS_PER_RUN = 15;
+// Runs a claim may fail on price data (no bars, delisted ticker, Tiingo errors) before it is closed unscored
+const MAX_TARGET_ATTEMPTS = 5;
+// Option reports that can clear up on a later run; any other error is final
+const RETRYABLE_OPTION_ERRORS = new Set(['Price series unavailable', 'No daily bars between entry and expiry']);
 const MARKET_OPEN_MINUTES = 10 * 60; // 10:00 ET
 const MARKET_CLOSE_MINUTES = 16 * 60; // 16:00 ET
 
-function sanitizeTicker(raw: unknown): string | null {
-  if (typeof raw !== 'string') return null;
-  const trimmed = raw.trim().toUpperCase();
-  if (!trimmed || trimmed.length > 8) return null;
-  if (!/^[A-Z.]+$/.test(trimmed)) return null;
-  return trimmed;
-}
-
 function nextTradingDayStart(day: Date): Date {
   let candidate = addDays(day, 1);
   while (isEasternWeekend(candidate)) {
@@ -100,6 +139,174 @@ function ensurePrice(value?: number): number | null {
   return null;
 }
 
+function formatEtDate(date: Date): string {
+  const { year, month, day } = getEasternComponents(date);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Judges each option contract by the underlying's daily bars: the open on the entry day
+ * against the close on the expiry date (or the last session before it). Contracts come from
+ * selectDueOptionClaims once they expire; any that cannot be judged are reported with an error
+ * and left out of the stats.
+ */
+async function evaluateOptionContracts(
+  candidates: OptionCandidate[],
+  tiingo: TiingoClient,
+  runDateEt: string,
+  log: ReturnType<typeof logger.withContext>,
+): Promise<OptionContractReport[]> {
+  const reports: OptionContractReport[] = candidates.map(candidate => ({
+    postId: candidate.postId,
+    title: candidate.title,
+    url: candidate.url,
+    contract: candidate.contract,
+    entry: { requested: candidate.entryTime ? candidate.entryTime.toISOString() : '' },
+    ...(candidate.error && { error: candidate.error }),
+  }));
+
+  // One daily series per underlying, spanning its earliest entry to its latest expiry
+  const windows = new Map<string, { start: string; end: string }>();
+  reports.forEach((report, index) => {
+    const { contract } = report;
+    const entryTime = candidates[index].entryTime;
+    if (report.error || !entryTime) {
+      report.error = report.error ?? 'Entry time unavailable';
+      return;
+    }
+    if (!contract.expiry) {
+      report.error = 'No expiry stated';
+      return;
+    }
+    if (contract.expiry > runDateEt) {
+      report.error = 'Expiry after report date';
+      return;
+    }
+    const entryDate = formatEtDate(entryTime);
+    if (contract.expiry < entryDate) {
+      report.error = 'Expired before entry';
+      return;
+    }
+    const existing = windows.get(contract.underlying);
+    windows.set(contract.underlying, {
+      start: existing && existing.start < entryDate ? existing.start : entryDate,
+      end: existing && existing.end > contract.expiry ? existing.end : contract.expiry,
+    });
+  });
+
+  const seriesByUnderlying = new Map<string, Awaited<ReturnType<TiingoClient['fetchDaily']>>>();
+  for (const [underlying, window] of windows.entries()) {
+    try {
+      const series = await tiingo.fetchDaily({
+        ticker: underlying,
+        start: new Date(`${window.start}T00:00:00Z`),
+        end: new Date(`${window.end}T00:00:00Z`),
+      });
+      seriesByUnderlying.set(underlying, series);
+    } catch (err) {
+      log.error('Tiingo daily fetch failed for option underlying', {
+        underlying,
+        error: err instanceof Error ? err.message : 'Unknown Tiingo error',
+      });
+    }
+  }
+
+  reports.forEach((report, index) => {
+    const entryTime = candidates[index].entryTime;
+    if (report.error || !entryTime || !report.contract.expiry) {
+      return;
+    }
+    const series = seriesByUnderlying.get(report.contract.underlying);
+    if (!series) {
+      report.error = 'Price series unavailable';
+      return;
+    }
+
+    const entryDate = formatEtDate(entryTime);
+    const expiry = report.contract.expiry;
+    // Daily bars are stamped at midnight UTC of their trading date
+    const entryBar = series.find(bar => bar.timestamp.slice(0, 10) >= entryDate);
+    const expiryBar = [...series].reverse().find(bar => bar.timestamp.slice(0, 10) <= expiry);
+    const entryPrice = entryBar ? ensurePrice(entryBar.open) ?? ensurePrice(entryBar.close) : null;
+    const expiryPrice = expiryBar ? ensurePrice(expiryBar.close) : null;
+    if (!entryBar || !expiryBar || !entryPrice || !expiryPrice || expiryBar.timestamp < entryBar.timestamp) {
+      report.error = 'No daily bars between entry and expiry';
+      return;
+    }
+
+    const outcome = evaluateOptionContract(report.contract, entryPrice, expiryPrice);
+    report.entry.actual = entryBar.timestamp;
+    report.entry.price = Number(entryPrice.toFixed(4));
+    report.expiryClose = { actual: expiryBar.timestamp, price: Number(expiryPrice.toFixed(4)) };
+    report.underlyingMovePct = Number(outcome.underlyingMovePct.toFixed(4));
+    report.directionCorrect = outcome.directionCorrect;
+    report.inTheMoney = outcome.inTheMoney;
+  });
+
+  return reports;
+}
+
+// Contracts on the due posts that have expired by the run date and are not judged yet
+function dueOptionContracts(claims: OptionClaim[], runDateEt: string): OptionCandidate[] {
+  return claims.flatMap(claim => {
+    const entryInfo = computeEntryTime(claim.emailed_at);
+    return claim.contracts.flatMap((contract, contractIndex) => (
+      contract.expiry && contract.expiry <= runDateEt && !claim.outcomes[contractIndex]
+        ? [{
+          claim,
+          contractIndex,
+          postId: claim.post_id,
+          title: claim.title,
+          url: claim.url,
+          contract,
+          entryTime: entryInfo.entry ?? undefined,
+          error: entryInfo.error,
+        }]
+        : []
+    ));
+  });
+}
+
+/**
+ * Folds this run's reports into each post's stored outcomes. A contract that failed on price
+ * data stays unjudged for the next run until the post has used MAX_TARGET_ATTEMPTS, then is
+ * recorded with the error; the post comes due again at its next unjudged expiry.
+ */
+function settleOptionClaims(
+  claims: OptionClaim[],
+  candidates: OptionCandidate[],
+  reports: OptionContractReport[],
+  evaluatedAt: string,
+): OptionClaimUpdate[] {
+  return claims.map(claim => {
+    const outcomes = [...claim.outcomes];
+    const judged = candidates
+      .map((candidate, index) => ({ candidate, report: reports[index] }))
+      .filter(({ candidate }) => candidate.claim === claim);
+    const retrying = judged.some(({ report }) => report.error && RETRYABLE_OPTION_ERRORS.has(report.error));
+    const attempts = retrying ? claim.option_attempts + 1 : claim.option_attempts;
+    const givingUp = attempts >= MAX_TARGET_ATTEMPTS;
+
+    judged.forEach(({ candidate, report }) => {
+      if (report.error && RETRYABLE_OPTION_ERRORS.has(report.error) && !givingUp) {
+        return;
+      }
+      const outcome: StoredOptionOutcome = report.error
+        ? { evaluatedAt, underlyingMovePct: null, directionCorrect: null, inTheMoney: null, error: report.error }
+        : {
+          evaluatedAt,
+          underlyingMovePct: report.underlyingMovePct ?? null,
+          directionCorrect: report.directionCorrect ?? null,
+          inTheMoney: report.inTheMoney ?? null,
+          error: null,
+        };
+      outcomes[candidate.contractIndex] = outcome;
+    });
+
+    return { postId: claim.post_id, outcomes, dueDate: nextOptionDueDate(claim.contracts, outcomes), attempts };
+  });
+}
+
 async function findNearestLookbackDayWithEmails(
   supabase: ReturnType<typeof getSupabaseClient>,
   startEtDayStart: Date,
@@ -146,6 +353,92 @@ async function findNearestLookbackDayWithEmails(
   return { selected: startEtDayStart, shiftedBy: 0 };
 }
 
+/**
+ * Scores emailed claims whose own deadline (target_date, or created_utc + horizon_days) has
+ * passed by the run date and records the outcome on the post. Claims that fail on price data
+ * stay pending for the next run until MAX_TARGET_ATTEMPTS, then are closed with the error.
+ */
+async function evaluateStatedTargets(
+  claims: TargetClaim[],
+  tiingo: TiingoClient,
+  runDateEt: string,
+  log: ReturnType<typeof logger.withContext>,
+): Promise<{ reports: TargetReport[]; outcomes: TargetOutcome[]; retries: TargetRetry[] }> {
+  const reports: TargetReport[] = [];
+  const outcomes: TargetOutcome[] = [];
+  const retries: TargetRetry[] = [];
+
+  const due = claims
+    .map(claim => ({ claim, deadline: claimDeadline(claim) }))
+    .filter((item): item is { claim: TargetClaim; deadline: string } => item.deadline !== null && item.deadline <= runDateEt);
+
+  for (const { claim, deadline } of due) {
+    const ticker = claim.tickers[0] ?? null;
+    const entryInfo = computeEntryTime(claim.emailed_at);
+    const report: TargetReport = {
+      postId: claim.post_id,
+      title: claim.title,
+      url: claim.url,
+      ticker,
+      priceTarget: claim.price_target,
+      deadline,
+      catalystType: claim.catalyst_type,
+      entry: { requested: entryInfo.entry ? entryInfo.entry.toISOString() : claim.emailed_at },
+    };
+    reports.push(report);
+
+    const close = (error: string) => {
+      report.error = error;
+      outcomes.push({ postId: claim.post_id, hit: null, returnPct: null, error });
+    };
+    const retryLater = (error: string) => {
+      const attempts = claim.target_attempts + 1;
+      if (attempts >= MAX_TARGET_ATTEMPTS) {
+        close(`${error} (gave up after ${attempts} attempts)`);
+        return;
+      }
+      report.error = error;
+      retries.push({ postId: claim.post_id, attempts, error });
+    };
+
+    if (!ticker || !entryInfo.entry) {
+      close(ticker ? (entryInfo.error ?? 'Entry time unavailable') : 'No ticker on claim');
+      continue;
+    }
+
+    const entryDate = formatEtDate(entryInfo.entry);
+    if (deadline < entryDate) {
+      close('Deadline before entry');
+      continue;
+    }
+
+    try {
+      const bars = await tiingo.fetchDaily({
+        ticker,
+        start: new Date(`${entryDate}T00:00:00Z`),
+        end: new Date(`${deadline}T00:00:00Z`),
+      });
+      const score = scoreAgainstTarget(claim, bars, entryDate, deadline);
+      if (!score) {
+        retryLater('No daily bars between entry and deadline');
+        continue;
+      }
+
+      report.entry.price = Number(score.entryPrice.toFixed(4));
+      report.deadlineClose = Number(score.deadlineClose.toFixed(4));
+      report.movePct = Number(score.movePct.toFixed(4));
+      report.hit = score.hit;
+      outcomes.push({ postId: claim.post_id, hit: score.hit, returnPct: score.movePct / 100, error: null });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Unknown Tiingo error';
+      retryLater(msg);
+      log.error('Tiingo fetch failed for stated target', { ticker, postId: claim.post_id, error: msg });
+    }
+  }
+
+  return { reports, outcomes, retries };
+}
+
 export async function handler(event: LambdaEvent, context: Context): Promise<ReportPayload> {
   const start = Date.now();
   const log = logger.withContext({ requestId: context.awsRequestId, fn: 'performance-report' });
@@ -191,7 +484,7 @@ export async function handler(event: LambdaEvent, context: Context): Promise<Rep
 
     const { data, error } = await supabase
       .from('reddit_posts')
-      .select('post_id, title, body, author, url, detected_tickers, llm_tickers, reason, emailed_at, created_utc, subreddit')
+      .select('post_id, title, body, author, url, detected_tickers, llm_tickers, reason, emailed_at, created_utc, subreddit, stance')
       .not('emailed_at', 'is', null)
       .gte('emailed_at', lookbackDayStart.toISOString())
       .lt('emailed_at', lookbackDayEnd.toISOString())
@@ -207,19 +500,17 @@ export async function handler(event: LambdaEvent, context: Context): Promise<Rep
     const candidates: PositionCandidate[] = [];
 
     for (const row of rows) {
+      const entryInfo = computeEntryTime(row.emailed_at);
       const rawTickers = Array.isArray(row.llm_tickers)
         ? row.llm_tickers
         : row.detected_tickers ?? [];
 
-      const tickers = rawTickers
-        .map(sanitizeTicker)
-        .filter((t): t is string => Boolean(t));
+      const tickers = normalizeTickers(rawTickers);
 
       if (!tickers.length) {
         continue;
       }
 
-      const entryInfo = computeEntryTime(row.emailed_at);
       for (const ticker of tickers) {
         candidates.push({
           ticker,
@@ -366,6 +657,37 @@ export async function handler(event: LambdaEvent, context: Context): Promise<Rep
       positions.push(baseReport);
     }
 
+    const dueOptionClaims = await selectDueOptionClaims(
+      config,
+      addDays(runDayStart, -TARGET_LOOKBACK_DAYS).toISOString(),
+      formatEtDate(runDayStart),
+      MAX_OPTION_CLAIMS_PER_RUN,
+    );
+    const optionCandidates = dueOptionContracts(dueOptionClaims, formatEtDate(runDayStart));
+    const optionReports = await evaluateOptionContracts(
+      optionCandidates,
+      tiingo,
+      formatEtDate(runDayStart),
+      log,
+    );
+    const optionUpdates = settleOptionClaims(dueOptionClaims, optionCandidates, optionReports, new Date().toISOString());
+    const evaluatedOptions = optionReports.filter(report => !report.error);
+    const optionHits = evaluatedOptions.filter(report => report.directionCorrect).length;
+
+    const pendingTargets = await selectPendingTargetClaims(
+      config,
+      addDays(runDayStart, -TARGET_LOOKBACK_DAYS).toISOString(),
+      formatEtDate(runDayStart),
+      MAX_TARGETS_PER_RUN,
+    );
+    const { reports: targetReports, outcomes: targetOutcomes, retries: targetRetries } = await evaluateStatedTargets(
+      pendingTargets,
+      tiingo,
+      formatEtDate(runDayStart),
+      log,
+    );
+    const scoredTargets = targetReports.filter(report => typeof report.hit === 'boolean');
+
     const completed = positions.filter(p => !p.error);
     const errored = positions.filter(p => Boolean(p.error));
 
@@ -418,12 +740,22 @@ export async function handler(event: LambdaEvent, context: Context): Promise<Rep
       winRatePct: winRate !== null ? Number(winRate.toFixed(2)) : null,
       bestPosition: best,
       worstPosition: worst,
+      optionContractsEvaluated: evaluatedOptions.length,
+      optionDirectionHitRatePct: evaluatedOptions.length
+        ? Number(((optionHits / evaluatedOptions.length) * 100).toFixed(2))
+        : null,
+      targetsEvaluated: scoredTargets.length,
+      targetHitRatePct: scoredTargets.length
+        ? Number(((scoredTargets.filter(report => report.hit).length / scoredTargets.length) * 100).toFixed(2))
+        : null,
       tiingoRequestsUsed: tiingo.getRequestCount(),
     };
 
     const payload: ReportPayload = {
       meta: summary,
       positions,
+      optionContracts: optionReports,
+      targets: targetReports,
     };
 
     try {
@@ -470,7 +802,31 @@ export async function handler(event: LambdaEvent, context: Context): Promise<Rep
         if (tickerIncrements.length > 0) {
           await applyTickerPerformanceIncrements(config, tickerIncrements);
         }
+
+        const stanceByPostId = new Map(rows.map(row => [row.post_id, row.stance]));
+        const authorTotals = accumulateAuthorOutcomes(performanceRecords.flatMap(record => (
+          record.author && typeof record.returnPct === 'number'
+            ? [{
+              author: record.author,
+              returnPct: record.returnPct,
+              direction: stanceByPostId.get(record.postId) === 'bearish' ? 'bearish' as const : 'bullish' as const,
+            }]
+            : []
+        )));
+        const authorIncrements = Array.from(authorTotals.entries()).map(([author, totals]) => ({
+          author,
+          ...totals,
+          lastRunDate: summary.runDateEt,
+        }));
+
+        if (authorIncrements.length > 0) {
+          await applyAuthorReputationIncrements(config, authorIncrements);
+        }
       }
+
+      await recordTargetOutcomes(config, targetOutcomes);
+      await recordTargetRetries(config, targetRetries);
+      await recordOptionOutcomes(config, optionUpdates);
     } catch (perfError) {
       log.error('Failed to persist performance statistics', {
         error: perfError instanceof Error ? perfError.message : 'Unknown error',
@@ -514,6 +870,23 @@ export async function handler(event: LambdaEvent, context: Context): Promise<Rep
         author: p.author,
         error: p.error ?? 'unknown error',
       })),
+      optionContracts: evaluatedOptions.map(report => ({
+        contract: formatOptionContract(report.contract),
+        title: report.title,
+        url: report.url,
+        underlyingMovePct: report.underlyingMovePct ?? 0,
+        directionCorrect: report.directionCorrect ?? false,
+        inTheMoney: report.inTheMoney ?? false,
+      })),
+      targets: scoredTargets.map(report => ({
+        ticker: report.ticker ?? '',
+        title: report.title,
+        url: report.url,
+        priceTarget: report.priceTarget,
+        deadline: report.deadline,
+        movePct: report.movePct ?? 0,
+        hit: report.hit ?? false,
+      })),
       downloadUrl,
     }, config);
 
@@ -521,6 +894,9 @@ export async function handler(event: LambdaEvent, context: Context): Promise<Rep
       positions: positions.length,
       completed: completed.length,
       errors: errored.length,
+      optionContracts: optionReports.length,
+      optionContractsEvaluated: evaluatedOptions.length,
+      targetsEvaluated: scoredTargets.length,
       tiingoRequests: summary.tiingoRequestsUsed,
       bucket,
       key,
@@ -1,12 +1,33 @@
 import type { EventBridgeEvent, Context } from 'aws-lambda';
 import { parseEnv } from '../lib/config';
 import type { Config } from '../lib/config';
-import { fetchNew } from '../lib/reddit';
-import { prefilterBatch } from '../lib/prefilter';
-import { classifyBatch } from '../lib/llm';
-import { getCursor, setCursor, upsertPosts, selectForEmail, markEmailed } from '../lib/db';
+import { fetchAuthorProfiles, fetchNew, fetchTopComments } from '../lib/reddit';
+import { analyzeComments } from '../lib/comments';
+import { prefilterBatch, hasDirectionalSignal, computeVotesPerMinute, type Prefiltered } from '../lib/prefilter';
+import { classifyWithRecovery, getLlmSpendCapStatus, llmItemFromStoredPost, postMetadataForLlm, type LlmResult } from '../lib/llm';
+import {
+  getSubredditCursors,
+  setSubredditCursors,
+  upsertPosts,
+  upsertGatedPosts,
+  selectForEmail,
+  selectPostsForLlmRetry,
+  updateLlmOutcome,
+  recordTickerMentions,
+  selectTickerMentionHistory,
+  getMentionTrackingStart,
+  markPumpSuppressed,
+  selectActiveSubscriptions,
+  getLastDigestRollupSlot,
+  setLastDigestRollupSlot,
+  claimDigest,
+  requeueFailedOutbox,
+} from '../lib/db';
 import type { EmailCandidate } from '../lib/db';
-import { sendDigest, sendPriceWatchAlerts, sendPositionDropAlerts } from '../lib/email';
+import { composeDigestNotification, sendDigest, sendPriceWatchAlerts, sendPositionDropAlerts } from '../lib/email';
+import { resolveChannels, type NotificationTarget } from '../lib/notifiers';
+import { deliverOutbox, outboxMessagesByChannel, type OutboxMessage } from '../lib/outbox';
+import { feedbackLinkSettings } from '../lib/feedback';
 import { logger } from '../lib/logger';
 import {
   TiingoClient,
@@ -19,34 +40,63 @@ import {
 import {
   schedulePriceWatches,
   processPriceWatchQueue,
+  type PriceWatchAlertInfo,
   type PriceWatchProcessResult,
   type PriceWatchSeed,
 } from '../lib/price-watch';
-import { processWatchedPositions } from '../lib/portfolio';
+import { processWatchedPositions, type PositionDropAlertInfo } from '../lib/portfolio';
+import {
+  MENTION_BASELINE_DAYS,
+  baselineHours,
+  detectMentionSpikes,
+  hourStartOf,
+  selectRecentBuckets,
+  type MentionSpike,
+} from '../lib/mentions';
+import {
+  PUMP_BURST_WINDOW_HOURS,
+  estimateMarketCap,
+  measureMarketExtension,
+  scorePumpRisk,
+  type PumpRisk,
+} from '../lib/pump-risk';
+import {
+  digestWindowStart,
+  filterSpikesForSubscription,
+  isDigestDue,
+  matchesSubscription,
+  tickerAllowed,
+  wantsAlert,
+  type Subscription,
+} from '../lib/subscriptions';
+import { isQuietHour, planDigestRelease, type DigestRelease } from '../lib/digest-schedule';
 
 interface PollResponse {
   ok: boolean;
   fetched: number;
   candidates: number;
   llmClassified: number;
+  llmDeferred?: number;
+  llmFailed?: number;
+  llmRecovered?: number;
   emailed: number;
   error?: string;
   executionTime?: number;
 }
 
+interface DigestDelivery {
+  sentAt: string;
+  // This run's candidates, now marked emailed
+  released: EmailCandidate[];
+  // Messages queued in the outbox
+  recipientCount: number;
+}
+
 const NEWS_LOOKBACK_DAYS = 2;
 const MAX_TICKER_ENRICHMENT = 12;
 const MAX_CONTEXT_NEWS = 5;
-
-function computeVotesPerMinute(createdUtc: string, score: number, referenceMs: number): number {
-  const createdMs = new Date(createdUtc).getTime();
-  if (Number.isNaN(createdMs)) {
-    return 0;
-  }
-
-  const ageMinutes = Math.max((referenceMs - createdMs) / 60000, 1 / 60);
-  return score / ageMinutes;
-}
+// Each author costs one Reddit request, so only the top-ranked candidates' authors are looked up
+const MAX_AUTHOR_PROFILE_LOOKUPS = 20;
 
 async function annotateCandidatesWithPriceMove(
   candidates: EmailCandidate[],
@@ -218,6 +268,8 @@ async function annotateCandidatesWithPriceMove(
           latestTimestamp,
           movePct,
           exceedsThreshold: thresholdForComparison !== Number.POSITIVE_INFINITY && absMove >= thresholdForComparison,
+          ...measureMarketExtension(series),
+          marketCapUsd: estimateMarketCap(fundamentals, latestPrice),
         });
       }
     } else {
@@ -253,6 +305,70 @@ async function annotateCandidatesWithPriceMove(
   return { annotated, exceededCount, dataUnavailableCount };
 }
 
+/**
+ * Scores each candidate for pump-and-dump risk from its author's account age and karma, the
+ * ticker's mention count over the last PUMP_BURST_WINDOW_HOURS, and the price/volume extension and
+ * market cap recorded by annotateCandidatesWithPriceMove. A multi-ticker post takes its riskiest
+ * ticker. Lookup failures leave the affected signals empty rather than dropping the candidate.
+ */
+async function annotateCandidatesWithPumpRisk(
+  candidates: EmailCandidate[],
+  config: Config,
+  requestLogger: ReturnType<typeof logger.withContext>,
+): Promise<EmailCandidate[]> {
+  if (candidates.length === 0) {
+    return candidates;
+  }
+
+  const authors = Array.from(new Set(candidates.map(c => c.author).filter((author): author is string => Boolean(author))));
+  let profiles = new Map<string, { accountAgeDays: number; karma: number }>();
+  try {
+    profiles = await fetchAuthorProfiles(config, authors.slice(0, MAX_AUTHOR_PROFILE_LOOKUPS));
+  } catch (error) {
+    requestLogger.warn('Failed to fetch author profiles for pump risk', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  const mentionsByTicker = new Map<string, number>();
+  const currentHour = hourStartOf(new Date().toISOString());
+  if (currentHour) {
+    const hours = Array.from({ length: PUMP_BURST_WINDOW_HOURS }, (_, i) => new Date(Date.parse(currentHour) - i * 60 * 60 * 1000).toISOString());
+    const tickers = Array.from(new Set(candidates.flatMap(c => c.tickers.map(t => t.toUpperCase()))));
+    try {
+      const history = await selectTickerMentionHistory(config, tickers, hours);
+      history.forEach(row => {
+        const ticker = row.ticker.toUpperCase();
+        mentionsByTicker.set(ticker, (mentionsByTicker.get(ticker) ?? 0) + row.mentions);
+      });
+    } catch (error) {
+      requestLogger.warn('Failed to load mention burst for pump risk', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return candidates.map(candidate => {
+    const profile = candidate.author ? profiles.get(candidate.author) : undefined;
+    const authorSignals = {
+      accountAgeDays: profile?.accountAgeDays ?? null,
+      karma: profile?.karma ?? null,
+    };
+    const insights = (candidate.priceInsights ?? []).filter(insight => insight.ticker !== 'N/A');
+    const risks: PumpRisk[] = insights.length > 0
+      ? insights.map(insight => scorePumpRisk({
+        ...authorSignals,
+        tickerMentions: mentionsByTicker.get(insight.ticker.toUpperCase()) ?? null,
+        priceExtensionPct: insight.priceExtensionPct ?? null,
+        volumeRatio: insight.volumeRatio ?? null,
+        marketCapUsd: insight.marketCapUsd ?? null,
+      }))
+      : [scorePumpRisk({ ...authorSignals, tickerMentions: null, priceExtensionPct: null, volumeRatio: null, marketCapUsd: null })];
+    const pumpRisk = risks.reduce((worst, risk) => (risk.score > worst.score ? risk : worst));
+    return { ...candidate, pumpRisk };
+  });
+}
+
 const EMPTY_PRICE_WATCH_RESULT: PriceWatchProcessResult = {
   checked: 0,
   triggered: [],
@@ -262,8 +378,47 @@ const EMPTY_PRICE_WATCH_RESULT: PriceWatchProcessResult = {
   exceededFifteenPct: 0,
 };
 
+// Without subscriptions every trigger goes to EMAIL_TO; otherwise to subscribers following the ticker.
+// Chat and webhook channels routed for price watches get every trigger either way.
+async function routePriceWatchAlerts(
+  alerts: PriceWatchAlertInfo[],
+  config: Config,
+  subscriptions: Subscription[],
+): Promise<void> {
+  if (subscriptions.length === 0) {
+    await sendPriceWatchAlerts(alerts, config);
+    return;
+  }
+
+  const failures: string[] = [];
+  try {
+    await sendPriceWatchAlerts(alerts, config, { excludeChannels: ['email'] });
+  } catch (error) {
+    failures.push(`channels: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  for (const subscription of subscriptions) {
+    if (!wantsAlert(subscription, 'price_watch')) {
+      continue;
+    }
+    const matching = alerts.filter(alert => tickerAllowed(subscription, alert.ticker));
+    if (matching.length === 0) {
+      continue;
+    }
+    try {
+      await sendPriceWatchAlerts(matching, config, { to: subscription.email });
+    } catch (error) {
+      failures.push(`${subscription.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new Error(`Price watch alerts failed for ${failures.length} subscriber(s): ${failures.join('; ')}`);
+  }
+}
+
 async function handlePriceWatchProcessing(
   config: Config,
+  subscriptions: Subscription[],
   requestLogger: ReturnType<typeof logger.withContext>,
   phase: string,
 ): Promise<PriceWatchProcessResult> {
@@ -284,7 +439,7 @@ async function handlePriceWatchProcessing(
 
     if (result.triggered.length > 0) {
       try {
-        await sendPriceWatchAlerts(result.triggered, config);
+        await routePriceWatchAlerts(result.triggered, config, subscriptions);
       } catch (error) {
         requestLogger.error('Failed to send price watch alerts', {
           phase,
@@ -304,6 +459,431 @@ async function handlePriceWatchProcessing(
   }
 }
 
+/**
+ * Adds this run's ticker mentions to the hourly counts and flags tickers whose current or
+ * previous hour runs well above the same hour on earlier days. Failures only cost the chatter
+ * section, never the run.
+ */
+async function detectUnusualChatter(
+  config: Config,
+  prefiltered: Prefiltered[],
+  requestLogger: ReturnType<typeof logger.withContext>,
+): Promise<MentionSpike[]> {
+  try {
+    const buckets = await recordTickerMentions(config, prefiltered.map(item => ({
+      postId: item.post.id,
+      createdUtc: item.post.createdUtc,
+      tickers: item.tickers,
+    })));
+    const recent = selectRecentBuckets(buckets, new Date());
+    if (recent.length === 0) {
+      return [];
+    }
+
+    const trackingStart = await getMentionTrackingStart(config);
+    const hours = new Set<string>();
+    recent.forEach(bucket => {
+      baselineHours(bucket.hourStart, MENTION_BASELINE_DAYS, trackingStart).forEach(hour => hours.add(hour));
+    });
+    const tickers = Array.from(new Set(recent.map(bucket => bucket.ticker)));
+    const history = await selectTickerMentionHistory(config, tickers, Array.from(hours));
+
+    const spikes = detectMentionSpikes(recent, history, {
+      zScore: config.app.mentionSpikeZScore,
+      minMentions: config.app.mentionSpikeMinMentions,
+      trackingStart,
+    });
+
+    requestLogger.info('Mention spike detection completed', {
+      bucketCount: buckets.length,
+      recentBucketCount: recent.length,
+      trackingStart,
+      spikes: spikes.map(spike => ({ ticker: spike.ticker, mentions: spike.mentions, zScore: Number(spike.zScore.toFixed(2)) })),
+    });
+    return spikes;
+  } catch (error) {
+    requestLogger.error('Mention spike detection failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return [];
+  }
+}
+
+function digestSelectOptions(config: Config) {
+  return {
+    minQuality: config.app.qualityThreshold,
+    minConfidence: config.app.minConfidenceForEmail,
+    flairs: {
+      include: config.app.emailIncludeFlairs,
+      exclude: config.app.emailExcludeFlairs,
+      boosts: config.app.flairBoosts,
+    },
+    assetClasses: config.app.alertAssetClasses,
+  };
+}
+
+// Posts released to the digest since `since`, for hourly and daily subscribers
+async function loadDigestRollup(
+  config: Config,
+  since: string,
+  requestLogger: ReturnType<typeof logger.withContext>,
+): Promise<EmailCandidate[]> {
+  const options = { ...digestSelectOptions(config), emailedSince: since };
+  const rollup = [
+    ...await selectForEmail(config, { ...options, direction: 'bullish' }),
+    ...await selectForEmail(config, { ...options, direction: 'bearish' }),
+  ];
+  if (rollup.length === 0) {
+    return rollup;
+  }
+
+  try {
+    const { annotated } = await annotateCandidatesWithPriceMove(rollup, config, requestLogger);
+    return annotated;
+  } catch (error) {
+    requestLogger.warn('Price move annotation failed for digest roll-up', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return rollup;
+  }
+}
+
+/**
+ * Builds each due subscriber's digest from the candidates and chatter matching their preferences.
+ * Realtime subscribers get this run's candidates; hourly and daily subscribers get everything
+ * released since their last digest plus this run's. Team channels (Slack, Discord, webhook) get
+ * the unfiltered digest once.
+ */
+async function buildSubscriberDigests(
+  config: Config,
+  subscriptions: Subscription[],
+  candidates: EmailCandidate[],
+  mentionSpikes: MentionSpike[],
+  now: Date,
+  requestLogger: ReturnType<typeof logger.withContext>,
+): Promise<{ messages: OutboxMessage[]; subscriptionIds: string[] }> {
+  let due = subscriptions.filter(subscription => isDigestDue(subscription, now));
+
+  let rollup: EmailCandidate[] = [];
+  const rollupSubscribers = due.filter(subscription => subscription.digestFrequency !== 'realtime');
+  if (rollupSubscribers.length > 0) {
+    const since = rollupSubscribers.map(subscription => digestWindowStart(subscription, now)).sort()[0];
+    try {
+      rollup = await loadDigestRollup(config, since, requestLogger);
+    } catch (error) {
+      // Left due, so they get the full roll-up on the next run
+      due = due.filter(subscription => subscription.digestFrequency === 'realtime');
+      requestLogger.error('Failed to load digest roll-up', {
+        since,
+        subscriberCount: rollupSubscribers.length,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  const candidateIds = new Set(candidates.map(c => c.post_id));
+  const messages: OutboxMessage[] = [];
+  const subscriptionIds: string[] = [];
+
+  for (const subscription of due) {
+    const windowStartMs = Date.parse(digestWindowStart(subscription, now));
+    const pool = subscription.digestFrequency === 'realtime'
+      ? candidates
+      : [
+        ...rollup.filter(c => !candidateIds.has(c.post_id) && c.emailed_at && Date.parse(c.emailed_at) > windowStartMs),
+        ...candidates,
+      ];
+    const picks = pool.filter(c => matchesSubscription(c, subscription));
+    const notification = composeDigestNotification(
+      picks.filter(c => c.direction !== 'bearish'),
+      picks.filter(c => c.direction === 'bearish'),
+      filterSpikesForSubscription(mentionSpikes, subscription),
+      now,
+      feedbackLinkSettings(config, subscription.id),
+    );
+    if (notification) {
+      messages.push({ notification, recipients: { to: subscription.email } });
+      subscriptionIds.push(subscription.id);
+    }
+  }
+
+  const broadcastTarget: NotificationTarget = { excludeChannels: ['email'] };
+  const broadcast = resolveChannels('digest', config, broadcastTarget).length > 0
+    ? composeDigestNotification(
+      candidates.filter(c => c.direction !== 'bearish'),
+      candidates.filter(c => c.direction === 'bearish'),
+      mentionSpikes,
+      now,
+      feedbackLinkSettings(config),
+    )
+    : null;
+  if (broadcast) {
+    messages.push({ notification: broadcast, recipients: broadcastTarget });
+  }
+
+  requestLogger.info('Subscriber digests built', {
+    subscriberCount: subscriptions.length,
+    dueCount: due.length,
+    rollupCount: rollup.length,
+    digestCount: subscriptionIds.length,
+    broadcast: broadcast !== null,
+  });
+
+  return { messages, subscriptionIds };
+}
+
+/**
+ * Claims the run's candidates and chatter and queues the digests carrying them in the outbox, in
+ * one transaction: to EMAIL_TO when nobody has subscribed, otherwise one per subscriber. The run's
+ * candidates are claimed even when no subscriber wanted them yet, so later roll-ups can include
+ * them. Returns null when there was nothing to claim, or an overlapping run claimed it first.
+ */
+async function deliverDigests(
+  config: Config,
+  subscriptions: Subscription[],
+  candidates: EmailCandidate[],
+  mentionSpikes: MentionSpike[],
+  requestLogger: ReturnType<typeof logger.withContext>,
+): Promise<DigestDelivery | null> {
+  const now = new Date();
+  let messages: OutboxMessage[] = [];
+  let subscriptionIds: string[] = [];
+
+  if (subscriptions.length > 0) {
+    ({ messages, subscriptionIds } = await buildSubscriberDigests(
+      config,
+      subscriptions,
+      candidates,
+      mentionSpikes,
+      now,
+      requestLogger,
+    ));
+  } else {
+    const notification = composeDigestNotification(
+      candidates.filter(c => c.direction !== 'bearish'),
+      candidates.filter(c => c.direction === 'bearish'),
+      mentionSpikes,
+      now,
+      feedbackLinkSettings(config),
+    );
+    messages = notification ? [{ notification, recipients: {} }] : [];
+  }
+
+  if (messages.length === 0 && candidates.length === 0) {
+    return null;
+  }
+
+  const sentAt = now.toISOString();
+  const queued = await claimDigest(config, {
+    messages: outboxMessagesByChannel(config, messages),
+    postIds: candidates.map(c => c.post_id),
+    subscriptionIds,
+    spikes: mentionSpikes,
+    claimedAtIso: sentAt,
+  });
+  if (!queued) {
+    return null;
+  }
+  return { sentAt, released: candidates, recipientCount: messages.length };
+}
+
+// Sender step: delivers queued messages, including retries of earlier runs' failures
+async function flushOutbox(
+  config: Config,
+  requestLogger: ReturnType<typeof logger.withContext>,
+): Promise<void> {
+  try {
+    const result = await deliverOutbox(config);
+    if (result.attempted > 0) {
+      requestLogger.info('Outbox delivered', { ...result });
+    }
+  } catch (error) {
+    requestLogger.error('Failed to deliver outbox', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+// Quiet hours hold everything; otherwise the schedule decides whether the whole queue or only
+// posts above the immediate bar go out
+async function resolveDigestRelease(
+  config: Config,
+  requestLogger: ReturnType<typeof logger.withContext>,
+): Promise<DigestRelease> {
+  const now = new Date();
+  try {
+    const lastRollupSlot = config.app.digestSchedule === 'realtime' ? null : await getLastDigestRollupSlot(config);
+    return planDigestRelease(config, now, lastRollupSlot);
+  } catch (error) {
+    requestLogger.error('Failed to load digest roll-up state; sending immediate posts only', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return isQuietHour(now, config.app.quietHours)
+      ? { kind: 'quiet' }
+      : { kind: 'immediate', minQuality: config.app.digestImmediateMinQuality };
+  }
+}
+
+/**
+ * Sends the digest with the queued posts this run may release: every unemailed post that passes
+ * the email filters on a roll-up, only those at the immediate quality bar between slots. Held posts
+ * keep emailed_at null and are selected again next run. Runs that end early call this too, so due
+ * roll-ups and unusual chatter still go out. Returns the number of posts released.
+ */
+async function releaseDigest(
+  config: Config,
+  subscriptions: Subscription[],
+  mentionSpikes: MentionSpike[],
+  requestLogger: ReturnType<typeof logger.withContext>,
+): Promise<number> {
+  const release = await resolveDigestRelease(config, requestLogger);
+  if (release.kind === 'quiet') {
+    requestLogger.info('Quiet hours; holding digest', {
+      quietHours: config.app.quietHours,
+      mentionSpikeCount: mentionSpikes.length,
+    });
+    return 0;
+  }
+
+  const selectOptions = digestSelectOptions(config);
+  const queued = [
+    ...await selectForEmail(config, { ...selectOptions, direction: 'bullish' }),
+    ...await selectForEmail(config, { ...selectOptions, direction: 'bearish' }),
+  ];
+  let emailCandidates = release.kind === 'rollup'
+    ? queued
+    : queued.filter(c => c.quality_score >= release.minQuality);
+  const heldCount = queued.length - emailCandidates.length;
+  if (heldCount > 0) {
+    requestLogger.info('Holding digest candidates for the next roll-up', {
+      heldCount,
+      immediateCount: emailCandidates.length,
+      digestSchedule: config.app.digestSchedule,
+      immediateMinQuality: config.app.digestImmediateMinQuality,
+    });
+  }
+
+  let emailedCount = 0;
+  let priceExceededCount = 0;
+  let priceDataUnavailable = 0;
+
+  if (emailCandidates.length > 0) {
+    try {
+      const { annotated, exceededCount, dataUnavailableCount } = await annotateCandidatesWithPriceMove(
+        emailCandidates,
+        config,
+        requestLogger,
+      );
+      emailCandidates = annotated;
+      priceExceededCount = exceededCount;
+      priceDataUnavailable = dataUnavailableCount;
+      requestLogger.info('Price move annotations completed', {
+        annotatedCount: annotated.length,
+        exceededThresholdCount: exceededCount,
+        dataUnavailableObservations: dataUnavailableCount,
+        thresholdPct: config.app.maxPriceMovePctForAlert,
+      });
+    } catch (error) {
+      requestLogger.error('Price move annotation failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  if (emailCandidates.length > 0) {
+    emailCandidates = await annotateCandidatesWithPumpRisk(emailCandidates, config, requestLogger);
+    const riskyCount = emailCandidates.filter(c => c.pumpRisk && c.pumpRisk.level !== 'low').length;
+
+    const suppressScore = config.app.pumpRiskSuppressScore;
+    const suppressed = suppressScore > 0
+      ? emailCandidates.filter(c => (c.pumpRisk?.score ?? 0) >= suppressScore)
+      : [];
+    if (suppressed.length > 0) {
+      emailCandidates = emailCandidates.filter(c => !suppressed.includes(c));
+      try {
+        await markPumpSuppressed(config, suppressed.map(c => ({ postId: c.post_id, risk: c.pumpRisk as PumpRisk })));
+      } catch (error) {
+        requestLogger.error('Failed to record pump risk suppression', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    requestLogger.info('Pump risk scoring completed', {
+      scoredCount: emailCandidates.length + suppressed.length,
+      riskyCount,
+      suppressedCount: suppressed.length,
+      suppressScore,
+    });
+  }
+
+  let delivery: DigestDelivery | null = null;
+  let deliveryFailed = false;
+  try {
+    delivery = await deliverDigests(config, subscriptions, emailCandidates, mentionSpikes, requestLogger);
+  } catch (error) {
+    deliveryFailed = true;
+    requestLogger.error('Failed to queue email digest', {
+      candidateCount: emailCandidates.length,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    // Don't fail the entire request if email fails; unclaimed posts are selected again next run
+  }
+
+  await flushOutbox(config, requestLogger);
+
+  if (delivery && delivery.released.length > 0) {
+    emailedCount = delivery.released.length;
+    requestLogger.info('Email digest queued', {
+      emailedCount,
+      bearishCount: delivery.released.filter(c => c.direction === 'bearish').length,
+      mentionSpikeCount: mentionSpikes.length,
+      recipientCount: delivery.recipientCount,
+      priceExceededCount,
+      priceDataUnavailable,
+    });
+
+    const watchSeeds = buildPriceWatchSeeds(delivery.released, delivery.sentAt);
+    if (watchSeeds.length > 0) {
+      try {
+        const scheduled = await schedulePriceWatches(config, watchSeeds, requestLogger);
+        requestLogger.info('Scheduled price watches for emailed candidates', {
+          scheduled,
+          seedCount: watchSeeds.length,
+        });
+        await handlePriceWatchProcessing(config, subscriptions, requestLogger, 'post-email');
+      } catch (error) {
+        requestLogger.error('Failed to schedule price watch tasks', {
+          seedCount: watchSeeds.length,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  } else if (delivery && mentionSpikes.length > 0) {
+    requestLogger.info('Unusual chatter queued', { mentionSpikeCount: mentionSpikes.length, recipientCount: delivery.recipientCount });
+  } else if (emailCandidates.length === 0 && heldCount === 0) {
+    requestLogger.info('No posts met email quality threshold', {
+      threshold: config.app.qualityThreshold,
+      priceExceededCount,
+      priceDataUnavailable,
+    });
+  }
+
+  // A failed roll-up leaves the slot open, so the next run retries it
+  if (release.kind === 'rollup' && config.app.digestSchedule !== 'realtime' && !deliveryFailed) {
+    try {
+      await setLastDigestRollupSlot(config, release.slot);
+    } catch (error) {
+      requestLogger.error('Failed to record digest roll-up slot', {
+        slot: release.slot,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return emailedCount;
+}
+
 function buildPriceWatchSeeds(
   candidates: EmailCandidate[],
   emailedAtIso: string,
@@ -334,6 +914,7 @@ function buildPriceWatchSeeds(
       seeds.push({
         postId: candidate.post_id,
         ticker,
+        direction: candidate.direction ?? 'bullish',
         qualityScore: quality,
         emailedAtIso,
         entryPrice: latestPrice,
@@ -344,8 +925,142 @@ function buildPriceWatchSeeds(
   return seeds;
 }
 
+async function attachCommentSignals(
+  config: Config,
+  candidates: Prefiltered[],
+  velocityByPostId: Map<string, number>,
+  requestLogger: ReturnType<typeof logger.withContext>,
+): Promise<void> {
+  if (config.app.commentsPerPost <= 0 || config.app.maxCommentPostsPerRun <= 0) {
+    return;
+  }
+
+  const selected = candidates
+    .filter(candidate => velocityByPostId.has(candidate.post.id))
+    .sort((a, b) => (velocityByPostId.get(b.post.id) ?? 0) - (velocityByPostId.get(a.post.id) ?? 0))
+    .slice(0, config.app.maxCommentPostsPerRun);
+
+  let analyzed = 0;
+  for (const candidate of selected) {
+    try {
+      const comments = await fetchTopComments(config, candidate.post.id, config.app.commentsPerPost);
+      candidate.comments = await analyzeComments(candidate, comments);
+      analyzed += 1;
+    } catch (error) {
+      requestLogger.warn('Skipping comment signals for post', {
+        postId: candidate.post.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  if (selected.length > 0) {
+    requestLogger.info('Comment signals attached', {
+      eligible: selected.length,
+      analyzed,
+      commentsPerPost: config.app.commentsPerPost,
+    });
+  }
+}
+
+// Re-classify posts that earlier runs could not get a valid LLM result for
+async function retryFailedClassifications(
+  config: Config,
+  requestLogger: ReturnType<typeof logger.withContext>,
+  runId: string,
+): Promise<number> {
+  try {
+    const retryItems = await selectPostsForLlmRetry(config, config.app.llmBatchSize);
+    if (retryItems.length === 0) {
+      return 0;
+    }
+
+    const spendCap = await getLlmSpendCapStatus(config);
+    if (spendCap.reached) {
+      requestLogger.info('Skipping LLM retries; daily spend cap reached', {
+        pendingRetries: retryItems.length,
+        spentTodayUsd: Number(spendCap.spentTodayUsd.toFixed(4)),
+      });
+      return 0;
+    }
+
+    const outcome = await classifyWithRecovery(
+      retryItems.map(item => llmItemFromStoredPost(item, config.app.llmMaxBodyChars)),
+      config,
+      {
+        runId,
+        maxAttempts: config.llm.maxAttempts,
+        priorAttempts: new Map(retryItems.map(item => [item.post_id, item.llm_attempts])),
+      },
+    );
+
+    await updateLlmOutcome(config, outcome.results, outcome.attempts);
+
+    requestLogger.info('Retried failed LLM classifications', {
+      retried: retryItems.length,
+      recovered: outcome.results.length,
+      stillFailing: outcome.failedPostIds.length,
+    });
+
+    return outcome.results.length;
+  } catch (error) {
+    requestLogger.error('LLM retry processing failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return 0;
+  }
+}
+
+// Drops go to the position's owner; without any subscriptions they still go to EMAIL_TO
+async function routePositionDropAlerts(
+  alerts: PositionDropAlertInfo[],
+  config: Config,
+  subscriptions: Subscription[],
+  requestLogger: ReturnType<typeof logger.withContext>,
+  phase: string,
+): Promise<void> {
+  if (subscriptions.length === 0) {
+    await sendPositionDropAlerts(alerts, config);
+    return;
+  }
+
+  const subscriptionByUser = new Map(subscriptions.map(subscription => [subscription.userId, subscription]));
+  const alertsByUser = new Map<string, PositionDropAlertInfo[]>();
+  alerts.forEach(alert => {
+    alertsByUser.set(alert.userId, [...(alertsByUser.get(alert.userId) ?? []), alert]);
+  });
+
+  const failures: string[] = [];
+  try {
+    await sendPositionDropAlerts(alerts, config, { excludeChannels: ['email'] });
+  } catch (error) {
+    failures.push(`channels: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  for (const [userId, userAlerts] of alertsByUser.entries()) {
+    const subscription = subscriptionByUser.get(userId);
+    if (!subscription || !wantsAlert(subscription, 'position_drop')) {
+      requestLogger.info('Skipping portfolio alerts for owner without a position-drop subscription', {
+        phase,
+        userId,
+        alertCount: userAlerts.length,
+      });
+      continue;
+    }
+    try {
+      await sendPositionDropAlerts(userAlerts, config, { to: subscription.email });
+    } catch (error) {
+      failures.push(`${userId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new Error(`Portfolio alerts failed for ${failures.length} owner(s): ${failures.join('; ')}`);
+  }
+}
+
 async function handlePortfolioWatchProcessing(
   config: Config,
+  subscriptions: Subscription[],
   requestLogger: ReturnType<typeof logger.withContext>,
   phase: string,
 ): Promise<void> {
@@ -364,7 +1079,7 @@ async function handlePortfolioWatchProcessing(
 
     if (result.alerts.length > 0) {
       try {
-        await sendPositionDropAlerts(result.alerts, config);
+        await routePositionDropAlerts(result.alerts, config, subscriptions, requestLogger, phase);
       } catch (error) {
         requestLogger.error('Failed to send portfolio position alerts', {
           phase,
@@ -403,8 +1118,30 @@ export async function handler(
       maxPosts: config.app.maxPostsPerRun,
     });
 
-    await handlePriceWatchProcessing(config, requestLogger, 'pre-run');
-    await handlePortfolioWatchProcessing(config, requestLogger, 'pre-run');
+    const subscriptions = await selectActiveSubscriptions(config);
+    if (subscriptions.length > 0) {
+      requestLogger.info('Loaded subscriptions', { subscriberCount: subscriptions.length });
+    }
+
+    await handlePriceWatchProcessing(config, subscriptions, requestLogger, 'pre-run');
+    await handlePortfolioWatchProcessing(config, subscriptions, requestLogger, 'pre-run');
+
+    // Replays outbox messages that ran out of attempts, then sends them
+    const replayOutboxFlag = (event as any)?.replayOutbox ?? (event as any)?.detail?.replayOutbox;
+    if (replayOutboxFlag) {
+      const ids = Array.isArray(replayOutboxFlag) ? replayOutboxFlag.filter((id: unknown): id is string => typeof id === 'string') : undefined;
+      const requeued = await requeueFailedOutbox(config, ids);
+      const result = await deliverOutbox(config);
+      requestLogger.info('Outbox replay completed', { requeued, ...result });
+      return {
+        ok: true,
+        fetched: 0,
+        candidates: 0,
+        llmClassified: 0,
+        emailed: result.sent,
+        executionTime: Date.now() - startTime,
+      };
+    }
 
     // Optional: test email path
     const testEmailFlag = (event as any)?.testEmail ?? (event as any)?.detail?.testEmail;
@@ -420,6 +1157,8 @@ export async function handler(
         detected_tickers: ['TEST'],
         llm_tickers: ['TEST'],
         quality_score: 5,
+        evidence_phrases: ['this is a test'],
+        confidence: 5,
         created_utc: nowIso,
       };
       await sendDigest([sample], config);
@@ -434,14 +1173,17 @@ export async function handler(
       };
     }
 
-    // Step 1: Get cursor and fetch new posts from Reddit
-    const sinceIso = await getCursor(config, 'last_cursor');
-    requestLogger.info('Starting Reddit fetch', { sinceIso });
+    // Posts earlier runs failed to classify get another go before new ones arrive
+    const llmRecovered = await retryFailedClassifications(config, requestLogger, context.awsRequestId);
+
+    // Step 1: Get per-subreddit cursors and fetch new posts from Reddit
+    const cursors = await getSubredditCursors(config, config.app.subreddits);
+    requestLogger.info('Starting Reddit fetch', { cursors: Object.fromEntries(cursors) });
 
     const posts = await fetchNew(
       config,
       config.app.subreddits,
-      sinceIso,
+      cursors,
       config.app.cronWindowMinutes,
       config.app.maxPostsPerRun,
     );
@@ -449,7 +1191,7 @@ export async function handler(
     requestLogger.info('Reddit fetch completed', { postCount: posts.length });
 
     if (posts.length === 0) {
-      await setCursor(config, 'last_cursor', []);
+      const emailed = await releaseDigest(config, subscriptions, [], requestLogger);
       const executionTime = Date.now() - startTime;
       requestLogger.info('No new posts found, ending early', { executionTime });
       return {
@@ -457,24 +1199,26 @@ export async function handler(
         fetched: 0,
         candidates: 0,
         llmClassified: 0,
-        emailed: 0,
+        emailed,
         executionTime,
       };
     }
 
-    // Step 2: Prefilter posts for tickers and upside language
+    // Step 2: Prefilter posts for tickers and upside/downside language
     requestLogger.info('Starting prefilter', { postCount: posts.length });
 
     const allPrefiltered = await prefilterBatch(posts);
 
     const nowMs = Date.now();
     const candidates: typeof allPrefiltered = [];
+    const gatedCandidates: typeof allPrefiltered = [];
+    const velocityByPostId = new Map<string, number>();
     let scoreQualified = 0;
     let velocityQualified = 0;
     let acceptedVelocitySum = 0;
 
     for (const item of allPrefiltered) {
-      if (item.tickers.length === 0 || item.upsideHits.length === 0) {
+      if (!hasDirectionalSignal(item, config.app.minClueScore)) {
         continue;
       }
 
@@ -488,11 +1232,14 @@ export async function handler(
 
       if (passesVelocity) {
         velocityQualified += 1;
+        velocityByPostId.set(item.post.id, votesPerMinute);
       }
 
       if (passesScore || passesVelocity) {
         candidates.push(item);
         acceptedVelocitySum += votesPerMinute;
+      } else {
+        gatedCandidates.push(item);
       }
     }
 
@@ -505,11 +1252,26 @@ export async function handler(
       minVotesPerMinute: config.app.minVotesPerMinuteForLlm,
       scoreQualified,
       velocityQualified,
+      gatedCount: gatedCandidates.length,
       averageVotesPerMinute: Number(averageVotesPerMinute.toFixed(2)),
     });
 
+    // Gated posts are kept so the rescore job can promote them if they pick up votes later
+    try {
+      await upsertGatedPosts(config, gatedCandidates);
+    } catch (error) {
+      requestLogger.warn('Failed to store gated posts', {
+        gatedCount: gatedCandidates.length,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    // Mentions are counted across every fetched post, so chatter is reported even when no post reaches the LLM
+    const mentionSpikes = await detectUnusualChatter(config, allPrefiltered, requestLogger);
+
     if (candidates.length === 0) {
-      await setCursor(config, 'last_cursor', posts);
+      await setSubredditCursors(config, posts);
+      const emailed = await releaseDigest(config, subscriptions, mentionSpikes, requestLogger);
       const executionTime = Date.now() - startTime;
       requestLogger.info('No candidates found after prefilter', { executionTime });
       return {
@@ -517,17 +1279,21 @@ export async function handler(
         fetched: posts.length,
         candidates: 0,
         llmClassified: 0,
-        emailed: 0,
+        emailed,
         executionTime,
       };
     }
 
-    // Step 3: Prepare items for LLM classification
+    // Step 3: Pull top comments for the fastest-moving candidates, then prepare LLM items
+    await attachCommentSignals(config, candidates, velocityByPostId, requestLogger);
+
     const llmItems = candidates.map(c => ({
       post_id: c.post.id,
       title: c.post.title,
       body: (c.post.selftext ?? '').slice(0, config.app.llmMaxBodyChars),
       tickers: c.tickers,
+      ...postMetadataForLlm(c.post),
+      ...(c.comments?.summary && { comments_summary: c.comments.summary }),
     }));
 
     // Step 4: Classify in batches to avoid token limits
@@ -536,7 +1302,11 @@ export async function handler(
       batchSize: config.app.llmBatchSize,
     });
 
-    const allResults = [];
+    let deferredFrom: number | null = null;
+
+    const allResults: LlmResult[] = [];
+    const llmAttempts = new Map<string, number>();
+    let llmFailed = 0;
     for (let i = 0; i < llmItems.length; i += config.app.llmBatchSize) {
       const batch = llmItems.slice(i, i + config.app.llmBatchSize);
       const batchLogger = requestLogger.withContext({
@@ -544,11 +1314,30 @@ export async function handler(
         batchSize: batch.length,
       });
 
+      const spendCap = await getLlmSpendCapStatus(config);
+      if (spendCap.reached) {
+        batchLogger.warn('LLM daily spend cap reached; deferring remaining posts', {
+          spentTodayUsd: Number(spendCap.spentTodayUsd.toFixed(4)),
+          spendCapUsd: config.llm.dailySpendCapUsd,
+          deferredCount: llmItems.length - i,
+        });
+        deferredFrom = i;
+        break;
+      }
+
       try {
         batchLogger.info('Processing LLM batch');
-        const batchResults = await classifyBatch(batch, config);
-        allResults.push(...batchResults);
-        batchLogger.info('LLM batch completed', { resultCount: batchResults.length });
+        const outcome = await classifyWithRecovery(batch, config, {
+          runId: context.awsRequestId,
+          maxAttempts: config.llm.maxAttempts,
+        });
+        allResults.push(...outcome.results);
+        outcome.attempts.forEach((count, postId) => llmAttempts.set(postId, count));
+        llmFailed += outcome.failedPostIds.length;
+        batchLogger.info('LLM batch completed', {
+          resultCount: outcome.results.length,
+          failedCount: outcome.failedPostIds.length,
+        });
       } catch (error) {
         batchLogger.error('LLM batch failed', {
           error: error instanceof Error ? error.message : 'Unknown error',
@@ -557,93 +1346,38 @@ export async function handler(
       }
     }
 
+    // Deferred posts are left out of the upsert and the cursor so the next run picks them up
+    const classifiedCandidates = deferredFrom === null ? candidates : candidates.slice(0, deferredFrom);
+    const deferredCandidates = deferredFrom === null ? [] : candidates.slice(deferredFrom);
+
     requestLogger.info('LLM classification completed', {
       totalResults: allResults.length,
       candidateCount: candidates.length,
+      deferredCount: deferredCandidates.length,
+      failedCount: llmFailed,
     });
 
-    // Step 5: Store results in database
-    await upsertPosts(config, candidates, allResults);
+    // Step 5: Store results in database (posts without a valid result are marked for retry)
+    await upsertPosts(config, classifiedCandidates, allResults, llmAttempts);
     requestLogger.info('Posts upserted to database');
 
-    // Step 6: Select and send email digest
-    let emailCandidates = await selectForEmail(config, {
-      minQuality: config.app.qualityThreshold,
-    });
-
-    let emailedCount = 0;
-    let priceExceededCount = 0;
-    let priceDataUnavailable = 0;
+    // Step 6: Send the digest with whatever queued posts are due (bullish picks plus a bearish section)
+    const emailedCount = await releaseDigest(config, subscriptions, mentionSpikes, requestLogger);
 
-    if (emailCandidates.length > 0) {
-      try {
-        const { annotated, exceededCount, dataUnavailableCount } = await annotateCandidatesWithPriceMove(
-          emailCandidates,
-          config,
-          requestLogger,
-        );
-        emailCandidates = annotated;
-        priceExceededCount = exceededCount;
-        priceDataUnavailable = dataUnavailableCount;
-        requestLogger.info('Price move annotations completed', {
-          annotatedCount: annotated.length,
-          exceededThresholdCount: exceededCount,
-          dataUnavailableObservations: dataUnavailableCount,
-          thresholdPct: config.app.maxPriceMovePctForAlert,
-        });
-      } catch (error) {
-        requestLogger.error('Price move annotation failed', {
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
+    // Step 7: Update cursors (stopping short of any posts deferred by the spend cap in that subreddit)
+    const earliestDeferredMs = new Map<string, number>();
+    for (const deferred of deferredCandidates) {
+      const createdMs = new Date(deferred.post.createdUtc).getTime();
+      const current = earliestDeferredMs.get(deferred.post.subreddit);
+      if (current === undefined || createdMs < current) {
+        earliestDeferredMs.set(deferred.post.subreddit, createdMs);
       }
     }
-
-    if (emailCandidates.length > 0) {
-      try {
-        await sendDigest(emailCandidates, config);
-        const emailSentAt = new Date().toISOString();
-        const postIds = emailCandidates.map(c => c.post_id);
-        await markEmailed(config, postIds, emailSentAt);
-        emailedCount = emailCandidates.length;
-        requestLogger.info('Email digest sent successfully', {
-          emailedCount,
-          priceExceededCount,
-          priceDataUnavailable,
-        });
-
-        const watchSeeds = buildPriceWatchSeeds(emailCandidates, emailSentAt);
-        if (watchSeeds.length > 0) {
-          try {
-            const scheduled = await schedulePriceWatches(config, watchSeeds, requestLogger);
-            requestLogger.info('Scheduled price watches for emailed candidates', {
-              scheduled,
-              seedCount: watchSeeds.length,
-            });
-            await handlePriceWatchProcessing(config, requestLogger, 'post-email');
-          } catch (error) {
-            requestLogger.error('Failed to schedule price watch tasks', {
-              seedCount: watchSeeds.length,
-              error: error instanceof Error ? error.message : 'Unknown error',
-            });
-          }
-        }
-      } catch (error) {
-        requestLogger.error('Failed to send email digest', {
-          candidateCount: emailCandidates.length,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
-        // Don't fail the entire request if email fails
-      }
-    } else {
-      requestLogger.info('No posts met email quality threshold', {
-        threshold: config.app.qualityThreshold,
-        priceExceededCount,
-        priceDataUnavailable,
-      });
-    }
-
-    // Step 7: Update cursor
-    await setCursor(config, 'last_cursor', posts);
+    const cursorPosts = posts.filter(p => {
+      const limitMs = earliestDeferredMs.get(p.subreddit);
+      return limitMs === undefined || new Date(p.createdUtc).getTime() < limitMs;
+    });
+    await setSubredditCursors(config, cursorPosts);
 
     const executionTime = Date.now() - startTime;
     const response: PollResponse = {
@@ -651,6 +1385,9 @@ export async function handler(
       fetched: posts.length,
       candidates: candidates.length,
       llmClassified: allResults.length,
+      llmDeferred: deferredCandidates.length,
+      llmFailed,
+      llmRecovered,
       emailed: emailedCount,
       executionTime,
     };
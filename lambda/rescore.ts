@@ -0,0 +1,123 @@
+import type { EventBridgeEvent, Context } from 'aws-lambda';
+import { parseEnv } from '../lib/config';
+import { fetchPostStats } from '../lib/reddit';
+import { classifyWithRecovery, getLlmSpendCapStatus, llmItemFromStoredPost } from '../lib/llm';
+import { selectPostsForRescore, recordPostSnapshots, updateLlmOutcome } from '../lib/db';
+import { buildPostSnapshots, selectPromotions } from '../lib/rescore';
+import { logger } from '../lib/logger';
+
+interface RescoreResponse {
+  ok: boolean;
+  rescored: number;
+  snapshots: number;
+  promoted: number;
+  llmClassified: number;
+  llmDeferred?: number;
+  error?: string;
+  executionTime?: number;
+}
+
+const MAX_RESCORE_POSTS = 500;
+
+export async function handler(
+  event: EventBridgeEvent<string, any>,
+  context: Context,
+): Promise<RescoreResponse> {
+  const startTime = Date.now();
+  const requestLogger = logger.withContext({
+    requestId: context.awsRequestId,
+    functionName: context.functionName,
+    source: event.source,
+  });
+
+  requestLogger.info('Rescore request started');
+
+  try {
+    const config = await parseEnv();
+    const nowMs = Date.now();
+    const sinceIso = new Date(nowMs - config.app.rescoreLookbackHours * 60 * 60 * 1000).toISOString();
+
+    // Step 1: Refresh Reddit stats for every post stored inside the lookback window
+    const items = await selectPostsForRescore(config, sinceIso, MAX_RESCORE_POSTS);
+    if (items.length === 0) {
+      const executionTime = Date.now() - startTime;
+      requestLogger.info('No recent posts to rescore', { sinceIso, executionTime });
+      return { ok: true, rescored: 0, snapshots: 0, promoted: 0, llmClassified: 0, executionTime };
+    }
+
+    const stats = await fetchPostStats(config, items.map(item => item.post_id));
+    const snapshots = buildPostSnapshots(items, stats, nowMs);
+    await recordPostSnapshots(config, snapshots);
+
+    requestLogger.info('Post stats refreshed', {
+      sinceIso,
+      postCount: items.length,
+      snapshotCount: snapshots.length,
+      missingCount: items.length - snapshots.length,
+    });
+
+    // Step 2: Promote gated posts that have since crossed the velocity gate
+    const promotions = selectPromotions(items, snapshots, config.app.minVotesPerMinuteForLlm);
+    let llmClassified = 0;
+    let llmDeferred = 0;
+
+    for (let i = 0; i < promotions.length; i += config.app.llmBatchSize) {
+      const batch = promotions.slice(i, i + config.app.llmBatchSize);
+
+      const spendCap = await getLlmSpendCapStatus(config);
+      if (spendCap.reached) {
+        // Deferred posts stay gated and are reconsidered on the next rescore
+        llmDeferred = promotions.length - i;
+        requestLogger.warn('LLM daily spend cap reached; deferring promotions', {
+          spentTodayUsd: Number(spendCap.spentTodayUsd.toFixed(4)),
+          spendCapUsd: config.llm.dailySpendCapUsd,
+          deferredCount: llmDeferred,
+        });
+        break;
+      }
+
+      const outcome = await classifyWithRecovery(
+        batch.map(item => llmItemFromStoredPost(item, config.app.llmMaxBodyChars)),
+        config,
+        { runId: context.awsRequestId, maxAttempts: config.llm.maxAttempts },
+      );
+
+      // Posts without a valid result move to 'failed' and join the poll's retry queue
+      await updateLlmOutcome(config, outcome.results, outcome.attempts);
+      llmClassified += outcome.results.length;
+    }
+
+    const executionTime = Date.now() - startTime;
+    const response: RescoreResponse = {
+      ok: true,
+      rescored: items.length,
+      snapshots: snapshots.length,
+      promoted: promotions.length,
+      llmClassified,
+      llmDeferred,
+      executionTime,
+    };
+
+    requestLogger.info('Rescore request completed successfully', response);
+    return response;
+
+  } catch (error) {
+    const executionTime = Date.now() - startTime;
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    requestLogger.error('Rescore request failed', {
+      error: errorMessage,
+      executionTime,
+    });
+
+    return {
+      ok: false,
+      rescored: 0,
+      snapshots: 0,
+      promoted: 0,
+      llmClassified: 0,
+      error: errorMessage,
+      executionTime,
+    };
+  }
+}
@@ -1,6 +1,7 @@
 import { Context } from 'aws-lambda';
 import { S3Client, PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
 import { logger } from '../lib/logger';
+import { normalizeTicker } from '../lib/tickers';
 
 export interface UpdateTickersEvent {
   dryRun?: boolean;
@@ -33,8 +34,8 @@ async function fetchTickersFromGitHub(): Promise<string[]> {
   const text = await response.text();
   const tickers = text
     .split('\n')
-    .map((line: string) => line.trim().toUpperCase())
-    .filter((ticker: string) => ticker && ticker.length >= 1 && ticker.length <= 5 && /^[A-Z0-9.-]+$/.test(ticker));
+    .map((line: string) => normalizeTicker(line))
+    .filter((ticker: string | null): ticker is string => Boolean(ticker));
 
   requestLogger.info('Successfully fetched tickers from GitHub', { count: tickers.length });
   return tickers;
@@ -49,14 +50,8 @@ async function filterTickers(tickers: string[]): Promise<string[]> {
         return false;
       }
 
-      // Skip tickers that are too short or too long
-      const tickerLength = ticker.length;
-      if (tickerLength < 1 || tickerLength > 5) {
-        return false;
-      }
-
-      // Skip tickers with invalid characters
-      if (!/^[A-Z0-9.-]+$/.test(ticker)) {
+      // Skip anything that is not a well-formed symbol (BRK-B and BRK.B both become BRK.B)
+      if (normalizeTicker(ticker) !== ticker) {
         return false;
       }
 
@@ -0,0 +1,89 @@
+// Author credibility from realized outcomes rather than how well-written the posts are. Each
+// performance report adds the authors' fresh outcomes to `author_reputation`; hit rate and average
+// return are shrunk toward a neutral prior so two lucky calls do not outrank fifty mediocre ones.
+
+import type { ClaimDirection } from './db';
+
+export interface AuthorOutcome {
+  author: string;
+  // Long return of the underlying as a fraction (0.05 = +5%), as stored in post_performance
+  returnPct: number;
+  direction: ClaimDirection;
+}
+
+export interface AuthorTotals {
+  sampleSize: number;
+  hitCount: number;
+  // Sum of direction-adjusted returns, as fractions
+  sumReturnPct: number;
+}
+
+export interface AuthorScorecard {
+  hitRate: number;
+  avgReturnPct: number;
+  shrunkHitRate: number;
+  shrunkAvgReturnPct: number;
+  // -1 (reliably wrong) to 1 (reliably right); 0 for authors with no record
+  credibility: number;
+}
+
+// A new author counts as this many coin-flip calls with a flat return until their own record outweighs it
+export const AUTHOR_PRIOR_STRENGTH = 10;
+const PRIOR_HIT_RATE = 0.5;
+const PRIOR_AVG_RETURN = 0;
+// Shrunk hit rate this far from the prior, or shrunk return this large, reaches full credibility
+const FULL_CREDIBILITY_HIT_RATE_DELTA = 0.25;
+const FULL_CREDIBILITY_RETURN = 0.1;
+// Largest ranking adjustment credibility can make, in quality-score points
+export const AUTHOR_RANKING_WEIGHT = 1.5;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+// Bearish calls win when the underlying falls, so their returns are flipped before scoring
+export function directionAdjustedReturn(outcome: AuthorOutcome): number {
+  return outcome.direction === 'bearish' ? -outcome.returnPct : outcome.returnPct;
+}
+
+export function accumulateAuthorOutcomes(outcomes: AuthorOutcome[]): Map<string, AuthorTotals> {
+  const totals = new Map<string, AuthorTotals>();
+  outcomes.forEach(outcome => {
+    if (!outcome.author || !Number.isFinite(outcome.returnPct)) {
+      return;
+    }
+    const adjusted = directionAdjustedReturn(outcome);
+    const current = totals.get(outcome.author) ?? { sampleSize: 0, hitCount: 0, sumReturnPct: 0 };
+    current.sampleSize += 1;
+    current.sumReturnPct += adjusted;
+    if (adjusted > 0) {
+      current.hitCount += 1;
+    }
+    totals.set(outcome.author, current);
+  });
+  return totals;
+}
+
+export function scoreAuthor(totals: AuthorTotals): AuthorScorecard {
+  const { sampleSize, hitCount, sumReturnPct } = totals;
+  const shrunkHitRate = (hitCount + AUTHOR_PRIOR_STRENGTH * PRIOR_HIT_RATE) / (sampleSize + AUTHOR_PRIOR_STRENGTH);
+  const shrunkAvgReturnPct = (sumReturnPct + AUTHOR_PRIOR_STRENGTH * PRIOR_AVG_RETURN) / (sampleSize + AUTHOR_PRIOR_STRENGTH);
+
+  const hitSignal = (shrunkHitRate - PRIOR_HIT_RATE) / FULL_CREDIBILITY_HIT_RATE_DELTA;
+  const returnSignal = (shrunkAvgReturnPct - PRIOR_AVG_RETURN) / FULL_CREDIBILITY_RETURN;
+
+  return {
+    hitRate: sampleSize > 0 ? hitCount / sampleSize : 0,
+    avgReturnPct: sampleSize > 0 ? sumReturnPct / sampleSize : 0,
+    shrunkHitRate,
+    shrunkAvgReturnPct,
+    credibility: clamp((hitSignal + returnSignal) / 2, -1, 1),
+  };
+}
+
+// Authors without a scorecard are neutral rather than penalized
+export function authorRankingBoost(credibility: number | null | undefined): number {
+  return typeof credibility === 'number' && Number.isFinite(credibility)
+    ? AUTHOR_RANKING_WEIGHT * clamp(credibility, -1, 1)
+    : 0;
+}
@@ -0,0 +1,89 @@
+// Scores a claim against the target and deadline its author stated ("PT $40 by March",
+// "double within 3 weeks") rather than the report's fixed two-week window.
+
+import type { DailyBar } from './tiingo';
+
+export interface StatedTarget {
+  stance: string | null;
+  price_target: number | null;
+  target_date: string | null;
+  horizon_days: number | null;
+  created_utc: string;
+}
+
+export interface TargetScore {
+  entryPrice: number;
+  deadlineClose: number;
+  // Underlying move from entry to the deadline close, whatever the claimed direction
+  movePct: number;
+  // With a price target: whether any session traded through it before the deadline.
+  // Without one: whether the deadline close is on the claimed side of the entry.
+  hit: boolean;
+  direction: 'up' | 'down';
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ET calendar date the claim comes due; an explicit date beats a span
+export function claimDeadline(target: StatedTarget): string | null {
+  if (target.target_date) {
+    return target.target_date.slice(0, 10);
+  }
+  if (!target.horizon_days) {
+    return null;
+  }
+  const createdMs = Date.parse(target.created_utc);
+  if (Number.isNaN(createdMs)) {
+    return null;
+  }
+  return new Date(createdMs + target.horizon_days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Daily bars are stamped at midnight UTC of their trading date, so entry and deadline
+ * are compared as YYYY-MM-DD strings. Entry is the open of the first session on or after
+ * `entryDate`; returns null when no sessions fall between entry and deadline.
+ */
+export function scoreAgainstTarget(
+  target: StatedTarget,
+  bars: DailyBar[],
+  entryDate: string,
+  deadline: string,
+): TargetScore | null {
+  const window = bars.filter(bar => {
+    const date = bar.timestamp.slice(0, 10);
+    return date >= entryDate && date <= deadline;
+  });
+  if (window.length === 0) {
+    return null;
+  }
+
+  const entryPrice = window[0].open > 0 ? window[0].open : window[0].close;
+  const deadlineClose = window[window.length - 1].close;
+  if (!(entryPrice > 0) || !(deadlineClose > 0)) {
+    return null;
+  }
+
+  // A target below the entry reads as a downside call even when the stance was left unclear
+  const direction = target.price_target
+    ? (target.price_target >= entryPrice ? 'up' : 'down')
+    : (target.stance === 'bearish' ? 'down' : 'up');
+
+  let hit: boolean;
+  if (target.price_target) {
+    const priceTarget = target.price_target;
+    hit = direction === 'up'
+      ? window.some(bar => bar.high >= priceTarget)
+      : window.some(bar => bar.low <= priceTarget);
+  } else {
+    hit = direction === 'up' ? deadlineClose > entryPrice : deadlineClose < entryPrice;
+  }
+
+  return {
+    entryPrice,
+    deadlineClose,
+    movePct: ((deadlineClose - entryPrice) / entryPrice) * 100,
+    hit,
+    direction,
+  };
+}
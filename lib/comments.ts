@@ -0,0 +1,118 @@
+import { phrasePattern, scanText, type Prefiltered } from './prefilter';
+import type { RedditComment } from './reddit';
+
+const MAX_SUMMARY_CHARS = 600;
+const MAX_QUOTED_COMMENTS = 3;
+const MAX_QUOTE_CHARS = 140;
+
+// Replies that push back on the post regardless of which direction it leans
+const DISAGREE_PHRASES = [
+  'disagree',
+  'no way',
+  'not a chance',
+  'this is wrong',
+  'you are wrong',
+  'you\'re wrong',
+  'delusional',
+  'cope',
+  'priced in',
+  'bagholder',
+  'bag holder',
+  'pump and dump',
+];
+const DISAGREE_PATTERNS = DISAGREE_PHRASES.map(phrasePattern);
+
+type Lean = 'bullish' | 'bearish' | 'neutral';
+
+export interface CommentSignals {
+  analyzed: number;
+  agreeCount: number;
+  disagreeCount: number;
+  tickers: string[];
+  upsideHits: number;
+  downsideHits: number;
+  summary: string;
+}
+
+function leanOf(upsideScore: number, downsideScore: number): Lean {
+  if (upsideScore > downsideScore) return 'bullish';
+  if (downsideScore > upsideScore) return 'bearish';
+  return 'neutral';
+}
+
+function truncate(text: string, maxChars: number): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > maxChars ? `${singleLine.slice(0, maxChars - 1)}…` : singleLine;
+}
+
+/**
+ * Scores a post's top comments against the direction the post leans. A comment
+ * agrees when its own clue score leans the same way and disagrees when it leans
+ * the other way or it uses an explicit push-back phrase.
+ */
+export async function analyzeComments(
+  candidate: Prefiltered,
+  comments: RedditComment[],
+): Promise<CommentSignals> {
+  const postLean = leanOf(candidate.upsideScore, candidate.downsideScore);
+  const tickers = new Set<string>();
+  let agreeCount = 0;
+  let disagreeCount = 0;
+  let upsideHits = 0;
+  let downsideHits = 0;
+
+  for (const comment of comments) {
+    const signals = await scanText(comment.body, candidate.post.subreddit);
+    signals.tickers.forEach(ticker => tickers.add(ticker));
+    upsideHits += signals.upsideHits.length;
+    downsideHits += signals.downsideHits.length;
+
+    // search() ignores the shared patterns' lastIndex, unlike test() on a global regex
+    const pushesBack = DISAGREE_PATTERNS.some(pattern => comment.body.search(pattern) !== -1);
+    const commentLean = leanOf(signals.upsideScore, signals.downsideScore);
+
+    if (postLean === 'neutral') {
+      continue;
+    }
+    if (pushesBack || (commentLean !== 'neutral' && commentLean !== postLean)) {
+      disagreeCount += 1;
+    } else if (commentLean === postLean) {
+      agreeCount += 1;
+    }
+  }
+
+  const signals: Omit<CommentSignals, 'summary'> = {
+    analyzed: comments.length,
+    agreeCount,
+    disagreeCount,
+    tickers: Array.from(tickers),
+    upsideHits,
+    downsideHits,
+  };
+
+  return { ...signals, summary: summarizeComments(signals, comments) };
+}
+
+// Condensed view of the thread for the LLM prompt
+export function summarizeComments(
+  signals: Omit<CommentSignals, 'summary'>,
+  comments: RedditComment[],
+): string {
+  if (signals.analyzed === 0) {
+    return '';
+  }
+
+  const parts = [
+    `${signals.analyzed} top comments: ${signals.agreeCount} agree, ${signals.disagreeCount} disagree`,
+  ];
+  if (signals.tickers.length > 0) {
+    parts.push(`tickers mentioned: ${signals.tickers.join(', ')}`);
+  }
+
+  const quotes = [...comments]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_QUOTED_COMMENTS)
+    .map(comment => `[${comment.score}] "${truncate(comment.body, MAX_QUOTE_CHARS)}"`);
+
+  return truncate(`${parts.join('; ')}. ${quotes.join(' ')}`, MAX_SUMMARY_CHARS);
+}
@@ -1,6 +1,33 @@
 import { logger } from './logger';
 import { SSMClient, GetParametersCommand } from '@aws-sdk/client-ssm';
 
+export const LLM_PROVIDERS = ['openai', 'anthropic', 'openai-compatible', 'stub'] as const;
+
+export type LlmProviderName = typeof LLM_PROVIDERS[number];
+
+// leveraged_etf covers inverse funds too (SQQQ, SOXS)
+export const ASSET_CLASSES = ['equity', 'etf', 'leveraged_etf', 'crypto'] as const;
+
+export type AssetClass = typeof ASSET_CLASSES[number];
+
+export const NOTIFICATION_CHANNELS = ['email', 'slack', 'discord', 'webhook'] as const;
+
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+
+export const MESSAGE_TYPES = ['digest', 'price_watch', 'position_drop', 'performance_report'] as const;
+
+export type MessageType = typeof MESSAGE_TYPES[number];
+
+export const DIGEST_SCHEDULES = ['realtime', 'hourly', 'twice_daily'] as const;
+
+export type DigestSchedule = typeof DIGEST_SCHEDULES[number];
+
+// Eastern hours; the window may wrap past midnight (22-7)
+export interface QuietHours {
+  startHour: number;
+  endHour: number;
+}
+
 export interface Config {
   // Reddit
   reddit: {
@@ -19,8 +46,22 @@ export interface Config {
 
   // LLM
   llm: {
-    provider: 'openai';
-    openaiApiKey: string;
+    provider: LlmProviderName;
+    openaiApiKey?: string;
+    anthropicApiKey?: string;
+    // OpenAI-compatible endpoint (e.g. a self-hosted model server)
+    baseUrl?: string;
+    apiKey?: string;
+    // Falls back to the provider's default model when unset
+    model?: string;
+    temperature: number;
+    maxTokens: number;
+    // 0 disables the cap
+    dailySpendCapUsd: number;
+    maxAttempts: number;
+    // Overrides for models missing from the built-in price table (USD per 1M tokens)
+    promptCostPerMtok?: number;
+    completionCostPerMtok?: number;
   };
 
   // Market data
@@ -33,6 +74,19 @@ export interface Config {
     resendApiKey: string;
     from: string;
     to: string;
+    // Function URL of the feedback Lambda; digest posts carry links to it signed with feedbackSecret
+    feedbackUrl?: string;
+    feedbackSecret?: string;
+  };
+
+  // Chat and webhook channels, and which channels each message type goes to
+  notifications: {
+    routes: Record<MessageType, NotificationChannel[]>;
+    slackWebhookUrl?: string;
+    discordWebhookUrl?: string;
+    // Generic JSON webhook, signed with HMAC-SHA256 using webhookSecret
+    webhookUrl?: string;
+    webhookSecret?: string;
   };
 
   // App settings
@@ -43,9 +97,32 @@ export interface Config {
     llmMaxBodyChars: number;
     minScoreForLlm: number;
     qualityThreshold: number;
+    minConfidenceForEmail: number;
     maxPostsPerRun: number;
     minVotesPerMinuteForLlm: number;
+    minClueScore: number;
     maxPriceMovePctForAlert: number;
+    commentsPerPost: number;
+    maxCommentPostsPerRun: number;
+    rescoreLookbackHours: number;
+    // Flair filters and ranking boosts for the digest (matched case-insensitively)
+    emailIncludeFlairs: string[];
+    emailExcludeFlairs: string[];
+    flairBoosts: Record<string, number>;
+    // Asset classes whose tickers may appear in alerts
+    alertAssetClasses: AssetClass[];
+    // Hourly mention counts at least this many standard deviations above the same hour's
+    // baseline, and at least this many mentions, count as unusual chatter
+    mentionSpikeZScore: number;
+    mentionSpikeMinMentions: number;
+    // Posts whose pump risk score (0-1) reaches this are left out of the digest; 0 only badges them
+    pumpRiskSuppressScore: number;
+    // Posts wait for the next hourly or twice-daily roll-up unless their quality reaches
+    // digestImmediateMinQuality; realtime releases everything on every run
+    digestSchedule: DigestSchedule;
+    digestImmediateMinQuality: number;
+    // No digest goes out inside this window; a slot that falls in it is sent when it ends
+    quietHours: QuietHours | null;
   };
 }
 
@@ -67,6 +144,16 @@ async function loadParameters(): Promise<Record<string, string>> {
     '/reddit-stock-watcher/SUPABASE_URL',
     '/reddit-stock-watcher/SUPABASE_API_KEY',
     '/reddit-stock-watcher/OPENAI_API_KEY',
+    '/reddit-stock-watcher/ANTHROPIC_API_KEY',
+    '/reddit-stock-watcher/LLM_BASE_URL',
+    '/reddit-stock-watcher/LLM_API_KEY',
+    '/reddit-stock-watcher/LLM_MODEL',
+    '/reddit-stock-watcher/LLM_TEMPERATURE',
+    '/reddit-stock-watcher/LLM_MAX_TOKENS',
+    '/reddit-stock-watcher/LLM_DAILY_SPEND_CAP_USD',
+    '/reddit-stock-watcher/LLM_MAX_ATTEMPTS',
+    '/reddit-stock-watcher/LLM_PROMPT_COST_PER_MTOK',
+    '/reddit-stock-watcher/LLM_COMPLETION_COST_PER_MTOK',
     '/reddit-stock-watcher/RESEND_API_KEY',
     '/reddit-stock-watcher/EMAIL_FROM',
     '/reddit-stock-watcher/EMAIL_TO',
@@ -75,12 +162,37 @@ async function loadParameters(): Promise<Record<string, string>> {
     '/reddit-stock-watcher/LLM_BATCH_SIZE',
     '/reddit-stock-watcher/MIN_SCORE_FOR_LLM',
     '/reddit-stock-watcher/QUALITY_THRESHOLD',
+    '/reddit-stock-watcher/MIN_CONFIDENCE_FOR_EMAIL',
     '/reddit-stock-watcher/MAX_POSTS_PER_RUN',
     '/reddit-stock-watcher/CRON_WINDOW_MINUTES',
     '/reddit-stock-watcher/LLM_MAX_BODY_CHARS',
     '/reddit-stock-watcher/TIINGO_API_KEY',
     '/reddit-stock-watcher/MIN_VOTES_PER_MINUTE_FOR_LLM',
     '/reddit-stock-watcher/MAX_PRICE_MOVE_PCT_FOR_ALERT',
+    '/reddit-stock-watcher/COMMENTS_PER_POST',
+    '/reddit-stock-watcher/MAX_COMMENT_POSTS_PER_RUN',
+    '/reddit-stock-watcher/RESCORE_LOOKBACK_HOURS',
+    '/reddit-stock-watcher/EMAIL_INCLUDE_FLAIRS',
+    '/reddit-stock-watcher/EMAIL_EXCLUDE_FLAIRS',
+    '/reddit-stock-watcher/FLAIR_BOOSTS',
+    '/reddit-stock-watcher/ALERT_ASSET_CLASSES',
+    '/reddit-stock-watcher/MIN_CLUE_SCORE',
+    '/reddit-stock-watcher/MENTION_SPIKE_Z_SCORE',
+    '/reddit-stock-watcher/MENTION_SPIKE_MIN_MENTIONS',
+    '/reddit-stock-watcher/PUMP_RISK_SUPPRESS_SCORE',
+    '/reddit-stock-watcher/NOTIFY_DIGEST',
+    '/reddit-stock-watcher/NOTIFY_PRICE_WATCH',
+    '/reddit-stock-watcher/NOTIFY_POSITION_DROP',
+    '/reddit-stock-watcher/NOTIFY_PERFORMANCE_REPORT',
+    '/reddit-stock-watcher/SLACK_WEBHOOK_URL',
+    '/reddit-stock-watcher/DISCORD_WEBHOOK_URL',
+    '/reddit-stock-watcher/WEBHOOK_URL',
+    '/reddit-stock-watcher/WEBHOOK_SECRET',
+    '/reddit-stock-watcher/DIGEST_SCHEDULE',
+    '/reddit-stock-watcher/DIGEST_IMMEDIATE_MIN_QUALITY',
+    '/reddit-stock-watcher/QUIET_HOURS_ET',
+    '/reddit-stock-watcher/FEEDBACK_URL',
+    '/reddit-stock-watcher/FEEDBACK_SECRET',
   ];
 
   try {
@@ -168,12 +280,112 @@ function getFloatParam(params: Record<string, string>, key: string, defaultValue
   return parsed;
 }
 
+function getOptionalFloatParam(params: Record<string, string>, key: string): number | undefined {
+  const value = params[key];
+  if (!value || value === 'REPLACE_ME') return undefined;
+
+  const parsed = parseFloat(value);
+  if (Number.isNaN(parsed)) {
+    logger.warn('Invalid float parameter', { key, value });
+    return undefined;
+  }
+  return parsed;
+}
+
+function getListParam(params: Record<string, string>, key: string, defaultValue: string = ''): string[] {
+  return getOptionalParam(params, key, defaultValue)
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+}
+
+// Parses "DD:1.5,Meme:-2" into { DD: 1.5, Meme: -2 }, skipping malformed entries
+function getWeightMapParam(params: Record<string, string>, key: string): Record<string, number> {
+  const weights: Record<string, number> = {};
+  for (const entry of getListParam(params, key)) {
+    const separator = entry.lastIndexOf(':');
+    const name = separator > 0 ? entry.slice(0, separator).trim() : '';
+    const weight = separator > 0 ? parseFloat(entry.slice(separator + 1)) : NaN;
+    if (!name || Number.isNaN(weight)) {
+      logger.warn('Invalid weight entry', { key, entry });
+      continue;
+    }
+    weights[name] = weight;
+  }
+  return weights;
+}
+
+function parseAssetClasses(values: string[]): AssetClass[] {
+  return values.map(value => {
+    const normalized = value.toLowerCase();
+    const match = ASSET_CLASSES.find(assetClass => assetClass === normalized);
+    if (!match) {
+      throw new Error(`ALERT_ASSET_CLASSES entries must be one of: ${ASSET_CLASSES.join(', ')}`);
+    }
+    return match;
+  });
+}
+
+function parseNotificationChannels(key: string, values: string[]): NotificationChannel[] {
+  const channels = values.map(value => {
+    const normalized = value.toLowerCase();
+    const match = NOTIFICATION_CHANNELS.find(channel => channel === normalized);
+    if (!match) {
+      throw new Error(`${key} entries must be one of: ${NOTIFICATION_CHANNELS.join(', ')}`);
+    }
+    return match;
+  });
+  return Array.from(new Set(channels));
+}
+
+// NOTIFY_DIGEST, NOTIFY_PRICE_WATCH, ... each list the channels for one message type (default: email)
+function getNotificationRoutes(params: Record<string, string>): Record<MessageType, NotificationChannel[]> {
+  const routes = {} as Record<MessageType, NotificationChannel[]>;
+  MESSAGE_TYPES.forEach(type => {
+    const key = `NOTIFY_${type.toUpperCase()}`;
+    routes[type] = parseNotificationChannels(key, getListParam(params, key, 'email'));
+  });
+  return routes;
+}
+
+function parseDigestSchedule(value: string): DigestSchedule {
+  const normalized = value.trim().toLowerCase();
+  const match = DIGEST_SCHEDULES.find(schedule => schedule === normalized);
+  if (!match) {
+    throw new Error(`DIGEST_SCHEDULE must be one of: ${DIGEST_SCHEDULES.join(', ')}`);
+  }
+  return match;
+}
+
+// Parses "22-7" into { startHour: 22, endHour: 7 }; empty means no quiet hours
+function parseQuietHours(value: string): QuietHours | null {
+  if (!value.trim()) {
+    return null;
+  }
+  const match = value.trim().match(/^(\d{1,2})\s*-\s*(\d{1,2})$/);
+  const startHour = match ? parseInt(match[1], 10) : NaN;
+  const endHour = match ? parseInt(match[2], 10) : NaN;
+  if (!match || startHour > 23 || endHour > 23 || startHour === endHour) {
+    throw new Error('QUIET_HOURS_ET must be two different Eastern hours (0-23) like 22-7');
+  }
+  return { startHour, endHour };
+}
+
+function parseLlmProvider(value: string): LlmProviderName {
+  const normalized = value.trim().toLowerCase();
+  const match = LLM_PROVIDERS.find(provider => provider === normalized);
+  if (!match) {
+    throw new Error(`LLM_PROVIDER must be one of: ${LLM_PROVIDERS.join(', ')}`);
+  }
+  return match;
+}
+
 export async function parseEnv(): Promise<Config> {
   logger.info('Parsing environment configuration');
 
   try {
     const params = await loadParameters();
-    const llmProvider = 'openai' as const;
+    const llmProvider = parseLlmProvider(getOptionalParam(params, 'LLM_PROVIDER', 'openai'));
 
     const config: Config = {
       reddit: {
@@ -191,7 +403,23 @@ export async function parseEnv(): Promise<Config> {
 
       llm: {
         provider: llmProvider,
-        openaiApiKey: getRequiredParam(params, 'OPENAI_API_KEY'),
+        openaiApiKey: llmProvider === 'openai'
+          ? getRequiredParam(params, 'OPENAI_API_KEY')
+          : getOptionalParam(params, 'OPENAI_API_KEY') || undefined,
+        anthropicApiKey: llmProvider === 'anthropic'
+          ? getRequiredParam(params, 'ANTHROPIC_API_KEY')
+          : getOptionalParam(params, 'ANTHROPIC_API_KEY') || undefined,
+        baseUrl: llmProvider === 'openai-compatible'
+          ? getRequiredParam(params, 'LLM_BASE_URL')
+          : getOptionalParam(params, 'LLM_BASE_URL') || undefined,
+        apiKey: getOptionalParam(params, 'LLM_API_KEY') || undefined,
+        model: getOptionalParam(params, 'LLM_MODEL') || undefined,
+        temperature: getFloatParam(params, 'LLM_TEMPERATURE', 0.2),
+        maxTokens: getIntParam(params, 'LLM_MAX_TOKENS', 4096),
+        dailySpendCapUsd: getFloatParam(params, 'LLM_DAILY_SPEND_CAP_USD', 0),
+        maxAttempts: getIntParam(params, 'LLM_MAX_ATTEMPTS', 6),
+        promptCostPerMtok: getOptionalFloatParam(params, 'LLM_PROMPT_COST_PER_MTOK'),
+        completionCostPerMtok: getOptionalFloatParam(params, 'LLM_COMPLETION_COST_PER_MTOK'),
       },
 
       marketData: {
@@ -202,6 +430,16 @@ export async function parseEnv(): Promise<Config> {
         resendApiKey: getRequiredParam(params, 'RESEND_API_KEY'),
         from: getRequiredParam(params, 'EMAIL_FROM'),
         to: getRequiredParam(params, 'EMAIL_TO'),
+        feedbackUrl: getOptionalParam(params, 'FEEDBACK_URL') || undefined,
+        feedbackSecret: getOptionalParam(params, 'FEEDBACK_SECRET') || undefined,
+      },
+
+      notifications: {
+        routes: getNotificationRoutes(params),
+        slackWebhookUrl: getOptionalParam(params, 'SLACK_WEBHOOK_URL') || undefined,
+        discordWebhookUrl: getOptionalParam(params, 'DISCORD_WEBHOOK_URL') || undefined,
+        webhookUrl: getOptionalParam(params, 'WEBHOOK_URL') || undefined,
+        webhookSecret: getOptionalParam(params, 'WEBHOOK_SECRET') || undefined,
       },
 
       app: {
@@ -211,9 +449,24 @@ export async function parseEnv(): Promise<Config> {
         llmMaxBodyChars: getIntParam(params, 'LLM_MAX_BODY_CHARS', 2000),
         minScoreForLlm: getIntParam(params, 'MIN_SCORE_FOR_LLM', 1),
         qualityThreshold: getIntParam(params, 'QUALITY_THRESHOLD', 3),
+        minConfidenceForEmail: getIntParam(params, 'MIN_CONFIDENCE_FOR_EMAIL', 0),
         maxPostsPerRun: getIntParam(params, 'MAX_POSTS_PER_RUN', 120),
         minVotesPerMinuteForLlm: getFloatParam(params, 'MIN_VOTES_PER_MINUTE_FOR_LLM', 0.5),
+        minClueScore: getFloatParam(params, 'MIN_CLUE_SCORE', 0.5),
         maxPriceMovePctForAlert: getFloatParam(params, 'MAX_PRICE_MOVE_PCT_FOR_ALERT', 0.07),
+        commentsPerPost: getIntParam(params, 'COMMENTS_PER_POST', 10),
+        maxCommentPostsPerRun: getIntParam(params, 'MAX_COMMENT_POSTS_PER_RUN', 10),
+        rescoreLookbackHours: getIntParam(params, 'RESCORE_LOOKBACK_HOURS', 24),
+        emailIncludeFlairs: getListParam(params, 'EMAIL_INCLUDE_FLAIRS'),
+        emailExcludeFlairs: getListParam(params, 'EMAIL_EXCLUDE_FLAIRS'),
+        flairBoosts: getWeightMapParam(params, 'FLAIR_BOOSTS'),
+        alertAssetClasses: parseAssetClasses(getListParam(params, 'ALERT_ASSET_CLASSES', ASSET_CLASSES.join(','))),
+        mentionSpikeZScore: getFloatParam(params, 'MENTION_SPIKE_Z_SCORE', 3),
+        mentionSpikeMinMentions: getIntParam(params, 'MENTION_SPIKE_MIN_MENTIONS', 5),
+        pumpRiskSuppressScore: getFloatParam(params, 'PUMP_RISK_SUPPRESS_SCORE', 0),
+        digestSchedule: parseDigestSchedule(getOptionalParam(params, 'DIGEST_SCHEDULE', 'realtime')),
+        digestImmediateMinQuality: getIntParam(params, 'DIGEST_IMMEDIATE_MIN_QUALITY', 5),
+        quietHours: parseQuietHours(getOptionalParam(params, 'QUIET_HOURS_ET')),
       },
     };
 
@@ -226,10 +479,30 @@ export async function parseEnv(): Promise<Config> {
       throw new Error('QUALITY_THRESHOLD must be between 0 and 5');
     }
 
+    if (config.app.minConfidenceForEmail < 0 || config.app.minConfidenceForEmail > 5) {
+      throw new Error('MIN_CONFIDENCE_FOR_EMAIL must be between 0 and 5');
+    }
+
     if (config.app.subreddits.length === 0) {
       throw new Error('At least one subreddit must be specified in SUBREDDITS');
     }
 
+    if (config.llm.temperature < 0 || config.llm.temperature > 2) {
+      throw new Error('LLM_TEMPERATURE must be between 0 and 2');
+    }
+
+    if (config.llm.maxTokens <= 0) {
+      throw new Error('LLM_MAX_TOKENS must be greater than 0');
+    }
+
+    if (config.llm.dailySpendCapUsd < 0) {
+      throw new Error('LLM_DAILY_SPEND_CAP_USD must be non-negative');
+    }
+
+    if (config.llm.maxAttempts <= 0) {
+      throw new Error('LLM_MAX_ATTEMPTS must be greater than 0');
+    }
+
     if (config.app.minVotesPerMinuteForLlm < 0) {
       throw new Error('MIN_VOTES_PER_MINUTE_FOR_LLM must be non-negative');
     }
@@ -238,13 +511,76 @@ export async function parseEnv(): Promise<Config> {
       throw new Error('MAX_PRICE_MOVE_PCT_FOR_ALERT must be non-negative');
     }
 
+    if (config.app.commentsPerPost < 0 || config.app.maxCommentPostsPerRun < 0) {
+      throw new Error('COMMENTS_PER_POST and MAX_COMMENT_POSTS_PER_RUN must be non-negative');
+    }
+
+    if (config.app.minClueScore <= 0) {
+      throw new Error('MIN_CLUE_SCORE must be greater than 0');
+    }
+
+    if (config.app.rescoreLookbackHours <= 0) {
+      throw new Error('RESCORE_LOOKBACK_HOURS must be greater than 0');
+    }
+
+    if (config.app.alertAssetClasses.length === 0) {
+      throw new Error('ALERT_ASSET_CLASSES must name at least one asset class');
+    }
+
+    if (config.app.mentionSpikeZScore <= 0) {
+      throw new Error('MENTION_SPIKE_Z_SCORE must be greater than 0');
+    }
+
+    if (config.app.mentionSpikeMinMentions <= 0) {
+      throw new Error('MENTION_SPIKE_MIN_MENTIONS must be greater than 0');
+    }
+
+    if (config.app.pumpRiskSuppressScore < 0 || config.app.pumpRiskSuppressScore > 1) {
+      throw new Error('PUMP_RISK_SUPPRESS_SCORE must be between 0 and 1');
+    }
+
+    // 6 is above any quality score, so every post waits for the roll-up
+    if (config.app.digestImmediateMinQuality < 0 || config.app.digestImmediateMinQuality > 6) {
+      throw new Error('DIGEST_IMMEDIATE_MIN_QUALITY must be between 0 and 6');
+    }
+
+    const routedChannels = new Set(Object.values(config.notifications.routes).flat());
+    if (routedChannels.has('slack') && !config.notifications.slackWebhookUrl) {
+      throw new Error('SLACK_WEBHOOK_URL is required when a NOTIFY_* parameter routes to slack');
+    }
+
+    if (routedChannels.has('discord') && !config.notifications.discordWebhookUrl) {
+      throw new Error('DISCORD_WEBHOOK_URL is required when a NOTIFY_* parameter routes to discord');
+    }
+
+    if (routedChannels.has('webhook') && (!config.notifications.webhookUrl || !config.notifications.webhookSecret)) {
+      throw new Error('WEBHOOK_URL and WEBHOOK_SECRET are required when a NOTIFY_* parameter routes to webhook');
+    }
+
+    if (config.email.feedbackUrl && !config.email.feedbackSecret) {
+      throw new Error('FEEDBACK_SECRET is required when FEEDBACK_URL is set');
+    }
+
     logger.info('Configuration parsed successfully', {
       subredditCount: config.app.subreddits.length,
       llmProvider: config.llm.provider,
+      llmModel: config.llm.model ?? 'provider-default',
+      llmDailySpendCapUsd: config.llm.dailySpendCapUsd,
       batchSize: config.app.llmBatchSize,
       qualityThreshold: config.app.qualityThreshold,
+      minConfidenceForEmail: config.app.minConfidenceForEmail,
       minVotesPerMinuteForLlm: config.app.minVotesPerMinuteForLlm,
+      minClueScore: config.app.minClueScore,
       maxPriceMovePctForAlert: config.app.maxPriceMovePctForAlert,
+      alertAssetClasses: config.app.alertAssetClasses,
+      mentionSpikeZScore: config.app.mentionSpikeZScore,
+      mentionSpikeMinMentions: config.app.mentionSpikeMinMentions,
+      pumpRiskSuppressScore: config.app.pumpRiskSuppressScore,
+      notificationRoutes: config.notifications.routes,
+      digestSchedule: config.app.digestSchedule,
+      digestImmediateMinQuality: config.app.digestImmediateMinQuality,
+      quietHours: config.app.quietHours,
+      feedbackLinks: Boolean(config.email.feedbackUrl),
     });
 
     return config;
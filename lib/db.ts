@@ -1,9 +1,24 @@
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 import { logger } from './logger';
-import type { Config } from './config';
-import type { Prefiltered } from './prefilter';
-import type { LlmResult } from './llm';
+import type { AssetClass, Config } from './config';
+import type { Prefiltered, TickerDetection } from './prefilter';
+import type { CatalystType, LlmResult } from './llm';
 import type { TiingoTickerContext } from './tiingo';
+import type { Post, PostType } from './reddit';
+import { assetClassOf } from './tickers';
+import {
+  nextOptionDueDate,
+  parseStoredOptionContracts,
+  parseStoredOptionOutcomes,
+  type OptionContract,
+  type StoredOptionOutcome,
+} from './options';
+import { hourStartOf, type MentionBucket, type MentionCount, type MentionPost, type MentionSpike } from './mentions';
+import { authorRankingBoost, scoreAuthor } from './author-reputation';
+import type { PumpRisk } from './pump-risk';
+import { ALERT_TYPES, DIGEST_FREQUENCIES, type AlertType, type DigestFrequency, type Subscription } from './subscriptions';
+import type { OutboxEntry, OutboxMessage } from './outbox';
+import { feedbackRankingBoost, type FeedbackLink } from './feedback';
 
 let supabaseClient: SupabaseClient | null = null;
 
@@ -27,6 +42,39 @@ export function __setSupabaseClient(client: SupabaseClient): void {
   supabaseClient = client;
 }
 
+// 'failed' posts are retried by later runs; 'exhausted' ones have used up LLM_MAX_ATTEMPTS.
+// 'gated' posts had a directional signal but too little engagement to classify yet.
+export type LlmStatus = 'classified' | 'failed' | 'exhausted' | 'gated';
+
+const LINK_METADATA_SELECT = 'flair, post_type, link_url, link_domain';
+
+export interface LlmRetryItem {
+  post_id: string;
+  title: string;
+  body: string;
+  detected_tickers: string[];
+  llm_attempts: number;
+  flair: string | null;
+  post_type: PostType | null;
+  link_url: string | null;
+  link_domain: string | null;
+  created_utc: string;
+}
+
+export interface RescoreItem extends LlmRetryItem {
+  score: number;
+  llm_status: LlmStatus | null;
+}
+
+export interface PostSnapshot {
+  post_id: string;
+  observed_at: string;
+  score: number;
+  upvote_ratio: number | null;
+  num_comments: number | null;
+  votes_per_minute: number | null;
+}
+
 export interface DatabasePost {
   post_id: string;
   title: string;
@@ -36,26 +84,63 @@ export interface DatabasePost {
   url: string;
   created_utc: string;
   score: number;
+  post_type: PostType | null;
+  link_url: string | null;
+  link_domain: string | null;
+  flair: string | null;
+  crosspost_parent: string | null;
   detected_tickers: string[];
+  ticker_detections: TickerDetection[];
+  option_contracts: OptionContract[];
   llm_tickers: string[];
   is_future_upside_claim: boolean | null;
+  is_future_downside_claim: boolean | null;
   stance: string | null;
   reason: string | null;
   quality_score: number | null;
+  evidence_phrases: string[];
+  confidence: number | null;
+  price_target: number | null;
+  target_date: string | null;
+  horizon_days: number | null;
+  catalyst_type: CatalystType | null;
+  target_evaluated_at: string | null;
+  target_hit: boolean | null;
+  target_return_pct: number | null;
+  llm_status: LlmStatus | null;
+  llm_attempts: number;
+  comments_analyzed: number | null;
+  comment_agree_count: number | null;
+  comment_disagree_count: number | null;
+  comment_tickers: string[];
   emailed_at: string | null;
   processed_at: string;
 }
 
+export type ClaimDirection = 'bullish' | 'bearish';
+
 export interface EmailCandidate {
   post_id: string;
+  direction?: ClaimDirection;
   title: string;
+  // Only read when clustering near-duplicates into stories; never shown in the digest
+  body?: string;
+  subreddit?: string | null;
+  author?: string | null;
   url: string;
   reason: string;
   tickers: string[];
   llm_tickers: string[];
   detected_tickers: string[];
   quality_score: number;
+  evidence_phrases: string[];
+  confidence: number | null;
   created_utc: string;
+  // Set once the post has gone out in a digest; roll-ups select on it
+  emailed_at?: string | null;
+  flair?: string | null;
+  option_contracts?: OptionContract[];
+  catalyst_type?: CatalystType | null;
   priceInsights?: Array<{
     ticker: string;
     entryPrice?: number | null;
@@ -65,6 +150,10 @@ export interface EmailCandidate {
     movePct?: number | null;
     exceedsThreshold?: boolean;
     dataUnavailable?: boolean;
+    // Pump risk inputs measured from the same intraday bars and fundamentals
+    priceExtensionPct?: number | null;
+    volumeRatio?: number | null;
+    marketCapUsd?: number | null;
   }>;
   priceAlert?: {
     thresholdPct: number;
@@ -77,6 +166,15 @@ export interface EmailCandidate {
     roiBoost: number;
   };
   tiingoContext?: TiingoTickerContext[];
+  pumpRisk?: PumpRisk;
+}
+
+// Case-insensitive flair rules for selectForEmail. Posts without a flair only
+// pass an include list when it is empty.
+export interface FlairPreferences {
+  include?: string[];
+  exclude?: string[];
+  boosts?: Record<string, number>;
 }
 
 export interface PerformanceRecord {
@@ -93,6 +191,16 @@ export interface PerformanceRecord {
   author?: string | null;
 }
 
+export interface LlmUsageRecord {
+  runId?: string | null;
+  provider: string;
+  model: string;
+  batchSize: number;
+  promptTokens: number;
+  completionTokens: number;
+  estimatedCostUsd: number;
+}
+
 export interface TickerPerformanceIncrement {
   ticker: string;
   sampleSize: number;
@@ -101,6 +209,15 @@ export interface TickerPerformanceIncrement {
   lastRunDate?: string | null;
 }
 
+export interface AuthorReputationIncrement {
+  author: string;
+  sampleSize: number;
+  hitCount: number;
+  // Direction-adjusted returns, as fractions
+  sumReturnPct: number;
+  lastRunDate?: string | null;
+}
+
 export async function getCursor(config: Config, key: string): Promise<string> {
   const supabase = getSupabaseClient(config);
 
@@ -179,10 +296,138 @@ export async function setCursor(
   }
 }
 
+// Single global cursor from before per-subreddit cursors; only read as a fallback
+const LEGACY_CURSOR_KEY = 'last_cursor';
+const EPOCH_CURSOR = '1970-01-01T00:00:00Z';
+
+export function subredditCursorKey(subreddit: string): string {
+  return `cursor:${subreddit.toLowerCase()}`;
+}
+
+// Subreddits without a cursor of their own start from the legacy global cursor
+export async function getSubredditCursors(
+  config: Config,
+  subreddits: string[],
+): Promise<Map<string, string>> {
+  const supabase = getSupabaseClient(config);
+
+  try {
+    const keys = subreddits.map(subredditCursorKey);
+    const { data, error } = await supabase
+      .from('app_meta')
+      .select('key, value')
+      .in('key', [...keys, LEGACY_CURSOR_KEY]);
+
+    if (error) {
+      throw error;
+    }
+
+    const valuesByKey = new Map<string, string>();
+    (data ?? []).forEach((row: any) => {
+      const createdUtc = row?.value?.created_utc;
+      if (typeof createdUtc === 'string') {
+        valuesByKey.set(row.key, createdUtc);
+      }
+    });
+
+    const fallback = valuesByKey.get(LEGACY_CURSOR_KEY) ?? EPOCH_CURSOR;
+    const cursors = new Map(subreddits.map(subreddit => [
+      subreddit,
+      valuesByKey.get(subredditCursorKey(subreddit)) ?? fallback,
+    ]));
+
+    logger.debug('Retrieved subreddit cursors', { cursors: Object.fromEntries(cursors) });
+    return cursors;
+
+  } catch (error) {
+    logger.error('Failed to get subreddit cursors', {
+      subreddits,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new Error(`Failed to get subreddit cursors: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Advances each subreddit's cursor to the newest of its posts in the given list
+export async function setSubredditCursors(
+  config: Config,
+  posts: { subreddit: string; createdUtc: string }[],
+): Promise<void> {
+  const postsBySubreddit = new Map<string, { createdUtc: string }[]>();
+  for (const post of posts) {
+    const group = postsBySubreddit.get(post.subreddit) ?? [];
+    group.push(post);
+    postsBySubreddit.set(post.subreddit, group);
+  }
+
+  for (const [subreddit, group] of postsBySubreddit) {
+    await setCursor(config, subredditCursorKey(subreddit), group);
+  }
+}
+
+const DIGEST_ROLLUP_KEY = 'digest_rollup';
+
+// Slot of the last scheduled digest roll-up that went out, or null before the first one
+export async function getLastDigestRollupSlot(config: Config): Promise<string | null> {
+  const supabase = getSupabaseClient(config);
+
+  try {
+    const { data, error } = await supabase
+      .from('app_meta')
+      .select('value')
+      .eq('key', DIGEST_ROLLUP_KEY)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') { // No rows returned
+        return null;
+      }
+      throw error;
+    }
+
+    const slot = (data as any)?.value?.slot;
+    return typeof slot === 'string' ? slot : null;
+
+  } catch (error) {
+    logger.error('Failed to get last digest roll-up', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new Error(`Failed to get last digest roll-up: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export async function setLastDigestRollupSlot(config: Config, slotIso: string): Promise<void> {
+  const supabase = getSupabaseClient(config);
+
+  try {
+    const { error } = await supabase
+      .from('app_meta')
+      .upsert({
+        key: DIGEST_ROLLUP_KEY,
+        value: { slot: slotIso } as any,
+        updated_at: new Date().toISOString(),
+      } as any);
+
+    if (error) {
+      throw error;
+    }
+
+    logger.debug('Recorded digest roll-up slot', { slot: slotIso });
+
+  } catch (error) {
+    logger.error('Failed to record digest roll-up', {
+      slot: slotIso,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new Error(`Failed to record digest roll-up: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 export async function upsertPosts(
   config: Config,
   candidates: Prefiltered[],
   results: LlmResult[],
+  attempts?: Map<string, number>,
 ): Promise<void> {
   if (candidates.length === 0) {
     logger.debug('No candidates to upsert');
@@ -196,6 +441,7 @@ export async function upsertPosts(
 
     const rows = candidates.map(candidate => {
       const llmResult = resultsById.get(candidate.post.id);
+      const llmAttempts = attempts?.get(candidate.post.id) ?? 1;
 
       return {
         post_id: candidate.post.id,
@@ -206,12 +452,29 @@ export async function upsertPosts(
         url: candidate.post.url,
         created_utc: candidate.post.createdUtc,
         score: candidate.post.score,
+        ...linkMetadataColumns(candidate.post),
         detected_tickers: candidate.tickers,
+        ticker_detections: candidate.tickerDetections ?? [],
+        option_contracts: candidate.optionContracts ?? [],
+        option_due_date: nextOptionDueDate(candidate.optionContracts ?? []),
         llm_tickers: llmResult?.tickers ?? [],
         is_future_upside_claim: llmResult?.is_future_upside_claim ?? null,
+        is_future_downside_claim: llmResult?.is_future_downside_claim ?? (llmResult ? false : null),
         stance: llmResult?.stance ?? null,
         reason: llmResult?.reason ?? null,
         quality_score: llmResult?.quality_score ?? null,
+        evidence_phrases: llmResult?.evidence_phrases ?? [],
+        confidence: llmResult?.confidence ?? null,
+        price_target: llmResult?.price_target ?? null,
+        target_date: llmResult?.target_date ?? null,
+        horizon_days: llmResult?.horizon_days ?? null,
+        catalyst_type: llmResult?.catalyst_type ?? null,
+        llm_status: resolveLlmStatus(config, llmResult, llmAttempts),
+        llm_attempts: llmAttempts,
+        comments_analyzed: candidate.comments?.analyzed ?? null,
+        comment_agree_count: candidate.comments?.agreeCount ?? null,
+        comment_disagree_count: candidate.comments?.disagreeCount ?? null,
+        comment_tickers: candidate.comments?.tickers ?? [],
         processed_at: new Date().toISOString(),
       };
     });
@@ -242,29 +505,303 @@ export async function upsertPosts(
   }
 }
 
+function linkMetadataColumns(post: Post) {
+  return {
+    post_type: post.postType ?? null,
+    link_url: post.linkUrl ?? null,
+    link_domain: post.linkDomain ?? null,
+    flair: post.flair ?? null,
+    crosspost_parent: post.crosspostParent ?? null,
+  };
+}
+
+function toLlmRetryItem(row: any): LlmRetryItem {
+  return {
+    post_id: row.post_id,
+    title: row.title,
+    body: row.body ?? '',
+    detected_tickers: Array.isArray(row.detected_tickers) ? row.detected_tickers : [],
+    llm_attempts: typeof row.llm_attempts === 'number' ? row.llm_attempts : 0,
+    flair: row.flair ?? null,
+    post_type: row.post_type ?? null,
+    link_url: row.link_url ?? null,
+    link_domain: row.link_domain ?? null,
+    created_utc: row.created_utc,
+  };
+}
+
+function resolveLlmStatus(config: Config, result: LlmResult | undefined, attempts: number): LlmStatus {
+  if (result) {
+    return 'classified';
+  }
+  return attempts >= config.llm.maxAttempts ? 'exhausted' : 'failed';
+}
+
+export async function selectPostsForLlmRetry(config: Config, limit: number): Promise<LlmRetryItem[]> {
+  const supabase = getSupabaseClient(config);
+
+  try {
+    const { data, error } = await supabase
+      .from('reddit_posts')
+      .select(`post_id, title, body, detected_tickers, llm_attempts, created_utc, ${LINK_METADATA_SELECT}`)
+      .eq('llm_status', 'failed')
+      .lt('llm_attempts', config.llm.maxAttempts)
+      .order('created_utc', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw error;
+    }
+
+    return (data ?? []).map(toLlmRetryItem);
+
+  } catch (error) {
+    logger.error('Failed to select posts for LLM retry', {
+      limit,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new Error(`Failed to select posts for LLM retry: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export async function updateLlmOutcome(
+  config: Config,
+  results: LlmResult[],
+  attempts: Map<string, number>,
+): Promise<void> {
+  if (attempts.size === 0) {
+    return;
+  }
+
+  const supabase = getSupabaseClient(config);
+  const resultsById = new Map(results.map(r => [r.post_id, r]));
+  const processedAt = new Date().toISOString();
+
+  try {
+    for (const [postId, llmAttempts] of attempts) {
+      const llmResult = resultsById.get(postId);
+      const update = llmResult
+        ? {
+          llm_tickers: llmResult.tickers,
+          is_future_upside_claim: llmResult.is_future_upside_claim,
+          is_future_downside_claim: llmResult.is_future_downside_claim ?? false,
+          stance: llmResult.stance,
+          reason: llmResult.reason,
+          quality_score: llmResult.quality_score,
+          evidence_phrases: llmResult.evidence_phrases ?? [],
+          confidence: llmResult.confidence ?? null,
+          price_target: llmResult.price_target ?? null,
+          target_date: llmResult.target_date ?? null,
+          horizon_days: llmResult.horizon_days ?? null,
+          catalyst_type: llmResult.catalyst_type ?? null,
+        }
+        : {};
+
+      const { error } = await supabase
+        .from('reddit_posts')
+        .update({
+          ...update,
+          llm_status: resolveLlmStatus(config, llmResult, llmAttempts),
+          llm_attempts: llmAttempts,
+          processed_at: processedAt,
+        } as any)
+        .eq('post_id', postId);
+
+      if (error) {
+        throw error;
+      }
+    }
+
+    logger.info('LLM outcome recorded', {
+      postCount: attempts.size,
+      recoveredCount: resultsById.size,
+    });
+
+  } catch (error) {
+    logger.error('Failed to record LLM outcome', {
+      postCount: attempts.size,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new Error(`Failed to record LLM outcome: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Stores posts held back by the engagement gate so the rescore job can promote them later.
+// Existing rows are left alone; a post that was already classified must not be reset.
+export async function upsertGatedPosts(config: Config, candidates: Prefiltered[]): Promise<void> {
+  if (candidates.length === 0) {
+    return;
+  }
+
+  const supabase = getSupabaseClient(config);
+
+  try {
+    const rows = candidates.map(candidate => ({
+      post_id: candidate.post.id,
+      title: candidate.post.title,
+      body: candidate.post.selftext ?? '',
+      subreddit: candidate.post.subreddit,
+      author: candidate.post.author,
+      url: candidate.post.url,
+      created_utc: candidate.post.createdUtc,
+      score: candidate.post.score,
+      ...linkMetadataColumns(candidate.post),
+      detected_tickers: candidate.tickers,
+      ticker_detections: candidate.tickerDetections ?? [],
+      option_contracts: candidate.optionContracts ?? [],
+      option_due_date: nextOptionDueDate(candidate.optionContracts ?? []),
+      llm_status: 'gated',
+      llm_attempts: 0,
+      processed_at: new Date().toISOString(),
+    }));
+
+    const { error } = await supabase
+      .from('reddit_posts')
+      .upsert(rows as any, { onConflict: 'post_id', ignoreDuplicates: true });
+
+    if (error) {
+      throw error;
+    }
+
+    logger.info('Gated posts stored for rescoring', { rowCount: rows.length });
+
+  } catch (error) {
+    logger.error('Failed to store gated posts', {
+      candidateCount: candidates.length,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new Error(`Failed to store gated posts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export async function selectPostsForRescore(
+  config: Config,
+  sinceIso: string,
+  limit: number,
+): Promise<RescoreItem[]> {
+  const supabase = getSupabaseClient(config);
+
+  try {
+    const { data, error } = await supabase
+      .from('reddit_posts')
+      .select(`post_id, title, body, detected_tickers, created_utc, score, llm_status, llm_attempts, ${LINK_METADATA_SELECT}`)
+      .gte('created_utc', sinceIso)
+      .order('created_utc', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw error;
+    }
+
+    return (data ?? []).map((row: any) => ({
+      ...toLlmRetryItem(row),
+      score: typeof row.score === 'number' ? row.score : 0,
+      llm_status: row.llm_status ?? null,
+    }));
+
+  } catch (error) {
+    logger.error('Failed to select posts for rescore', {
+      sinceIso,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new Error(`Failed to select posts for rescore: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Appends one observation per post and refreshes the score kept on reddit_posts
+export async function recordPostSnapshots(config: Config, snapshots: PostSnapshot[]): Promise<void> {
+  if (snapshots.length === 0) {
+    return;
+  }
+
+  const supabase = getSupabaseClient(config);
+
+  try {
+    const { error } = await supabase
+      .from('post_snapshots')
+      .insert(snapshots as any);
+
+    if (error) {
+      throw error;
+    }
+
+    for (const snapshot of snapshots) {
+      const { error: updateError } = await supabase
+        .from('reddit_posts')
+        .update({ score: snapshot.score } as any)
+        .eq('post_id', snapshot.post_id);
+
+      if (updateError) {
+        throw updateError;
+      }
+    }
+
+    logger.info('Post snapshots recorded', { snapshotCount: snapshots.length });
+
+  } catch (error) {
+    logger.error('Failed to record post snapshots', {
+      snapshotCount: snapshots.length,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new Error(`Failed to record post snapshots: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 export async function selectForEmail(
   config: Config,
-  options: { minQuality: number },
+  options: {
+    minQuality: number;
+    minConfidence?: number;
+    direction?: ClaimDirection;
+    flairs?: FlairPreferences;
+    // Tickers outside these classes are dropped, and posts left without a ticker with them
+    assetClasses?: AssetClass[];
+    // Select posts already released to the digest after this time instead of unemailed ones
+    emailedSince?: string;
+  },
 ): Promise<EmailCandidate[]> {
   const supabase = getSupabaseClient(config);
+  const minConfidence = options.minConfidence ?? 0;
+  const direction = options.direction ?? 'bullish';
+  const claimColumn = direction === 'bearish' ? 'is_future_downside_claim' : 'is_future_upside_claim';
 
   try {
-    logger.debug('Selecting posts for email', { minQuality: options.minQuality });
+    logger.debug('Selecting posts for email', {
+      minQuality: options.minQuality,
+      minConfidence,
+      direction,
+      emailedSince: options.emailedSince ?? null,
+    });
 
-    const { data, error } = await supabase
+    let query = supabase
       .from('reddit_posts')
-      .select('post_id, title, url, reason, detected_tickers, llm_tickers, quality_score, created_utc')
-      .is('emailed_at', null)
-      .eq('is_future_upside_claim', true)
-      .eq('stance', 'bullish')
-      .gte('quality_score', options.minQuality)
-      .order('created_utc', { ascending: true });
+      .select('post_id, title, body, subreddit, url, reason, detected_tickers, llm_tickers, quality_score, evidence_phrases, confidence, created_utc, emailed_at, flair, option_contracts, catalyst_type');
+    query = options.emailedSince
+      ? query.gt('emailed_at', options.emailedSince)
+      : query.is('emailed_at', null);
+    query = query
+      .is('suppressed_at', null)
+      .eq(claimColumn, true)
+      .eq('stance', direction)
+      .gte('quality_score', options.minQuality);
+
+    // Rows classified before confidence was stored have a null value and are excluded once a floor is set
+    if (minConfidence > 0) {
+      query = query.gte('confidence', minConfidence);
+    }
+
+    const { data, error } = await query.order('created_utc', { ascending: true });
 
     if (error) {
       throw error;
     }
 
-    const candidates: EmailCandidate[] = (data ?? []).map(row => {
+    const flairRules = normalizeFlairPreferences(options.flairs);
+    const rows = (data ?? []).filter(row => passesFlairRules((row as any).flair, flairRules));
+
+    const allowedClasses = options.assetClasses ? new Set(options.assetClasses) : null;
+
+    const candidates: EmailCandidate[] = rows.flatMap(row => {
       const llmTickers = Array.isArray((row as any).llm_tickers)
         ? ((row as any).llm_tickers as string[])
         : [];
@@ -272,12 +809,30 @@ export async function selectForEmail(
         ? ((row as any).detected_tickers as string[])
         : [];
 
-      return {
+      const evidencePhrases = Array.isArray((row as any).evidence_phrases)
+        ? ((row as any).evidence_phrases as string[])
+        : [];
+
+      const claimTickers = llmTickers.length > 0 ? llmTickers : detectedTickers;
+      const tickers = claimTickers.filter(ticker => !allowedClasses || allowedClasses.has(assetClassOf(ticker)));
+      if (tickers.length < claimTickers.length && tickers.length === 0) {
+        return [];
+      }
+
+      return [{
         ...(row as any),
+        direction,
         llm_tickers: llmTickers,
         detected_tickers: detectedTickers,
-        tickers: llmTickers.length > 0 ? llmTickers : detectedTickers,
-      };
+        evidence_phrases: evidencePhrases,
+        confidence: typeof (row as any).confidence === 'number' ? (row as any).confidence : null,
+        flair: typeof (row as any).flair === 'string' ? (row as any).flair : null,
+        option_contracts: parseStoredOptionContracts((row as any).option_contracts),
+        body: typeof (row as any).body === 'string' ? (row as any).body : '',
+        subreddit: typeof (row as any).subreddit === 'string' ? (row as any).subreddit : null,
+        catalyst_type: (row as any).catalyst_type ?? null,
+        tickers,
+      }];
     });
 
     const tickerSet = new Set<string>();
@@ -285,8 +840,7 @@ export async function selectForEmail(
       (candidate.tickers ?? []).forEach(t => tickerSet.add(t.toUpperCase()));
     });
 
-    // Reputation-aware ranking: compute author and subreddit reputation
-    // Fetch recent history for involved authors and subreddits and compute average quality
+    // Reputation-aware ranking: author credibility from realized outcomes, subreddit average quality
     const authorSet = new Set<string>();
     const subredditSet = new Set<string>();
 
@@ -304,16 +858,49 @@ export async function selectForEmail(
 
     const thirtyDaysAgoIso = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
 
-    // Author history
-    let authorHistory: any[] = [];
+    // Author scorecards, maintained by the performance report
+    const authorCredibility = new Map<string, number>();
+    const suppressedAuthors = new Set<string>();
     if (authorSet.size > 0) {
-      const { data: ah } = await supabase
-        .from('reddit_posts')
-        .select('author, quality_score, is_future_upside_claim, stance, created_utc')
+      const { data: reputationRows, error: reputationError } = await supabase
+        .from('author_reputation')
+        .select('author, credibility, suppressed')
+        .in('author', Array.from(authorSet));
+
+      if (reputationError) {
+        throw reputationError;
+      }
+
+      (reputationRows ?? []).forEach((row: any) => {
+        if (row.suppressed) {
+          suppressedAuthors.add(row.author);
+        }
+        const credibility = Number(row.credibility);
+        if (Number.isFinite(credibility)) {
+          authorCredibility.set(row.author, credibility);
+        }
+      });
+    }
+
+    // Reader feedback: votes on anything the candidates' authors posted (mutes live on the subscription)
+    const postNetVotes = new Map<string, number>();
+    const authorNetVotes = new Map<string, number>();
+    if (authorSet.size > 0) {
+      const { data: voteRows, error: voteError } = await supabase
+        .from('post_feedback')
+        .select('post_id, author, action')
         .in('author', Array.from(authorSet))
-        .gte('created_utc', thirtyDaysAgoIso)
-        .limit(2000);
-      authorHistory = ah ?? [];
+        .in('action', ['up', 'down']);
+
+      if (voteError) {
+        throw voteError;
+      }
+
+      (voteRows ?? []).forEach((row: any) => {
+        const vote = row.action === 'up' ? 1 : -1;
+        postNetVotes.set(row.post_id, (postNetVotes.get(row.post_id) ?? 0) + vote);
+        authorNetVotes.set(row.author, (authorNetVotes.get(row.author) ?? 0) + vote);
+      });
     }
 
     // Subreddit history
@@ -328,24 +915,8 @@ export async function selectForEmail(
       subredditHistory = sh ?? [];
     }
 
-    const authorToAvgQuality = new Map<string, number>();
     const subredditToAvgQuality = new Map<string, number>();
 
-    if (authorHistory.length > 0) {
-      const sums = new Map<string, { sum: number; count: number }>();
-      authorHistory.forEach(row => {
-        if (row.is_future_upside_claim && row.stance === 'bullish' && typeof row.quality_score === 'number') {
-          const prev = sums.get(row.author) || { sum: 0, count: 0 };
-          prev.sum += row.quality_score;
-          prev.count += 1;
-          sums.set(row.author, prev);
-        }
-      });
-      sums.forEach((v, k) => {
-        authorToAvgQuality.set(k, v.count > 0 ? v.sum / v.count : 0);
-      });
-    }
-
     if (subredditHistory.length > 0) {
       const sums = new Map<string, { sum: number; count: number }>();
       subredditHistory.forEach(row => {
@@ -390,30 +961,49 @@ export async function selectForEmail(
     const idToMeta = new Map<string, { author?: string; subreddit?: string }>();
     metaRows?.forEach((row: any) => idToMeta.set(row.post_id, { author: row.author, subreddit: row.subreddit }));
 
-    // Compute composite score: base quality + author/subreddit reputation boosts
-    const scored = candidates.map(c => {
+    // Known pump accounts are dropped outright rather than ranked down
+    const unsuppressed = candidates.filter(c => {
+      const author = idToMeta.get(c.post_id)?.author;
+      return !author || !suppressedAuthors.has(author);
+    });
+
+    // Compute composite score: base quality + author credibility + subreddit reputation + reader feedback boosts
+    const scored = unsuppressed.map(c => {
       const meta = idToMeta.get(c.post_id) || {};
-      const authorAvg = meta.author ? authorToAvgQuality.get(meta.author) ?? 0 : 0;
+      const authorBoost = authorRankingBoost(meta.author ? authorCredibility.get(meta.author) : null);
       const subredditAvg = meta.subreddit ? subredditToAvgQuality.get(meta.subreddit) ?? 0 : 0;
       const base = typeof (c as any).quality_score === 'number' ? (c as any).quality_score : 0;
       const tickerRois = (c.tickers ?? []).map(t => tickerToStats.get(t.toUpperCase())?.avgReturnPct ?? 0);
       const bestTickerRoi = tickerRois.length ? Math.max(...tickerRois) : 0;
-      const roiBoost = Math.max(-1, Math.min(bestTickerRoi * 6, 3));
-      const score = base + 0.3 * authorAvg + 0.2 * subredditAvg + roiBoost;
+      // ticker_performance tracks long returns, so it only informs bullish picks
+      const roiBoost = direction === 'bullish' ? Math.max(-1, Math.min(bestTickerRoi * 6, 3)) : 0;
+      const flairBoost = c.flair ? flairRules.boosts.get(c.flair.toLowerCase()) ?? 0 : 0;
+      const feedbackBoost = feedbackRankingBoost(
+        postNetVotes.get(c.post_id) ?? 0,
+        meta.author ? authorNetVotes.get(meta.author) ?? 0 : 0,
+      );
+      const score = base + authorBoost + 0.2 * subredditAvg + roiBoost + flairBoost + feedbackBoost;
+      c.author = meta.author ?? null;
       (c as any).performance_hint = {
         bestAvgReturnPct: bestTickerRoi,
         roiBoost,
       };
-      return { c, score, authorAvg, subredditAvg, roiBoost };
+      return { c, score, authorBoost, subredditAvg, roiBoost, feedbackBoost };
     });
 
     scored.sort((a, b) => b.score - a.score);
     const ranked = scored.map(s => s.c);
 
     logger.info('Selected posts for email', {
-      candidateCount: candidates.length,
+      candidateCount: ranked.length,
       minQuality: options.minQuality,
+      minConfidence,
+      direction,
+      flairFilteredCount: (data ?? []).length - rows.length,
       authorsConsidered: authorSet.size,
+      authorsWithReputation: authorCredibility.size,
+      suppressedPostCount: candidates.length - unsuppressed.length,
+      authorsWithFeedback: authorNetVotes.size,
       subredditsConsidered: subredditSet.size,
       tickersConsidered: tickerSet.size,
       tickersWithPerformance: Array.from(tickerToStats.keys()).length,
@@ -424,12 +1014,36 @@ export async function selectForEmail(
   } catch (error) {
     logger.error('Failed to select posts for email', {
       minQuality: options.minQuality,
+      direction,
       error: error instanceof Error ? error.message : 'Unknown error',
     });
     throw new Error(`Failed to select posts for email: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
+interface FlairRules {
+  include: Set<string>;
+  exclude: Set<string>;
+  boosts: Map<string, number>;
+}
+
+function normalizeFlairPreferences(preferences: FlairPreferences | undefined): FlairRules {
+  const normalize = (flair: string) => flair.trim().toLowerCase();
+  return {
+    include: new Set((preferences?.include ?? []).map(normalize)),
+    exclude: new Set((preferences?.exclude ?? []).map(normalize)),
+    boosts: new Map(Object.entries(preferences?.boosts ?? {}).map(([flair, boost]) => [normalize(flair), boost])),
+  };
+}
+
+function passesFlairRules(flair: unknown, rules: FlairRules): boolean {
+  const normalized = typeof flair === 'string' ? flair.trim().toLowerCase() : '';
+  if (normalized && rules.exclude.has(normalized)) {
+    return false;
+  }
+  return rules.include.size === 0 || rules.include.has(normalized);
+}
+
 export async function markEmailed(config: Config, postIds: string[], emailedAtIso?: string): Promise<void> {
   if (postIds.length === 0) {
     logger.debug('No posts to mark as emailed');
@@ -462,6 +1076,437 @@ export async function markEmailed(config: Config, postIds: string[], emailedAtIs
   }
 }
 
+function parseStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.length > 0) : [];
+}
+
+export async function selectActiveSubscriptions(config: Config): Promise<Subscription[]> {
+  const supabase = getSupabaseClient(config);
+
+  try {
+    const { data, error } = await supabase
+      .from('subscriptions')
+      .select('id, user_id, email, min_quality, subreddits, include_tickers, exclude_tickers, exclude_authors, digest_frequency, alert_types, last_digest_at')
+      .eq('active', true);
+
+    if (error) {
+      throw error;
+    }
+
+    return (data ?? []).flatMap((row: any) => {
+      if (typeof row.email !== 'string' || row.email.trim().length === 0) {
+        return [];
+      }
+      const frequency = DIGEST_FREQUENCIES.includes(row.digest_frequency) ? row.digest_frequency as DigestFrequency : 'realtime';
+      return [{
+        id: row.id,
+        userId: row.user_id,
+        email: row.email.trim(),
+        minQuality: Number(row.min_quality ?? 0) || 0,
+        subreddits: parseStringArray(row.subreddits),
+        includeTickers: parseStringArray(row.include_tickers),
+        excludeTickers: parseStringArray(row.exclude_tickers),
+        excludeAuthors: parseStringArray(row.exclude_authors),
+        digestFrequency: frequency,
+        alertTypes: parseStringArray(row.alert_types).filter((type): type is AlertType => ALERT_TYPES.includes(type as AlertType)),
+        lastDigestAt: row.last_digest_at ?? null,
+      }];
+    });
+  } catch (error) {
+    logger.error('Failed to load subscriptions', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new Error(`Failed to load subscriptions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export interface DigestClaim {
+  messages: OutboxMessage[];
+  postIds: string[];
+  subscriptionIds: string[];
+  spikes: MentionSpike[];
+  claimedAtIso: string;
+}
+
+function parseOutboxRow(row: any): OutboxEntry {
+  return {
+    id: row.id,
+    messageType: row.message_type,
+    notification: row.payload,
+    recipients: row.recipients ?? {},
+    status: row.status,
+    attempts: Number(row.attempts ?? 0) || 0,
+    nextAttemptAt: row.next_attempt_at,
+    lastError: row.last_error ?? null,
+  };
+}
+
+// Raised by claim_digest when an overlapping run already took some of the posts or spikes
+const DIGEST_ALREADY_CLAIMED = 'digest_already_claimed';
+
+/**
+ * Marks the posts emailed, the spikes alerted and the subscriptions digested, and queues the
+ * messages that carry them, in one transaction (the claim_digest function). A crash after this
+ * leaves the messages pending for the next run instead of re-selecting the posts. Returns null,
+ * with nothing queued, when another run claimed any of the same posts or spikes first.
+ */
+export async function claimDigest(config: Config, claim: DigestClaim): Promise<OutboxEntry[] | null> {
+  const supabase = getSupabaseClient(config);
+
+  try {
+    const { data, error } = await supabase.rpc('claim_digest', {
+      p_messages: claim.messages.map(message => ({
+        message_type: message.notification.type,
+        payload: message.notification,
+        recipients: message.recipients,
+      })),
+      p_post_ids: claim.postIds,
+      p_subscription_ids: claim.subscriptionIds,
+      p_spikes: claim.spikes.map(spike => ({ ticker: spike.ticker, hour_start: spike.hourStart })),
+      p_claimed_at: claim.claimedAtIso,
+    } as any);
+
+    if (error && String(error.message ?? '').includes(DIGEST_ALREADY_CLAIMED)) {
+      logger.warn('Digest already claimed by another run', {
+        postCount: claim.postIds.length,
+        spikeCount: claim.spikes.length,
+        detail: (error as any).details ?? null,
+      });
+      return null;
+    }
+
+    if (error) {
+      throw error;
+    }
+
+    const entries = ((data as any[]) ?? []).map(parseOutboxRow);
+    logger.info('Digest claimed', {
+      messageCount: entries.length,
+      postCount: claim.postIds.length,
+      subscriptionCount: claim.subscriptionIds.length,
+      spikeCount: claim.spikes.length,
+    });
+    return entries;
+
+  } catch (error) {
+    logger.error('Failed to claim digest', {
+      messageCount: claim.messages.length,
+      postCount: claim.postIds.length,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new Error(`Failed to claim digest: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Locks up to `limit` due messages for this sender (the claim_outbox function) and returns them:
+ * pending rows whose next attempt is due, and 'sending' rows whose lock has expired. Rows another
+ * run holds are skipped, so overlapping runs never deliver the same row.
+ */
+export async function claimDueOutbox(
+  config: Config,
+  nowIso: string,
+  limit: number,
+  lockSeconds: number,
+): Promise<OutboxEntry[]> {
+  const supabase = getSupabaseClient(config);
+
+  try {
+    const { data, error } = await supabase.rpc('claim_outbox', {
+      p_now: nowIso,
+      p_limit: limit,
+      p_lock_seconds: lockSeconds,
+    } as any);
+
+    if (error) {
+      throw error;
+    }
+
+    return ((data as any[]) ?? []).map(parseOutboxRow);
+  } catch (error) {
+    logger.error('Failed to claim outbox messages', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new Error(`Failed to claim outbox messages: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export async function markOutboxSent(config: Config, id: string, sentAtIso: string): Promise<void> {
+  const supabase = getSupabaseClient(config);
+
+  try {
+    const { error } = await supabase
+      .from('outbox')
+      .update({ status: 'sent', sent_at: sentAtIso, locked_until: null, last_error: null, updated_at: sentAtIso } as any)
+      .eq('id', id);
+
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    logger.error('Failed to mark outbox message sent', {
+      outboxId: id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new Error(`Failed to mark outbox message sent: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// A null retryAtIso means the message is out of attempts and stays failed until replayed
+export async function recordOutboxFailure(
+  config: Config,
+  id: string,
+  attempts: number,
+  errorMessage: string,
+  retryAtIso: string | null,
+): Promise<void> {
+  const supabase = getSupabaseClient(config);
+  const nowIso = new Date().toISOString();
+
+  try {
+    const { error } = await supabase
+      .from('outbox')
+      .update({
+        status: retryAtIso ? 'pending' : 'failed',
+        attempts,
+        last_error: errorMessage.slice(0, 1000),
+        next_attempt_at: retryAtIso ?? nowIso,
+        locked_until: null,
+        updated_at: nowIso,
+      } as any)
+      .eq('id', id);
+
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    logger.error('Failed to record outbox failure', {
+      outboxId: id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new Error(`Failed to record outbox failure: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Puts failed messages (all of them, or just `ids`) back in the queue with fresh attempts
+export async function requeueFailedOutbox(config: Config, ids?: string[]): Promise<number> {
+  const supabase = getSupabaseClient(config);
+
+  try {
+    let query = supabase
+      .from('outbox')
+      .select('id')
+      .eq('status', 'failed');
+    if (ids && ids.length > 0) {
+      query = query.in('id', ids);
+    }
+    const { data, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    const failedIds = (data ?? []).map((row: any) => row.id as string);
+    if (failedIds.length === 0) {
+      return 0;
+    }
+
+    const nowIso = new Date().toISOString();
+    const { error: updateError } = await supabase
+      .from('outbox')
+      .update({ status: 'pending', attempts: 0, next_attempt_at: nowIso, updated_at: nowIso } as any)
+      .in('id', failedIds);
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    logger.info('Requeued failed outbox messages', { messageCount: failedIds.length });
+    return failedIds.length;
+
+  } catch (error) {
+    logger.error('Failed to requeue outbox messages', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new Error(`Failed to requeue outbox messages: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Feedback from the EMAIL_TO and channel digests is keyed to this recipient
+const GLOBAL_FEEDBACK_RECIPIENT = 'global';
+
+/**
+ * Records a verified feedback click. A vote replaces the same recipient's opposite vote on the
+ * post and repeating a click changes nothing. Subscriber mutes are also added to the
+ * subscription's exclude lists, so the next digest already honours them.
+ */
+export async function recordPostFeedback(config: Config, link: FeedbackLink, createdAtIso: string): Promise<void> {
+  const supabase = getSupabaseClient(config);
+  const recipientKey = link.subscriptionId ?? GLOBAL_FEEDBACK_RECIPIENT;
+
+  try {
+    const { data: post, error: postError } = await supabase
+      .from('reddit_posts')
+      .select('post_id, author')
+      .eq('post_id', link.postId)
+      .single();
+
+    if (postError) {
+      throw postError;
+    }
+
+    if (link.action === 'up' || link.action === 'down') {
+      const { error: deleteError } = await supabase
+        .from('post_feedback')
+        .delete()
+        .eq('post_id', link.postId)
+        .eq('recipient_key', recipientKey)
+        .eq('action', link.action === 'up' ? 'down' : 'up');
+
+      if (deleteError) {
+        throw deleteError;
+      }
+    }
+
+    const target = link.action === 'mute_ticker' ? link.target.toUpperCase() : link.target;
+    const { error } = await supabase
+      .from('post_feedback')
+      .upsert({
+        post_id: link.postId,
+        author: (post as any)?.author ?? null,
+        action: link.action,
+        target,
+        subscription_id: link.subscriptionId,
+        recipient_key: recipientKey,
+        created_at: createdAtIso,
+      } as any, { onConflict: 'post_id,recipient_key,action,target', ignoreDuplicates: true });
+
+    if (error) {
+      throw error;
+    }
+
+    if (link.subscriptionId && (link.action === 'mute_ticker' || link.action === 'mute_author')) {
+      const column = link.action === 'mute_ticker' ? 'exclude_tickers' : 'exclude_authors';
+      const { data: subscription, error: subscriptionError } = await supabase
+        .from('subscriptions')
+        .select(`id, ${column}`)
+        .eq('id', link.subscriptionId)
+        .single();
+
+      if (subscriptionError) {
+        throw subscriptionError;
+      }
+
+      const excluded = parseStringArray((subscription as any)?.[column]);
+      if (!excluded.some(value => value.toLowerCase() === target.toLowerCase())) {
+        const { error: updateError } = await supabase
+          .from('subscriptions')
+          .update({ [column]: [...excluded, target], updated_at: createdAtIso } as any)
+          .eq('id', link.subscriptionId);
+
+        if (updateError) {
+          throw updateError;
+        }
+      }
+    }
+
+    logger.info('Recorded post feedback', {
+      postId: link.postId,
+      action: link.action,
+      target: target || null,
+      subscriptionId: link.subscriptionId,
+    });
+  } catch (error) {
+    logger.error('Failed to record post feedback', {
+      postId: link.postId,
+      action: link.action,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new Error(`Failed to record post feedback: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Thumbs up and down per post, across every recipient
+export async function selectFeedbackVotes(
+  config: Config,
+  postIds: string[],
+): Promise<Map<string, { up: number; down: number }>> {
+  const votes = new Map<string, { up: number; down: number }>();
+  if (postIds.length === 0) {
+    return votes;
+  }
+
+  const supabase = getSupabaseClient(config);
+
+  try {
+    const { data, error } = await supabase
+      .from('post_feedback')
+      .select('post_id, action')
+      .in('post_id', postIds)
+      .in('action', ['up', 'down']);
+
+    if (error) {
+      throw error;
+    }
+
+    (data ?? []).forEach((row: any) => {
+      const tally = votes.get(row.post_id) ?? { up: 0, down: 0 };
+      if (row.action === 'up') {
+        tally.up += 1;
+      } else {
+        tally.down += 1;
+      }
+      votes.set(row.post_id, tally);
+    });
+    return votes;
+  } catch (error) {
+    logger.error('Failed to load feedback votes', {
+      postCount: postIds.length,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new Error(`Failed to load feedback votes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Holds posts out of every future digest and records the pump risk that put them there
+export async function markPumpSuppressed(
+  config: Config,
+  suppressions: Array<{ postId: string; risk: PumpRisk }>,
+): Promise<void> {
+  if (suppressions.length === 0) {
+    return;
+  }
+
+  const supabase = getSupabaseClient(config);
+  const suppressedAt = new Date().toISOString();
+
+  try {
+    for (const { postId, risk } of suppressions) {
+      const { error } = await supabase
+        .from('reddit_posts')
+        .update({
+          pump_risk_score: risk.score,
+          pump_risk_reasons: risk.reasons,
+          suppressed_at: suppressedAt,
+        } as any)
+        .eq('post_id', postId);
+
+      if (error) {
+        throw error;
+      }
+    }
+
+    logger.info('Suppressed posts for pump risk', { postCount: suppressions.length });
+
+  } catch (error) {
+    logger.error('Failed to mark posts as suppressed', {
+      postCount: suppressions.length,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new Error(`Failed to mark posts as suppressed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 export async function upsertPostPerformance(
   config: Config,
   records: PerformanceRecord[],
@@ -500,6 +1545,369 @@ export async function upsertPostPerformance(
   }
 }
 
+export interface TargetClaim {
+  post_id: string;
+  title: string;
+  url: string;
+  stance: string | null;
+  tickers: string[];
+  price_target: number | null;
+  target_date: string | null;
+  horizon_days: number | null;
+  catalyst_type: CatalystType | null;
+  created_utc: string;
+  emailed_at: string;
+  // Earlier runs that failed to score the claim
+  target_attempts: number;
+}
+
+export interface TargetOutcome {
+  postId: string;
+  // Null when the claim could not be scored (no ticker, or no price data after repeated attempts),
+  // so it is not picked up again
+  hit: boolean | null;
+  returnPct: number | null;
+  error: string | null;
+}
+
+// A failed scoring attempt; the claim stays pending for the next run
+export interface TargetRetry {
+  postId: string;
+  attempts: number;
+  error: string;
+}
+
+// Emailed claims whose stated deadline (target_due_date) is on or before `dueBy` and that the
+// performance report has not scored yet, earliest deadline first
+export async function selectPendingTargetClaims(
+  config: Config,
+  sinceIso: string,
+  dueBy: string,
+  limit: number,
+): Promise<TargetClaim[]> {
+  const supabase = getSupabaseClient(config);
+
+  try {
+    const { data, error } = await supabase
+      .from('reddit_posts')
+      .select('post_id, title, url, stance, llm_tickers, detected_tickers, price_target, target_date, horizon_days, catalyst_type, created_utc, emailed_at, target_attempts')
+      .not('emailed_at', 'is', null)
+      .is('target_evaluated_at', null)
+      .lte('target_due_date', dueBy)
+      .gte('emailed_at', sinceIso)
+      .order('target_due_date', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw error;
+    }
+
+    return (data ?? []).map((row: any) => {
+      const llmTickers = Array.isArray(row.llm_tickers) ? row.llm_tickers as string[] : [];
+      const detectedTickers = Array.isArray(row.detected_tickers) ? row.detected_tickers as string[] : [];
+      return {
+        post_id: row.post_id,
+        title: row.title,
+        url: row.url,
+        stance: row.stance ?? null,
+        tickers: llmTickers.length > 0 ? llmTickers : detectedTickers,
+        price_target: row.price_target === null || row.price_target === undefined ? null : Number(row.price_target),
+        target_date: row.target_date ?? null,
+        horizon_days: typeof row.horizon_days === 'number' ? row.horizon_days : null,
+        catalyst_type: row.catalyst_type ?? null,
+        created_utc: row.created_utc,
+        emailed_at: row.emailed_at,
+        target_attempts: typeof row.target_attempts === 'number' ? row.target_attempts : 0,
+      };
+    });
+
+  } catch (error) {
+    logger.error('Failed to select pending target claims', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new Error(`Failed to select pending target claims: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export async function recordTargetOutcomes(config: Config, outcomes: TargetOutcome[]): Promise<void> {
+  if (outcomes.length === 0) {
+    return;
+  }
+
+  const supabase = getSupabaseClient(config);
+  const evaluatedAt = new Date().toISOString();
+
+  try {
+    // Values differ per post, so each row gets its own update
+    for (const outcome of outcomes) {
+      const { error } = await supabase
+        .from('reddit_posts')
+        .update({
+          target_evaluated_at: evaluatedAt,
+          target_hit: outcome.hit,
+          target_return_pct: outcome.returnPct,
+          target_error: outcome.error,
+        } as any)
+        .eq('post_id', outcome.postId);
+
+      if (error) {
+        throw error;
+      }
+    }
+
+    logger.info('Recorded target outcomes', { count: outcomes.length });
+
+  } catch (error) {
+    logger.error('Failed to record target outcomes', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new Error(`Failed to record target outcomes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export async function recordTargetRetries(config: Config, retries: TargetRetry[]): Promise<void> {
+  if (retries.length === 0) {
+    return;
+  }
+
+  const supabase = getSupabaseClient(config);
+
+  try {
+    for (const retry of retries) {
+      const { error } = await supabase
+        .from('reddit_posts')
+        .update({
+          target_attempts: retry.attempts,
+          target_error: retry.error,
+        } as any)
+        .eq('post_id', retry.postId);
+
+      if (error) {
+        throw error;
+      }
+    }
+
+    logger.info('Recorded target retries', { count: retries.length });
+
+  } catch (error) {
+    logger.error('Failed to record target retries', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new Error(`Failed to record target retries: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export interface OptionClaim {
+  post_id: string;
+  title: string;
+  url: string;
+  emailed_at: string;
+  contracts: OptionContract[];
+  // Aligned with contracts; null until the contract is judged
+  outcomes: Array<StoredOptionOutcome | null>;
+  // Earlier runs that failed on price data for one of the post's contracts
+  option_attempts: number;
+}
+
+export interface OptionClaimUpdate {
+  postId: string;
+  outcomes: Array<StoredOptionOutcome | null>;
+  // Next contract expiry still to judge; null once every contract is judged
+  dueDate: string | null;
+  attempts: number;
+}
+
+// Emailed posts with an option contract that expired on or before `dueBy` and has not been judged,
+// earliest expiry first
+export async function selectDueOptionClaims(
+  config: Config,
+  sinceIso: string,
+  dueBy: string,
+  limit: number,
+): Promise<OptionClaim[]> {
+  const supabase = getSupabaseClient(config);
+
+  try {
+    const { data, error } = await supabase
+      .from('reddit_posts')
+      .select('post_id, title, url, emailed_at, option_contracts, option_outcomes, option_attempts')
+      .not('emailed_at', 'is', null)
+      .lte('option_due_date', dueBy)
+      .gte('emailed_at', sinceIso)
+      .order('option_due_date', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw error;
+    }
+
+    return (data ?? []).map((row: any) => {
+      const contracts = parseStoredOptionContracts(row.option_contracts);
+      return {
+        post_id: row.post_id,
+        title: row.title,
+        url: row.url,
+        emailed_at: row.emailed_at,
+        contracts,
+        outcomes: parseStoredOptionOutcomes(row.option_outcomes, contracts.length),
+        option_attempts: typeof row.option_attempts === 'number' ? row.option_attempts : 0,
+      };
+    });
+
+  } catch (error) {
+    logger.error('Failed to select due option claims', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new Error(`Failed to select due option claims: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export async function recordOptionOutcomes(config: Config, updates: OptionClaimUpdate[]): Promise<void> {
+  if (updates.length === 0) {
+    return;
+  }
+
+  const supabase = getSupabaseClient(config);
+
+  try {
+    for (const update of updates) {
+      const { error } = await supabase
+        .from('reddit_posts')
+        .update({
+          option_outcomes: update.outcomes,
+          option_due_date: update.dueDate,
+          option_attempts: update.attempts,
+        } as any)
+        .eq('post_id', update.postId);
+
+      if (error) {
+        throw error;
+      }
+    }
+
+    logger.info('Recorded option outcomes', { count: updates.length });
+
+  } catch (error) {
+    logger.error('Failed to record option outcomes', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new Error(`Failed to record option outcomes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Comfortably past the 14-day baseline and the overlap window, after which a post is not re-fetched
+const MENTION_POST_RETENTION_DAYS = 15;
+
+/**
+ * Adds the posts' mentions to their hourly buckets and returns the updated buckets. Posts already
+ * counted by an earlier run (re-read in the overlap window, or fetched again after being deferred)
+ * are skipped, so each post counts once.
+ */
+export async function recordTickerMentions(config: Config, posts: MentionPost[]): Promise<MentionBucket[]> {
+  const mentionPosts = posts.flatMap(post => {
+    const hourStart = hourStartOf(post.createdUtc);
+    return hourStart && post.tickers.length > 0
+      ? [{ post_id: post.postId, hour_start: hourStart, tickers: post.tickers }]
+      : [];
+  });
+  if (mentionPosts.length === 0) {
+    return [];
+  }
+
+  const supabase = getSupabaseClient(config);
+  const countedAt = new Date();
+
+  try {
+    // One statement (record_ticker_mentions): claims the posts in ticker_mention_posts and
+    // increments only the buckets of the posts it claimed
+    const { data, error } = await supabase.rpc('record_ticker_mentions', {
+      p_posts: mentionPosts,
+      p_counted_at: countedAt.toISOString(),
+      p_prune_before: new Date(countedAt.getTime() - MENTION_POST_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+    } as any);
+
+    if (error) {
+      throw error;
+    }
+
+    const buckets: MentionBucket[] = ((data as any[]) ?? []).flatMap(row => {
+      const hourStart = hourStartOf(row.hour_start);
+      return hourStart
+        ? [{ ticker: row.ticker, hourStart, mentions: Number(row.mentions ?? 0), spikeAlertedAt: row.spike_alerted_at ?? null }]
+        : [];
+    });
+
+    logger.debug('Recorded ticker mentions', {
+      bucketCount: buckets.length,
+      postCount: mentionPosts.length,
+    });
+    return buckets;
+
+  } catch (error) {
+    logger.error('Failed to record ticker mentions', {
+      postCount: mentionPosts.length,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new Error(`Failed to record ticker mentions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export async function selectTickerMentionHistory(
+  config: Config,
+  tickers: string[],
+  hours: string[],
+): Promise<MentionCount[]> {
+  if (tickers.length === 0 || hours.length === 0) {
+    return [];
+  }
+
+  const supabase = getSupabaseClient(config);
+
+  try {
+    const { data, error } = await supabase
+      .from('ticker_mentions')
+      .select('ticker, hour_start, mentions')
+      .in('ticker', tickers)
+      .in('hour_start', hours);
+
+    if (error) {
+      throw error;
+    }
+
+    return (data ?? []).map((row: any) => ({
+      ticker: row.ticker,
+      hourStart: row.hour_start,
+      mentions: Number(row.mentions ?? 0),
+    }));
+
+  } catch (error) {
+    logger.error('Failed to select ticker mention history', {
+      tickerCount: tickers.length,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new Error(`Failed to select ticker mention history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Earliest hour with any recorded mention, i.e. when the detector started counting
+export async function getMentionTrackingStart(config: Config): Promise<string | null> {
+  const supabase = getSupabaseClient(config);
+
+  const { data, error } = await supabase
+    .from('ticker_mentions')
+    .select('hour_start')
+    .order('hour_start', { ascending: true })
+    .limit(1);
+
+  if (error) {
+    logger.error('Failed to read mention tracking start', { error: error.message });
+    throw new Error(`Failed to read mention tracking start: ${error.message}`);
+  }
+
+  const first = (data ?? [])[0] as any;
+  return first?.hour_start ? hourStartOf(first.hour_start) : null;
+}
+
 export async function applyTickerPerformanceIncrements(
   config: Config,
   increments: TickerPerformanceIncrement[],
@@ -564,3 +1972,123 @@ export async function applyTickerPerformanceIncrements(
     throw error;
   }
 }
+
+// Adds a report's outcomes to each author's scorecard; the suppressed flag is never touched here
+export async function applyAuthorReputationIncrements(
+  config: Config,
+  increments: AuthorReputationIncrement[],
+): Promise<void> {
+  if (increments.length === 0) {
+    return;
+  }
+
+  const supabase = getSupabaseClient(config);
+  const authors = increments.map(inc => inc.author);
+
+  const { data: existingRows, error: selectError } = await supabase
+    .from('author_reputation')
+    .select('author, sample_size, hit_count, sum_return_pct')
+    .in('author', authors);
+
+  if (selectError) {
+    logger.error('Failed to fetch existing author reputation', {
+      error: selectError.message,
+    });
+    throw selectError;
+  }
+
+  const existingMap = new Map<string, { sample_size: number; hit_count: number; sum_return_pct: number }>();
+  (existingRows ?? []).forEach(row => {
+    existingMap.set(row.author, {
+      sample_size: row.sample_size ?? 0,
+      hit_count: row.hit_count ?? 0,
+      sum_return_pct: Number(row.sum_return_pct ?? 0),
+    });
+  });
+
+  const rows = increments.map(inc => {
+    const prior = existingMap.get(inc.author) ?? { sample_size: 0, hit_count: 0, sum_return_pct: 0 };
+    const totals = {
+      sampleSize: prior.sample_size + inc.sampleSize,
+      hitCount: prior.hit_count + inc.hitCount,
+      sumReturnPct: prior.sum_return_pct + inc.sumReturnPct,
+    };
+    const scorecard = scoreAuthor(totals);
+
+    return {
+      author: inc.author,
+      sample_size: totals.sampleSize,
+      hit_count: totals.hitCount,
+      sum_return_pct: totals.sumReturnPct,
+      hit_rate: scorecard.hitRate,
+      avg_return_pct: scorecard.avgReturnPct,
+      shrunk_hit_rate: scorecard.shrunkHitRate,
+      shrunk_avg_return_pct: scorecard.shrunkAvgReturnPct,
+      credibility: scorecard.credibility,
+      last_run_date: inc.lastRunDate ?? null,
+      updated_at: new Date().toISOString(),
+    };
+  });
+
+  const { error } = await supabase
+    .from('author_reputation')
+    .upsert(rows as any, { onConflict: 'author' });
+
+  if (error) {
+    logger.error('Failed to update author reputation', {
+      error: error.message,
+      authorCount: increments.length,
+    });
+    throw error;
+  }
+}
+
+export async function recordLlmUsage(
+  config: Config,
+  record: LlmUsageRecord,
+): Promise<void> {
+  const supabase = getSupabaseClient(config);
+
+  const { error } = await supabase
+    .from('llm_usage')
+    .insert({
+      run_id: record.runId ?? null,
+      provider: record.provider,
+      model: record.model,
+      batch_size: record.batchSize,
+      prompt_tokens: record.promptTokens,
+      completion_tokens: record.completionTokens,
+      estimated_cost_usd: record.estimatedCostUsd,
+      created_at: new Date().toISOString(),
+    } as any);
+
+  if (error) {
+    logger.error('Failed to record LLM usage', {
+      error: error.message,
+      runId: record.runId,
+    });
+    throw error;
+  }
+}
+
+export async function getLlmSpendSince(config: Config, sinceIso: string): Promise<number> {
+  const supabase = getSupabaseClient(config);
+
+  const { data, error } = await supabase
+    .from('llm_usage')
+    .select('estimated_cost_usd')
+    .gte('created_at', sinceIso);
+
+  if (error) {
+    logger.error('Failed to load LLM spend', {
+      error: error.message,
+      sinceIso,
+    });
+    throw error;
+  }
+
+  return (data ?? []).reduce((sum: number, row: any) => {
+    const cost = Number(row.estimated_cost_usd ?? 0);
+    return Number.isFinite(cost) ? sum + cost : sum;
+  }, 0);
+}
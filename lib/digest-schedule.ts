@@ -0,0 +1,63 @@
+// When the digest goes out. Posts that pass the email filters wait in reddit_posts with emailed_at
+// still null until a release: every run on the realtime schedule, otherwise the first run at or
+// after each hourly or twice-daily slot. Posts at or above the immediate quality bar skip the wait.
+// Nothing is sent during quiet hours; a slot that falls inside them goes out when they end.
+
+import type { Config, DigestSchedule, QuietHours } from './config';
+import { easternDateTime, getEasternComponents, startOfEasternDay } from './time';
+
+// Eastern hours of the twice-daily roll-ups: before the open and at the close
+export const TWICE_DAILY_SLOT_HOURS = [8, 16];
+
+export type DigestRelease =
+  | { kind: 'quiet' }
+  // Only posts at or above minQuality go out; the rest stay queued
+  | { kind: 'immediate'; minQuality: number }
+  // The whole queue goes out; `slot` is recorded so the same slot is not sent twice
+  | { kind: 'rollup'; slot: string };
+
+export function isQuietHour(date: Date, quietHours: QuietHours | null): boolean {
+  if (!quietHours || quietHours.startHour === quietHours.endHour) {
+    return false;
+  }
+  const { hour } = getEasternComponents(date);
+  return quietHours.startHour < quietHours.endHour
+    ? hour >= quietHours.startHour && hour < quietHours.endHour
+    : hour >= quietHours.startHour || hour < quietHours.endHour;
+}
+
+// Most recent roll-up slot at or before `now`
+export function latestDigestSlot(schedule: Exclude<DigestSchedule, 'realtime'>, now: Date): Date {
+  const { year, month, day, hour } = getEasternComponents(now);
+  if (schedule === 'hourly') {
+    return easternDateTime(year, month, day, hour, 0);
+  }
+
+  const passedToday = TWICE_DAILY_SLOT_HOURS.filter(slotHour => slotHour <= hour);
+  if (passedToday.length > 0) {
+    return easternDateTime(year, month, day, Math.max(...passedToday), 0);
+  }
+  const yesterday = getEasternComponents(new Date(startOfEasternDay(now).getTime() - 1));
+  return easternDateTime(yesterday.year, yesterday.month, yesterday.day, Math.max(...TWICE_DAILY_SLOT_HOURS), 0);
+}
+
+/**
+ * Decides what this run may send. `lastRollupSlot` is the slot recorded by the last roll-up that
+ * went out; a later slot having passed makes the roll-up due.
+ */
+export function planDigestRelease(config: Config, now: Date, lastRollupSlot: string | null): DigestRelease {
+  const { digestSchedule, digestImmediateMinQuality, quietHours } = config.app;
+  if (isQuietHour(now, quietHours)) {
+    return { kind: 'quiet' };
+  }
+  if (digestSchedule === 'realtime') {
+    return { kind: 'rollup', slot: now.toISOString() };
+  }
+
+  const slot = latestDigestSlot(digestSchedule, now);
+  const lastMs = lastRollupSlot ? Date.parse(lastRollupSlot) : Number.NaN;
+  if (Number.isNaN(lastMs) || lastMs < slot.getTime()) {
+    return { kind: 'rollup', slot: slot.toISOString() };
+  }
+  return { kind: 'immediate', minQuality: digestImmediateMinQuality };
+}
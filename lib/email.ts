@@ -1,7 +1,6 @@
-import { Resend } from 'resend';
 import { logger } from './logger';
 import type { Config } from './config';
-import type { EmailCandidate } from './db';
+import type { ClaimDirection, EmailCandidate } from './db';
 import type { PriceWatchAlertInfo } from './price-watch';
 import type { PositionDropAlertInfo } from './portfolio';
 import type { PerformanceEmailPayload } from './performance-types';
@@ -14,49 +13,32 @@ import {
   getTimeAgo,
 } from './email-utils';
 import type { TiingoFundamentalStatement, TiingoNewsArticle } from './tiingo';
-
-let resendClient: Resend | null = null;
+import { isLeveragedEtf } from './tickers';
+import { formatOptionContract } from './options';
+import { clusterStories, type Story } from './stories';
+import type { MentionSpike } from './mentions';
+import { digestFeedbackLinks, feedbackLinkSettings, type FeedbackLinkSettings } from './feedback';
+import {
+  dispatchNotification,
+  type Notification,
+  type NotificationSection,
+  type NotificationTarget,
+} from './notifiers';
 
 interface EmailContent {
   subject: string;
   text: string;
   html: string;
+  sections: NotificationSection[];
 }
 
-function getResendClient(config: Config): Resend {
-  if (!resendClient) {
-    resendClient = new Resend(config.email.resendApiKey);
-  }
-  return resendClient;
-}
-
-async function sendEmail(
-  content: EmailContent,
-  config: Config,
-  metadata: Record<string, unknown>,
-): Promise<string | null> {
-  const resend = getResendClient(config);
-
-  logger.debug('Sending email via Resend', {
-    ...metadata,
-    from: config.email.from,
-    to: config.email.to,
-    subject: content.subject,
-  });
-
-  const result = await resend.emails.send({
-    from: config.email.from,
-    to: config.email.to,
-    subject: content.subject,
-    text: content.text,
-    html: content.html,
-  });
-
-  if (result.error) {
-    throw new Error(`Resend API error: ${result.error.message}`);
-  }
-
-  return result.data?.id ?? null;
+// Chat channels show the subject as a header, so a leading subject line is dropped from the body
+function textSections(text: string, subject: string): NotificationSection[] {
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.split('\n'))
+    .filter((lines, index) => !(index === 0 && lines.length === 1 && lines[0] === subject))
+    .map(lines => ({ lines }));
 }
 
 function formatPriceInsightsText(candidate: EmailCandidate): string[] {
@@ -123,6 +105,92 @@ function formatPriceInsightsHtml(candidate: EmailCandidate): string {
   `;
 }
 
+const MAX_EVIDENCE_PHRASES = 3;
+
+// Leveraged and inverse ETFs decay with volatility, so they are marked wherever a ticker is listed
+function formatTickerList(tickers: string[]): string {
+  return tickers
+    .map(ticker => (isLeveragedEtf(ticker) ? `${ticker} (leveraged/inverse ETF)` : ticker))
+    .join(', ');
+}
+
+function formatEvidenceText(candidate: EmailCandidate): string[] {
+  const lines: string[] = [];
+  if (typeof candidate.confidence === 'number') {
+    lines.push(`Confidence: ${candidate.confidence}/5`);
+  }
+
+  const phrases = (candidate.evidence_phrases ?? []).slice(0, MAX_EVIDENCE_PHRASES);
+  if (phrases.length > 0) {
+    lines.push('Evidence:');
+    phrases.forEach(phrase => lines.push(`  “${phrase}”`));
+  }
+
+  return lines;
+}
+
+function formatEvidenceHtml(candidate: EmailCandidate): string {
+  const parts: string[] = [];
+  if (typeof candidate.confidence === 'number') {
+    parts.push(`<p style="margin:4px 0;font-size:0.9em;"><strong>Confidence:</strong> ${candidate.confidence}/5</p>`);
+  }
+
+  const phrases = (candidate.evidence_phrases ?? []).slice(0, MAX_EVIDENCE_PHRASES);
+  if (phrases.length > 0) {
+    const items = phrases
+      .map(phrase => `<li style="margin-left:16px;font-style:italic;">“${escapeHtml(phrase)}”</li>`)
+      .join('');
+    parts.push(`
+      <ul style="margin:4px 0 0 12px;padding:0;font-size:0.9em;color:#444;list-style:none;">
+        ${items}
+      </ul>
+    `);
+  }
+
+  return parts.join('');
+}
+
+const MAX_OPTION_CONTRACTS = 5;
+
+function formatOptionContractsText(candidate: EmailCandidate): string[] {
+  const contracts = (candidate.option_contracts ?? []).slice(0, MAX_OPTION_CONTRACTS);
+  return contracts.length > 0
+    ? [`Options: ${contracts.map(formatOptionContract).join('; ')}`]
+    : [];
+}
+
+function formatOptionContractsHtml(candidate: EmailCandidate): string {
+  const contracts = (candidate.option_contracts ?? []).slice(0, MAX_OPTION_CONTRACTS);
+  if (contracts.length === 0) {
+    return '';
+  }
+  return `<p style="margin:4px 0;font-size:0.9em;"><strong>Options:</strong> ${escapeHtml(contracts.map(formatOptionContract).join('; '))}</p>`;
+}
+
+// Low risk carries no badge; the score is only shown once there is something to warn about
+function formatPumpRisk(candidate: EmailCandidate): string | null {
+  const risk = candidate.pumpRisk;
+  if (!risk || risk.level === 'low') {
+    return null;
+  }
+  const reasons = risk.reasons.length > 0 ? ` (${risk.reasons.join(', ')})` : '';
+  return `Pump risk: ${risk.level}${reasons}`;
+}
+
+function formatPumpRiskText(candidate: EmailCandidate): string[] {
+  const line = formatPumpRisk(candidate);
+  return line ? [`⚠️ ${line}`] : [];
+}
+
+function formatPumpRiskHtml(candidate: EmailCandidate): string {
+  const line = formatPumpRisk(candidate);
+  if (!line) {
+    return '';
+  }
+  const color = candidate.pumpRisk?.level === 'high' ? '#b4231d' : '#b06000';
+  return `<p style="margin:4px 0;font-size:0.9em;color:${color};"><strong>⚠️ ${escapeHtml(line)}</strong></p>`;
+}
+
 const MAX_TICKER_CONTEXT = 3;
 const MAX_NEWS_ITEMS = 3;
 const MAX_FUNDAMENTAL_METRICS = 3;
@@ -290,30 +358,91 @@ function formatTiingoContextHtml(candidate: EmailCandidate, referenceDate: Date)
   return `<div style="margin:6px 0;">${sections.join('')}</div>`;
 }
 
-export async function sendDigest(
+// Structured form of a story for the generic webhook
+function storyPayload(story: Story): Record<string, unknown> {
+  const candidate = story.representative;
+  return {
+    postId: candidate.post_id,
+    direction: candidate.direction ?? 'bullish',
+    title: candidate.title,
+    url: candidate.url,
+    reason: candidate.reason,
+    tickers: candidate.tickers,
+    qualityScore: candidate.quality_score,
+    confidence: candidate.confidence,
+    createdUtc: candidate.created_utc,
+    subreddits: story.subreddits,
+    relatedPostIds: story.posts.slice(1).map(post => post.post_id),
+    priceInsights: candidate.priceInsights ?? [],
+    pumpRisk: candidate.pumpRisk ?? null,
+  };
+}
+
+/**
+ * Renders the digest for every channel, or returns null when there is nothing to send. The poll
+ * Lambda queues the result in the outbox; sendDigest sends it directly. With feedback settings,
+ * every post carries signed feedback links for the recipient they describe.
+ */
+export function composeDigestNotification(
   candidates: EmailCandidate[],
-  config: Config,
-): Promise<void> {
-  if (candidates.length === 0) {
-    logger.debug('No candidates to email');
-    return;
+  bearishCandidates: EmailCandidate[] = [],
+  mentionSpikes: MentionSpike[] = [],
+  referenceDate: Date = new Date(),
+  feedback: FeedbackLinkSettings | null = null,
+): Notification | null {
+  if (candidates.length === 0 && bearishCandidates.length === 0 && mentionSpikes.length === 0) {
+    return null;
   }
 
-  const sortedCandidates = sortCandidates(candidates);
+  const stories = clusterStories(sortCandidates(candidates));
+  const bearishStories = clusterStories(sortCandidates(bearishCandidates));
+
+  logger.info('Preparing email digest', {
+    candidateCount: candidates.length,
+    bearishCount: bearishCandidates.length,
+    storyCount: stories.length,
+    bearishStoryCount: bearishStories.length,
+    mentionSpikeCount: mentionSpikes.length,
+  });
+
+  return {
+    type: 'digest',
+    ...buildDigestEmail(stories, referenceDate, bearishStories, mentionSpikes, feedback),
+    payload: {
+      stories: stories.map(storyPayload),
+      bearishStories: bearishStories.map(storyPayload),
+      mentionSpikes,
+    },
+  };
+}
 
+export async function sendDigest(
+  candidates: EmailCandidate[],
+  config: Config,
+  bearishCandidates: EmailCandidate[] = [],
+  mentionSpikes: MentionSpike[] = [],
+  target: NotificationTarget = {},
+): Promise<void> {
   try {
-    logger.info('Preparing email digest', { candidateCount: sortedCandidates.length });
+    const notification = composeDigestNotification(
+      candidates,
+      bearishCandidates,
+      mentionSpikes,
+      new Date(),
+      feedbackLinkSettings(config),
+    );
+    if (!notification) {
+      logger.debug('No candidates to email');
+      return;
+    }
 
-    const content = buildDigestEmail(sortedCandidates);
-    const emailId = await sendEmail(content, config, {
-      candidateCount: sortedCandidates.length,
-      emailType: 'daily-digest',
-    });
+    const deliveries = await dispatchNotification(notification, config, target);
 
     logger.info('Email digest sent successfully', {
-      emailId,
-      candidateCount: sortedCandidates.length,
-      to: config.email.to,
+      deliveries,
+      candidateCount: candidates.length,
+      bearishCount: bearishCandidates.length,
+      to: target.to ?? null,
     });
   } catch (error) {
     logger.error('Failed to send email digest', {
@@ -327,6 +456,7 @@ export async function sendDigest(
 export async function sendPriceWatchAlerts(
   alerts: PriceWatchAlertInfo[],
   config: Config,
+  target: NotificationTarget = {},
 ): Promise<void> {
   if (alerts.length === 0) {
     logger.debug('No price watch alerts to email');
@@ -334,16 +464,13 @@ export async function sendPriceWatchAlerts(
   }
 
   try {
-    const content = buildPriceWatchEmail(alerts);
-    const emailId = await sendEmail(content, config, {
-      alertCount: alerts.length,
-      emailType: 'price-watch',
-    });
+    const notification: Notification = { type: 'price_watch', ...buildPriceWatchEmail(alerts), payload: { alerts } };
+    const deliveries = await dispatchNotification(notification, config, target);
 
     logger.info('Price watch alerts sent', {
-      emailId,
+      deliveries,
       alertCount: alerts.length,
-      to: config.email.to,
+      to: target.to ?? null,
     });
   } catch (error) {
     logger.error('Failed to send price watch alerts', {
@@ -357,6 +484,7 @@ export async function sendPriceWatchAlerts(
 export async function sendPositionDropAlerts(
   alerts: PositionDropAlertInfo[],
   config: Config,
+  target: NotificationTarget = {},
 ): Promise<void> {
   if (alerts.length === 0) {
     logger.debug('No portfolio alerts to email');
@@ -364,16 +492,13 @@ export async function sendPositionDropAlerts(
   }
 
   try {
-    const content = buildPortfolioAlertEmail(alerts);
-    const emailId = await sendEmail(content, config, {
-      alertCount: alerts.length,
-      emailType: 'portfolio-position-alert',
-    });
+    const notification: Notification = { type: 'position_drop', ...buildPortfolioAlertEmail(alerts), payload: { alerts } };
+    const deliveries = await dispatchNotification(notification, config, target);
 
     logger.info('Portfolio alerts sent', {
-      emailId,
+      deliveries,
       alertCount: alerts.length,
-      to: config.email.to,
+      to: target.to ?? null,
     });
   } catch (error) {
     logger.error('Failed to send portfolio alerts', {
@@ -389,15 +514,11 @@ export async function sendPerformanceReportEmail(
   config: Config,
 ): Promise<void> {
   try {
-    const content = buildPerformanceReportEmail(payload);
-    const emailId = await sendEmail(content, config, {
-      completed: payload.completed.length,
-      errorCount: payload.errors.length,
-      emailType: 'performance-report',
-    });
+    const notification: Notification = { type: 'performance_report', ...buildPerformanceReportEmail(payload), payload };
+    const deliveries = await dispatchNotification(notification, config);
 
     logger.info('Performance report email sent', {
-      emailId,
+      deliveries,
       completed: payload.completed.length,
       errors: payload.errors.length,
     });
@@ -419,66 +540,98 @@ function sortCandidates(candidates: EmailCandidate[]): EmailCandidate[] {
 }
 
 function buildDigestEmail(
-  candidates: EmailCandidate[],
+  stories: Story[],
   referenceDate: Date = new Date(),
+  bearishStories: Story[] = [],
+  mentionSpikes: MentionSpike[] = [],
+  feedback: FeedbackLinkSettings | null = null,
 ): EmailContent {
   const dateLabel = referenceDate.toISOString().slice(0, 10);
-  const subject = `🚀 Stock Watch — ${dateLabel} (${candidates.length} alerts)`;
-  const { text, html } = composeDigestContent(candidates, dateLabel, referenceDate);
+  const total = stories.length + bearishStories.length + mentionSpikes.length;
+  const subject = `🚀 Stock Watch — ${dateLabel} (${total} alerts)`;
+  const { text, html, sections } = composeDigestContent(
+    stories,
+    dateLabel,
+    referenceDate,
+    bearishStories,
+    mentionSpikes,
+    feedback,
+  );
   return {
     subject,
     text,
     html,
+    sections,
   };
 }
 
 function composeDigestContent(
-  candidates: EmailCandidate[],
+  stories: Story[],
   dateLabel: string,
   referenceDate: Date,
-): { text: string; html: string } {
+  bearishStories: Story[] = [],
+  mentionSpikes: MentionSpike[] = [],
+  feedback: FeedbackLinkSettings | null = null,
+): { text: string; html: string; sections: NotificationSection[] } {
   const header = `🚀 Stock Watch — ${dateLabel}`;
   const disclaimer = '*This is for informational purposes only and is not investment advice. Do your own research.*';
+  const bearishTitle = `🐻 BEARISH CLAIMS (${bearishStories.length})`;
+  const chatterTitle = `📣 UNUSUAL CHATTER (${mentionSpikes.length})`;
 
-  const byQuality = candidates.reduce((acc, candidate) => {
-    const score = candidate.quality_score;
+  const byQuality = stories.reduce((acc, story) => {
+    const score = story.representative.quality_score;
     if (!acc[score]) acc[score] = [];
-    acc[score].push(candidate);
+    acc[score].push(story);
     return acc;
-  }, {} as Record<number, EmailCandidate[]>);
+  }, {} as Record<number, Story[]>);
 
   const qualityScores = Object.keys(byQuality)
     .map(Number)
     .sort((a, b) => b - a);
 
-  const textParts: string[] = [header, ''];
+  // The text body is built as sections so chat channels can render the same content
+  const sections: NotificationSection[] = [];
+
+  // Spikes lead the digest: they often show up before any single post is worth reading
+  if (mentionSpikes.length > 0) {
+    sections.push({ title: `${chatterTitle}:`, lines: [...mentionSpikes.map(formatMentionSpike), ''] });
+  }
 
   qualityScores.forEach(score => {
     const sectionTitle = score >= 4
       ? `🔥 HIGH QUALITY (${score}/5):`
       : `📈 Quality ${score}/5:`;
 
-    textParts.push(sectionTitle, '');
-
-    byQuality[score].forEach(candidate => {
-      const tickers = candidate.tickers.join(', ');
-      const timeAgo = getTimeAgo(candidate.created_utc, referenceDate);
-
-      textParts.push(`**${tickers}** — ${candidate.title}`);
-      textParts.push(`Reason: ${candidate.reason}`);
-      formatPriceInsightsText(candidate).forEach(line => textParts.push(line));
-      formatTiingoContextText(candidate, referenceDate).forEach(line => textParts.push(line));
-      textParts.push(`Posted: ${timeAgo}`);
-      textParts.push(`Link: ${candidate.url}`);
-      textParts.push('');
+    sections.push({
+      title: sectionTitle,
+      lines: byQuality[score].flatMap(story => formatDigestStoryText(story, referenceDate, feedback)),
     });
   });
 
+  if (bearishStories.length > 0) {
+    sections.push({
+      title: `${bearishTitle}:`,
+      lines: bearishStories.flatMap(story => [
+        `Quality: ${story.representative.quality_score}/5`,
+        ...formatDigestStoryText(story, referenceDate, feedback),
+      ]),
+    });
+  }
+
+  const textParts: string[] = [header, ''];
+  sections.forEach(section => textParts.push(section.title ?? '', '', ...section.lines));
   textParts.push('', disclaimer);
   const text = textParts.join('\n');
+  sections.push({ lines: [disclaimer] });
 
   const htmlParts: string[] = [`<h1>${escapeHtml(header)}</h1>`];
 
+  if (mentionSpikes.length > 0) {
+    htmlParts.push(`<h2>${escapeHtml(chatterTitle)}</h2>`);
+    const items = mentionSpikes.map(spike => `<li>${escapeHtml(formatMentionSpike(spike))}</li>`).join('');
+    htmlParts.push(`<ul style="margin: 0 0 20px 0;">${items}</ul>`);
+  }
+
   qualityScores.forEach(score => {
     const sectionTitle = score >= 4
       ? `🔥 HIGH QUALITY (${score}/5)`
@@ -486,27 +639,142 @@ function composeDigestContent(
 
     htmlParts.push(`<h2>${escapeHtml(sectionTitle)}</h2>`);
 
-    byQuality[score].forEach(candidate => {
-      const tickers = escapeHtml(candidate.tickers.join(', '));
-      const timeAgo = escapeHtml(getTimeAgo(candidate.created_utc, referenceDate));
-
-      htmlParts.push(`
-        <div style="margin-bottom: 20px; padding: 15px; border-left: 3px solid #0070f3; background-color: #f8f9fa;">
-          <h3 style="margin: 0 0 8px 0;"><strong>${tickers}</strong> — ${escapeHtml(candidate.title)}</h3>
-          <p style="margin: 5px 0; color: #666;"><strong>Reason:</strong> ${escapeHtml(candidate.reason)}</p>
-          ${formatPriceInsightsHtml(candidate)}
-          ${formatTiingoContextHtml(candidate, referenceDate)}
-          <p style="margin: 5px 0; font-size: 0.9em; color: #888;">Posted: ${timeAgo}</p>
-          <p style="margin: 10px 0 0 0;"><a href="${escapeHtml(candidate.url)}" style="color: #0070f3; text-decoration: none;">View Post →</a></p>
-        </div>
-      `);
+    byQuality[score].forEach(story => {
+      htmlParts.push(formatDigestStoryHtml(story, referenceDate, '#0070f3', feedback));
     });
   });
 
+  if (bearishStories.length > 0) {
+    htmlParts.push(`<h2>${escapeHtml(bearishTitle)}</h2>`);
+    bearishStories.forEach(story => {
+      htmlParts.push(formatDigestStoryHtml(story, referenceDate, '#d93025', feedback));
+    });
+  }
+
   htmlParts.push(`<hr><p style="font-size: 0.9em; color: #666;"><em>${escapeHtml(disclaimer)}</em></p>`);
   const html = htmlParts.join('\n');
 
-  return { text, html };
+  return { text, html, sections };
+}
+
+// "GME — 42 mentions in the hour from Nov 14, 2025, 10:00 AM ET (usually 3.1 ± 1.8, z 21.6)"
+function formatMentionSpike(spike: MentionSpike): string {
+  const usual = `${spike.baselineMean.toFixed(1)} ± ${spike.baselineStdDev.toFixed(1)}`;
+  return `${spike.ticker} — ${spike.mentions} mentions in the hour from ${formatEtTimestamp(spike.hourStart)} ET `
+    + `(usually ${usual}, z ${spike.zScore.toFixed(1)})`;
+}
+
+function formatStorySpread(story: Story): string {
+  const posts = `${story.posts.length} posts`;
+  if (story.subreddits.length === 0) {
+    return posts;
+  }
+  return `${posts} across ${story.subreddits.map(subreddit => `r/${subreddit}`).join(', ')}`;
+}
+
+// The representative carries the story; the other posts are listed by title so readers can still open them
+function formatStoryText(story: Story): string[] {
+  if (story.posts.length < 2) {
+    return [];
+  }
+  return [
+    `Story: ${formatStorySpread(story)}`,
+    ...story.posts.slice(1).map(post => {
+      const source = post.subreddit ? ` (r/${post.subreddit})` : '';
+      return `  Also: ${post.title}${source} — ${post.url}`;
+    }),
+  ];
+}
+
+function formatStoryHtml(story: Story, accentColor: string): string {
+  if (story.posts.length < 2) {
+    return '';
+  }
+  const items = story.posts.slice(1).map(post => {
+    const source = post.subreddit ? ` (r/${escapeHtml(post.subreddit)})` : '';
+    return `<li style="margin-left:16px;"><a href="${escapeHtml(post.url)}" style="color: ${accentColor}; text-decoration: none;">${escapeHtml(post.title)}</a>${source}</li>`;
+  }).join('');
+  return `
+    <div style="margin:6px 0;">
+      <p style="margin:4px 0;font-size:0.9em;"><strong>Story:</strong> ${escapeHtml(formatStorySpread(story))}</p>
+      <ul style="margin:4px 0;padding-left:0;list-style:none;font-size:0.9em;">${items}</ul>
+    </div>
+  `;
+}
+
+function formatFeedbackText(candidate: EmailCandidate, feedback: FeedbackLinkSettings | null, referenceDate: Date): string[] {
+  if (!feedback) {
+    return [];
+  }
+  return [
+    'Feedback:',
+    ...digestFeedbackLinks(candidate, feedback, referenceDate).map(link => `  ${link.label}: ${link.url}`),
+  ];
+}
+
+function formatFeedbackHtml(candidate: EmailCandidate, feedback: FeedbackLinkSettings | null, referenceDate: Date): string {
+  if (!feedback) {
+    return '';
+  }
+  const links = digestFeedbackLinks(candidate, feedback, referenceDate)
+    .map(link => `<a href="${escapeHtml(link.url)}" style="color:#666;text-decoration:none;">${escapeHtml(link.label)}</a>`)
+    .join(' · ');
+  return `<p style="margin:8px 0 0 0;font-size:0.85em;">${links}</p>`;
+}
+
+function formatDigestStoryText(
+  story: Story,
+  referenceDate: Date,
+  feedback: FeedbackLinkSettings | null = null,
+): string[] {
+  const candidate = story.representative;
+  const tickers = formatTickerList(candidate.tickers);
+  const timeAgo = getTimeAgo(candidate.created_utc, referenceDate);
+
+  return [
+    `**${tickers}** — ${candidate.title}`,
+    `Reason: ${candidate.reason}`,
+    ...formatPumpRiskText(candidate),
+    ...formatEvidenceText(candidate),
+    ...formatOptionContractsText(candidate),
+    ...formatPriceInsightsText(candidate),
+    ...formatTiingoContextText(candidate, referenceDate),
+    ...formatStoryText(story),
+    `Posted: ${timeAgo}`,
+    `Link: ${candidate.url}`,
+    ...formatFeedbackText(candidate, feedback, referenceDate),
+    '',
+  ];
+}
+
+function formatDigestStoryHtml(
+  story: Story,
+  referenceDate: Date,
+  accentColor: string,
+  feedback: FeedbackLinkSettings | null = null,
+): string {
+  const candidate = story.representative;
+  const tickers = escapeHtml(formatTickerList(candidate.tickers));
+  const timeAgo = escapeHtml(getTimeAgo(candidate.created_utc, referenceDate));
+  const qualityLabel = candidate.direction === 'bearish'
+    ? `<span style="margin-left:6px;font-size:0.8em;color:#666;">Quality ${candidate.quality_score}/5</span>`
+    : '';
+
+  return `
+        <div style="margin-bottom: 20px; padding: 15px; border-left: 3px solid ${accentColor}; background-color: #f8f9fa;">
+          <h3 style="margin: 0 0 8px 0;"><strong>${tickers}</strong> — ${escapeHtml(candidate.title)}${qualityLabel}</h3>
+          <p style="margin: 5px 0; color: #666;"><strong>Reason:</strong> ${escapeHtml(candidate.reason)}</p>
+          ${formatPumpRiskHtml(candidate)}
+          ${formatEvidenceHtml(candidate)}
+          ${formatOptionContractsHtml(candidate)}
+          ${formatPriceInsightsHtml(candidate)}
+          ${formatTiingoContextHtml(candidate, referenceDate)}
+          ${formatStoryHtml(story, accentColor)}
+          <p style="margin: 5px 0; font-size: 0.9em; color: #888;">Posted: ${timeAgo}</p>
+          <p style="margin: 10px 0 0 0;"><a href="${escapeHtml(candidate.url)}" style="color: ${accentColor}; text-decoration: none;">View Post →</a></p>
+          ${formatFeedbackHtml(candidate, feedback, referenceDate)}
+        </div>
+      `;
 }
 
 function buildPriceWatchEmail(alerts: PriceWatchAlertInfo[]): EmailContent {
@@ -514,7 +782,7 @@ function buildPriceWatchEmail(alerts: PriceWatchAlertInfo[]): EmailContent {
   const subject = `⏱️ Price Watch — ${subjectTickers}`;
   const text = buildPriceWatchText(alerts, subject);
   const html = buildPriceWatchHtml(alerts);
-  return { subject, text, html };
+  return { subject, text, html, sections: textSections(text, subject) };
 }
 
 function buildPortfolioAlertEmail(alerts: PositionDropAlertInfo[]): EmailContent {
@@ -584,70 +852,97 @@ function buildPortfolioAlertEmail(alerts: PositionDropAlertInfo[]): EmailContent
     </div>
   `;
 
-  return { subject, text: textLines.join('\n'), html };
+  const text = textLines.join('\n');
+  return { subject, text, html, sections: textSections(text, subject) };
 }
 
+const PRICE_WATCH_INTROS: Record<ClaimDirection, string> = {
+  bullish: 'These tickers are still within 5% of their recommendation price (or below):',
+  bearish: 'These bearish calls are playing out — down at least 5% since the digest:',
+};
+
 function buildPriceWatchText(alerts: PriceWatchAlertInfo[], subject: string): string {
   const lines: string[] = [];
   lines.push(subject, '');
-  lines.push('These tickers are still within 5% of their recommendation price (or below):', '');
 
-  alerts.forEach(alert => {
-    const entry = formatUsd(alert.entryPrice);
-    const current = formatUsd(alert.currentPrice);
-    const move = formatPct(alert.movePct);
-    const recommendedAt = formatEtTimestamp(alert.emailedAtIso);
-    const triggeredAt = formatEtTimestamp(alert.triggeredAtIso);
-    lines.push(`${alert.ticker} — ${alert.title}`);
-    lines.push(`  Current: ${current} (Δ ${move} from ${entry})`);
-    lines.push(`  Recommended: ${recommendedAt} | Alerted: ${triggeredAt}`);
-    if (alert.url) {
-      lines.push(`  Link: ${alert.url}`);
+  (['bullish', 'bearish'] as const).forEach(direction => {
+    const sectionAlerts = alerts.filter(alert => (alert.direction ?? 'bullish') === direction);
+    if (sectionAlerts.length === 0) {
+      return;
     }
-    lines.push('');
+    lines.push(PRICE_WATCH_INTROS[direction], '');
+    sectionAlerts.forEach(alert => lines.push(...formatPriceWatchAlertText(alert)));
   });
 
   lines.push('We will stop monitoring once the stock gains more than 15% or after today’s market close.');
   return lines.join('\n');
 }
 
-function buildPriceWatchHtml(alerts: PriceWatchAlertInfo[]): string {
-  const rows = alerts.map(alert => {
-    const entry = formatUsd(alert.entryPrice);
-    const current = formatUsd(alert.currentPrice);
-    const move = formatPct(alert.movePct);
-    const recommendedAt = formatEtTimestamp(alert.emailedAtIso);
-    const triggeredAt = formatEtTimestamp(alert.triggeredAtIso);
-    const title = escapeHtml(alert.title);
-    const link = alert.url
-      ? `<a href="${escapeHtml(alert.url)}">${title}</a>`
-      : title;
+function formatPriceWatchAlertText(alert: PriceWatchAlertInfo): string[] {
+  const entry = formatUsd(alert.entryPrice);
+  const current = formatUsd(alert.currentPrice);
+  const move = formatPct(alert.movePct);
+  const recommendedAt = formatEtTimestamp(alert.emailedAtIso);
+  const triggeredAt = formatEtTimestamp(alert.triggeredAtIso);
+  const lines = [
+    `${alert.ticker} — ${alert.title}`,
+    `  Current: ${current} (Δ ${move} from ${entry})`,
+    `  Recommended: ${recommendedAt} | Alerted: ${triggeredAt}`,
+  ];
+  if (alert.url) {
+    lines.push(`  Link: ${alert.url}`);
+  }
+  lines.push('');
+  return lines;
+}
 
-    return `
-      <li style="margin-bottom:12px;">
-        <div style="font-weight:600;">${escapeHtml(alert.ticker)} — ${link}</div>
-        <div style="font-size:0.95em;">Current: <strong>${escapeHtml(current)}</strong> (Δ ${escapeHtml(move)} from ${escapeHtml(entry)})</div>
-        <div style="font-size:0.85em;color:#666;">Recommended: ${escapeHtml(recommendedAt)} · Alerted: ${escapeHtml(triggeredAt)}</div>
-      </li>
-    `;
-  }).join('');
+function buildPriceWatchHtml(alerts: PriceWatchAlertInfo[]): string {
+  const sections = (['bullish', 'bearish'] as const).map(direction => {
+    const sectionAlerts = alerts.filter(alert => (alert.direction ?? 'bullish') === direction);
+    if (sectionAlerts.length === 0) {
+      return '';
+    }
+    return [
+      `<p style="margin:4px 0 12px 0;">${escapeHtml(PRICE_WATCH_INTROS[direction])}</p>`,
+      `<ul style="margin:0;padding-left:16px;">${sectionAlerts.map(formatPriceWatchAlertHtml).join('')}</ul>`,
+    ].join('\n');
+  }).filter(Boolean);
 
   return [
     '<div style="font-family:system-ui, -apple-system, BlinkMacSystemFont, \"Segoe UI\", sans-serif;">',
     '<h1 style="margin-bottom:8px;">⏱️ Price Watch</h1>',
-    '<p style="margin:4px 0 12px 0;">These tickers are still within 5% of their recommendation price (or below):</p>',
-    `<ul style="margin:0;padding-left:16px;">${rows}</ul>`,
+    ...sections,
     '<p style="font-size:0.85em;color:#666;margin-top:12px;">Monitoring stops after a 15% gain or once today’s market closes.</p>',
     '</div>',
   ].join('\n');
 }
 
+function formatPriceWatchAlertHtml(alert: PriceWatchAlertInfo): string {
+  const entry = formatUsd(alert.entryPrice);
+  const current = formatUsd(alert.currentPrice);
+  const move = formatPct(alert.movePct);
+  const recommendedAt = formatEtTimestamp(alert.emailedAtIso);
+  const triggeredAt = formatEtTimestamp(alert.triggeredAtIso);
+  const title = escapeHtml(alert.title);
+  const link = alert.url
+    ? `<a href="${escapeHtml(alert.url)}">${title}</a>`
+    : title;
+
+  return `
+    <li style="margin-bottom:12px;">
+      <div style="font-weight:600;">${escapeHtml(alert.ticker)} — ${link}</div>
+      <div style="font-size:0.95em;">Current: <strong>${escapeHtml(current)}</strong> (Δ ${escapeHtml(move)} from ${escapeHtml(entry)})</div>
+      <div style="font-size:0.85em;color:#666;">Recommended: ${escapeHtml(recommendedAt)} · Alerted: ${escapeHtml(triggeredAt)}</div>
+    </li>
+  `;
+}
+
 function buildPerformanceReportEmail(payload: PerformanceEmailPayload): EmailContent {
   const summary = payload.report;
   const subject = `📊 Performance — ${summary.lookbackDateEt} ➜ ${summary.runDateEt}`;
   const text = buildPerformanceText(payload, subject);
   const html = buildPerformanceHtml(payload);
-  return { subject, text, html };
+  return { subject, text, html, sections: textSections(text, subject) };
 }
 
 function buildPerformanceText(payload: PerformanceEmailPayload, subject: string): string {
@@ -690,6 +985,26 @@ function buildPerformanceText(payload: PerformanceEmailPayload, subject: string)
     }
   }
 
+  if (payload.optionContracts.length) {
+    const hitRate = summary.optionDirectionHitRatePct !== null ? `${summary.optionDirectionHitRatePct.toFixed(2)}%` : 'n/a';
+    lines.push('', `Option calls by expiry (${summary.optionContractsEvaluated} evaluated, ${hitRate} right direction):`);
+    for (const item of payload.optionContracts) {
+      const verdict = `${item.directionCorrect ? 'right' : 'wrong'} direction, ${item.inTheMoney ? 'in' : 'out of'} the money`;
+      lines.push(`  ${item.contract}: underlying ${item.underlyingMovePct.toFixed(2)}% — ${verdict} — ${item.title}`);
+      lines.push(`    Link: ${item.url}`);
+    }
+  }
+
+  if (payload.targets.length) {
+    const hitRate = summary.targetHitRatePct !== null ? `${summary.targetHitRatePct.toFixed(2)}%` : 'n/a';
+    lines.push('', `Stated targets due (${summary.targetsEvaluated} scored, ${hitRate} hit):`);
+    for (const item of payload.targets) {
+      const target = item.priceTarget !== null ? `PT $${item.priceTarget} ` : '';
+      lines.push(`  ${item.ticker}: ${target}by ${item.deadline} — ${item.hit ? 'hit' : 'missed'} (${item.movePct.toFixed(2)}%) — ${item.title}`);
+      lines.push(`    Link: ${item.url}`);
+    }
+  }
+
   if (payload.errors.length) {
     lines.push('', 'Tickers with missing data:');
     for (const err of payload.errors) {
@@ -759,6 +1074,54 @@ function buildPerformanceHtml(payload: PerformanceEmailPayload): string {
   sections.push(renderCompletedTable('Top Winners', topWinners));
   sections.push(renderCompletedTable('Top Losers', topLosers));
 
+  if (payload.optionContracts.length) {
+    const cellStyle = 'style="padding:6px 8px;border:1px solid #ddd;text-align:left;"';
+    const hitRate = summary.optionDirectionHitRatePct !== null ? `${summary.optionDirectionHitRatePct.toFixed(2)}%` : 'n/a';
+    const rows = payload.optionContracts.map(item => `
+        <tr>
+          <td ${cellStyle}>${escapeHtml(item.contract)}</td>
+          <td ${cellStyle}>${item.underlyingMovePct.toFixed(2)}%</td>
+          <td ${cellStyle}>${item.directionCorrect ? '✅' : '❌'}</td>
+          <td ${cellStyle}>${item.inTheMoney ? 'ITM' : 'OTM'}</td>
+          <td ${cellStyle}><a href="${escapeHtml(item.url)}">${escapeHtml(item.title)}</a></td>
+        </tr>
+      `).join('');
+    const header = `<tr>
+        <th ${cellStyle}>Contract</th>
+        <th ${cellStyle}>Underlying move</th>
+        <th ${cellStyle}>Direction</th>
+        <th ${cellStyle}>At expiry</th>
+        <th ${cellStyle}>Post</th>
+      </tr>`;
+    sections.push(`<h2>Option Calls By Expiry (${escapeHtml(hitRate)} right direction)</h2>`);
+    sections.push(`<table style="width:100%; border-collapse:collapse;">${header}${rows}</table>`);
+  }
+
+  if (payload.targets.length) {
+    const cellStyle = 'style="padding:6px 8px;border:1px solid #ddd;text-align:left;"';
+    const hitRate = summary.targetHitRatePct !== null ? `${summary.targetHitRatePct.toFixed(2)}%` : 'n/a';
+    const rows = payload.targets.map(item => `
+        <tr>
+          <td ${cellStyle}>${escapeHtml(item.ticker)}</td>
+          <td ${cellStyle}>${item.priceTarget !== null ? `$${item.priceTarget}` : '—'}</td>
+          <td ${cellStyle}>${escapeHtml(item.deadline)}</td>
+          <td ${cellStyle}>${item.movePct.toFixed(2)}%</td>
+          <td ${cellStyle}>${item.hit ? '✅' : '❌'}</td>
+          <td ${cellStyle}><a href="${escapeHtml(item.url)}">${escapeHtml(item.title)}</a></td>
+        </tr>
+      `).join('');
+    const header = `<tr>
+        <th ${cellStyle}>Ticker</th>
+        <th ${cellStyle}>Target</th>
+        <th ${cellStyle}>Deadline</th>
+        <th ${cellStyle}>Move</th>
+        <th ${cellStyle}>Hit</th>
+        <th ${cellStyle}>Post</th>
+      </tr>`;
+    sections.push(`<h2>Stated Targets Due (${escapeHtml(hitRate)} hit)</h2>`);
+    sections.push(`<table style="width:100%; border-collapse:collapse;">${header}${rows}</table>`);
+  }
+
   if (payload.errors.length) {
     const cellStyle = 'style="padding:6px 8px;border:1px solid #ddd;text-align:left;"';
     const rows = payload.errors.map(err => `
@@ -783,8 +1146,12 @@ function buildPerformanceHtml(payload: PerformanceEmailPayload): string {
 }
 
 // Test function to preview email content without sending
-export function previewDigest(candidates: EmailCandidate[]): { textContent: string; htmlContent: string } {
-  const sorted = sortCandidates(candidates);
-  const content = buildDigestEmail(sorted);
+export function previewDigest(
+  candidates: EmailCandidate[],
+  bearishCandidates: EmailCandidate[] = [],
+  mentionSpikes: MentionSpike[] = [],
+): { textContent: string; htmlContent: string } {
+  const stories = clusterStories(sortCandidates(candidates));
+  const content = buildDigestEmail(stories, new Date(), clusterStories(sortCandidates(bearishCandidates)), mentionSpikes);
   return { textContent: content.text, htmlContent: content.html };
 }
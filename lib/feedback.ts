@@ -0,0 +1,204 @@
+// One-click reader feedback. Every post in the digest links to the feedback Lambda's Function URL
+// with a signed query string; the Lambda records the click in `post_feedback`. Votes nudge
+// selectForEmail's ranking and mutes keep a ticker or an author out of the clicking subscriber's
+// later digests. The EMAIL_TO and channel digests are shared, so they only carry the votes.
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { Config } from './config';
+import type { EmailCandidate } from './db';
+
+export const FEEDBACK_ACTIONS = ['up', 'down', 'mute_ticker', 'mute_author'] as const;
+export type FeedbackAction = typeof FEEDBACK_ACTIONS[number];
+
+export interface FeedbackLink {
+  postId: string;
+  action: FeedbackAction;
+  // The muted ticker or author; empty for votes
+  target: string;
+  // Set on subscriber digests, the only ones with mute links
+  subscriptionId: string | null;
+  // Unix seconds
+  issuedAt: number;
+}
+
+export interface FeedbackLinkSettings {
+  baseUrl: string;
+  secret: string;
+  subscriptionId: string | null;
+}
+
+export type FeedbackVerification =
+  | { ok: true; link: FeedbackLink }
+  | { ok: false; reason: string };
+
+// Long enough for a weekly roll-up to be read late, short enough that old mail stops voting
+export const FEEDBACK_LINK_TTL_SECONDS = 30 * 24 * 60 * 60;
+// Largest ranking adjustments, in quality-score points
+const POST_VOTE_WEIGHT = 1;
+const AUTHOR_VOTE_WEIGHT = 0.75;
+// Net votes at which each adjustment saturates
+const POST_VOTES_FOR_FULL_WEIGHT = 3;
+const AUTHOR_VOTES_FOR_FULL_WEIGHT = 10;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+// Links are only rendered once FEEDBACK_URL is configured
+export function feedbackLinkSettings(config: Config, subscriptionId: string | null = null): FeedbackLinkSettings | null {
+  const { feedbackUrl, feedbackSecret } = config.email;
+  if (!feedbackUrl || !feedbackSecret) {
+    return null;
+  }
+  return { baseUrl: feedbackUrl, secret: feedbackSecret, subscriptionId };
+}
+
+export function signFeedbackLink(secret: string, link: FeedbackLink): string {
+  const payload = [link.postId, link.action, link.target, link.subscriptionId ?? '', String(link.issuedAt)].join('\n');
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+export function buildFeedbackUrl(settings: FeedbackLinkSettings, link: Omit<FeedbackLink, 'subscriptionId'>): string {
+  const signed: FeedbackLink = { ...link, subscriptionId: settings.subscriptionId };
+  const url = new URL(settings.baseUrl);
+  url.searchParams.set('p', signed.postId);
+  url.searchParams.set('a', signed.action);
+  if (signed.target) {
+    url.searchParams.set('v', signed.target);
+  }
+  if (signed.subscriptionId) {
+    url.searchParams.set('u', signed.subscriptionId);
+  }
+  url.searchParams.set('t', String(signed.issuedAt));
+  url.searchParams.set('s', signFeedbackLink(settings.secret, signed));
+  return url.toString();
+}
+
+export function verifyFeedbackLink(
+  query: Record<string, string | undefined>,
+  secret: string,
+  now: Date,
+): FeedbackVerification {
+  const postId = query.p ?? '';
+  const action = query.a ?? '';
+  const signature = query.s ?? '';
+  const issuedAt = Number(query.t);
+  if (!postId || !signature || !Number.isInteger(issuedAt)) {
+    return { ok: false, reason: 'Incomplete feedback link' };
+  }
+  if (!(FEEDBACK_ACTIONS as readonly string[]).includes(action)) {
+    return { ok: false, reason: `Unknown feedback action: ${action}` };
+  }
+
+  const link: FeedbackLink = {
+    postId,
+    action: action as FeedbackAction,
+    target: query.v ?? '',
+    subscriptionId: query.u || null,
+    issuedAt,
+  };
+  const expected = Buffer.from(signFeedbackLink(secret, link));
+  const provided = Buffer.from(signature);
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return { ok: false, reason: 'Invalid feedback signature' };
+  }
+  if (now.getTime() / 1000 - issuedAt > FEEDBACK_LINK_TTL_SECONDS) {
+    return { ok: false, reason: 'Feedback link has expired' };
+  }
+  if (link.action.startsWith('mute_') && !link.target) {
+    return { ok: false, reason: 'Mute link is missing its target' };
+  }
+  if (link.action.startsWith('mute_') && !link.subscriptionId) {
+    return { ok: false, reason: 'Mute link is not tied to a subscription' };
+  }
+  return { ok: true, link };
+}
+
+// Thumbs up and down, then for a subscriber a mute link per ticker and one for the author
+export function digestFeedbackLinks(
+  candidate: EmailCandidate,
+  settings: FeedbackLinkSettings,
+  referenceDate: Date,
+): Array<{ label: string; url: string }> {
+  const issuedAt = Math.floor(referenceDate.getTime() / 1000);
+  const link = (action: FeedbackAction, target = '') => buildFeedbackUrl(settings, {
+    postId: candidate.post_id,
+    action,
+    target,
+    issuedAt,
+  });
+
+  const votes = [
+    { label: '👍 Useful', url: link('up') },
+    { label: '👎 Garbage', url: link('down') },
+  ];
+  if (!settings.subscriptionId) {
+    return votes;
+  }
+
+  return [
+    ...votes,
+    ...candidate.tickers.map(ticker => ({ label: `Mute ${ticker}`, url: link('mute_ticker', ticker) })),
+    ...(candidate.author ? [{ label: `Mute u/${candidate.author}`, url: link('mute_author', candidate.author) }] : []),
+  ];
+}
+
+// Net votes (up minus down) on the post itself and on everything its author has posted
+export function feedbackRankingBoost(postNetVotes: number, authorNetVotes: number): number {
+  return POST_VOTE_WEIGHT * clamp(postNetVotes / POST_VOTES_FOR_FULL_WEIGHT, -1, 1)
+    + AUTHOR_VOTE_WEIGHT * clamp(authorNetVotes / AUTHOR_VOTES_FOR_FULL_WEIGHT, -1, 1);
+}
+
+export interface FeedbackQualityReport {
+  // Emailed posts with at least one vote
+  ratedPosts: number;
+  // Pearson correlation between quality_score and net votes across rated posts; null below 3 posts
+  // or when either side does not vary
+  correlation: number | null;
+  byQuality: Record<string, { posts: number; up: number; down: number; netPerPost: number }>;
+}
+
+export function summarizeFeedbackByQuality(
+  posts: Array<{ qualityScore: number | null; up: number; down: number }>,
+): FeedbackQualityReport {
+  const rated = posts.filter(
+    (post): post is { qualityScore: number; up: number; down: number } =>
+      typeof post.qualityScore === 'number' && post.up + post.down > 0,
+  );
+
+  const byQuality: FeedbackQualityReport['byQuality'] = {};
+  rated.forEach(post => {
+    const bucket = byQuality[String(post.qualityScore)] ?? { posts: 0, up: 0, down: 0, netPerPost: 0 };
+    bucket.posts += 1;
+    bucket.up += post.up;
+    bucket.down += post.down;
+    bucket.netPerPost = Number(((bucket.up - bucket.down) / bucket.posts).toFixed(3));
+    byQuality[String(post.qualityScore)] = bucket;
+  });
+
+  return {
+    ratedPosts: rated.length,
+    correlation: pearson(rated.map(post => post.qualityScore), rated.map(post => post.up - post.down)),
+    byQuality,
+  };
+}
+
+function pearson(xs: number[], ys: number[]): number | null {
+  if (xs.length < 3) {
+    return null;
+  }
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  });
+  if (varianceX === 0 || varianceY === 0) {
+    return null;
+  }
+  return Number((covariance / Math.sqrt(varianceX * varianceY)).toFixed(3));
+}
@@ -0,0 +1,336 @@
+import { logger } from './logger';
+import type { Config, LlmProviderName } from './config';
+import type { CatalystType, LlmItem } from './llm';
+import { normalizeTickers } from './tickers';
+
+export interface LlmRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  items: LlmItem[];
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LlmCompletion {
+  content: string;
+  model: string;
+  usage: LlmUsage | null;
+}
+
+/**
+ * A backend capable of turning a classification prompt into a raw JSON string
+ * plus the token usage reported for the call.
+ * Parsing and schema validation stay in classifyBatch so every provider is
+ * held to the same contract.
+ */
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly model: string;
+  complete(request: LlmRequest): Promise<LlmCompletion>;
+}
+
+export const DEFAULT_MODELS: Record<LlmProviderName, string> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-latest',
+  'openai-compatible': 'local-model',
+  stub: 'rules-v1',
+};
+
+// USD per million tokens, by model family; unknown models cost nothing unless config overrides it
+const MODEL_PRICING_PER_MTOK: Record<string, { prompt: number; completion: number }> = {
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'gpt-4.1-mini': { prompt: 0.4, completion: 1.6 },
+  'gpt-4.1': { prompt: 2, completion: 8 },
+  'claude-3-5-haiku': { prompt: 0.8, completion: 4 },
+  'claude-3-5-sonnet': { prompt: 3, completion: 15 },
+};
+
+// APIs answer with dated snapshots ("gpt-4o-mini-2024-07-18", "claude-3-5-haiku-20241022") or
+// aliases ("-latest"), so a model is priced by the longest family name it extends
+function lookupModelPricing(model: string): { prompt: number; completion: number } | undefined {
+  const normalized = model.trim().toLowerCase();
+  const family = Object.keys(MODEL_PRICING_PER_MTOK)
+    .filter(key => normalized === key || normalized.startsWith(`${key}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return family ? MODEL_PRICING_PER_MTOK[family] : undefined;
+}
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_API_VERSION = '2023-06-01';
+
+interface GenerationSettings {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+function resolveGenerationSettings(config: Config): GenerationSettings {
+  return {
+    model: config.llm.model || DEFAULT_MODELS[config.llm.provider],
+    temperature: config.llm.temperature,
+    maxTokens: config.llm.maxTokens,
+  };
+}
+
+export function estimateCostUsd(model: string, usage: LlmUsage | null, config: Config): number {
+  if (!usage) {
+    return 0;
+  }
+  // Fall back to the configured model when the response names one the table does not know
+  const known = lookupModelPricing(model) ?? lookupModelPricing(resolveGenerationSettings(config).model);
+  const promptRate = config.llm.promptCostPerMtok ?? known?.prompt ?? 0;
+  const completionRate = config.llm.completionCostPerMtok ?? known?.completion ?? 0;
+  return (usage.promptTokens * promptRate + usage.completionTokens * completionRate) / 1_000_000;
+}
+
+class OpenAIProvider implements LlmProvider {
+  readonly name: LlmProviderName;
+  readonly model: string;
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly settings: GenerationSettings,
+    private readonly baseUrl?: string,
+  ) {
+    this.name = baseUrl ? 'openai-compatible' : 'openai';
+    this.model = settings.model;
+  }
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    const { OpenAI } = await import('openai');
+
+    const client = new OpenAI({
+      apiKey: this.apiKey,
+      ...(this.baseUrl && { baseURL: this.baseUrl }),
+    });
+
+    logger.debug('Calling OpenAI-style chat completions API', {
+      provider: this.name,
+      batchSize: request.items.length,
+      baseUrl: this.baseUrl,
+    });
+
+    const response = await client.chat.completions.create({
+      model: this.model,
+      temperature: this.settings.temperature,
+      max_tokens: this.settings.maxTokens,
+      // Self-hosted servers frequently reject response_format, so only ask for it upstream
+      ...(this.name === 'openai' && { response_format: { type: 'json_object' as const } }),
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.userPrompt },
+      ],
+    });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error(`${this.name} returned empty response`);
+    }
+
+    logger.debug('OpenAI-style response received', {
+      provider: this.name,
+      responseLength: content.length,
+      usage: response.usage,
+    });
+
+    return {
+      content,
+      model: response.model || this.model,
+      usage: response.usage
+        ? {
+          promptTokens: response.usage.prompt_tokens ?? 0,
+          completionTokens: response.usage.completion_tokens ?? 0,
+        }
+        : null,
+    };
+  }
+}
+
+class AnthropicProvider implements LlmProvider {
+  readonly name: LlmProviderName = 'anthropic';
+  readonly model: string;
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly settings: GenerationSettings,
+  ) {
+    this.model = settings.model;
+  }
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    const fetchFn = (globalThis as any).fetch as ((input: string, init?: any) => Promise<any>) | undefined;
+    if (typeof fetchFn !== 'function') {
+      throw new Error('global fetch is not available in this runtime');
+    }
+
+    logger.debug('Calling Anthropic API', { batchSize: request.items.length });
+
+    const res: any = await fetchFn(ANTHROPIC_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_API_VERSION,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: this.settings.maxTokens,
+        temperature: this.settings.temperature,
+        system: request.systemPrompt,
+        messages: [
+          { role: 'user', content: request.userPrompt },
+        ],
+      }),
+    });
+
+    if (!res.ok) {
+      const body = await res.text();
+      throw new Error(`Anthropic request failed (${res.status} ${res.statusText}): ${body}`);
+    }
+
+    const json = await res.json();
+    const content = Array.isArray(json?.content)
+      ? json.content
+        .filter((block: any) => block?.type === 'text' && typeof block.text === 'string')
+        .map((block: any) => block.text)
+        .join('')
+      : '';
+
+    if (!content) {
+      throw new Error('Anthropic returned empty response');
+    }
+
+    logger.debug('Anthropic response received', {
+      responseLength: content.length,
+      usage: json.usage,
+    });
+
+    return {
+      content,
+      model: typeof json.model === 'string' ? json.model : this.model,
+      usage: json.usage
+        ? {
+          promptTokens: Number(json.usage.input_tokens ?? 0),
+          completionTokens: Number(json.usage.output_tokens ?? 0),
+        }
+        : null,
+    };
+  }
+}
+
+const FORWARD_LOOKING = /\b(will|going to|gonna|expect(?:s|ing)?|about to)\b/;
+const UPWARD = /\b(up|rise|rising|rally|higher|moon|breakout|squeeze|rip|run(?:-| )?up|gap up|new highs)\b/;
+const DOWNWARD = /\b(down|drop|dump|crash|fall|lower|tank|puts|short|overvalued)\b/;
+const HEDGED = /\b(might|could|maybe|perhaps|if)\b/;
+const CATALYSTS = ['earnings', 'guidance', 'fda', 'pdufa', 'contract', 'catalyst', 'valuation', 'undervalued', 'overvalued', 'merger', 'buyback', 'dilution', 'lawsuit'];
+const CATALYST_TYPE_BY_WORD: Record<string, CatalystType> = {
+  earnings: 'earnings',
+  guidance: 'guidance',
+  fda: 'fda',
+  pdufa: 'fda',
+  merger: 'merger',
+  contract: 'product',
+  dilution: 'dilution',
+  lawsuit: 'legal',
+};
+const PRICE_TARGET = /\b(?:pt|price target|target)(?: of)?:?\s*\$(\d+(?:\.\d+)?)/;
+const HORIZON = /\b(?:in|within)\s+(\d{1,3})\s+(day|week|month)s?\b/;
+const HORIZON_UNIT_DAYS: Record<string, number> = { day: 1, week: 7, month: 30 };
+
+/**
+ * Deterministic, offline classifier used for tests and dry runs. It mirrors the
+ * rules in the system prompt closely enough to exercise the rest of the pipeline.
+ */
+class StubProvider implements LlmProvider {
+  readonly name: LlmProviderName = 'stub';
+  readonly model = DEFAULT_MODELS.stub;
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    const results = request.items.map(item => classifyWithRules(item));
+    return {
+      content: JSON.stringify({ results }),
+      model: this.model,
+      usage: { promptTokens: 0, completionTokens: 0 },
+    };
+  }
+}
+
+function classifyWithRules(item: LlmItem) {
+  const text = `${item.title}\n${item.body}`.toLowerCase();
+  const forward = FORWARD_LOOKING.test(text);
+  const upward = UPWARD.test(text);
+  const downward = DOWNWARD.test(text);
+  const hedged = HEDGED.test(text);
+  const catalysts = CATALYSTS.filter(word => text.includes(word));
+  const tickers = normalizeTickers(item.tickers);
+
+  let stance: 'bullish' | 'bearish' | 'unclear' = 'unclear';
+  if (!hedged && upward && !downward) {
+    stance = 'bullish';
+  } else if (!hedged && downward && !upward) {
+    stance = 'bearish';
+  }
+
+  const isClaim = stance !== 'unclear' && forward && catalysts.length > 0 && tickers.length > 0;
+  const priceTarget = PRICE_TARGET.exec(text);
+  const horizon = HORIZON.exec(text);
+  const catalystType = catalysts.map(word => CATALYST_TYPE_BY_WORD[word]).find(Boolean) ?? null;
+  const qualityScore = Math.min(5, catalysts.length + (isClaim ? 2 : 0));
+  const direction = stance === 'bearish' ? 'downside' : 'upside';
+
+  return {
+    post_id: item.post_id,
+    is_future_upside_claim: isClaim && stance === 'bullish',
+    is_future_downside_claim: isClaim && stance === 'bearish',
+    stance,
+    reason: isClaim
+      ? `Forward-looking ${direction} claim citing ${catalysts.join(', ')}.`
+      : 'No explicit forward-looking claim with a rationale.',
+    tickers,
+    quality_score: qualityScore,
+    evidence_phrases: catalysts.slice(0, 5),
+    confidence: isClaim ? 3 : 2,
+    // The stub has no calendar sense, so it reports spans ("in 3 weeks") but never dates
+    price_target: priceTarget ? Number(priceTarget[1]) : null,
+    target_date: null,
+    horizon_days: horizon ? Math.min(Math.max(Number(horizon[1]), 1) * HORIZON_UNIT_DAYS[horizon[2]], 1825) : null,
+    catalyst_type: catalystType,
+  };
+}
+
+export function createLlmProvider(config: Config): LlmProvider {
+  const { provider } = config.llm;
+  const settings = resolveGenerationSettings(config);
+
+  if (provider === 'openai') {
+    if (!config.llm.openaiApiKey) {
+      throw new Error('OPENAI_API_KEY is required for the openai provider');
+    }
+    return new OpenAIProvider(config.llm.openaiApiKey, settings);
+  }
+
+  if (provider === 'anthropic') {
+    if (!config.llm.anthropicApiKey) {
+      throw new Error('ANTHROPIC_API_KEY is required for the anthropic provider');
+    }
+    return new AnthropicProvider(config.llm.anthropicApiKey, settings);
+  }
+
+  if (provider === 'openai-compatible') {
+    if (!config.llm.baseUrl) {
+      throw new Error('LLM_BASE_URL is required for the openai-compatible provider');
+    }
+    // Most self-hosted servers ignore the key, but the SDK insists on one
+    return new OpenAIProvider(config.llm.apiKey ?? 'not-needed', settings, config.llm.baseUrl);
+  }
+
+  if (provider === 'stub') {
+    return new StubProvider();
+  }
+
+  throw new Error(`Unsupported LLM provider: ${provider}`);
+}
@@ -1,6 +1,11 @@
 import Ajv from 'ajv';
 import { logger } from './logger';
 import type { Config } from './config';
+import { createLlmProvider, estimateCostUsd, type LlmCompletion } from './llm-providers';
+import { recordLlmUsage, getLlmSpendSince, type LlmRetryItem } from './db';
+import { startOfEasternDay } from './time';
+import { normalizeTickers } from './tickers';
+import type { Post, PostType } from './reddit';
 import llmSchema from '../assets/llm_schema.json';
 
 const ajv = new Ajv({ allErrors: true, strict: false });
@@ -11,20 +16,51 @@ export interface LlmItem {
   title: string;
   body: string;
   tickers: string[];
+  // Condensed top-comment thread, only present for high-velocity posts
+  comments_summary?: string;
+  flair?: string;
+  post_type?: PostType;
+  // Off-site target of link, image and video posts
+  link_url?: string;
+  link_domain?: string;
+  // Post creation time; relative deadlines ("by March") are resolved against it
+  posted_at?: string;
 }
 
+export const CATALYST_TYPES = [
+  'earnings',
+  'fda',
+  'merger',
+  'macro',
+  'product',
+  'guidance',
+  'short_squeeze',
+  'legal',
+  'dilution',
+  'other',
+] as const;
+
+export type CatalystType = typeof CATALYST_TYPES[number];
+
 export interface LlmResult {
   post_id: string;
   is_future_upside_claim: boolean;
+  is_future_downside_claim?: boolean;
   stance: 'bullish' | 'bearish' | 'unclear';
   reason: string;
   tickers: string[];
   quality_score: number;
+  evidence_phrases?: string[];
+  confidence?: number;
+  price_target?: number | null;
+  target_date?: string | null;
+  horizon_days?: number | null;
+  catalyst_type?: CatalystType | null;
 }
 
 const SYSTEM_PROMPT = `You are a precise financial-forum reader.
 
-Definition of a prediction: ONLY when the author asserts a future UPWARD direction for a specific ticker using explicit forward-looking language (e.g., "will go up", "going to rise", "expect X to increase"). Mere hype/slang ("moon", "send it") IS NOT a prediction unless paired with an explicit forward-looking verb near a ticker.
+Definition of a prediction: ONLY when the author asserts a future UPWARD or DOWNWARD direction for a specific ticker using explicit forward-looking language (e.g., "will go up", "going to rise", "expect X to increase", "will drop", "going to crash", "expect X to fall"). Mere hype/slang ("moon", "send it", "rug pull") IS NOT a prediction unless paired with an explicit forward-looking verb near a ticker.
 
 Rules:
 - is_future_upside_claim = true ONLY if:
@@ -34,36 +70,97 @@ Rules:
 - Conditional/hedged language ("might", "could", "if X then") without a clear base-case assertion => is_future_upside_claim=false and stance="unclear".
 - Slang (moon, gap up, send it) counts ONLY as supporting evidence when (a)+(b)+(c) are present.
 - Require at least one concrete rationale phrase (event/catalyst/valuation). If none, set is_future_upside_claim=false.
+- is_future_downside_claim follows the same rules with a DOWNWARD direction (short theses, expected drops, overvaluation, dilution, failed catalysts) and stance="bearish".
+- is_future_upside_claim and is_future_downside_claim are never both true.
 - Never invent tickers; restrict to provided detected tickers.
+- Top comments come from other users. They may support or undercut the evidence (and quality_score), but the claim itself must be made by the post author.
+- Flair is the subreddit's own tag. "DD" marks a research write-up; "Gain" and "Loss" report past trades and are not predictions unless the author also states a forward view; "YOLO" describes a position, not a rationale.
+- Link, image and video posts may have little or no body. Judge the title and what the author wrote; never assume what the linked page says.
+- price_target, target_date and horizon_days record only what the author states ("PT $40", "by earnings", "double by March", "within 3 weeks"). Resolve dates against the post date; a multiple ("double") becomes a price only if the post gives the current price. Leave them null rather than guess.
+- catalyst_type names the event the claim hinges on: earnings, fda (FDA decisions, PDUFA dates, trial readouts), merger, macro (rates, CPI, Fed), product, guidance, short_squeeze, legal, dilution or other; null when there is none.
 
 Return STRICT JSON that conforms to the provided schema.`;
 
+// Flair and link target ride along with the text so the model sees what kind of post it is
+export function postMetadataForLlm(
+  post: Pick<Post, 'flair' | 'postType' | 'linkUrl' | 'linkDomain'> & Partial<Pick<Post, 'createdUtc'>>,
+): Partial<LlmItem> {
+  return {
+    ...(post.createdUtc && { posted_at: post.createdUtc }),
+    ...(post.flair && { flair: post.flair }),
+    ...(post.postType && { post_type: post.postType }),
+    ...(post.linkUrl && { link_url: post.linkUrl }),
+    ...(post.linkDomain && { link_domain: post.linkDomain }),
+  };
+}
+
+// Rebuilds the prompt item for a post stored by an earlier run (retries and rescore promotions)
+export function llmItemFromStoredPost(item: LlmRetryItem, maxBodyChars: number): LlmItem {
+  return {
+    post_id: item.post_id,
+    title: item.title,
+    body: item.body.slice(0, maxBodyChars),
+    tickers: item.detected_tickers,
+    ...postMetadataForLlm({
+      flair: item.flair,
+      postType: item.post_type ?? undefined,
+      linkUrl: item.link_url,
+      linkDomain: item.link_domain,
+      createdUtc: item.created_utc,
+    }),
+  };
+}
+
 function createUserPrompt(item: LlmItem): string {
+  const meta = [
+    item.flair ? `Flair: ${item.flair}` : null,
+    item.post_type && item.post_type !== 'text' ? `Post type: ${item.post_type}` : null,
+    item.link_url ? `Link: ${item.link_url}${item.link_domain ? ` (${item.link_domain})` : ''}` : null,
+    item.posted_at ? `Posted: ${item.posted_at}` : null,
+  ].filter(Boolean).map(line => `${line}\n`).join('');
+
   return `POST:
 Title: ${item.title}
-Body: ${item.body}
+${meta}Body: ${item.body}
 
 Detected tickers (from parser): ${item.tickers.join(', ')}
-
+${item.comments_summary ? `\nTop comments (other users, context only): ${item.comments_summary}\n` : ''}
 Return JSON with keys:
 - is_future_upside_claim: boolean
+- is_future_downside_claim: boolean
 - stance: "bullish" | "bearish" | "unclear"  
 - reason: string (<= 2 sentences)
-- tickers: array of uppercase tickers (subset of detected; exclude false positives)
+- tickers: array of uppercase tickers (subset of detected; exclude false positives), written as detected (e.g. BRK.B, SHOP.TO)
 - quality_score: integer 0..5 (evidence strength & clarity)
 - evidence_phrases: array of short quotes that justify the prediction
 - confidence: integer 0..5 (model confidence)
+- price_target: number or null (stated target price in USD)
+- target_date: "YYYY-MM-DD" or null (stated deadline, resolved against the post date)
+- horizon_days: integer or null (stated span in days, e.g. "within 3 weeks" => 21)
+- catalyst_type: "earnings" | "fda" | "merger" | "macro" | "product" | "guidance" | "short_squeeze" | "legal" | "dilution" | "other" | null
 
 Rules:
 - Phrases like "moon", "gap up", "send it", "breakout" count as bullish claims.
-- Mere mention without a prediction => is_future_upside_claim = false.
+- Phrases like "puts", "short", "overvalued", "bagholders", "rug pull" count as bearish claims.
+- Mere mention without a prediction => is_future_upside_claim = false and is_future_downside_claim = false.
 - If heavily hedged ("maybe if") => stance = "unclear".
 - Never invent tickers not in the detected list.`;
 }
 
+export interface ClassifyOptions {
+  // Poll run the usage should be attributed to (the Lambda request id)
+  runId?: string;
+}
+
+/**
+ * Sends one batch to the provider and returns the valid results. Malformed or partial
+ * output comes back as fewer results; provider and HTTP errors are thrown, since
+ * re-sending the same posts in smaller requests would only fail again.
+ */
 export async function classifyBatch(
   batch: LlmItem[],
   config: Config,
+  options: ClassifyOptions = {},
 ): Promise<LlmResult[]> {
   if (batch.length === 0) {
     logger.debug('Empty batch provided to LLM');
@@ -75,21 +172,45 @@ export async function classifyBatch(
     provider: config.llm.provider,
   });
 
+  const provider = createLlmProvider(config);
+  let completion: LlmCompletion;
   try {
-    let rawResponse: string;
+    completion = await provider.complete({
+      systemPrompt: SYSTEM_PROMPT,
+      userPrompt: buildBatchPrompt(batch),
+      items: batch,
+    });
+  } catch (error) {
+    logger.error('LLM request failed', {
+      batchSize: batch.length,
+      provider: config.llm.provider,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new Error(`LLM request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
 
-    if (config.llm.provider === 'openai') {
-      rawResponse = await callOpenAI(batch, config);
-    } else {
-      throw new Error(`Unsupported LLM provider: ${config.llm.provider}`);
-    }
+  try {
+    const estimatedCostUsd = estimateCostUsd(completion.model, completion.usage, config);
+    await recordUsage(config, {
+      runId: options.runId ?? null,
+      provider: provider.name,
+      model: completion.model,
+      batchSize: batch.length,
+      promptTokens: completion.usage?.promptTokens ?? 0,
+      completionTokens: completion.usage?.completionTokens ?? 0,
+      estimatedCostUsd,
+    });
 
-    const results = parseAndValidateResponse(rawResponse, batch);
+    const results = parseAndValidateResponse(completion.content, batch);
 
     logger.info('LLM classification completed', {
       batchSize: batch.length,
       validResults: results.length,
       provider: config.llm.provider,
+      model: completion.model,
+      promptTokens: completion.usage?.promptTokens ?? null,
+      completionTokens: completion.usage?.completionTokens ?? null,
+      estimatedCostUsd: Number(estimatedCostUsd.toFixed(6)),
     });
 
     return results;
@@ -101,54 +222,53 @@ export async function classifyBatch(
       error: error instanceof Error ? error.message : 'Unknown error',
     });
 
-    // Return empty results rather than failing the entire pipeline
+    // The output was unusable; classifyWithRecovery re-sends these posts in smaller requests
     return [];
   }
 }
 
-async function callOpenAI(batch: LlmItem[], config: Config): Promise<string> {
-  const { OpenAI } = await import('openai');
+// Cost accounting must never sink a classification we already paid for
+async function recordUsage(config: Config, record: Parameters<typeof recordLlmUsage>[1]): Promise<void> {
+  if (config.llm.provider === 'stub') {
+    return;
+  }
 
-  const client = new OpenAI({
-    apiKey: config.llm.openaiApiKey!,
-  });
+  try {
+    await recordLlmUsage(config, record);
+  } catch (error) {
+    logger.warn('Failed to record LLM usage', {
+      runId: record.runId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
 
-  logger.debug('Calling OpenAI API', { batchSize: batch.length });
+// Spend is measured from midnight Eastern, matching the digest day
+export async function getLlmSpendCapStatus(config: Config): Promise<{ reached: boolean; spentTodayUsd: number }> {
+  const spendCapUsd = config.llm.dailySpendCapUsd;
+  if (spendCapUsd <= 0) {
+    return { reached: false, spentTodayUsd: 0 };
+  }
+  const spentTodayUsd = await getLlmSpendSince(config, startOfEasternDay(new Date()).toISOString());
+  return { reached: spentTodayUsd >= spendCapUsd, spentTodayUsd };
+}
 
-  // For batch processing, we'll send all posts in one request
+function buildBatchPrompt(batch: LlmItem[]): string {
+  // For batch processing, we send all posts in one request
   // and ask for a JSON array response
   const userContent = batch.map(item =>
     `POST ID: ${item.post_id}\n${createUserPrompt(item)}`,
   ).join('\n\n---\n\n');
 
-  const finalPrompt = `${userContent}\n\nReturn a JSON array with one object per post, each containing the post_id and analysis.`;
-
-  const response = await client.chat.completions.create({
-    model: 'gpt-4o-mini',
-    temperature: 0.2,
-    response_format: { type: 'json_object' },
-    messages: [
-      { role: 'system', content: SYSTEM_PROMPT },
-      { role: 'user', content: finalPrompt },
-    ],
-  });
-
-  const content = response.choices[0].message.content;
-  if (!content) {
-    throw new Error('OpenAI returned empty response');
-  }
-
-  logger.debug('OpenAI response received', {
-    responseLength: content.length,
-    usage: response.usage,
-  });
-
-  return content;
+  return `${userContent}\n\nReturn a JSON array with one object per post, each containing the post_id and analysis.`;
 }
 
-// async function callAnthropic(_batch: LlmItem[], _config: Config): Promise<string> {
-//   throw new Error('Anthropic provider is not supported in this implementation');
-// }
+// Models without a JSON mode sometimes wrap their answer in a markdown fence
+function stripCodeFence(rawResponse: string): string {
+  const trimmed = rawResponse.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return fenced ? fenced[1] : trimmed;
+}
 
 function parseAndValidateResponse(rawResponse: string, batch: LlmItem[]): LlmResult[] {
   logger.debug('Parsing LLM response', { responseLength: rawResponse.length });
@@ -156,7 +276,7 @@ function parseAndValidateResponse(rawResponse: string, batch: LlmItem[]): LlmRes
   let parsed: any;
 
   try {
-    parsed = JSON.parse(rawResponse);
+    parsed = JSON.parse(stripCodeFence(rawResponse));
   } catch (parseError) {
     logger.error('Failed to parse LLM JSON response', {
       error: parseError instanceof Error ? parseError.message : 'Unknown error',
@@ -194,6 +314,11 @@ function parseAndValidateResponse(rawResponse: string, batch: LlmItem[]): LlmRes
       continue;
     }
 
+    // Models write share classes as BRK-B or brk.b; bring them to canonical form before validating
+    if (Array.isArray(item.tickers)) {
+      item.tickers = normalizeTickers(item.tickers);
+    }
+
     // Validate against schema
     if (validate(item)) {
       validResults.push(item as LlmResult);
@@ -214,11 +339,129 @@ function parseAndValidateResponse(rawResponse: string, batch: LlmItem[]): LlmRes
   return validResults;
 }
 
+export interface RecoveryOptions extends ClassifyOptions {
+  // Total attempts allowed per post, including those spent by earlier runs
+  maxAttempts: number;
+  priorAttempts?: Map<string, number>;
+}
+
+export interface RecoveryOutcome {
+  results: LlmResult[];
+  attempts: Map<string, number>;
+  failedPostIds: string[];
+  // Why recovery stopped before the last round: a provider or HTTP error, or the daily spend cap
+  stoppedBy: 'provider_error' | 'spend_cap' | null;
+}
+
+// Full batch, then halves, then one post per request
+const RECOVERY_ROUNDS = 3;
+
+/**
+ * Classifies a batch and re-sends any post the model dropped or answered with an
+ * invalid result: first in halves, then one at a time. Posts still unresolved
+ * after the last round (or out of attempts) are reported back as failed.
+ * A provider or HTTP error, or reaching the daily spend cap before a retry round,
+ * stops recovery; the posts not yet resolved are reported as failed.
+ */
+export async function classifyWithRecovery(
+  batch: LlmItem[],
+  config: Config,
+  options: RecoveryOptions,
+): Promise<RecoveryOutcome> {
+  const classifyOptions: ClassifyOptions = { runId: options.runId };
+  const attempts = new Map(batch.map(item => [item.post_id, options.priorAttempts?.get(item.post_id) ?? 0]));
+  const resultsById = new Map<string, LlmResult>();
+  const hasAttemptsLeft = (item: LlmItem) => (attempts.get(item.post_id) ?? 0) < options.maxAttempts;
+
+  let pending = batch.filter(hasAttemptsLeft);
+  let round = 0;
+  let stoppedBy: RecoveryOutcome['stoppedBy'] = null;
+
+  while (pending.length > 0 && round < RECOVERY_ROUNDS && !stoppedBy) {
+    if (round > 0) {
+      // Callers check the cap before the first request; every retry round spends again
+      const spendCap = await getLlmSpendCapStatus(config);
+      if (spendCap.reached) {
+        logger.warn('LLM daily spend cap reached; stopping recovery', {
+          round,
+          pendingCount: pending.length,
+          spentTodayUsd: Number(spendCap.spentTodayUsd.toFixed(4)),
+        });
+        stoppedBy = 'spend_cap';
+        break;
+      }
+
+      logger.info('Retrying LLM items missing from the response', {
+        round,
+        pendingCount: pending.length,
+        postIds: pending.map(item => item.post_id),
+      });
+    }
+
+    const chunkSize = recoveryChunkSize(round, pending.length);
+    for (let i = 0; i < pending.length; i += chunkSize) {
+      const chunk = pending.slice(i, i + chunkSize);
+      chunk.forEach(item => attempts.set(item.post_id, (attempts.get(item.post_id) ?? 0) + 1));
+
+      let chunkResults: LlmResult[];
+      try {
+        chunkResults = await classifyBatch(chunk, config, classifyOptions);
+      } catch (error) {
+        logger.warn('Stopping LLM recovery after a provider error', {
+          round,
+          pendingCount: pending.length - i,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        stoppedBy = 'provider_error';
+        break;
+      }
+
+      chunkResults.forEach(result => resultsById.set(result.post_id, result));
+    }
+
+    pending = pending.filter(item => !resultsById.has(item.post_id) && hasAttemptsLeft(item));
+    round += 1;
+  }
+
+  const failedPostIds = batch
+    .map(item => item.post_id)
+    .filter(postId => !resultsById.has(postId));
+
+  if (failedPostIds.length > 0) {
+    logger.warn('LLM classification failed after retries', {
+      failedCount: failedPostIds.length,
+      postIds: failedPostIds,
+      maxAttempts: options.maxAttempts,
+      stoppedBy,
+    });
+  }
+
+  return {
+    results: batch
+      .map(item => resultsById.get(item.post_id))
+      .filter((result): result is LlmResult => Boolean(result)),
+    attempts,
+    failedPostIds,
+    stoppedBy,
+  };
+}
+
+function recoveryChunkSize(round: number, pendingCount: number): number {
+  if (round === 0) {
+    return pendingCount;
+  }
+  if (round === 1) {
+    return Math.ceil(pendingCount / 2);
+  }
+  return 1;
+}
+
 // Single post classification (useful for testing or retries)
 export async function classifySingle(
   item: LlmItem,
   config: Config,
+  options: ClassifyOptions = {},
 ): Promise<LlmResult | null> {
-  const results = await classifyBatch([item], config);
+  const results = await classifyBatch([item], config, options);
   return results.length > 0 ? results[0] : null;
 }
@@ -0,0 +1,149 @@
+// Mention velocity per ticker, independent of the LLM. Every fetched post with a detected ticker
+// counts toward that ticker's hourly bucket, and a bucket is compared with the same hour of day on
+// previous days so the usual open/close rush on r/wallstreetbets does not read as a spike.
+
+export interface MentionCount {
+  ticker: string;
+  // Start of the UTC hour, as an ISO timestamp
+  hourStart: string;
+  mentions: number;
+}
+
+// A fetched post's detected tickers, counted once per post whichever run sees it first
+export interface MentionPost {
+  postId: string;
+  createdUtc: string;
+  tickers: string[];
+}
+
+export interface MentionBucket extends MentionCount {
+  spikeAlertedAt: string | null;
+}
+
+export interface MentionSpike {
+  ticker: string;
+  hourStart: string;
+  mentions: number;
+  baselineMean: number;
+  baselineStdDev: number;
+  zScore: number;
+}
+
+export interface SpikeOptions {
+  zScore: number;
+  minMentions: number;
+  // Earliest bucket on record; hours before it are unknown rather than quiet
+  trackingStart: string | null;
+  baselineDays?: number;
+}
+
+export const MENTION_BASELINE_DAYS = 14;
+// With fewer days on record than this every busy ticker would look like a spike
+export const MIN_BASELINE_DAYS = 3;
+// Only the current and previous hour are judged; older buckets were judged by earlier runs
+export const SPIKE_RECENT_HOURS = 2;
+
+// Tickers that are normally never mentioned would otherwise spike on a single post
+const MIN_STD_DEV = 1;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export function hourStartOf(timestamp: string): string | null {
+  const ms = Date.parse(timestamp);
+  if (Number.isNaN(ms)) {
+    return null;
+  }
+  return new Date(Math.floor(ms / HOUR_MS) * HOUR_MS).toISOString();
+}
+
+// One mention per ticker per post, however often the post repeats it
+export function countMentionsByHour(posts: Array<{ createdUtc: string; tickers: string[] }>): MentionCount[] {
+  const counts = new Map<string, MentionCount>();
+  posts.forEach(post => {
+    const hourStart = hourStartOf(post.createdUtc);
+    if (!hourStart) {
+      return;
+    }
+    new Set(post.tickers.map(ticker => ticker.toUpperCase())).forEach(ticker => {
+      const key = `${ticker}|${hourStart}`;
+      const existing = counts.get(key);
+      if (existing) {
+        existing.mentions += 1;
+      } else {
+        counts.set(key, { ticker, hourStart, mentions: 1 });
+      }
+    });
+  });
+  return Array.from(counts.values());
+}
+
+export function selectRecentBuckets<T extends MentionCount>(buckets: T[], now: Date): T[] {
+  const cutoffMs = Math.floor(now.getTime() / HOUR_MS) * HOUR_MS - (SPIKE_RECENT_HOURS - 1) * HOUR_MS;
+  return buckets.filter(bucket => Date.parse(bucket.hourStart) >= cutoffMs);
+}
+
+// The same hour on each of the previous `days` days, skipping any before tracking began
+export function baselineHours(hourStart: string, days: number, trackingStart: string | null): string[] {
+  const hourMs = Date.parse(hourStart);
+  const trackingMs = trackingStart ? Date.parse(trackingStart) : Number.NaN;
+  const hours: string[] = [];
+  for (let day = 1; day <= days; day++) {
+    const ms = hourMs - day * DAY_MS;
+    if (Number.isNaN(trackingMs) || ms < trackingMs) {
+      break;
+    }
+    hours.push(new Date(ms).toISOString());
+  }
+  return hours;
+}
+
+/**
+ * Flags buckets whose count sits at least `options.zScore` standard deviations above the mean of
+ * the same hour on previous days. Days with no row count as zero mentions. Buckets already
+ * alerted, below `options.minMentions`, or with fewer than MIN_BASELINE_DAYS of history are
+ * skipped. Spikes come back strongest first.
+ */
+export function detectMentionSpikes(
+  buckets: MentionBucket[],
+  history: MentionCount[],
+  options: SpikeOptions,
+): MentionSpike[] {
+  const baselineDays = options.baselineDays ?? MENTION_BASELINE_DAYS;
+  const historyByKey = new Map<string, number>();
+  history.forEach(row => {
+    const hourStart = hourStartOf(row.hourStart);
+    if (hourStart) {
+      historyByKey.set(`${row.ticker.toUpperCase()}|${hourStart}`, row.mentions);
+    }
+  });
+
+  const spikes: MentionSpike[] = [];
+  buckets.forEach(bucket => {
+    if (bucket.spikeAlertedAt || bucket.mentions < options.minMentions) {
+      return;
+    }
+    const hours = baselineHours(bucket.hourStart, baselineDays, options.trackingStart);
+    if (hours.length < MIN_BASELINE_DAYS) {
+      return;
+    }
+
+    const values = hours.map(hour => historyByKey.get(`${bucket.ticker.toUpperCase()}|${hour}`) ?? 0);
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+    const stdDev = Math.sqrt(variance);
+    const zScore = (bucket.mentions - mean) / Math.max(stdDev, MIN_STD_DEV);
+
+    if (zScore >= options.zScore) {
+      spikes.push({
+        ticker: bucket.ticker,
+        hourStart: bucket.hourStart,
+        mentions: bucket.mentions,
+        baselineMean: mean,
+        baselineStdDev: stdDev,
+        zScore,
+      });
+    }
+  });
+
+  return spikes.sort((a, b) => b.zScore - a.zScore);
+}
@@ -0,0 +1,313 @@
+// Delivery channels for every outgoing message. lib/email.ts assembles the content once (subject,
+// plain text, HTML, per-section lines and a structured payload); each notifier renders it for its
+// channel. Routing per message type comes from the NOTIFY_* parameters.
+
+import { createHmac } from 'crypto';
+import { Resend } from 'resend';
+import { logger } from './logger';
+import type { Config, MessageType, NotificationChannel } from './config';
+
+export interface NotificationSection {
+  title?: string;
+  lines: string[];
+}
+
+export interface Notification {
+  type: MessageType;
+  subject: string;
+  text: string;
+  html: string;
+  // The plain-text body split the way the email groups it, for chat channels
+  sections: NotificationSection[];
+  // Structured data for the generic webhook
+  payload: unknown;
+  // Set by the outbox; Resend delivers an email once per key within 24 hours, and the generic
+  // webhook receives it as `deliveryId` so receivers can drop a resent message
+  idempotencyKey?: string;
+}
+
+export interface NotificationTarget {
+  // Personal delivery: email to this address only, whatever the routes say
+  to?: string;
+  // Broadcast only: leave these channels out
+  excludeChannels?: NotificationChannel[];
+  // Outbox rows: deliver on this one routed channel only, so each channel is retried on its own
+  channel?: NotificationChannel;
+}
+
+export interface Notifier {
+  channel: NotificationChannel;
+  send(notification: Notification): Promise<string | null>;
+}
+
+export interface DeliveryResult {
+  channel: NotificationChannel;
+  id: string | null;
+}
+
+type FetchFn = (input: string, init?: any) => Promise<any>;
+
+// Slack rejects section text over 3000 characters and messages over 50 blocks
+const SLACK_SECTION_CHARS = 3000;
+const SLACK_MAX_BLOCKS = 50;
+const DISCORD_MESSAGE_CHARS = 2000;
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Stock-Watcher-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Stock-Watcher-Timestamp';
+
+let resendClient: Resend | null = null;
+
+function getResendClient(config: Config): Resend {
+  if (!resendClient) {
+    resendClient = new Resend(config.email.resendApiKey);
+  }
+  return resendClient;
+}
+
+function defaultFetch(): FetchFn {
+  const fetchFn = (globalThis as any).fetch as FetchFn | undefined;
+  if (typeof fetchFn !== 'function') {
+    throw new Error('fetch is not available in this runtime');
+  }
+  return fetchFn;
+}
+
+async function postJson(fetchFn: FetchFn, url: string, body: string, headers: Record<string, string> = {}): Promise<any> {
+  const res = await fetchFn(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body,
+  });
+  if (!res.ok) {
+    const detail = await res.text().catch(() => '');
+    throw new Error(`HTTP ${res.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+  }
+  return res;
+}
+
+// Packs lines into chunks no longer than `limit`, cutting single overlong lines and trailing blanks
+export function chunkLines(lines: string[], limit: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  lines.forEach(rawLine => {
+    const line = rawLine.length > limit ? `${rawLine.slice(0, limit - 1)}…` : rawLine;
+    const next = current.length > 0 ? `${current}\n${line}` : line;
+    if (next.length > limit) {
+      chunks.push(current.trimEnd());
+      current = line;
+    } else {
+      current = next;
+    }
+  });
+  if (current.trim().length > 0) {
+    chunks.push(current.trimEnd());
+  }
+  return chunks;
+}
+
+// Slack mrkdwn bolds with single asterisks and needs &, < and > escaped
+export function toSlackMrkdwn(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\*\*(.+?)\*\*/g, '*$1*');
+}
+
+export function buildSlackMessage(notification: Notification): Record<string, unknown> {
+  const blocks: Array<Record<string, unknown>> = [
+    { type: 'header', text: { type: 'plain_text', text: notification.subject.slice(0, 150), emoji: true } },
+  ];
+  notification.sections.forEach(section => {
+    const lines = section.title ? [`*${toSlackMrkdwn(section.title)}*`, ...section.lines.map(toSlackMrkdwn)] : section.lines.map(toSlackMrkdwn);
+    chunkLines(lines, SLACK_SECTION_CHARS).forEach(chunk => {
+      blocks.push({ type: 'section', text: { type: 'mrkdwn', text: chunk } });
+    });
+  });
+
+  if (blocks.length > SLACK_MAX_BLOCKS) {
+    const dropped = blocks.length - (SLACK_MAX_BLOCKS - 1);
+    blocks.splice(SLACK_MAX_BLOCKS - 1);
+    blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: `…${dropped} more sections in the email version` }] });
+  }
+
+  return { text: notification.subject, blocks };
+}
+
+// Discord renders **bold** natively but caps each message at 2000 characters
+export function buildDiscordMessages(notification: Notification): Array<{ content: string }> {
+  const lines = [`**${notification.subject}**`, ''];
+  notification.sections.forEach(section => {
+    if (section.title) {
+      lines.push(`**${section.title}**`);
+    }
+    lines.push(...section.lines);
+  });
+  return chunkLines(lines, DISCORD_MESSAGE_CHARS).map(content => ({ content }));
+}
+
+/**
+ * Signature over `${timestamp}.${body}` so receivers can reject replays older than their
+ * tolerance as well as forged bodies.
+ */
+export function signWebhookBody(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+export class EmailNotifier implements Notifier {
+  readonly channel = 'email' as const;
+
+  constructor(private readonly config: Config, private readonly to: string = config.email.to) {}
+
+  async send(notification: Notification): Promise<string | null> {
+    const resend = getResendClient(this.config);
+
+    logger.debug('Sending email via Resend', {
+      messageType: notification.type,
+      from: this.config.email.from,
+      to: this.to,
+      subject: notification.subject,
+    });
+
+    const email = {
+      from: this.config.email.from,
+      to: this.to,
+      subject: notification.subject,
+      text: notification.text,
+      html: notification.html,
+    };
+    // resend 2.x has no idempotency option, so keyed sends set the API's Idempotency-Key header themselves
+    const result = notification.idempotencyKey
+      ? await resend.fetchRequest<{ id: string }>('/emails', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${this.config.email.resendApiKey}`,
+          'Content-Type': 'application/json',
+          'Idempotency-Key': notification.idempotencyKey,
+        },
+        body: JSON.stringify(email),
+      })
+      : await resend.emails.send(email);
+
+    if (result.error) {
+      throw new Error(`Resend API error: ${result.error.message}`);
+    }
+
+    return result.data?.id ?? null;
+  }
+}
+
+export class SlackNotifier implements Notifier {
+  readonly channel = 'slack' as const;
+
+  constructor(private readonly webhookUrl: string, private readonly fetchFn: FetchFn = defaultFetch()) {}
+
+  async send(notification: Notification): Promise<string | null> {
+    await postJson(this.fetchFn, this.webhookUrl, JSON.stringify(buildSlackMessage(notification)));
+    return null;
+  }
+}
+
+export class DiscordNotifier implements Notifier {
+  readonly channel = 'discord' as const;
+
+  constructor(private readonly webhookUrl: string, private readonly fetchFn: FetchFn = defaultFetch()) {}
+
+  async send(notification: Notification): Promise<string | null> {
+    for (const message of buildDiscordMessages(notification)) {
+      await postJson(this.fetchFn, this.webhookUrl, JSON.stringify({ ...message, allowed_mentions: { parse: [] } }));
+    }
+    return null;
+  }
+}
+
+export class WebhookNotifier implements Notifier {
+  readonly channel = 'webhook' as const;
+
+  constructor(
+    private readonly url: string,
+    private readonly secret: string,
+    private readonly fetchFn: FetchFn = defaultFetch(),
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  async send(notification: Notification): Promise<string | null> {
+    const timestamp = Math.floor(this.now() / 1000);
+    const body = JSON.stringify({
+      type: notification.type,
+      subject: notification.subject,
+      text: notification.text,
+      sentAt: new Date(timestamp * 1000).toISOString(),
+      ...(notification.idempotencyKey ? { deliveryId: notification.idempotencyKey } : {}),
+      payload: notification.payload,
+    });
+    await postJson(this.fetchFn, this.url, body, {
+      [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+      [WEBHOOK_SIGNATURE_HEADER]: signWebhookBody(this.secret, timestamp, body),
+    });
+    return null;
+  }
+}
+
+export function createNotifier(channel: NotificationChannel, config: Config, to?: string): Notifier {
+  const { slackWebhookUrl, discordWebhookUrl, webhookUrl, webhookSecret } = config.notifications;
+  if (channel === 'email') {
+    return new EmailNotifier(config, to);
+  }
+  if (channel === 'slack') {
+    if (!slackWebhookUrl) throw new Error('SLACK_WEBHOOK_URL is not configured');
+    return new SlackNotifier(slackWebhookUrl);
+  }
+  if (channel === 'discord') {
+    if (!discordWebhookUrl) throw new Error('DISCORD_WEBHOOK_URL is not configured');
+    return new DiscordNotifier(discordWebhookUrl);
+  }
+  if (!webhookUrl || !webhookSecret) throw new Error('WEBHOOK_URL and WEBHOOK_SECRET are not configured');
+  return new WebhookNotifier(webhookUrl, webhookSecret);
+}
+
+export function resolveChannels(type: MessageType, config: Config, target: NotificationTarget = {}): NotificationChannel[] {
+  if (target.to) {
+    return ['email'];
+  }
+  const excluded = new Set(target.excludeChannels ?? []);
+  return config.notifications.routes[type]
+    .filter(channel => !excluded.has(channel))
+    .filter(channel => !target.channel || channel === target.channel);
+}
+
+/**
+ * Sends the notification on every channel routed for its type (or by email to `target.to`).
+ * A channel that fails is logged and the rest still go out; the call only throws when every
+ * channel failed.
+ */
+export async function dispatchNotification(
+  notification: Notification,
+  config: Config,
+  target: NotificationTarget = {},
+  notifierFor: (channel: NotificationChannel) => Notifier = channel => createNotifier(channel, config, target.to),
+): Promise<DeliveryResult[]> {
+  const channels = resolveChannels(notification.type, config, target);
+  if (channels.length === 0) {
+    logger.debug('No channels routed for notification', { messageType: notification.type });
+    return [];
+  }
+
+  const results: DeliveryResult[] = [];
+  const failures: string[] = [];
+  for (const channel of channels) {
+    try {
+      const id = await notifierFor(channel).send(notification);
+      results.push({ channel, id });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Notification channel failed', { messageType: notification.type, channel, error: message });
+      failures.push(`${channel}: ${message}`);
+    }
+  }
+
+  if (results.length === 0) {
+    throw new Error(failures.join('; '));
+  }
+  return results;
+}
@@ -0,0 +1,171 @@
+// Option contract mentions in the shorthand WSB uses: "SPY 450c 12/15", "10x $AAPL 12/20 200 puts",
+// "QQQ 380p 0dte". Each mention becomes an OptionContract on the post so the digest can show the
+// position and the performance report can check the implied direction against the underlying.
+
+import { getEasternComponents } from './time';
+import { normalizeTicker } from './tickers';
+
+export type OptionRight = 'call' | 'put';
+
+export interface OptionContract {
+  underlying: string;
+  strike: number;
+  right: OptionRight;
+  // ET calendar date (YYYY-MM-DD); null when the post names no expiry
+  expiry: string | null;
+  quantity: number | null;
+}
+
+export interface OptionOutcome {
+  underlyingMovePct: number;
+  // Calls need the underlying up and puts need it down, whatever the strike
+  directionCorrect: boolean;
+  inTheMoney: boolean;
+}
+
+// An expiry this many days before the post date reads as a contract that just expired
+// ("my 450c 12/15 expired worthless") rather than one a year out
+const PAST_EXPIRY_GRACE_DAYS = 31;
+
+const QUANTITY = String.raw`(?:(\d{1,4})\s?x\s+)?`;
+const UNDERLYING = String.raw`(?<![\w$])(\$[A-Za-z]{1,5}|[A-Z]{1,5})`;
+const EXPIRY = String.raw`(\d{1,2}\/\d{1,2}(?:\/\d{2}(?:\d{2})?)?|0[Dd][Tt][Ee])`;
+const STRIKE_AND_RIGHT = String.raw`\$?(\d{1,5}(?:\.\d{1,2})?)\s?([cCpP]|[Cc]alls?|[Pp]uts?|CALLS?|PUTS?)(?![\w])`;
+
+const CONTRACT_PATTERN = new RegExp(
+  `${QUANTITY}${UNDERLYING}\\s+(?:${EXPIRY}\\s+)?${STRIKE_AND_RIGHT}(?:\\s+(?:exp(?:iring|iry)?\\s+|for\\s+)?${EXPIRY})?`,
+  'g',
+);
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Turns "12/15", "12/15/25" or "0dte" into an ET date. Without a year the expiry is the next
+ * 12/15 on or after the post date, unless it fell within the last PAST_EXPIRY_GRACE_DAYS.
+ */
+export function resolveExpiry(raw: string, reference: Date): string | null {
+  const { year: refYear, month: refMonth, day: refDay } = getEasternComponents(reference);
+  if (raw.toLowerCase() === '0dte') {
+    return `${refYear}-${pad(refMonth)}-${pad(refDay)}`;
+  }
+
+  const [monthRaw, dayRaw, yearRaw] = raw.split('/');
+  const month = Number(monthRaw);
+  const day = Number(dayRaw);
+  let year = yearRaw ? Number(yearRaw.length === 2 ? `20${yearRaw}` : yearRaw) : refYear;
+
+  if (!yearRaw) {
+    const daysBefore = (Date.UTC(refYear, refMonth - 1, refDay) - Date.UTC(year, month - 1, day)) / 86_400_000;
+    if (daysBefore > PAST_EXPIRY_GRACE_DAYS) {
+      year += 1;
+    }
+  }
+
+  return isValidDate(year, month, day) ? `${year}-${pad(month)}-${pad(day)}` : null;
+}
+
+/**
+ * Finds option contract mentions in `text`. Expiries without a year are read relative to
+ * `reference`, normally the post's creation time. Repeated mentions of one contract are kept once.
+ */
+export function parseOptionContracts(text: string, reference: Date): OptionContract[] {
+  const contracts = new Map<string, OptionContract>();
+
+  for (const match of text.matchAll(CONTRACT_PATTERN)) {
+    const [, quantityRaw, underlyingRaw, leadingExpiry, strikeRaw, rightRaw, trailingExpiry] = match;
+    const underlying = normalizeTicker(underlyingRaw);
+    const strike = Number(strikeRaw);
+    if (!underlying || !Number.isFinite(strike) || strike <= 0) {
+      continue;
+    }
+
+    const expiryRaw = leadingExpiry ?? trailingExpiry;
+    const expiry = expiryRaw ? resolveExpiry(expiryRaw, reference) : null;
+    const quantity = quantityRaw ? Number(quantityRaw) : null;
+    const contract: OptionContract = {
+      underlying,
+      strike,
+      right: rightRaw.toLowerCase().startsWith('c') ? 'call' : 'put',
+      expiry,
+      quantity: quantity && quantity > 0 ? quantity : null,
+    };
+
+    const key = [contract.underlying, contract.strike, contract.right, contract.expiry].join('|');
+    if (!contracts.has(key)) {
+      contracts.set(key, contract);
+    }
+  }
+
+  return Array.from(contracts.values());
+}
+
+// "SPY 450C 2025-12-15 x10", the form used in the digest and reports
+export function formatOptionContract(contract: OptionContract): string {
+  return [
+    contract.underlying,
+    `${contract.strike}${contract.right === 'call' ? 'C' : 'P'}`,
+    contract.expiry,
+    contract.quantity ? `x${contract.quantity}` : null,
+  ].filter(Boolean).join(' ');
+}
+
+export function evaluateOptionContract(
+  contract: OptionContract,
+  entryPrice: number,
+  expiryPrice: number,
+): OptionOutcome {
+  const underlyingMovePct = ((expiryPrice - entryPrice) / entryPrice) * 100;
+  return {
+    underlyingMovePct,
+    directionCorrect: contract.right === 'call' ? expiryPrice > entryPrice : expiryPrice < entryPrice,
+    inTheMoney: contract.right === 'call' ? expiryPrice > contract.strike : expiryPrice < contract.strike,
+  };
+}
+
+// Stored rows come back as plain JSON; anything malformed is dropped rather than trusted
+export function parseStoredOptionContracts(raw: unknown): OptionContract[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw.filter((item): item is OptionContract => Boolean(item)
+    && typeof item.underlying === 'string'
+    && typeof item.strike === 'number'
+    && (item.right === 'call' || item.right === 'put'));
+}
+
+// How the performance report judged a contract once it expired; `error` when it could not be
+export interface StoredOptionOutcome {
+  evaluatedAt: string;
+  underlyingMovePct: number | null;
+  directionCorrect: boolean | null;
+  inTheMoney: boolean | null;
+  error: string | null;
+}
+
+// One entry per parsed contract, in the same order; null until the contract is judged
+export function parseStoredOptionOutcomes(raw: unknown, contractCount: number): Array<StoredOptionOutcome | null> {
+  const stored = Array.isArray(raw) ? raw : [];
+  return Array.from({ length: contractCount }, (_, index) => {
+    const item = stored[index];
+    return item && typeof item === 'object' && typeof item.evaluatedAt === 'string' ? item as StoredOptionOutcome : null;
+  });
+}
+
+// Earliest expiry among the contracts not judged yet, or null once nothing is left to judge
+export function nextOptionDueDate(
+  contracts: OptionContract[],
+  outcomes: Array<StoredOptionOutcome | null> = [],
+): string | null {
+  const pending = contracts
+    .filter((contract, index) => contract.expiry && !outcomes[index])
+    .map(contract => contract.expiry as string)
+    .sort();
+  return pending[0] ?? null;
+}
@@ -0,0 +1,116 @@
+// Outgoing messages are queued in the `outbox` table in the same transaction that claims what they
+// carry (claimDigest), then delivered here. A sender locks the rows it delivers (claimDueOutbox), so
+// overlapping runs never send the same row. Every send carries a key derived from the row id: Resend
+// drops repeated emails with it and webhook receivers get it as the delivery id, so a resend after a
+// lost response or a crash before the row is marked sent can be recognized. Failed sends back off exponentially; after OUTBOX_MAX_ATTEMPTS a row stays
+// 'failed' until requeueFailedOutbox replays it. Each row goes to a single channel (see
+// outboxMessagesByChannel), so a channel that fails is retried without resending the others.
+
+import type { Config, MessageType } from './config';
+import { logger } from './logger';
+import { dispatchNotification, resolveChannels, type Notification, type NotificationTarget } from './notifiers';
+import { claimDueOutbox, markOutboxSent, recordOutboxFailure } from './db';
+
+export type OutboxStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+export interface OutboxMessage {
+  notification: Notification;
+  recipients: NotificationTarget;
+}
+
+export interface OutboxEntry extends OutboxMessage {
+  id: string;
+  messageType: MessageType;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError: string | null;
+}
+
+export interface OutboxDeliveryResult {
+  attempted: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+}
+
+export const OUTBOX_MAX_ATTEMPTS = 5;
+export const OUTBOX_BATCH_SIZE = 50;
+// Longer than a poll run (5-minute Lambda timeout), so a lock only lapses once its sender is gone
+export const OUTBOX_LOCK_SECONDS = 15 * 60;
+// 5, 10, 20 and 40 minutes; every retry lands well inside Resend's 24-hour idempotency window
+const OUTBOX_BASE_DELAY_MS = 5 * 60 * 1000;
+
+export function outboxIdempotencyKey(id: string): string {
+  return `outbox-${id}`;
+}
+
+// One message per channel the recipients resolve to; personal email is already a single channel
+export function outboxMessagesByChannel(config: Config, messages: OutboxMessage[]): OutboxMessage[] {
+  return messages.flatMap(message => {
+    if (message.recipients.to) {
+      return [message];
+    }
+    return resolveChannels(message.notification.type, config, message.recipients)
+      .map(channel => ({ notification: message.notification, recipients: { ...message.recipients, channel } }));
+  });
+}
+
+// When a message that has failed `attempts` times is tried again, or null once it has given up
+export function nextOutboxAttempt(attempts: number, now: Date): string | null {
+  if (attempts >= OUTBOX_MAX_ATTEMPTS) {
+    return null;
+  }
+  return new Date(now.getTime() + OUTBOX_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1)).toISOString();
+}
+
+/**
+ * Claims the messages whose next attempt is due and sends them. Each row goes to one channel;
+ * when that send fails the attempt is recorded and the message is rescheduled or, out of
+ * attempts, left failed.
+ */
+export async function deliverOutbox(
+  config: Config,
+  options: {
+    now?: Date;
+    limit?: number;
+    dispatch?: typeof dispatchNotification;
+  } = {},
+): Promise<OutboxDeliveryResult> {
+  const now = options.now ?? new Date();
+  const dispatch = options.dispatch ?? dispatchNotification;
+  const due = await claimDueOutbox(config, now.toISOString(), options.limit ?? OUTBOX_BATCH_SIZE, OUTBOX_LOCK_SECONDS);
+  const result: OutboxDeliveryResult = { attempted: due.length, sent: 0, retrying: 0, failed: 0 };
+
+  for (const entry of due) {
+    try {
+      await dispatch({ ...entry.notification, idempotencyKey: outboxIdempotencyKey(entry.id) }, config, entry.recipients);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const attempts = entry.attempts + 1;
+      const retryAt = nextOutboxAttempt(attempts, now);
+      await recordOutboxFailure(config, entry.id, attempts, message, retryAt);
+      if (retryAt) {
+        result.retrying += 1;
+        logger.warn('Outbox send failed; will retry', { outboxId: entry.id, messageType: entry.messageType, attempts, retryAt, error: message });
+      } else {
+        result.failed += 1;
+        logger.error('Outbox send failed; giving up', { outboxId: entry.id, messageType: entry.messageType, attempts, error: message });
+      }
+      continue;
+    }
+
+    result.sent += 1;
+    try {
+      await markOutboxSent(config, entry.id, new Date().toISOString());
+    } catch (error) {
+      // Left 'sending' until the lock lapses, then claimed and sent again under the same idempotency key
+      logger.error('Failed to mark outbox message sent', {
+        outboxId: entry.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return result;
+}
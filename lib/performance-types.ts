@@ -1,3 +1,5 @@
+import type { OptionContract } from './options';
+
 export interface PositionEntry {
   requested: string;
   actual?: string;
@@ -30,6 +32,36 @@ export interface PositionReport {
   error?: string;
 }
 
+// An option contract from an emailed post, judged by where the underlying closed on its expiry
+export interface OptionContractReport {
+  postId: string;
+  title: string;
+  url: string;
+  contract: OptionContract;
+  entry: PositionEntry;
+  expiryClose?: { actual: string; price: number };
+  underlyingMovePct?: number;
+  directionCorrect?: boolean;
+  inTheMoney?: boolean;
+  error?: string;
+}
+
+// A claim scored against its own price target and deadline
+export interface TargetReport {
+  postId: string;
+  title: string;
+  url: string;
+  ticker: string | null;
+  priceTarget: number | null;
+  deadline: string;
+  catalystType: string | null;
+  entry: PositionEntry;
+  deadlineClose?: number;
+  movePct?: number;
+  hit?: boolean;
+  error?: string;
+}
+
 export interface ReportSummary {
   runDateEt: string;
   lookbackDateEt: string;
@@ -44,12 +76,19 @@ export interface ReportSummary {
   winRatePct: number | null;
   bestPosition?: { ticker: string; returnPct: number; profitUsd: number; postId: string };
   worstPosition?: { ticker: string; returnPct: number; profitUsd: number; postId: string };
+  optionContractsEvaluated: number;
+  // Share of evaluated contracts whose underlying moved the way the call or put needed
+  optionDirectionHitRatePct: number | null;
+  targetsEvaluated: number;
+  targetHitRatePct: number | null;
   tiingoRequestsUsed: number;
 }
 
 export interface ReportPayload {
   meta: ReportSummary;
   positions: PositionReport[];
+  optionContracts: OptionContractReport[];
+  targets: TargetReport[];
 }
 
 export interface PerformanceEmailPayload {
@@ -71,5 +110,22 @@ export interface PerformanceEmailPayload {
     author: string | null;
     error: string;
   }>;
+  optionContracts: Array<{
+    contract: string;
+    title: string;
+    url: string;
+    underlyingMovePct: number;
+    directionCorrect: boolean;
+    inTheMoney: boolean;
+  }>;
+  targets: Array<{
+    ticker: string;
+    title: string;
+    url: string;
+    priceTarget: number | null;
+    deadline: string;
+    movePct: number;
+    hit: boolean;
+  }>;
   downloadUrl: string;
 }
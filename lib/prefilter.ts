@@ -1,52 +1,108 @@
 import { logger } from './logger';
 import type { Post } from './reddit';
+import type { CommentSignals } from './comments';
 import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import clueLexicon from '../assets/clue_lexicon.json';
+import { assetClassOf, BARE_TICKER_PATTERN, CASHTAG_PATTERN, parseTicker, type ParsedTicker } from './tickers';
+import type { AssetClass } from './config';
+import { parseOptionContracts, type OptionContract } from './options';
 
 // These will be loaded from assets files that user will provide
 let TICKERS: Set<string> | null = null;
 let STOPLIST: Set<string> | null = null;
-
-// Regex patterns for ticker detection
-const BARE_TICKER = /\b[A-Z]{2,5}\b/g;
-
-// Upside language clues
-const UPSIDE_CLUES = [
-  'will go up',
-  'bullish',
-  'undervalued',
-  'catalyst',
-  'breakout',
-  'run-up',
-  'gap up',
-  'moon',
-  'pump',
-  'squeeze',
-  'price target',
-  'upside',
-  'rerate',
-  're-rate',
-  'fda approval',
-  'pdufa',
-  'earnings beat',
-  'raise guidance',
-  'beat and raise',
-  'new highs',
-  'break resistance',
-  'to the moon',
-  'rocket',
-  '🚀',
-  'lambo',
-  'diamond hands',
-  'hodl',
-  'buy the dip',
-  'calls',
-  'yolo',
-];
+let TICKER_METADATA: TickerMetadataIndex | null = null;
+const COMPILED_CLUES = new Map<string, CompiledClues>();
+
+// Words near an ambiguous symbol or name that make it read as a stock mention
+const FINANCE_CONTEXT = /\b(?:price|prices|shares?|stocks?|calls?|puts?|options?|earnings|eps|revenue|guidance|dividends?|ticker|market cap|strike|expiry|bought|sold|buying|selling|shorting|position|valuation|pt)\b|\$\d|\d%/i;
+const CONTEXT_WINDOW_CHARS = 60;
+
+// Per-detection confidence by how the ticker was found
+const DETECTION_CONFIDENCE = {
+  cashtag: 0.95,
+  name: 0.85,
+  symbol: 0.7,
+  // Ambiguous symbols and common-word names, only kept when finance context is nearby
+  contextual: 0.55,
+};
+
+// Clue matches are dropped when one of these words sits this close before or after them
+const NEGATION_WINDOW_WORDS = 3;
+// Sarcasm markers ("/s", "yeah right") cancel clues within this many characters
+const SARCASM_WINDOW_CHARS = 80;
+
+// Matches the MIN_CLUE_SCORE default: one mid-weight phrase is enough to lean a post
+export const DEFAULT_MIN_CLUE_SCORE = 0.5;
+
+export const CLUE_LEXICON_VERSION: number = clueLexicon.version;
+
+// Flairs marking a research write-up; a ticker alone is enough to send these on
+const RESEARCH_FLAIRS = ['dd', 'due diligence', 'research', 'analysis', 'technical analysis'];
+
+export type TickerSource = 'cashtag' | 'symbol' | 'name';
+
+export interface TickerDetection {
+  ticker: string;
+  source: TickerSource;
+  confidence: number;   // 0..1
+  assetClass: AssetClass;
+}
 
 export interface Prefiltered {
   post: Post;
   tickers: string[];
+  tickerDetections?: TickerDetection[];
+  // Option contracts written on the post ("SPY 450c 12/15") whose underlying was detected
+  optionContracts?: OptionContract[];
   upsideHits: string[];
+  downsideHits: string[];
+  // Summed lexicon weights of the hits, compared against MIN_CLUE_SCORE
+  upsideScore: number;
+  downsideScore: number;
+  comments?: CommentSignals;
+}
+
+// One entry of assets/ticker_metadata.json
+interface TickerMetadata {
+  symbol: string;
+  name: string;
+  aliases: string[];
+  // Names that are also everyday words ("apple", "target"); these need finance context
+  contextAliases?: string[];
+  // The bare symbol is a common word ("ON", "AI", "NOW"); cashtags still count
+  ambiguous?: boolean;
+  // Missing means equity
+  assetClass?: AssetClass;
+}
+
+// Shape of assets/clue_lexicon.json; bump `version` whenever weights or phrases change
+interface ClueLexicon {
+  version: number;
+  upside: Record<string, number>;
+  downside: Record<string, number>;
+  negations: { before: string[]; after: string[] };
+  sarcasmMarkers: string[];
+  // Weights replacing (or adding to) the defaults for one subreddit; 0 disables a phrase
+  subredditOverrides: Record<string, { upside?: Record<string, number>; downside?: Record<string, number> }>;
+}
+
+interface CompiledClue {
+  phrase: string;
+  weight: number;
+  pattern: RegExp;
+}
+
+interface CompiledClues {
+  upside: CompiledClue[];
+  downside: CompiledClue[];
+}
+
+interface TickerMetadataIndex {
+  // Every symbol in the file; crypto and ETFs are missing from tickers.json
+  symbols: Set<string>;
+  ambiguousSymbols: Set<string>;
+  aliases: Map<string, { symbol: string; needsContext: boolean }>;
+  aliasPattern: RegExp | null;
 }
 
 async function loadTickersFromS3(bucket: string): Promise<string[]> {
@@ -164,56 +220,285 @@ async function loadAssets(): Promise<{ tickers: Set<string>; stoplist: Set<strin
   }
 }
 
-export async function prefilter(post: Post): Promise<Prefiltered> {
-  const { tickers: tickerSet, stoplist: stopSet } = await loadAssets();
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
 
-  const combinedText = `${post.title}\n${post.selftext ?? ''}`;
-  const lowerText = combinedText.toLowerCase();
+function buildTickerMetadataIndex(entries: TickerMetadata[]): TickerMetadataIndex {
+  const symbols = new Set<string>();
+  const ambiguousSymbols = new Set<string>();
+  const aliases = new Map<string, { symbol: string; needsContext: boolean }>();
 
-  logger.debug('Prefiltering post', {
-    postId: post.id,
-    titleLength: post.title.length,
-    bodyLength: post.selftext?.length ?? 0,
+  for (const entry of entries) {
+    const symbol = entry.symbol.toUpperCase();
+    symbols.add(symbol);
+    if (entry.ambiguous) {
+      ambiguousSymbols.add(symbol);
+    }
+    entry.aliases.forEach(alias => aliases.set(alias.toLowerCase(), { symbol, needsContext: false }));
+    (entry.contextAliases ?? []).forEach(alias => aliases.set(alias.toLowerCase(), { symbol, needsContext: true }));
+  }
+
+  // Longest first so "bank of america" wins over any shorter alias it contains
+  const alternatives = Array.from(aliases.keys())
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+  const aliasPattern = alternatives.length > 0
+    ? new RegExp(`(?<![\\w$])(?:${alternatives.join('|')})(?!\\w)`, 'gi')
+    : null;
+
+  return { symbols, ambiguousSymbols, aliases, aliasPattern };
+}
+
+async function loadTickerMetadata(): Promise<TickerMetadataIndex> {
+  if (TICKER_METADATA) {
+    return TICKER_METADATA;
+  }
+
+  let entries: TickerMetadata[] = [];
+  try {
+    const metadataModule = await import('../assets/ticker_metadata.json');
+    entries = (Array.isArray(metadataModule.default) ? metadataModule.default : metadataModule) as TickerMetadata[];
+    logger.debug('Loaded ticker metadata from static file', { count: entries.length });
+  } catch (error) {
+    // Without metadata only the stoplist guards against common words
+    logger.warn('Failed to load ticker metadata, name matching disabled', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  TICKER_METADATA = buildTickerMetadataIndex(entries);
+  return TICKER_METADATA;
+}
+
+// Looks within CONTEXT_WINDOW_CHARS on either side, without crossing into the flair, title or next paragraph
+function hasFinanceContext(text: string, index: number, length: number): boolean {
+  const before = text.slice(Math.max(0, index - CONTEXT_WINDOW_CHARS), index).split('\n').pop() ?? '';
+  const after = text.slice(index + length, index + length + CONTEXT_WINDOW_CHARS).split('\n')[0];
+  return FINANCE_CONTEXT.test(`${before} ${after}`);
+}
+
+// Matches the phrase as whole words, so "calls" does not fire on "recalls"
+export function phrasePattern(phrase: string): RegExp {
+  return new RegExp(`(?<![\\w])${escapeRegExp(phrase.toLowerCase())}(?![\\w])`, 'gi');
+}
+
+function compileClues(weights: Record<string, number>): CompiledClue[] {
+  return Object.entries(weights)
+    .filter(([, weight]) => weight > 0)
+    // Longest first so "to the moon" claims its span before "moon" can
+    .sort(([a], [b]) => b.length - a.length)
+    .map(([phrase, weight]) => ({ phrase, weight, pattern: phrasePattern(phrase) }));
+}
+
+function getCompiledClues(subreddit?: string): CompiledClues {
+  const lexicon = clueLexicon as ClueLexicon;
+  const key = subreddit?.toLowerCase() ?? '';
+  const cached = COMPILED_CLUES.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const overrides = lexicon.subredditOverrides[key] ?? {};
+  const compiled = {
+    upside: compileClues({ ...lexicon.upside, ...overrides.upside }),
+    downside: compileClues({ ...lexicon.downside, ...overrides.downside }),
+  };
+  COMPILED_CLUES.set(key, compiled);
+  return compiled;
+}
+
+const NEGATIONS_BEFORE = new Set((clueLexicon as ClueLexicon).negations.before);
+const NEGATIONS_AFTER = new Set((clueLexicon as ClueLexicon).negations.after);
+const SARCASM_PATTERNS = (clueLexicon as ClueLexicon).sarcasmMarkers.map(phrasePattern);
+
+function windowWords(fragment: string): string[] {
+  return fragment
+    .toLowerCase()
+    .split(/\s+/)
+    .map(word => word.replace(/[^\w']/g, ''))
+    .filter(Boolean);
+}
+
+// Negation only looks inside the clue's own sentence
+function isNegated(text: string, start: number, end: number): boolean {
+  const sentenceBefore = text.slice(0, start).split(/[.!?\n]/).pop() ?? '';
+  const sentenceAfter = text.slice(end).split(/[.!?\n]/)[0];
+  const before = windowWords(sentenceBefore).slice(-NEGATION_WINDOW_WORDS);
+  const after = windowWords(sentenceAfter).slice(0, NEGATION_WINDOW_WORDS);
+  return before.some(word => NEGATIONS_BEFORE.has(word)) || after.some(word => NEGATIONS_AFTER.has(word));
+}
+
+function isSarcastic(text: string, start: number, end: number): boolean {
+  const window = text.slice(Math.max(0, start - SARCASM_WINDOW_CHARS), end + SARCASM_WINDOW_CHARS);
+  return SARCASM_PATTERNS.some(pattern => {
+    pattern.lastIndex = 0;
+    return pattern.test(window);
   });
+}
 
-  // 1) Find cashtags ($SYMBOL) — case-insensitive symbol, normalized to upper
-  const cashtagMatches = (combinedText.match(/\$[A-Za-z]{1,5}\b/g) || []);
-  const detectedTickers = new Set<string>();
+// Each phrase counts once; negated or sarcastic occurrences add nothing
+function scoreClues(text: string, clues: CompiledClue[]): { hits: string[]; score: number } {
+  const claimed: Array<[number, number]> = [];
+  const hits: string[] = [];
+  let score = 0;
+
+  for (const clue of clues) {
+    for (const match of text.matchAll(clue.pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (claimed.some(([from, to]) => start < to && end > from)) {
+        continue;
+      }
+      claimed.push([start, end]);
 
-  cashtagMatches.forEach(match => {
-    const ticker = match.slice(1).toUpperCase(); // Remove $ prefix and normalize
-    if (tickerSet.has(ticker) && !stopSet.has(ticker)) {
-      detectedTickers.add(ticker);
+      if (hits.includes(clue.phrase) || isNegated(text, start, end) || isSarcastic(text, start, end)) {
+        continue;
+      }
+      hits.push(clue.phrase);
+      score += clue.weight;
     }
-  });
+  }
 
-  // 2) Find bare tickers (SYMBOL as standalone words) — only match if text is already ALL CAPS in source
-  const bareTickerMatches = combinedText.match(BARE_TICKER) || [];
+  return { hits, score };
+}
 
-  bareTickerMatches.forEach(match => {
-    const ticker = match.toUpperCase();
-    if (tickerSet.has(ticker) && !stopSet.has(ticker)) {
-      detectedTickers.add(ticker);
+export interface TextSignals {
+  tickers: string[];
+  tickerDetections: TickerDetection[];
+  upsideHits: string[];
+  downsideHits: string[];
+  upsideScore: number;
+  downsideScore: number;
+}
+
+/**
+ * Maps a parsed mention onto a symbol worth keeping. tickers.json only lists US symbols, so
+ * non-US listings (SHOP.TO) and six-letter OTC symbols are kept when the mention is explicit
+ * enough on its own. A suffix that is not a real share class ("NVDA.I think") falls back to the root.
+ * Symbols in ticker_metadata.json (crypto, ETFs) count as listed.
+ */
+function resolveSymbol(parsed: ParsedTicker, isListed: (symbol: string) => boolean, explicit: boolean): string | null {
+  if (isListed(parsed.symbol)) {
+    return parsed.symbol;
+  }
+  if (explicit && (parsed.exchange || (parsed.root.length === 6 && !parsed.shareClass))) {
+    return parsed.symbol;
+  }
+  if (parsed.shareClass && !parsed.exchange && isListed(parsed.root)) {
+    return parsed.root;
+  }
+  return null;
+}
+
+// Ticker and clue detection shared by posts and their comments. Clue weights follow the
+// overrides for `subreddit` when it has any.
+export async function scanText(text: string, subreddit?: string): Promise<TextSignals> {
+  const { tickers: tickerSet, stoplist: stopSet } = await loadAssets();
+  const metadata = await loadTickerMetadata();
+  const isListed = (symbol: string) => tickerSet.has(symbol) || metadata.symbols.has(symbol);
+
+  // Each ticker keeps its most confident detection
+  const detections = new Map<string, TickerDetection>();
+  const record = (ticker: string, source: TickerSource, confidence: number) => {
+    const existing = detections.get(ticker);
+    if (!existing || confidence > existing.confidence) {
+      detections.set(ticker, { ticker, source, confidence, assetClass: assetClassOf(ticker) });
     }
-  });
+  };
+
+  // 1) Find cashtags ($SYMBOL, $BRK.B, $SHOP.TO) — case-insensitive, normalized to canonical form
+  for (const match of text.matchAll(CASHTAG_PATTERN)) {
+    const parsed = parseTicker(match[1]);
+    const ticker = parsed ? resolveSymbol(parsed, isListed, true) : null;
+    if (ticker && !stopSet.has(ticker)) {
+      record(ticker, 'cashtag', DETECTION_CONFIDENCE.cashtag);
+    }
+  }
+
+  // 2) Find bare tickers (SYMBOL as standalone words) — only match if text is already ALL CAPS in source.
+  // Symbols that are also common words ("ON", "AI", "NOW") need finance context nearby.
+  for (const match of text.matchAll(BARE_TICKER_PATTERN)) {
+    const parsed = parseTicker(match[0]);
+    // A dotted exchange suffix (SHOP.TO) is explicit; "GO-TO" is just a phrase
+    const ticker = parsed ? resolveSymbol(parsed, isListed, match[0].includes('.')) : null;
+    if (!ticker || stopSet.has(ticker)) {
+      continue;
+    }
+    if (!metadata.ambiguousSymbols.has(ticker)) {
+      record(ticker, 'symbol', DETECTION_CONFIDENCE.symbol);
+    } else if (hasFinanceContext(text, match.index ?? 0, match[0].length)) {
+      record(ticker, 'symbol', DETECTION_CONFIDENCE.contextual);
+    }
+  }
 
-  // 3) Find upside language clues
-  const upsideHits = UPSIDE_CLUES.filter(clue => {
-    return lowerText.includes(clue.toLowerCase());
+  // 3) Map company names and aliases ("Nvidia", "Palantir") to their symbols
+  if (metadata.aliasPattern) {
+    for (const match of text.matchAll(metadata.aliasPattern)) {
+      const alias = metadata.aliases.get(match[0].toLowerCase());
+      if (!alias || stopSet.has(alias.symbol)) {
+        continue;
+      }
+      if (!alias.needsContext) {
+        record(alias.symbol, 'name', DETECTION_CONFIDENCE.name);
+      } else if (hasFinanceContext(text, match.index ?? 0, match[0].length)) {
+        record(alias.symbol, 'name', DETECTION_CONFIDENCE.contextual);
+      }
+    }
+  }
+
+  // 4) Score upside and downside language against the (subreddit-adjusted) lexicon
+  const clues = getCompiledClues(subreddit);
+  const upside = scoreClues(text, clues.upside);
+  const downside = scoreClues(text, clues.downside);
+
+  const tickerDetections = Array.from(detections.values());
+
+  return {
+    tickers: tickerDetections.map(detection => detection.ticker),
+    tickerDetections,
+    upsideHits: upside.hits,
+    downsideHits: downside.hits,
+    upsideScore: upside.score,
+    downsideScore: downside.score,
+  };
+}
+
+export async function prefilter(post: Post): Promise<Prefiltered> {
+  logger.debug('Prefiltering post', {
+    postId: post.id,
+    titleLength: post.title.length,
+    bodyLength: post.selftext?.length ?? 0,
   });
 
+  // Flair text ("YOLO", "Bearish") often carries the direction the title leaves out
+  const text = [post.flair ?? '', post.title, post.selftext ?? ''].join('\n');
+  const signals = await scanText(text, post.subreddit);
+
+  // The ticker scan already weeded out words that only look like symbols ("I 2c")
+  const createdMs = Date.parse(post.createdUtc);
+  const optionContracts = parseOptionContracts(text, new Date(Number.isNaN(createdMs) ? Date.now() : createdMs))
+    .filter(contract => signals.tickers.includes(contract.underlying));
+
   const result: Prefiltered = {
     post,
-    tickers: Array.from(detectedTickers),
-    upsideHits,
+    ...signals,
+    optionContracts,
   };
 
   logger.debug('Prefilter results', {
     postId: post.id,
+    postType: post.postType ?? 'text',
+    flair: post.flair ?? null,
     tickerCount: result.tickers.length,
     tickers: result.tickers,
-    upsideHitCount: result.upsideHits.length,
+    tickerConfidence: Object.fromEntries(signals.tickerDetections.map(d => [d.ticker, d.confidence])),
     upsideHits: result.upsideHits,
+    upsideScore: result.upsideScore,
+    downsideHits: result.downsideHits,
+    downsideScore: result.downsideScore,
+    optionContracts: optionContracts.length,
+    lexiconVersion: CLUE_LEXICON_VERSION,
   });
 
   return result;
@@ -227,13 +512,37 @@ export async function prefilterBatch(posts: Post[]): Promise<Prefiltered[]> {
     posts.map(post => prefilter(post)),
   );
 
-  const withHits = results.filter(r => r.tickers.length > 0 && r.upsideHits.length > 0);
+  const withHits = results.filter(item => hasDirectionalSignal(item));
 
   logger.info('Batch prefilter completed', {
     totalPosts: posts.length,
-    withTickersAndUpside: withHits.length,
+    withTickersAndUpside: results.filter(r => r.tickers.length > 0 && r.upsideHits.length > 0).length,
+    withTickersAndDownside: results.filter(r => r.tickers.length > 0 && r.downsideHits.length > 0).length,
     filteredOut: posts.length - withHits.length,
   });
 
   return results;
 }
+
+export function isResearchFlair(flair: string | null | undefined): boolean {
+  const normalized = flair?.trim().toLowerCase();
+  return normalized ? RESEARCH_FLAIRS.includes(normalized) : false;
+}
+
+// A post is worth classifying when it names a ticker and its clue score leans either way
+// past the threshold (or it is flaired as DD)
+export function hasDirectionalSignal(item: Prefiltered, minClueScore = DEFAULT_MIN_CLUE_SCORE): boolean {
+  return item.tickers.length > 0
+    && (item.upsideScore >= minClueScore || item.downsideScore >= minClueScore || isResearchFlair(item.post.flair));
+}
+
+// Net upvotes per minute since the post was created, used to gate LLM classification
+export function computeVotesPerMinute(createdUtc: string, score: number, referenceMs: number): number {
+  const createdMs = new Date(createdUtc).getTime();
+  if (Number.isNaN(createdMs)) {
+    return 0;
+  }
+
+  const ageMinutes = Math.max((referenceMs - createdMs) / 60000, 1 / 60);
+  return score / ageMinutes;
+}
@@ -1,5 +1,5 @@
 import type { Config } from './config';
-import { getSupabaseClient } from './db';
+import { getSupabaseClient, type ClaimDirection } from './db';
 import { logger } from './logger';
 import { TiingoClient, findLastBarOnOrBefore, type IntradayBar } from './tiingo';
 import {
@@ -14,6 +14,9 @@ const CHECK_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
 const DATA_UNAVAILABLE_BACKOFF_MS = 60 * 60 * 1000; // retry in 1 hour if no data
 const TIINGO_LOOKBACK_PADDING_MS = 30 * 60 * 1000; // 30 minutes padding for intraday fetches
 const DEFAULT_LIMIT = 200;
+const ENTRY_BAND_PCT = 0.05; // bullish: alert while still within 5% of the entry
+const DROP_TRIGGER_PCT = 0.05; // bearish: alert once the price has fallen 5%
+const STOP_ABOVE_PCT = 0.15;
 
 type SupabaseClient = ReturnType<typeof getSupabaseClient>;
 
@@ -22,6 +25,7 @@ type Logger = ReturnType<typeof logger.withContext>;
 export interface PriceWatchSeed {
   postId: string;
   ticker: string;
+  direction?: ClaimDirection;
   qualityScore: number;
   emailedAtIso: string;
   entryPrice: number;
@@ -32,6 +36,7 @@ export interface PriceWatchAlertInfo {
   watchId: number;
   postId: string;
   ticker: string;
+  direction: ClaimDirection;
   title: string;
   url: string;
   qualityScore: number;
@@ -56,6 +61,7 @@ export interface DbPriceWatchRow {
   id: number;
   post_id: string;
   ticker: string;
+  direction?: ClaimDirection | null;
   quality_score: number | null;
   entry_price: number | string | null;
   entry_price_ts: string | null;
@@ -83,6 +89,20 @@ interface PriceWatchUpdate {
   triggered_move_pct?: number | null;
 }
 
+export type WatchMoveAction = 'trigger' | 'stop_above' | 'hold';
+
+// Bullish watches fire while the entry is still close; bearish watches fire once the predicted drop shows up.
+// Either way a 15% rally ends the watch.
+export function evaluateWatchMove(direction: ClaimDirection, movePct: number): WatchMoveAction {
+  if (movePct >= STOP_ABOVE_PCT) {
+    return 'stop_above';
+  }
+  if (direction === 'bearish') {
+    return movePct <= -DROP_TRIGGER_PCT ? 'trigger' : 'hold';
+  }
+  return movePct <= ENTRY_BAND_PCT ? 'trigger' : 'hold';
+}
+
 export function computeMonitorWindow(emailedAt: Date): { start: Date; close: Date } {
   if (isDuringEasternMarketHours(emailedAt)) {
     return {
@@ -171,6 +191,7 @@ export async function schedulePriceWatches(
     return {
       post_id: seed.postId,
       ticker: seed.ticker.toUpperCase(),
+      direction: seed.direction ?? 'bullish',
       quality_score: seed.qualityScore,
       entry_price: seed.entryPrice,
       entry_price_ts: entryObservedAt.toISOString(),
@@ -255,6 +276,7 @@ async function fetchDuePriceWatches(
       id,
       post_id,
       ticker,
+      direction,
       quality_score,
       entry_price,
       entry_price_ts,
@@ -420,21 +442,21 @@ export async function processPriceWatchQueue(
       }
 
       const movePct = (currentPrice - entryPrice) / entryPrice;
-      const fifteenPctThreshold = 0.15;
-      const fivePctThreshold = 0.05;
+      const direction: ClaimDirection = row.direction === 'bearish' ? 'bearish' : 'bullish';
+      const action = evaluateWatchMove(direction, movePct);
       const update: PriceWatchUpdate = {
         id: row.id,
         last_price: currentPrice,
         last_price_ts: barTimestamp,
       };
 
-      if (movePct >= fifteenPctThreshold) {
+      if (action === 'stop_above') {
         update.status = 'expired';
         update.stop_reason = 'above_15pct';
         update.next_check_at = null;
         exceededFifteenPct += 1;
         expired += 1;
-      } else if (movePct <= fivePctThreshold) {
+      } else if (action === 'trigger') {
         const triggeredAtIso = nowIso;
         update.status = 'triggered';
         update.stop_reason = 'triggered';
@@ -447,6 +469,7 @@ export async function processPriceWatchQueue(
           watchId: row.id,
           postId: row.post_id,
           ticker,
+          direction,
           title: row.reddit_posts?.title ?? '(unknown title)',
           url: row.reddit_posts?.url ?? '',
           qualityScore: Number(row.quality_score ?? 0),
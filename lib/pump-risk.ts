@@ -0,0 +1,116 @@
+// Pump-and-dump risk for digest candidates. Coordinated pushes on the penny-stock subs look alike:
+// fresh low-karma accounts, a burst of posts on one ticker, and a small cap that is already running
+// on heavy volume. Each signal adds a fixed weight; the total is the risk score (0 to 1).
+
+import type { IntradayBar, TiingoFundamentalStatement } from './tiingo';
+import { formatCompactNumber } from './email-utils';
+
+export type PumpRiskLevel = 'low' | 'elevated' | 'high';
+
+export interface PumpRiskSignals {
+  accountAgeDays: number | null;
+  karma: number | null;
+  // Mentions of the ticker across all watched subreddits over the burst window
+  tickerMentions: number | null;
+  // Latest close over the lowest low in the loaded intraday window, as a fraction
+  priceExtensionPct: number | null;
+  // Average volume of the last hour of bars over the average before it
+  volumeRatio: number | null;
+  marketCapUsd: number | null;
+}
+
+export interface PumpRisk {
+  score: number;
+  level: PumpRiskLevel;
+  reasons: string[];
+}
+
+export const PUMP_BURST_WINDOW_HOURS = 6;
+
+const NEW_ACCOUNT_DAYS = 30;
+const LOW_KARMA = 100;
+const BURST_MENTIONS = 8;
+const PRICE_EXTENSION_PCT = 0.2;
+const VOLUME_SURGE_RATIO = 3;
+const MICRO_CAP_USD = 300_000_000;
+// 5-minute bars, so the last hour
+const RECENT_VOLUME_BARS = 12;
+
+const WEIGHTS = {
+  newAccount: 0.25,
+  lowKarma: 0.15,
+  burst: 0.2,
+  priceExtension: 0.2,
+  volumeSurge: 0.1,
+  microCap: 0.1,
+};
+
+const ELEVATED_SCORE = 0.35;
+const HIGH_SCORE = 0.6;
+
+export function measureMarketExtension(bars: IntradayBar[]): Pick<PumpRiskSignals, 'priceExtensionPct' | 'volumeRatio'> {
+  if (bars.length === 0) {
+    return { priceExtensionPct: null, volumeRatio: null };
+  }
+
+  const lows = bars.map(bar => bar.low).filter(low => Number.isFinite(low) && low > 0);
+  const latestClose = bars[bars.length - 1].close;
+  const lowest = lows.length > 0 ? Math.min(...lows) : 0;
+  const priceExtensionPct = lowest > 0 && latestClose > 0 ? (latestClose - lowest) / lowest : null;
+
+  let volumeRatio: number | null = null;
+  if (bars.length >= RECENT_VOLUME_BARS * 2) {
+    const average = (slice: IntradayBar[]) => slice.reduce((sum, bar) => sum + (bar.volume ?? 0), 0) / slice.length;
+    const recent = average(bars.slice(-RECENT_VOLUME_BARS));
+    const earlier = average(bars.slice(0, -RECENT_VOLUME_BARS));
+    volumeRatio = earlier > 0 ? recent / earlier : null;
+  }
+
+  return { priceExtensionPct, volumeRatio };
+}
+
+/**
+ * Tiingo has no free-float figure, so market cap is the latest price times the weighted average
+ * share count from the most recent income statement.
+ */
+export function estimateMarketCap(statement: TiingoFundamentalStatement | null | undefined, price: number | null | undefined): number | null {
+  if (!statement || !price || price <= 0) {
+    return null;
+  }
+  const shares = statement.data.shareswa ?? statement.data.shareswadil ?? null;
+  return shares && shares > 0 ? shares * price : null;
+}
+
+export function scorePumpRisk(signals: PumpRiskSignals): PumpRisk {
+  let score = 0;
+  const reasons: string[] = [];
+
+  if (signals.accountAgeDays !== null && signals.accountAgeDays < NEW_ACCOUNT_DAYS) {
+    score += WEIGHTS.newAccount;
+    reasons.push(`account ${Math.floor(signals.accountAgeDays)}d old`);
+  }
+  if (signals.karma !== null && signals.karma < LOW_KARMA) {
+    score += WEIGHTS.lowKarma;
+    reasons.push(`${signals.karma} karma`);
+  }
+  if (signals.tickerMentions !== null && signals.tickerMentions >= BURST_MENTIONS) {
+    score += WEIGHTS.burst;
+    reasons.push(`${signals.tickerMentions} posts in ${PUMP_BURST_WINDOW_HOURS}h`);
+  }
+  if (signals.priceExtensionPct !== null && signals.priceExtensionPct >= PRICE_EXTENSION_PCT) {
+    score += WEIGHTS.priceExtension;
+    reasons.push(`+${(signals.priceExtensionPct * 100).toFixed(0)}% off the low`);
+  }
+  if (signals.volumeRatio !== null && signals.volumeRatio >= VOLUME_SURGE_RATIO) {
+    score += WEIGHTS.volumeSurge;
+    reasons.push(`volume ${signals.volumeRatio.toFixed(1)}x`);
+  }
+  if (signals.marketCapUsd !== null && signals.marketCapUsd < MICRO_CAP_USD) {
+    score += WEIGHTS.microCap;
+    reasons.push(`$${formatCompactNumber(signals.marketCapUsd)} market cap`);
+  }
+
+  score = Math.min(1, Number(score.toFixed(2)));
+  const level: PumpRiskLevel = score >= HIGH_SCORE ? 'high' : score >= ELEVATED_SCORE ? 'elevated' : 'low';
+  return { score, level, reasons };
+}
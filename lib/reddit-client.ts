@@ -0,0 +1,299 @@
+import { logger } from './logger';
+import type { Config } from './config';
+
+const TOKEN_URL = 'https://www.reddit.com/api/v1/access_token';
+const API_BASE_URL = 'https://oauth.reddit.com';
+
+// Refresh the bearer token this long before Reddit says it expires
+const TOKEN_REFRESH_MARGIN_MS = 60_000;
+const MAX_ATTEMPTS = 4;
+// Below this many remaining requests, spread the rest evenly over the reset window
+const PACING_THRESHOLD = 10;
+
+export interface RedditSubmission {
+  id: string;
+  title: string;
+  selftext: string;
+  subreddit: string;
+  author: string;
+  permalink: string;
+  created_utc: number;
+  score: number;
+  upvote_ratio?: number;
+  num_comments?: number;
+  is_self?: boolean;
+  is_video?: boolean;
+  is_gallery?: boolean;
+  post_hint?: string;
+  // Link target for link posts; the permalink itself for self posts
+  url?: string;
+  domain?: string;
+  link_flair_text?: string | null;
+  crosspost_parent?: string;
+  crosspost_parent_list?: RedditSubmission[];
+}
+
+export interface RedditCommentData {
+  id: string;
+  author: string;
+  body: string;
+  score: number;
+  created_utc: number;
+}
+
+export interface RedditAccount {
+  name: string;
+  created_utc: number;
+  link_karma?: number;
+  comment_karma?: number;
+  is_suspended?: boolean;
+}
+
+export interface RedditListing<T> {
+  children: T[];
+  // Fullname to pass as `after` for the next page; null at the end of the listing
+  after: string | null;
+}
+
+/**
+ * The slice of the Reddit API the watcher uses. lib/reddit.ts talks to this
+ * interface so tests can swap in tests/__mocks__/reddit-mock.ts.
+ */
+export interface RedditClient {
+  getNew(subreddit: string, options: { limit: number; after?: string }): Promise<RedditListing<RedditSubmission>>;
+  getTopComments(postId: string, limit: number): Promise<RedditCommentData[]>;
+  getInfo(fullnames: string[]): Promise<RedditSubmission[]>;
+  // Null for suspended accounts, which Reddit returns without a creation date
+  getAccount(username: string): Promise<RedditAccount | null>;
+}
+
+type FetchFn = (input: string, init?: any) => Promise<any>;
+
+export interface RedditHttpClientOptions {
+  fetchFn?: FetchFn;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function computeBackoffDelayMs(attempt: number, baseMs = 400, capMs = 10_000): number {
+  const expo = Math.min(capMs, baseMs * Math.pow(2, attempt));
+  const jitter = Math.floor(Math.random() * baseMs);
+  return expo + jitter;
+}
+
+function headerNumber(res: any, name: string): number | null {
+  const raw = res?.headers?.get?.(name);
+  if (raw === null || raw === undefined || raw === '') {
+    return null;
+  }
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : null;
+}
+
+function unwrapThings<T>(listing: any, kind: string): T[] {
+  const children: any[] = Array.isArray(listing?.data?.children) ? listing.data.children : [];
+  return children
+    .filter(child => child?.kind === kind && child.data)
+    .map(child => child.data as T);
+}
+
+/**
+ * RedditHttpClient calls the OAuth API directly with script-app (password grant)
+ * credentials. It renews the bearer token before it expires and paces itself from
+ * the x-ratelimit-remaining / x-ratelimit-reset headers instead of guessing.
+ */
+export class RedditHttpClient implements RedditClient {
+  private readonly fetchFn: FetchFn;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly now: () => number;
+  private accessToken: string | null = null;
+  private tokenExpiresAtMs = 0;
+  private rateLimitRemaining: number | null = null;
+  private rateLimitResetAtMs = 0;
+
+  constructor(private readonly credentials: Config['reddit'], options: RedditHttpClientOptions = {}) {
+    const fetchFn = options.fetchFn ?? ((globalThis as any).fetch as FetchFn | undefined);
+    if (typeof fetchFn !== 'function') {
+      throw new Error('global fetch is not available in this runtime');
+    }
+    this.fetchFn = fetchFn;
+    this.sleep = options.sleep ?? defaultSleep;
+    this.now = options.now ?? Date.now;
+  }
+
+  async getNew(subreddit: string, options: { limit: number; after?: string }): Promise<RedditListing<RedditSubmission>> {
+    const json = await this.request(`/r/${encodeURIComponent(subreddit)}/new`, {
+      limit: options.limit,
+      after: options.after,
+    });
+    return {
+      children: unwrapThings<RedditSubmission>(json, 't3'),
+      after: typeof json?.data?.after === 'string' ? json.data.after : null,
+    };
+  }
+
+  async getTopComments(postId: string, limit: number): Promise<RedditCommentData[]> {
+    const json = await this.request(`/comments/${encodeURIComponent(postId)}`, {
+      sort: 'top',
+      limit,
+      depth: 1,
+    });
+    // The response is [post listing, comment listing]; "more" stubs are dropped by kind
+    return Array.isArray(json) && json.length > 1 ? unwrapThings<RedditCommentData>(json[1], 't1') : [];
+  }
+
+  async getInfo(fullnames: string[]): Promise<RedditSubmission[]> {
+    if (fullnames.length === 0) {
+      return [];
+    }
+    const json = await this.request('/api/info', { id: fullnames.join(',') });
+    return unwrapThings<RedditSubmission>(json, 't3');
+  }
+
+  async getAccount(username: string): Promise<RedditAccount | null> {
+    const json = await this.request(`/user/${encodeURIComponent(username)}/about`, {});
+    const data = json?.kind === 't2' ? json.data : null;
+    if (!data || data.is_suspended || typeof data.created_utc !== 'number') {
+      return null;
+    }
+    return data as RedditAccount;
+  }
+
+  private async request(path: string, params: Record<string, string | number | undefined>): Promise<any> {
+    const url = new URL(`${API_BASE_URL}${path}`);
+    url.searchParams.set('raw_json', '1');
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) {
+        url.searchParams.set(key, String(value));
+      }
+    }
+
+    let lastError: Error | null = null;
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      await this.waitForRateLimit();
+      const token = await this.getAccessToken();
+
+      let res: any;
+      try {
+        res = await this.fetchFn(url.toString(), {
+          headers: {
+            Authorization: `bearer ${token}`,
+            'User-Agent': this.credentials.userAgent,
+          },
+        });
+      } catch (error) {
+        // Network-level failures never reached Reddit, so back off and try again
+        lastError = error instanceof Error ? error : new Error(String(error));
+        await this.backoff(path, attempt, lastError.message);
+        continue;
+      }
+
+      this.recordRateLimit(res);
+
+      if (res.ok) {
+        return res.json();
+      }
+
+      const body = await res.text();
+      lastError = new Error(`Reddit request failed (${res.status} ${res.statusText}): ${body}`);
+
+      if (res.status === 401) {
+        // Token revoked or expired early; fetch a new one on the next attempt
+        this.accessToken = null;
+        continue;
+      }
+      if (res.status === 429) {
+        const waitMs = Math.max(this.rateLimitResetAtMs - this.now(), computeBackoffDelayMs(attempt));
+        logger.warn('Reddit rate limit hit; waiting for reset', { path, attempt: attempt + 1, waitMs });
+        await this.sleep(waitMs);
+        continue;
+      }
+      if (res.status >= 500) {
+        await this.backoff(path, attempt, lastError.message);
+        continue;
+      }
+      throw lastError;
+    }
+
+    throw lastError ?? new Error('Unknown Reddit API error');
+  }
+
+  private async backoff(path: string, attempt: number, message: string): Promise<void> {
+    if (attempt === MAX_ATTEMPTS - 1) {
+      return;
+    }
+    const delayMs = computeBackoffDelayMs(attempt);
+    logger.warn('Reddit API retry after temporary error', { path, attempt: attempt + 1, delayMs, error: message });
+    await this.sleep(delayMs);
+  }
+
+  private recordRateLimit(res: any): void {
+    const remaining = headerNumber(res, 'x-ratelimit-remaining');
+    const resetSeconds = headerNumber(res, 'x-ratelimit-reset');
+    if (remaining !== null) {
+      this.rateLimitRemaining = remaining;
+    }
+    if (resetSeconds !== null) {
+      this.rateLimitResetAtMs = this.now() + resetSeconds * 1000;
+    }
+  }
+
+  private async waitForRateLimit(): Promise<void> {
+    if (this.rateLimitRemaining === null || this.rateLimitRemaining >= PACING_THRESHOLD) {
+      return;
+    }
+
+    const untilResetMs = this.rateLimitResetAtMs - this.now();
+    if (untilResetMs <= 0) {
+      this.rateLimitRemaining = null;
+      return;
+    }
+
+    const waitMs = this.rateLimitRemaining < 1
+      ? untilResetMs
+      : Math.ceil(untilResetMs / this.rateLimitRemaining);
+    logger.debug('Pacing Reddit requests', { remaining: this.rateLimitRemaining, waitMs });
+    await this.sleep(waitMs);
+  }
+
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && this.now() < this.tokenExpiresAtMs - TOKEN_REFRESH_MARGIN_MS) {
+      return this.accessToken;
+    }
+
+    logger.debug('Requesting Reddit access token');
+
+    const basic = Buffer.from(`${this.credentials.clientId}:${this.credentials.clientSecret}`).toString('base64');
+    const res: any = await this.fetchFn(TOKEN_URL, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${basic}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'User-Agent': this.credentials.userAgent,
+      },
+      body: new URLSearchParams({
+        grant_type: 'password',
+        username: this.credentials.username,
+        password: this.credentials.password,
+      }).toString(),
+    });
+
+    if (!res.ok) {
+      const body = await res.text();
+      throw new Error(`Reddit token request failed (${res.status} ${res.statusText}): ${body}`);
+    }
+
+    const json = await res.json();
+    if (typeof json?.access_token !== 'string') {
+      throw new Error(`Reddit token response missing access_token: ${json?.error ?? 'unknown error'}`);
+    }
+
+    this.accessToken = json.access_token;
+    this.tokenExpiresAtMs = this.now() + Number(json.expires_in ?? 3600) * 1000;
+    return json.access_token;
+  }
+}
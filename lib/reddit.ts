@@ -1,6 +1,8 @@
-import Snoowrap from 'snoowrap';
 import { logger } from './logger';
 import type { Config } from './config';
+import { RedditHttpClient, type RedditClient, type RedditSubmission } from './reddit-client';
+
+export type PostType = 'text' | 'link' | 'image' | 'video' | 'gallery' | 'crosspost';
 
 export interface Post {
   id: string;
@@ -11,122 +13,180 @@ export interface Post {
   url: string;
   createdUtc: string;   // ISO string
   score: number;
+  postType?: PostType;
+  linkUrl?: string | null;     // off-site target of link, image and video posts
+  linkDomain?: string | null;
+  flair?: string | null;
+  crosspostParent?: string | null;   // fullname of the original post
+}
+
+export interface RedditComment {
+  id: string;
+  postId: string;
+  author: string;
+  body: string;
+  score: number;
+  createdUtc: string;   // ISO string
 }
 
-let redditClient: Snoowrap | null = null;
+export interface PostStats {
+  id: string;
+  score: number;
+  upvoteRatio: number | null;
+  numComments: number | null;
+}
 
-function getRedditClient(config: Config): Snoowrap {
+export interface AuthorProfile {
+  author: string;
+  accountAgeDays: number;
+  karma: number;
+}
+
+// Reddit caps /api/info at 100 fullnames per request
+const POST_STATS_CHUNK_SIZE = 100;
+
+// Listings are served 100 at a time and Reddit stops paging after roughly 1000 items
+const LISTING_PAGE_SIZE = 100;
+const MAX_LISTING_PAGES = 10;
+
+let redditClient: RedditClient | null = null;
+
+function getRedditClient(config: Config): RedditClient {
   if (!redditClient) {
     logger.debug('Initializing Reddit client');
-
-    redditClient = new Snoowrap({
-      userAgent: config.reddit.userAgent,
-      clientId: config.reddit.clientId,
-      clientSecret: config.reddit.clientSecret,
-      username: config.reddit.username,
-      password: config.reddit.password,
-    });
+    redditClient = new RedditHttpClient(config.reddit);
   }
 
   return redditClient;
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+// Test helper to reset the singleton
+export function __resetRedditClient(): void {
+  redditClient = null;
 }
 
-function computeBackoffDelayMs(attempt: number, baseMs = 400, capMs = 10_000): number {
-  const expo = Math.min(capMs, baseMs * Math.pow(2, attempt));
-  const jitter = Math.floor(Math.random() * baseMs);
-  return expo + jitter;
+// Test helper to set a mock client
+export function __setRedditClient(client: RedditClient): void {
+  redditClient = client;
 }
 
-function isRateLimitOrRetryableError(error: any): boolean {
-  const status = (error as any)?.status ?? (error as any)?.statusCode;
-  const message = String((error as any)?.message ?? '');
-  if (status === 429) return true;
-  if (/rate.?limit/i.test(message)) return true;
-  if (/ECONNRESET|ETIMEDOUT|ENETUNREACH|EAI_AGAIN/i.test(message)) return true;
-  return false;
+export function classifyPostType(submission: RedditSubmission): PostType {
+  if (submission.crosspost_parent) return 'crosspost';
+  if (submission.is_gallery) return 'gallery';
+  if (submission.is_video || submission.post_hint === 'hosted:video' || submission.post_hint === 'rich:video') return 'video';
+  if (submission.post_hint === 'image' || submission.domain === 'i.redd.it') return 'image';
+  return submission.is_self === false ? 'link' : 'text';
 }
 
-async function getNewWithRetry(reddit: Snoowrap, subreddit: string, limit: number): Promise<any[]> {
-  const maxAttempts = 4;
-  let lastError: any = null;
-  for (let attempt = 0; attempt < maxAttempts; attempt++) {
-    try {
-      return await reddit.getSubreddit(subreddit).getNew({ limit });
-    } catch (error) {
-      lastError = error;
-      if (!isRateLimitOrRetryableError(error) || attempt === maxAttempts - 1) {
-        throw error;
-      }
-      const delay = computeBackoffDelayMs(attempt);
-      logger.warn('Reddit API retry due to throttling/temporary error', { subreddit, attempt: attempt + 1, delayMs: delay, error: (error as any)?.message });
-      await sleep(delay);
-    }
-  }
-  throw lastError ?? new Error('Unknown error fetching subreddit');
+// Crossposts carry no body of their own, so the original's text and link stand in for it
+export function toPost(submission: RedditSubmission, subreddit: string): Post {
+  const postType = classifyPostType(submission);
+  const parent = postType === 'crosspost' ? submission.crosspost_parent_list?.[0] : undefined;
+  const source = parent ?? submission;
+  const linkTarget = source.is_self === false ? source.url ?? null : null;
+  const flair = submission.link_flair_text?.trim() || null;
+
+  return {
+    id: submission.id,
+    title: submission.title,
+    selftext: submission.selftext || parent?.selftext || '',
+    subreddit,
+    author: submission.author ?? 'unknown',
+    url: `https://www.reddit.com${submission.permalink}`,
+    createdUtc: new Date((submission.created_utc ?? 0) * 1000).toISOString(),
+    score: submission.score ?? 0,
+    postType,
+    linkUrl: linkTarget,
+    linkDomain: linkTarget ? source.domain ?? null : null,
+    flair,
+    crosspostParent: submission.crosspost_parent ?? null,
+  };
 }
 
+/**
+ * Fetches new posts for each subreddit, paging back with `after` until the
+ * subreddit's own cursor is reached. When the listing runs out first, the
+ * distance between the oldest post we saw and the cursor is logged as
+ * cursorGapMinutes; those posts are lost to this run.
+ * Subreddits without a cursor (or at the epoch) only read the first page.
+ */
 export async function fetchNew(
   config: Config,
   subreddits: string[],
-  sinceIso: string,
+  cursors: Map<string, string>,
   windowMinutes: number,
   maxPosts: number,
 ): Promise<Post[]> {
   const reddit = getRedditClient(config);
 
   try {
-    const sinceMs = sinceIso ? new Date(sinceIso).getTime() : 0;
     const windowMs = windowMinutes * 60 * 1000;
 
     logger.info('Fetching new posts from Reddit', {
       subreddits,
-      sinceIso,
+      cursors: Object.fromEntries(cursors),
       windowMinutes,
       maxPosts,
     });
 
     const allPosts: Post[] = [];
+    // Posts at or before their subreddit's cursor, re-read only because of the overlap window
+    const overlapIds = new Set<string>();
 
     for (const subreddit of subreddits) {
       try {
-        logger.debug('Fetching from subreddit', { subreddit });
-        // Small pacing delay between subreddits to avoid bursty calls
-        await sleep(200 + Math.floor(Math.random() * 300));
+        const sinceIso = cursors.get(subreddit);
+        const sinceMs = sinceIso ? new Date(sinceIso).getTime() : 0;
+
+        logger.debug('Fetching from subreddit', { subreddit, sinceIso });
 
-        const listings = await getNewWithRetry(reddit, subreddit, 100);
         let subredditPosts = 0;
+        let pages = 0;
+        let after: string | undefined;
+        let reachedCursor = !sinceMs;
+        let oldestSeenMs: number | null = null;
+
+        do {
+          const listing = await reddit.getNew(subreddit, { limit: LISTING_PAGE_SIZE, after });
+          pages += 1;
+
+          for (const submission of listing.children) {
+            const createdMs = (submission.created_utc ?? 0) * 1000;
+            oldestSeenMs = oldestSeenMs === null ? createdMs : Math.min(oldestSeenMs, createdMs);
 
-        for (const submission of listings) {
-          const createdMs = (submission.created_utc ?? 0) * 1000;
+            // Keep overlap window to tolerate retries/clock skew
+            // Ignore posts that are too old beyond the window
+            if (sinceMs && createdMs + windowMs < sinceMs) {
+              reachedCursor = true;
+              continue;
+            }
 
-          // Keep overlap window to tolerate retries/clock skew
-          // Ignore posts that are too old beyond the window
-          if (sinceMs && createdMs + windowMs < sinceMs) {
-            continue;
+            const post = toPost(submission, subreddit);
+
+            allPosts.push(post);
+            if (createdMs <= sinceMs) {
+              overlapIds.add(post.id);
+            }
+            subredditPosts++;
           }
 
-          const post: Post = {
-            id: submission.id,
-            title: submission.title,
-            selftext: (submission as any).selftext ?? '',
+          after = listing.after ?? undefined;
+        } while (after && !reachedCursor && pages < MAX_LISTING_PAGES);
+
+        if (!reachedCursor && oldestSeenMs !== null && oldestSeenMs > sinceMs) {
+          logger.warn('Subreddit fetch could not catch up to cursor', {
             subreddit,
-            author: (submission as any).author?.name ?? 'unknown',
-            url: `https://www.reddit.com${submission.permalink}`,
-            createdUtc: new Date(createdMs).toISOString(),
-            score: submission.score ?? 0,
-          };
-
-          allPosts.push(post);
-          subredditPosts++;
+            sinceIso,
+            pages,
+            oldestFetched: new Date(oldestSeenMs).toISOString(),
+            cursorGapMinutes: Math.round((oldestSeenMs - sinceMs) / 60000),
+          });
         }
 
         logger.debug('Fetched posts from subreddit', {
           subreddit,
           postCount: subredditPosts,
+          pages,
         });
 
       } catch (error) {
@@ -144,14 +204,21 @@ export async function fetchNew(
       postsById.set(post.id, post);
     });
 
-    // Sort by creation time and apply limit
-    const sortedPosts = Array.from(postsById.values())
-      .sort((a, b) => new Date(a.createdUtc).getTime() - new Date(b.createdUtc).getTime())
-      .slice(-maxPosts); // Keep most recent posts up to limit
+    // Sort by creation time and apply limit. The oldest new posts are kept so the
+    // per-subreddit cursors only advance past what was processed; the rest is
+    // picked up by the next run instead of being skipped. Overlap posts only
+    // fill leftover room so they can never hold a cursor in place.
+    const byCreated = (a: Post, b: Post) => new Date(a.createdUtc).getTime() - new Date(b.createdUtc).getTime();
+    const uniquePosts = Array.from(postsById.values()).sort(byCreated);
+    const allFreshPosts = uniquePosts.filter(post => !overlapIds.has(post.id));
+    const freshPosts = allFreshPosts.slice(0, maxPosts);
+    const overlapPosts = uniquePosts.filter(post => overlapIds.has(post.id)).slice(0, maxPosts - freshPosts.length);
+    const sortedPosts = [...overlapPosts, ...freshPosts].sort(byCreated);
 
     logger.info('Reddit fetch completed', {
       totalFetched: allPosts.length,
-      afterDeduplication: sortedPosts.length,
+      afterDeduplication: postsById.size,
+      deferredToNextRun: allFreshPosts.length - freshPosts.length,
       maxPosts,
       oldestPost: sortedPosts.length > 0 ? sortedPosts[0].createdUtc : null,
       newestPost: sortedPosts.length > 0 ? sortedPosts[sortedPosts.length - 1].createdUtc : null,
@@ -167,3 +234,123 @@ export async function fetchNew(
     throw new Error(`Reddit fetch failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
+
+// Top-level comments sorted by score; "load more" stubs and removed comments are skipped
+export async function fetchTopComments(
+  config: Config,
+  postId: string,
+  limit: number,
+): Promise<RedditComment[]> {
+  if (limit <= 0) {
+    return [];
+  }
+
+  const reddit = getRedditClient(config);
+
+  try {
+    const listing = await reddit.getTopComments(postId, limit);
+
+    const comments: RedditComment[] = [];
+    for (const item of listing) {
+      const body = typeof item.body === 'string' ? item.body : '';
+      if (!body || body === '[deleted]' || body === '[removed]') {
+        continue;
+      }
+      comments.push({
+        id: item.id,
+        postId,
+        author: item.author ?? 'unknown',
+        body,
+        score: typeof item.score === 'number' ? item.score : 0,
+        createdUtc: new Date((item.created_utc ?? 0) * 1000).toISOString(),
+      });
+    }
+
+    const top = comments
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+    logger.debug('Fetched top comments', { postId, commentCount: top.length });
+    return top;
+
+  } catch (error) {
+    logger.error('Failed to fetch comments', {
+      postId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new Error(`Reddit comment fetch failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Current score, upvote ratio and comment count for already-seen posts; deleted posts are omitted
+export async function fetchPostStats(config: Config, postIds: string[]): Promise<PostStats[]> {
+  if (postIds.length === 0) {
+    return [];
+  }
+
+  const reddit = getRedditClient(config);
+  const stats: PostStats[] = [];
+
+  try {
+    for (let i = 0; i < postIds.length; i += POST_STATS_CHUNK_SIZE) {
+      const chunk = postIds.slice(i, i + POST_STATS_CHUNK_SIZE);
+      const submissions = await reddit.getInfo(chunk.map(id => `t3_${id}`));
+      for (const item of submissions) {
+        stats.push({
+          id: item.id,
+          score: typeof item.score === 'number' ? item.score : 0,
+          upvoteRatio: typeof item.upvote_ratio === 'number' ? item.upvote_ratio : null,
+          numComments: typeof item.num_comments === 'number' ? item.num_comments : null,
+        });
+      }
+    }
+
+    logger.debug('Fetched post stats', { requested: postIds.length, returned: stats.length });
+    return stats;
+
+  } catch (error) {
+    logger.error('Failed to fetch post stats', {
+      postCount: postIds.length,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new Error(`Reddit post stats fetch failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Account age and karma for each author, one request per account. Deleted, suspended or
+ * unreachable accounts are left out rather than failing the batch.
+ */
+export async function fetchAuthorProfiles(
+  config: Config,
+  authors: string[],
+  now: Date = new Date(),
+): Promise<Map<string, AuthorProfile>> {
+  const reddit = getRedditClient(config);
+  const profiles = new Map<string, AuthorProfile>();
+
+  for (const author of Array.from(new Set(authors))) {
+    if (!author || author === '[deleted]' || author === 'unknown') {
+      continue;
+    }
+    try {
+      const account = await reddit.getAccount(author);
+      if (!account) {
+        continue;
+      }
+      profiles.set(author, {
+        author,
+        accountAgeDays: Math.max(0, (now.getTime() - account.created_utc * 1000) / 86_400_000),
+        karma: (account.link_karma ?? 0) + (account.comment_karma ?? 0),
+      });
+    } catch (error) {
+      logger.warn('Failed to fetch author profile', {
+        author,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  logger.debug('Fetched author profiles', { requested: authors.length, returned: profiles.size });
+  return profiles;
+}
@@ -0,0 +1,48 @@
+import { computeVotesPerMinute } from './prefilter';
+import type { PostStats } from './reddit';
+import type { PostSnapshot, RescoreItem } from './db';
+
+/**
+ * Pairs freshly fetched Reddit stats with the stored posts they belong to.
+ * Posts Reddit no longer returns (deleted or removed) get no snapshot.
+ */
+export function buildPostSnapshots(
+  items: RescoreItem[],
+  stats: PostStats[],
+  observedAtMs: number,
+): PostSnapshot[] {
+  const statsById = new Map(stats.map(stat => [stat.id, stat]));
+  const observedAt = new Date(observedAtMs).toISOString();
+  const snapshots: PostSnapshot[] = [];
+
+  for (const item of items) {
+    const stat = statsById.get(item.post_id);
+    if (!stat) {
+      continue;
+    }
+    snapshots.push({
+      post_id: item.post_id,
+      observed_at: observedAt,
+      score: stat.score,
+      upvote_ratio: stat.upvoteRatio,
+      num_comments: stat.numComments,
+      votes_per_minute: Number(computeVotesPerMinute(item.created_utc, stat.score, observedAtMs).toFixed(4)),
+    });
+  }
+
+  return snapshots;
+}
+
+// Gated posts whose velocity has since crossed the LLM gate, fastest first
+export function selectPromotions(
+  items: RescoreItem[],
+  snapshots: PostSnapshot[],
+  minVotesPerMinute: number,
+): RescoreItem[] {
+  const velocityById = new Map(snapshots.map(snapshot => [snapshot.post_id, snapshot.votes_per_minute ?? 0]));
+
+  return items
+    .filter(item => item.llm_status === 'gated')
+    .filter(item => (velocityById.get(item.post_id) ?? 0) >= minVotesPerMinute)
+    .sort((a, b) => (velocityById.get(b.post_id) ?? 0) - (velocityById.get(a.post_id) ?? 0));
+}
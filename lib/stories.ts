@@ -0,0 +1,130 @@
+// Near-duplicate detection for the digest. The same news tends to hit r/stocks, r/wallstreetbets
+// and r/investing within hours, each post worded slightly differently; fetchNew only dedupes by
+// post ID, so without this the digest repeats one claim three or four times. Posts are compared
+// on word shingles of their normalized title and body, so nothing leaves the Lambda.
+
+import type { EmailCandidate } from './db';
+
+export interface Story {
+  // Highest-quality post in the story; always posts[0]
+  representative: EmailCandidate;
+  posts: EmailCandidate[];
+  tickers: string[];
+  subreddits: string[];
+}
+
+// Posts further apart than this are separate stories even when worded identically
+export const STORY_WINDOW_HOURS = 48;
+// Jaccard similarity of word shingles above which two posts about a shared ticker are one story
+export const SHINGLE_SIMILARITY_THRESHOLD = 0.4;
+
+const SHINGLE_SIZE = 3;
+// Long DDs share boilerplate far down the body; the opening is what distinguishes a story
+const MAX_SHINGLE_TEXT_LENGTH = 2000;
+
+export function normalizeForShingles(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/\$([a-z])/g, '$1')
+    .replace(/[^a-z0-9.%\s]/g, ' ')
+    .replace(/(?<!\d)\.|\.(?!\d)/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/**
+ * Word n-grams of the normalized text. Texts shorter than one shingle fall back to their
+ * individual words so a bare headline still compares against its crossposts.
+ */
+export function shingles(text: string, size: number = SHINGLE_SIZE): Set<string> {
+  const words = normalizeForShingles(text.slice(0, MAX_SHINGLE_TEXT_LENGTH));
+  if (words.length < size) {
+    return new Set(words);
+  }
+  const result = new Set<string>();
+  for (let i = 0; i <= words.length - size; i++) {
+    result.add(words.slice(i, i + size).join(' '));
+  }
+  return result;
+}
+
+export function jaccardSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  a.forEach(item => {
+    if (b.has(item)) shared += 1;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+function compareRepresentatives(a: EmailCandidate, b: EmailCandidate): number {
+  if (b.quality_score !== a.quality_score) {
+    return b.quality_score - a.quality_score;
+  }
+  const confidenceDiff = (b.confidence ?? 0) - (a.confidence ?? 0);
+  if (confidenceDiff !== 0) {
+    return confidenceDiff;
+  }
+  return new Date(a.created_utc).getTime() - new Date(b.created_utc).getTime();
+}
+
+/**
+ * Groups candidates into stories. Two posts belong together when they share a ticker, were
+ * posted within STORY_WINDOW_HOURS of each other, and either read alike (shingle similarity at
+ * or above SHINGLE_SIMILARITY_THRESHOLD) or name the same catalyst type. Grouping is transitive,
+ * so a crosspost chain lands in one story. Stories keep the order of their first post in
+ * `candidates`; posts within a story are ordered best-first.
+ */
+export function clusterStories(candidates: EmailCandidate[]): Story[] {
+  const windowMs = STORY_WINDOW_HOURS * 60 * 60 * 1000;
+  const parent = candidates.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const prepared = candidates.map(candidate => ({
+    tickers: new Set(candidate.tickers.map(ticker => ticker.toUpperCase())),
+    createdMs: new Date(candidate.created_utc).getTime(),
+    shingles: shingles(`${candidate.title}\n${candidate.body ?? ''}`),
+    catalyst: candidate.catalyst_type ?? null,
+  }));
+
+  for (let i = 0; i < prepared.length; i++) {
+    for (let j = i + 1; j < prepared.length; j++) {
+      const a = prepared[i];
+      const b = prepared[j];
+      if (find(i) === find(j)) continue;
+      if (!Array.from(a.tickers).some(ticker => b.tickers.has(ticker))) continue;
+      if (!(Math.abs(a.createdMs - b.createdMs) <= windowMs)) continue;
+
+      const sameCatalyst = a.catalyst !== null && a.catalyst === b.catalyst;
+      if (sameCatalyst || jaccardSimilarity(a.shingles, b.shingles) >= SHINGLE_SIMILARITY_THRESHOLD) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, EmailCandidate[]>();
+  candidates.forEach((candidate, index) => {
+    const root = find(index);
+    const group = groups.get(root) ?? [];
+    group.push(candidate);
+    groups.set(root, group);
+  });
+
+  return Array.from(groups.values()).map(group => {
+    const posts = [...group].sort(compareRepresentatives);
+    const tickers = Array.from(new Set(posts.flatMap(post => post.tickers)));
+    const subreddits = Array.from(new Set(
+      posts.map(post => post.subreddit).filter((subreddit): subreddit is string => Boolean(subreddit)),
+    ));
+    return { representative: posts[0], posts, tickers, subreddits };
+  });
+}
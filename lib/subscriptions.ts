@@ -0,0 +1,98 @@
+// Per-user delivery preferences. Each Supabase user may hold one row in `subscriptions`; when any
+// active row exists, digests and alerts fan out to subscribers instead of EMAIL_TO. Empty lists
+// mean "no filter", so a bare subscription receives everything the global digest would.
+
+import type { EmailCandidate } from './db';
+import type { MentionSpike } from './mentions';
+
+export type AlertType = 'digest' | 'bearish' | 'unusual_chatter' | 'price_watch' | 'position_drop';
+export type DigestFrequency = 'realtime' | 'hourly' | 'daily';
+
+export const ALERT_TYPES: AlertType[] = ['digest', 'bearish', 'unusual_chatter', 'price_watch', 'position_drop'];
+export const DIGEST_FREQUENCIES: DigestFrequency[] = ['realtime', 'hourly', 'daily'];
+
+export interface Subscription {
+  id: string;
+  userId: string;
+  email: string;
+  // Only raises the bar; posts below QUALITY_THRESHOLD never reach any subscriber
+  minQuality: number;
+  subreddits: string[];
+  includeTickers: string[];
+  excludeTickers: string[];
+  // Authors muted from digest feedback links
+  excludeAuthors: string[];
+  digestFrequency: DigestFrequency;
+  alertTypes: AlertType[];
+  lastDigestAt: string | null;
+}
+
+const FREQUENCY_MS: Record<DigestFrequency, number> = {
+  realtime: 0,
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+};
+// A subscriber returning after a long pause gets the last week, not everything since they left
+const MAX_ROLLUP_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function wantsAlert(subscription: Subscription, type: AlertType): boolean {
+  return subscription.alertTypes.includes(type);
+}
+
+// Excludes win over includes, so a ticker on both lists is dropped
+export function tickerAllowed(subscription: Subscription, ticker: string): boolean {
+  const upper = ticker.toUpperCase();
+  if (subscription.excludeTickers.some(excluded => excluded.toUpperCase() === upper)) {
+    return false;
+  }
+  return subscription.includeTickers.length === 0
+    || subscription.includeTickers.some(included => included.toUpperCase() === upper);
+}
+
+export function matchesSubscription(candidate: EmailCandidate, subscription: Subscription): boolean {
+  if (!wantsAlert(subscription, candidate.direction === 'bearish' ? 'bearish' : 'digest')) {
+    return false;
+  }
+  if (candidate.quality_score < subscription.minQuality) {
+    return false;
+  }
+  const author = (candidate.author ?? '').toLowerCase();
+  if (author && subscription.excludeAuthors.some(excluded => excluded.toLowerCase() === author)) {
+    return false;
+  }
+  if (subscription.subreddits.length > 0) {
+    const subreddit = (candidate.subreddit ?? '').toLowerCase();
+    if (!subscription.subreddits.some(allowed => allowed.toLowerCase() === subreddit)) {
+      return false;
+    }
+  }
+  return candidate.tickers.some(ticker => tickerAllowed(subscription, ticker));
+}
+
+export function filterSpikesForSubscription(spikes: MentionSpike[], subscription: Subscription): MentionSpike[] {
+  if (!wantsAlert(subscription, 'unusual_chatter')) {
+    return [];
+  }
+  return spikes.filter(spike => tickerAllowed(subscription, spike.ticker));
+}
+
+export function isDigestDue(subscription: Subscription, now: Date): boolean {
+  const intervalMs = FREQUENCY_MS[subscription.digestFrequency];
+  if (intervalMs === 0 || !subscription.lastDigestAt) {
+    return true;
+  }
+  const lastMs = Date.parse(subscription.lastDigestAt);
+  return Number.isNaN(lastMs) || now.getTime() - lastMs >= intervalMs;
+}
+
+/**
+ * Start of the roll-up a subscriber on an hourly or daily digest is owed: posts released to the
+ * digest after their last one (at most a week back), or one interval back for a first digest.
+ */
+export function digestWindowStart(subscription: Subscription, now: Date): string {
+  const lastMs = subscription.lastDigestAt ? Date.parse(subscription.lastDigestAt) : Number.NaN;
+  const startMs = Number.isNaN(lastMs)
+    ? now.getTime() - FREQUENCY_MS[subscription.digestFrequency]
+    : Math.max(lastMs, now.getTime() - MAX_ROLLUP_LOOKBACK_MS);
+  return new Date(startMs).toISOString();
+}
@@ -0,0 +1,127 @@
+// Canonical ticker form used everywhere in the pipeline: uppercase root, share class after a dot
+// (BRK.B, RDS.A) and a non-US exchange suffix last (SHOP.TO). Reddit, the LLM and Tiingo each
+// write these differently, so every ticker passes through normalizeTicker on the way in and
+// toTiingoSymbol on the way out.
+
+import tickerMetadata from '../assets/ticker_metadata.json';
+import type { AssetClass } from './config';
+
+export interface ParsedTicker {
+  symbol: string;
+  root: string;
+  shareClass: string | null;
+  exchange: string | null;
+}
+
+// Listing suffixes for non-US exchanges, plus the prefixes people write instead ("TSX:SHOP")
+const EXCHANGE_SUFFIXES: Record<string, { prefixes: string[] }> = {
+  TO: { prefixes: ['TSX'] },
+  CN: { prefixes: ['CSE'] },
+  NE: { prefixes: ['NEO'] },
+};
+
+// US venue prefixes carry no information once the symbol is known
+const US_VENUE_PREFIXES = ['NYSE', 'NASDAQ', 'AMEX', 'ARCA', 'OTC', 'OTCMKTS', 'PINK'];
+
+const PREFIX_TO_SUFFIX = new Map(
+  Object.entries(EXCHANGE_SUFFIXES).flatMap(([suffix, { prefixes }]) => prefixes.map(prefix => [prefix, suffix] as const)),
+);
+
+// Symbols listed in assets/ticker_metadata.json without an assetClass are equities
+const ASSET_CLASS_BY_SYMBOL = new Map<string, AssetClass>(
+  (tickerMetadata as Array<{ symbol: string; assetClass?: AssetClass }>)
+    .filter(entry => entry.assetClass)
+    .map(entry => [entry.symbol.toUpperCase(), entry.assetClass as AssetClass]),
+);
+
+// Roots run to six letters for OTC symbols; classes are one or two letters (A, B, U, WS)
+const TICKER_PARTS = /^([A-Z]{1,6})(?:[./-]([A-Z]{1,2}))?(?:[.-]([A-Z]{2}))?$/;
+
+// Cashtags may use any separator ($BRK-B, $brk.b, $SHOP.TO); bare mentions must already be uppercase
+export const CASHTAG_PATTERN = /\$([A-Za-z]{1,6}(?:[./-][A-Za-z]{1,2}){0,2})(?![\w/-]|[.-]\w)/g;
+export const BARE_TICKER_PATTERN = /\b[A-Z]{2,5}(?:[.-][A-Z]{1,2}){0,2}\b/g;
+
+export function parseTicker(raw: unknown): ParsedTicker | null {
+  if (typeof raw !== 'string') {
+    return null;
+  }
+
+  let value = raw.trim().toUpperCase().replace(/^\$/, '');
+  let exchange: string | null = null;
+
+  const venueSeparator = value.indexOf(':');
+  if (venueSeparator > 0) {
+    const prefix = value.slice(0, venueSeparator);
+    value = value.slice(venueSeparator + 1);
+    if (PREFIX_TO_SUFFIX.has(prefix)) {
+      exchange = PREFIX_TO_SUFFIX.get(prefix) ?? null;
+    } else if (!US_VENUE_PREFIXES.includes(prefix)) {
+      return null;
+    }
+  }
+
+  const match = TICKER_PARTS.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const [, root, second, third] = match;
+  let shareClass: string | null = second ?? null;
+
+  // "SHOP.TO" has only one suffix, and it names the exchange rather than a share class
+  if (second && !third && EXCHANGE_SUFFIXES[second]) {
+    if (exchange) {
+      return null;
+    }
+    exchange = second;
+    shareClass = null;
+  } else if (third) {
+    if (!EXCHANGE_SUFFIXES[third] || exchange) {
+      return null;
+    }
+    exchange = third;
+  }
+
+  const symbol = [root, shareClass, exchange].filter(Boolean).join('.');
+  return { symbol, root, shareClass, exchange };
+}
+
+export function normalizeTicker(raw: unknown): string | null {
+  return parseTicker(raw)?.symbol ?? null;
+}
+
+// Normalizes, drops anything unparseable and de-duplicates while keeping order
+export function normalizeTickers(raw: unknown): string[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  const symbols = raw
+    .map(normalizeTicker)
+    .filter((ticker): ticker is string => Boolean(ticker));
+  return Array.from(new Set(symbols));
+}
+
+export function assetClassOf(ticker: string): AssetClass {
+  const symbol = normalizeTicker(ticker);
+  return (symbol && ASSET_CLASS_BY_SYMBOL.get(symbol)) || 'equity';
+}
+
+export function isLeveragedEtf(ticker: string): boolean {
+  return assetClassOf(ticker) === 'leveraged_etf';
+}
+
+/**
+ * Tiingo writes share classes with a hyphen (brk-b) and its end-of-day and IEX feeds
+ * only cover US listings, so non-US listings have no Tiingo symbol and return null.
+ * Crypto is quoted against USD on the crypto feed (btcusd).
+ */
+export function toTiingoSymbol(ticker: string): string | null {
+  const parsed = parseTicker(ticker);
+  if (!parsed || parsed.exchange) {
+    return null;
+  }
+  if (assetClassOf(parsed.symbol) === 'crypto') {
+    return `${parsed.root.toLowerCase()}usd`;
+  }
+  return parsed.shareClass ? `${parsed.root}-${parsed.shareClass}` : parsed.root;
+}
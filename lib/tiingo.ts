@@ -1,4 +1,5 @@
 import { logger } from './logger';
+import { assetClassOf, normalizeTicker, toTiingoSymbol } from './tickers';
 
 export interface IntradayBar {
   timestamp: string;
@@ -95,6 +96,13 @@ type DailyFrequency = NonNullable<FetchDailyOptions['frequency']>;
 const DEFAULT_INTRADAY_FREQUENCY: IntradayFrequency = '1min';
 const DEFAULT_DAILY_FREQUENCY: DailyFrequency = 'daily';
 
+// The crypto feed resamples by duration rather than calendar period
+const CRYPTO_DAILY_FREQUENCY: Record<DailyFrequency, string> = {
+  daily: '1day',
+  weekly: '7day',
+  monthly: '30day',
+};
+
 const tiingoLogger = logger.withContext({ service: 'tiingo-client' });
 
 function formatDate(date: Date): string {
@@ -218,15 +226,17 @@ export class TiingoClient {
     }
 
     const paddedEnd = new Date(opts.end.getTime() + 24 * 60 * 60 * 1000);
-    const json = await this.request(
-      `/iex/${encodeURIComponent(opts.ticker)}/prices`,
-      {
-        startDate: formatDate(opts.start),
-        endDate: formatDate(paddedEnd),
-        resampleFreq: frequency,
-        columns: 'date,open,high,low,close,volume',
-      },
-    );
+    const json = assetClassOf(opts.ticker) === 'crypto'
+      ? await this.fetchCryptoPrices(opts.ticker, opts.start, paddedEnd, frequency)
+      : await this.request(
+        `/iex/${encodeURIComponent(requireTiingoSymbol(opts.ticker))}/prices`,
+        {
+          startDate: formatDate(opts.start),
+          endDate: formatDate(paddedEnd),
+          resampleFreq: frequency,
+          columns: 'date,open,high,low,close,volume',
+        },
+      );
 
     if (!Array.isArray(json)) {
       throw new Error(`Unexpected Tiingo response for ${opts.ticker}`);
@@ -291,15 +301,17 @@ export class TiingoClient {
       return cached;
     }
 
-    const json = await this.request(
-      `/tiingo/daily/${encodeURIComponent(opts.ticker)}/prices`,
-      {
-        startDate: formatDate(opts.start),
-        endDate: formatDate(endDate),
-        resampleFreq: frequency,
-        adjusted: opts.adjusted !== false,
-      },
-    );
+    const json = assetClassOf(opts.ticker) === 'crypto'
+      ? await this.fetchCryptoPrices(opts.ticker, opts.start, endDate, CRYPTO_DAILY_FREQUENCY[frequency])
+      : await this.request(
+        `/tiingo/daily/${encodeURIComponent(requireTiingoSymbol(opts.ticker))}/prices`,
+        {
+          startDate: formatDate(opts.start),
+          endDate: formatDate(endDate),
+          resampleFreq: frequency,
+          adjusted: opts.adjusted !== false,
+        },
+      );
 
     if (!Array.isArray(json)) {
       throw new Error(`Unexpected Tiingo daily response for ${opts.ticker}`);
@@ -360,10 +372,18 @@ export class TiingoClient {
       return cached;
     }
 
+    const tiingoTickers = opts.tickers
+      ?.map(toTiingoSymbol)
+      .filter((symbol): symbol is string => Boolean(symbol));
+    // Without this, a request for only non-US listings would return the unfiltered news feed
+    if (opts.tickers?.length && !tiingoTickers?.length) {
+      return [];
+    }
+
     const json = await this.request(
       '/tiingo/news',
       {
-        tickers: opts.tickers?.map(t => t.toUpperCase()),
+        tickers: tiingoTickers,
         tags: opts.tags,
         sources: opts.sources,
         startDate: opts.startDate ? formatDateTime(opts.startDate) : undefined,
@@ -416,7 +436,7 @@ export class TiingoClient {
         publishedAt: published.toISOString(),
         source: typeof item.source === 'string' ? item.source : null,
         tickers: Array.isArray(item.tickers)
-          ? item.tickers.map((t: unknown) => (typeof t === 'string' ? t.toUpperCase() : '')).filter(Boolean)
+          ? item.tickers.map(normalizeTicker).filter((t: string | null): t is string => Boolean(t))
           : [],
         tags: Array.isArray(item.tags)
           ? item.tags.map((t: unknown) => (typeof t === 'string' ? t : '')).filter(Boolean)
@@ -451,8 +471,13 @@ export class TiingoClient {
       return cached;
     }
 
+    // Coins have no financial statements; skip the request rather than spend budget on a 404
+    if (assetClassOf(opts.ticker) === 'crypto') {
+      return [];
+    }
+
     const json = await this.request(
-      `/tiingo/fundamentals/${encodeURIComponent(opts.ticker)}/statements`,
+      `/tiingo/fundamentals/${encodeURIComponent(requireTiingoSymbol(opts.ticker))}/statements`,
       {
         statementType,
         timeFrame: period,
@@ -484,7 +509,7 @@ export class TiingoClient {
       }
 
       statements.push({
-        ticker: (item.ticker ?? opts.ticker ?? '').toUpperCase(),
+        ticker: normalizeTicker(item.ticker) ?? opts.ticker.toUpperCase(),
         fiscalDate: fiscalDate && !Number.isNaN(fiscalDate.getTime()) ? fiscalDate.toISOString() : null,
         period: typeof item.period === 'string' ? item.period : (typeof item.timeFrame === 'string' ? item.timeFrame : period),
         statementType: typeof item.statementType === 'string'
@@ -503,6 +528,32 @@ export class TiingoClient {
     this.fundamentalsCache.set(cacheKey, statements);
     return statements;
   }
+
+  // The crypto feed wraps its bars as [{ ticker, priceData: [...] }]; this returns the bars in
+  // the same row shape as the IEX and end-of-day feeds
+  private async fetchCryptoPrices(ticker: string, start: Date, end: Date, resampleFreq: string): Promise<any> {
+    const json = await this.request('/tiingo/crypto/prices', {
+      tickers: requireTiingoSymbol(ticker),
+      startDate: formatDate(start),
+      endDate: formatDate(end),
+      resampleFreq,
+    });
+
+    if (!Array.isArray(json)) {
+      return json;
+    }
+    const entry = json.find(item => Array.isArray(item?.priceData));
+    return entry ? entry.priceData : [];
+  }
+}
+
+// Tiingo only carries US listings and USD crypto pairs; failing here beats a 404 per request for SHOP.TO and friends
+function requireTiingoSymbol(ticker: string): string {
+  const symbol = toTiingoSymbol(ticker);
+  if (!symbol) {
+    throw new Error(`No Tiingo symbol for ${ticker}`);
+  }
+  return symbol;
 }
 
 export function findFirstBarOnOrAfter(series: IntradayBar[], target: Date): IntradayBar | undefined {
@@ -12,13 +12,55 @@ CREATE TABLE IF NOT EXISTS reddit_posts (
   created_utc TIMESTAMPTZ NOT NULL,
   score INT DEFAULT 0,
   detected_tickers TEXT[] DEFAULT '{}',   -- from prefilter
+  ticker_detections JSONB DEFAULT '[]'::JSONB,   -- [{ticker, source, confidence, assetClass}] per detected ticker
+  option_contracts JSONB DEFAULT '[]'::JSONB,    -- [{underlying, strike, right, expiry, quantity}] from the post text
+  option_due_date DATE,                   -- earliest contract expiry the performance report has not judged
+  option_outcomes JSONB,                  -- one result per contract once judged, in option_contracts order
+  option_attempts INT NOT NULL DEFAULT 0,
   llm_tickers TEXT[] DEFAULT '{}',        -- refined tickers from LLM
 
   -- LLM outputs
   is_future_upside_claim BOOLEAN,
+  is_future_downside_claim BOOLEAN,
   stance TEXT CHECK (stance IN ('bullish','bearish','unclear')),
   reason TEXT,
   quality_score INT CHECK (quality_score BETWEEN 0 AND 5),
+  evidence_phrases TEXT[] DEFAULT '{}',   -- short quotes justifying the call
+  confidence INT CHECK (confidence BETWEEN 0 AND 5),
+  llm_status TEXT CHECK (llm_status IN ('classified','failed','exhausted','gated')),
+  llm_attempts INT NOT NULL DEFAULT 0,
+
+  -- stated target and deadline, and how the claim fared once the deadline passed
+  price_target NUMERIC CHECK (price_target > 0),
+  target_date DATE,
+  horizon_days INT CHECK (horizon_days > 0),
+  catalyst_type TEXT CHECK (catalyst_type IN ('earnings','fda','merger','macro','product','guidance','short_squeeze','legal','dilution','other')),
+  target_due_date DATE GENERATED ALWAYS AS (
+    COALESCE(target_date, ((created_utc AT TIME ZONE 'utc') + horizon_days * INTERVAL '1 day')::DATE)
+  ) STORED,
+  target_evaluated_at TIMESTAMPTZ,
+  target_hit BOOLEAN,
+  target_return_pct NUMERIC,
+  target_attempts INT NOT NULL DEFAULT 0,
+  target_error TEXT,
+
+  -- pump risk for posts held out of the digest by PUMP_RISK_SUPPRESS_SCORE
+  pump_risk_score NUMERIC CHECK (pump_risk_score BETWEEN 0 AND 1),
+  pump_risk_reasons TEXT[],
+  suppressed_at TIMESTAMPTZ,
+
+  -- top-comment signals (only for high-velocity posts)
+  comments_analyzed INT,
+  comment_agree_count INT,
+  comment_disagree_count INT,
+  comment_tickers TEXT[] DEFAULT '{}',
+
+  -- post type and link target (link/image/video/gallery posts and crossposts)
+  post_type TEXT,
+  link_url TEXT,
+  link_domain TEXT,
+  flair TEXT,
+  crosspost_parent TEXT,
 
   -- bookkeeping
   emailed_at TIMESTAMPTZ,
@@ -29,8 +71,15 @@ CREATE TABLE IF NOT EXISTS reddit_posts (
 CREATE INDEX IF NOT EXISTS idx_posts_created ON reddit_posts (created_utc DESC);
 CREATE INDEX IF NOT EXISTS idx_posts_email ON reddit_posts (emailed_at);
 CREATE INDEX IF NOT EXISTS idx_posts_quality ON reddit_posts (is_future_upside_claim, stance, quality_score);
+CREATE INDEX IF NOT EXISTS idx_posts_downside ON reddit_posts (is_future_downside_claim, stance, quality_score);
 CREATE INDEX IF NOT EXISTS idx_posts_tickers ON reddit_posts USING GIN (detected_tickers);
 CREATE INDEX IF NOT EXISTS idx_posts_llm_tickers ON reddit_posts USING GIN (llm_tickers);
+CREATE INDEX IF NOT EXISTS idx_posts_llm_retry ON reddit_posts (llm_attempts) WHERE llm_status = 'failed';
+CREATE INDEX IF NOT EXISTS idx_posts_llm_gated ON reddit_posts (created_utc DESC) WHERE llm_status = 'gated';
+CREATE INDEX IF NOT EXISTS idx_reddit_posts_option_due ON reddit_posts (option_due_date)
+  WHERE option_due_date IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_reddit_posts_target_due ON reddit_posts (target_due_date)
+  WHERE target_evaluated_at IS NULL AND target_due_date IS NOT NULL;
 
 -- Application metadata table for storing cursors and other state
 CREATE TABLE IF NOT EXISTS app_meta (
@@ -72,6 +121,7 @@ CREATE TABLE IF NOT EXISTS price_watches (
   id BIGSERIAL PRIMARY KEY,
   post_id TEXT NOT NULL REFERENCES reddit_posts(post_id) ON DELETE CASCADE,
   ticker TEXT NOT NULL,
+  direction TEXT NOT NULL DEFAULT 'bullish' CHECK (direction IN ('bullish', 'bearish')),
   quality_score INT NOT NULL,
   entry_price NUMERIC NOT NULL,
   entry_price_ts TIMESTAMPTZ NOT NULL,
@@ -122,3 +172,145 @@ CREATE INDEX IF NOT EXISTS idx_portfolio_positions_user ON portfolio_positions (
 CREATE INDEX IF NOT EXISTS idx_portfolio_positions_watch ON portfolio_positions (watch);
 
 ALTER TABLE portfolio_positions ENABLE ROW LEVEL SECURITY;
+
+-- Per-call LLM token and cost accounting, keyed by poll run
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id BIGSERIAL PRIMARY KEY,
+  run_id TEXT,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  batch_size INT NOT NULL DEFAULT 0,
+  prompt_tokens INT NOT NULL DEFAULT 0,
+  completion_tokens INT NOT NULL DEFAULT 0,
+  estimated_cost_usd NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_created ON llm_usage (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_run ON llm_usage (run_id);
+
+ALTER TABLE llm_usage ENABLE ROW LEVEL SECURITY;
+
+-- Score, upvote ratio and comment count observed by the rescore job
+CREATE TABLE IF NOT EXISTS post_snapshots (
+  id BIGSERIAL PRIMARY KEY,
+  post_id TEXT NOT NULL REFERENCES reddit_posts(post_id) ON DELETE CASCADE,
+  observed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  score INT NOT NULL DEFAULT 0,
+  upvote_ratio NUMERIC,
+  num_comments INT,
+  votes_per_minute NUMERIC
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_snapshots_post ON post_snapshots (post_id, observed_at DESC);
+
+ALTER TABLE post_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Hourly ticker mention counts across every fetched post, for the unusual chatter detector
+CREATE TABLE IF NOT EXISTS ticker_mentions (
+  ticker TEXT NOT NULL,
+  hour_start TIMESTAMPTZ NOT NULL,
+  mentions INT NOT NULL DEFAULT 0 CHECK (mentions >= 0),
+  spike_alerted_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (ticker, hour_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ticker_mentions_hour ON ticker_mentions (hour_start);
+
+ALTER TABLE ticker_mentions ENABLE ROW LEVEL SECURITY;
+
+-- Posts already counted in ticker_mentions, so re-fetched posts are not counted twice
+CREATE TABLE IF NOT EXISTS ticker_mention_posts (
+  post_id TEXT PRIMARY KEY,
+  counted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ticker_mention_posts_counted ON ticker_mention_posts (counted_at);
+
+ALTER TABLE ticker_mention_posts ENABLE ROW LEVEL SECURITY;
+
+-- Author scorecards from realized outcomes (direction-adjusted fractions); suppressed authors never reach the digest
+CREATE TABLE IF NOT EXISTS author_reputation (
+  author TEXT PRIMARY KEY,
+  sample_size INT NOT NULL DEFAULT 0,
+  hit_count INT NOT NULL DEFAULT 0,
+  sum_return_pct NUMERIC NOT NULL DEFAULT 0,
+  hit_rate NUMERIC NOT NULL DEFAULT 0,
+  avg_return_pct NUMERIC NOT NULL DEFAULT 0,
+  shrunk_hit_rate NUMERIC NOT NULL DEFAULT 0.5,
+  shrunk_avg_return_pct NUMERIC NOT NULL DEFAULT 0,
+  credibility NUMERIC NOT NULL DEFAULT 0 CHECK (credibility BETWEEN -1 AND 1),
+  suppressed BOOLEAN NOT NULL DEFAULT FALSE,
+  suppressed_reason TEXT,
+  last_run_date DATE,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_author_reputation_suppressed ON author_reputation (author) WHERE suppressed;
+
+ALTER TABLE author_reputation ENABLE ROW LEVEL SECURITY;
+
+-- Digest subscribers (one per Supabase user); empty lists mean no filter
+CREATE TABLE IF NOT EXISTS subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users (id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  min_quality INT NOT NULL DEFAULT 0 CHECK (min_quality BETWEEN 0 AND 5),
+  subreddits TEXT[] NOT NULL DEFAULT '{}',
+  include_tickers TEXT[] NOT NULL DEFAULT '{}',
+  exclude_tickers TEXT[] NOT NULL DEFAULT '{}',
+  exclude_authors TEXT[] NOT NULL DEFAULT '{}',
+  digest_frequency TEXT NOT NULL DEFAULT 'realtime' CHECK (digest_frequency IN ('realtime', 'hourly', 'daily')),
+  alert_types TEXT[] NOT NULL DEFAULT '{digest,bearish,unusual_chatter,price_watch,position_drop}',
+  last_digest_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_active ON subscriptions (active);
+
+ALTER TABLE subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- Outgoing messages queued with the digest claim; the poll Lambda delivers and retries them
+CREATE TABLE IF NOT EXISTS outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  recipients JSONB NOT NULL DEFAULT '{}'::JSONB,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts INT NOT NULL DEFAULT 0 CHECK (attempts >= 0),
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- set while a sender holds the row
+  locked_until TIMESTAMPTZ,
+  last_error TEXT,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_outbox_pending ON outbox (next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_outbox_status ON outbox (status, created_at);
+CREATE INDEX IF NOT EXISTS idx_outbox_sending ON outbox (locked_until) WHERE status = 'sending';
+
+ALTER TABLE outbox ENABLE ROW LEVEL SECURITY;
+
+-- Reader feedback from digest links: votes and mutes, one row per recipient and action
+CREATE TABLE IF NOT EXISTS post_feedback (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id TEXT NOT NULL REFERENCES reddit_posts (post_id) ON DELETE CASCADE,
+  author TEXT,
+  action TEXT NOT NULL CHECK (action IN ('up', 'down', 'mute_ticker', 'mute_author')),
+  target TEXT NOT NULL DEFAULT '',
+  subscription_id UUID REFERENCES subscriptions (id) ON DELETE CASCADE,
+  recipient_key TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (post_id, recipient_key, action, target),
+  -- mutes only come from subscriber digests
+  CONSTRAINT post_feedback_mutes_need_subscription CHECK (subscription_id IS NOT NULL OR action IN ('up', 'down'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_feedback_author ON post_feedback (author) WHERE action IN ('up', 'down');
+
+ALTER TABLE post_feedback ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,23 @@
+-- Per-call LLM token and cost accounting, keyed by poll run
+
+create table if not exists llm_usage (
+  id bigserial primary key,
+  run_id text,
+  provider text not null,
+  model text not null,
+  batch_size int not null default 0,
+  prompt_tokens int not null default 0,
+  completion_tokens int not null default 0,
+  estimated_cost_usd numeric not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_llm_usage_created on llm_usage(created_at desc);
+create index if not exists idx_llm_usage_run on llm_usage(run_id);
+
+alter table llm_usage enable row level security;
+
+create policy "deny_all_llm_usage" on llm_usage
+  for all
+  to public
+  using (false);
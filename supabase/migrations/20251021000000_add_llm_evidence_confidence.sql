@@ -0,0 +1,5 @@
+-- Keep the LLM's supporting quotes and self-reported confidence alongside the classification
+
+alter table reddit_posts
+  add column if not exists evidence_phrases text[] default '{}',
+  add column if not exists confidence int check (confidence between 0 and 5);
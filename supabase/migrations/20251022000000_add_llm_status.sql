@@ -0,0 +1,11 @@
+-- Track classification status so posts the LLM failed on are retried by later runs
+
+alter table reddit_posts
+  add column if not exists llm_status text check (llm_status in ('classified', 'failed', 'exhausted')),
+  add column if not exists llm_attempts int not null default 0;
+
+update reddit_posts
+  set llm_status = 'classified', llm_attempts = 1
+  where llm_status is null and stance is not null;
+
+create index if not exists idx_posts_llm_retry on reddit_posts(llm_attempts) where llm_status = 'failed';
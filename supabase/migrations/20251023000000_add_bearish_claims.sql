@@ -0,0 +1,9 @@
+-- Downside (short-side) claims and drop-triggered price watches
+
+alter table reddit_posts
+  add column if not exists is_future_downside_claim boolean;
+
+create index if not exists idx_posts_downside on reddit_posts(is_future_downside_claim, stance, quality_score);
+
+alter table price_watches
+  add column if not exists direction text not null default 'bullish' check (direction in ('bullish', 'bearish'));
@@ -0,0 +1,7 @@
+-- Agreement/disagreement signals from the top comments of high-velocity posts
+
+alter table reddit_posts
+  add column if not exists comments_analyzed int,
+  add column if not exists comment_agree_count int,
+  add column if not exists comment_disagree_count int,
+  add column if not exists comment_tickers text[] default '{}';
@@ -0,0 +1,27 @@
+-- Score time series for recent posts, plus a 'gated' status for posts held back by the engagement gate
+
+alter table reddit_posts drop constraint if exists reddit_posts_llm_status_check;
+alter table reddit_posts
+  add constraint reddit_posts_llm_status_check
+  check (llm_status in ('classified', 'failed', 'exhausted', 'gated'));
+
+create index if not exists idx_posts_llm_gated on reddit_posts(created_utc desc) where llm_status = 'gated';
+
+create table if not exists post_snapshots (
+  id bigserial primary key,
+  post_id text not null references reddit_posts(post_id) on delete cascade,
+  observed_at timestamptz not null default now(),
+  score int not null default 0,
+  upvote_ratio numeric,
+  num_comments int,
+  votes_per_minute numeric
+);
+
+create index if not exists idx_post_snapshots_post on post_snapshots(post_id, observed_at desc);
+
+alter table post_snapshots enable row level security;
+
+create policy "deny_all_post_snapshots" on post_snapshots
+  for all
+  to public
+  using (false);
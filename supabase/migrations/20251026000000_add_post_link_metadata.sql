@@ -0,0 +1,8 @@
+-- Post type, link target, flair and crosspost parent for non-text posts
+
+alter table reddit_posts
+  add column if not exists post_type text,
+  add column if not exists link_url text,
+  add column if not exists link_domain text,
+  add column if not exists flair text,
+  add column if not exists crosspost_parent text;
@@ -0,0 +1,4 @@
+-- How each detected ticker was found (cashtag, bare symbol or company name) and its confidence
+
+alter table reddit_posts
+  add column if not exists ticker_detections jsonb default '[]'::jsonb;
@@ -0,0 +1,4 @@
+-- Option contracts mentioned in a post ("SPY 450c 12/15"): [{underlying, strike, right, expiry, quantity}]
+
+alter table reddit_posts
+  add column if not exists option_contracts jsonb default '[]'::jsonb;
@@ -0,0 +1,17 @@
+-- Price target, deadline and catalyst the LLM pulled from each claim, and how the claim fared
+-- once its deadline passed (filled in by the performance report)
+
+alter table reddit_posts
+  add column if not exists price_target numeric check (price_target > 0),
+  add column if not exists target_date date,
+  add column if not exists horizon_days int check (horizon_days > 0),
+  add column if not exists catalyst_type text check (catalyst_type in (
+    'earnings', 'fda', 'merger', 'macro', 'product', 'guidance', 'short_squeeze', 'legal', 'dilution', 'other'
+  )),
+  add column if not exists target_evaluated_at timestamptz,
+  add column if not exists target_hit boolean,
+  add column if not exists target_return_pct numeric;
+
+create index if not exists idx_reddit_posts_target_pending
+  on reddit_posts (emailed_at)
+  where target_evaluated_at is null and (target_date is not null or horizon_days is not null);
@@ -0,0 +1,20 @@
+-- Hourly ticker mention counts across every fetched post, used to spot unusual chatter
+-- before any single post clears the LLM or the quality threshold
+
+create table if not exists ticker_mentions (
+  ticker text not null,
+  hour_start timestamptz not null,
+  mentions int not null default 0 check (mentions >= 0),
+  spike_alerted_at timestamptz,
+  updated_at timestamptz not null default now(),
+  primary key (ticker, hour_start)
+);
+
+create index if not exists idx_ticker_mentions_hour on ticker_mentions(hour_start);
+
+alter table ticker_mentions enable row level security;
+
+create policy "deny_all_ticker_mentions" on ticker_mentions
+  for all
+  to public
+  using (false);
@@ -0,0 +1,29 @@
+-- Author scorecards built from realized post_performance outcomes, refreshed by the performance
+-- report. Returns are direction-adjusted fractions like ticker_performance; hit rate and average
+-- return are also kept shrunk toward a neutral prior, and credibility (-1..1) drives ranking.
+-- Set suppressed = true to keep a known pump account out of every digest.
+
+create table if not exists author_reputation (
+  author text primary key,
+  sample_size int not null default 0,
+  hit_count int not null default 0,
+  sum_return_pct numeric not null default 0,
+  hit_rate numeric not null default 0,
+  avg_return_pct numeric not null default 0,
+  shrunk_hit_rate numeric not null default 0.5,
+  shrunk_avg_return_pct numeric not null default 0,
+  credibility numeric not null default 0 check (credibility between -1 and 1),
+  suppressed boolean not null default false,
+  suppressed_reason text,
+  last_run_date date,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_author_reputation_suppressed on author_reputation(author) where suppressed;
+
+alter table author_reputation enable row level security;
+
+create policy "deny_all_author_reputation" on author_reputation
+  for all
+  to public
+  using (false);
@@ -0,0 +1,7 @@
+-- Pump risk recorded for posts held out of the digest by PUMP_RISK_SUPPRESS_SCORE; suppressed
+-- posts are never selected for email again
+
+alter table reddit_posts
+  add column if not exists pump_risk_score numeric check (pump_risk_score between 0 and 1),
+  add column if not exists pump_risk_reasons text[],
+  add column if not exists suppressed_at timestamptz;
@@ -0,0 +1,84 @@
+-- Digest subscribers. Each Supabase user holds at most one subscription; once any are active the
+-- poll Lambda fans digests and alerts out to them instead of EMAIL_TO, and position-drop alerts go
+-- to the position's owner. Empty lists mean no filter. last_digest_at is maintained by the service
+-- role and drives hourly and daily roll-ups.
+
+create table if not exists subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null unique references auth.users (id) on delete cascade,
+  email text not null,
+  active boolean not null default true,
+  min_quality int not null default 0 check (min_quality between 0 and 5),
+  subreddits text[] not null default '{}',
+  include_tickers text[] not null default '{}',
+  exclude_tickers text[] not null default '{}',
+  digest_frequency text not null default 'realtime' check (digest_frequency in ('realtime', 'hourly', 'daily')),
+  alert_types text[] not null default '{digest,bearish,unusual_chatter,price_watch,position_drop}'
+    check (alert_types <@ array['digest', 'bearish', 'unusual_chatter', 'price_watch', 'position_drop']),
+  last_digest_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_subscriptions_active on subscriptions(active);
+
+create or replace function public.apply_subscription_defaults()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  requester_role text := coalesce((auth.jwt() ->> 'role'), '');
+begin
+  new.include_tickers := array(select upper(t) from unnest(new.include_tickers) as t);
+  new.exclude_tickers := array(select upper(t) from unnest(new.exclude_tickers) as t);
+  new.updated_at := now();
+
+  if requester_role is distinct from 'service_role' then
+    if tg_op = 'INSERT' then
+      new.user_id := coalesce(auth.uid(), new.user_id);
+      new.last_digest_at := null;
+    elsif tg_op = 'UPDATE' then
+      new.user_id := old.user_id;
+      new.last_digest_at := old.last_digest_at;
+    end if;
+  end if;
+
+  if new.email is null then
+    select email into new.email from auth.users where id = new.user_id;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_subscriptions_defaults on subscriptions;
+
+create trigger trg_subscriptions_defaults
+before insert or update on subscriptions
+for each row
+execute function public.apply_subscription_defaults();
+
+alter table subscriptions enable row level security;
+
+create policy "Users can view own subscription"
+  on subscriptions
+  for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert own subscription"
+  on subscriptions
+  for insert
+  with check (auth.uid() = coalesce(user_id, auth.uid()));
+
+create policy "Users can update own subscription"
+  on subscriptions
+  for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete own subscription"
+  on subscriptions
+  for delete
+  using (auth.uid() = user_id);
@@ -0,0 +1,70 @@
+-- Outgoing messages, written in the same transaction that claims the digest's posts, chatter and
+-- subscriber roll-ups. The poll Lambda's sender step delivers pending rows, retrying with backoff;
+-- rows that run out of attempts stay 'failed' until replayed.
+
+create table if not exists outbox (
+  id uuid primary key default gen_random_uuid(),
+  message_type text not null,
+  -- The rendered notification: subject, text, html, sections and structured payload
+  payload jsonb not null,
+  -- { "to": "reader@example.com" } for personal email, { "excludeChannels": [...] } for broadcasts
+  recipients jsonb not null default '{}'::jsonb,
+  status text not null default 'pending' check (status in ('pending', 'sent', 'failed')),
+  attempts int not null default 0 check (attempts >= 0),
+  next_attempt_at timestamptz not null default now(),
+  last_error text,
+  sent_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_outbox_pending on outbox(next_attempt_at) where status = 'pending';
+create index if not exists idx_outbox_status on outbox(status, created_at);
+
+alter table outbox enable row level security;
+
+create policy "deny_all_outbox" on outbox
+  for all
+  to public
+  using (false);
+
+-- Marks the posts emailed, the spikes alerted and the subscriptions digested, and queues the
+-- messages carrying them, all or nothing. Posts another run already claimed are left alone.
+create or replace function public.claim_digest(
+  p_messages jsonb,
+  p_post_ids text[],
+  p_subscription_ids uuid[],
+  p_spikes jsonb,
+  p_claimed_at timestamptz
+)
+returns setof outbox
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update reddit_posts
+    set emailed_at = p_claimed_at
+    where post_id = any(p_post_ids)
+      and emailed_at is null;
+
+  update ticker_mentions tm
+    set spike_alerted_at = p_claimed_at
+    from jsonb_to_recordset(coalesce(p_spikes, '[]'::jsonb)) as s(ticker text, hour_start timestamptz)
+    where tm.ticker = s.ticker
+      and tm.hour_start = s.hour_start;
+
+  update subscriptions
+    set last_digest_at = p_claimed_at,
+        updated_at = p_claimed_at
+    where id = any(p_subscription_ids);
+
+  return query
+    insert into outbox (message_type, payload, recipients, next_attempt_at, created_at, updated_at)
+    select m.message_type, m.payload, coalesce(m.recipients, '{}'::jsonb), p_claimed_at, p_claimed_at, p_claimed_at
+    from jsonb_to_recordset(coalesce(p_messages, '[]'::jsonb)) as m(message_type text, payload jsonb, recipients jsonb)
+    returning *;
+end;
+$$;
+
+revoke all on function public.claim_digest(jsonb, text[], uuid[], jsonb, timestamptz) from public, anon, authenticated;
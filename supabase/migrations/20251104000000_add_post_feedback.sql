@@ -0,0 +1,32 @@
+-- One-click reader feedback from digest links, recorded by the feedback Lambda. Votes are kept per
+-- recipient (a subscription, or 'global' for the EMAIL_TO and channel digests), so clicking twice
+-- counts once and switching thumbs replaces the earlier vote. author is copied from the post so
+-- ranking can total votes per author without a join.
+
+create table if not exists post_feedback (
+  id uuid primary key default gen_random_uuid(),
+  post_id text not null references reddit_posts (post_id) on delete cascade,
+  author text,
+  action text not null check (action in ('up', 'down', 'mute_ticker', 'mute_author')),
+  -- The muted ticker or author; empty for votes
+  target text not null default '',
+  subscription_id uuid references subscriptions (id) on delete cascade,
+  recipient_key text not null,
+  created_at timestamptz not null default now(),
+  unique (post_id, recipient_key, action, target)
+);
+
+create index if not exists idx_post_feedback_author on post_feedback(author) where action in ('up', 'down');
+create index if not exists idx_post_feedback_global_mutes on post_feedback(action)
+  where subscription_id is null and action in ('mute_ticker', 'mute_author');
+
+alter table post_feedback enable row level security;
+
+create policy "deny_all_post_feedback" on post_feedback
+  for all
+  to public
+  using (false);
+
+-- Authors a subscriber muted from a digest link; matched case-insensitively
+alter table subscriptions
+  add column if not exists exclude_authors text[] not null default '{}';
@@ -0,0 +1,67 @@
+-- claim_digest queued its messages even when an overlapping poll run had already claimed the same
+-- posts or chatter, so both runs sent a digest. The claim is now all or nothing: when any requested
+-- post is already emailed, or any spike already alerted, it raises 'digest_already_claimed' and the
+-- transaction rolls back without queueing anything. Posts the other run did not take stay unclaimed
+-- and are selected again on the next run.
+
+create or replace function public.claim_digest(
+  p_messages jsonb,
+  p_post_ids text[],
+  p_subscription_ids uuid[],
+  p_spikes jsonb,
+  p_claimed_at timestamptz
+)
+returns setof outbox
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  requested_posts int;
+  claimed_posts int;
+  requested_spikes int;
+  claimed_spikes int;
+begin
+  select count(distinct post_id) into requested_posts from unnest(coalesce(p_post_ids, '{}')) as post_id;
+
+  update reddit_posts
+    set emailed_at = p_claimed_at
+    where post_id = any(p_post_ids)
+      and emailed_at is null;
+  get diagnostics claimed_posts = row_count;
+
+  if claimed_posts < requested_posts then
+    raise exception 'digest_already_claimed'
+      using detail = format('%s of %s posts were already emailed', requested_posts - claimed_posts, requested_posts);
+  end if;
+
+  select count(*) into requested_spikes
+    from jsonb_to_recordset(coalesce(p_spikes, '[]'::jsonb)) as s(ticker text, hour_start timestamptz);
+
+  update ticker_mentions tm
+    set spike_alerted_at = p_claimed_at
+    from jsonb_to_recordset(coalesce(p_spikes, '[]'::jsonb)) as s(ticker text, hour_start timestamptz)
+    where tm.ticker = s.ticker
+      and tm.hour_start = s.hour_start
+      and tm.spike_alerted_at is null;
+  get diagnostics claimed_spikes = row_count;
+
+  if claimed_spikes < requested_spikes then
+    raise exception 'digest_already_claimed'
+      using detail = format('%s of %s spikes were already alerted', requested_spikes - claimed_spikes, requested_spikes);
+  end if;
+
+  update subscriptions
+    set last_digest_at = p_claimed_at,
+        updated_at = p_claimed_at
+    where id = any(p_subscription_ids);
+
+  return query
+    insert into outbox (message_type, payload, recipients, next_attempt_at, created_at, updated_at)
+    select m.message_type, m.payload, coalesce(m.recipients, '{}'::jsonb), p_claimed_at, p_claimed_at, p_claimed_at
+    from jsonb_to_recordset(coalesce(p_messages, '[]'::jsonb)) as m(message_type text, payload jsonb, recipients jsonb)
+    returning *;
+end;
+$$;
+
+revoke all on function public.claim_digest(jsonb, text[], uuid[], jsonb, timestamptz) from public, anon, authenticated;
@@ -0,0 +1,17 @@
+-- Posts already added to ticker_mentions. Every run re-reads the overlap window, and posts deferred
+-- by the spend cap are fetched again later, so without this the same post was counted on each pass
+-- and inflated its hour into false unusual chatter. Rows older than the 14-day baseline are pruned.
+
+create table if not exists ticker_mention_posts (
+  post_id text primary key,
+  counted_at timestamptz not null default now()
+);
+
+create index if not exists idx_ticker_mention_posts_counted on ticker_mention_posts(counted_at);
+
+alter table ticker_mention_posts enable row level security;
+
+create policy "deny_all_ticker_mention_posts" on ticker_mention_posts
+  for all
+  to public
+  using (false);
@@ -0,0 +1,15 @@
+-- Date each stated claim comes due, so the performance report selects only due claims, and a count
+-- of failed scoring attempts so a claim whose price data never arrives is eventually closed out
+
+alter table reddit_posts
+  add column if not exists target_due_date date generated always as (
+    coalesce(target_date, ((created_utc at time zone 'utc') + horizon_days * interval '1 day')::date)
+  ) stored,
+  add column if not exists target_attempts int not null default 0,
+  add column if not exists target_error text;
+
+drop index if exists idx_reddit_posts_target_pending;
+
+create index if not exists idx_reddit_posts_target_due
+  on reddit_posts (target_due_date)
+  where target_evaluated_at is null and target_due_date is not null;
@@ -0,0 +1,12 @@
+-- Mute links are only sent in subscriber digests. A mute from the EMAIL_TO or channel digests was
+-- not tied to anyone and muted the ticker or author for every reader, so those rows are dropped
+-- and no longer accepted.
+
+delete from post_feedback
+  where subscription_id is null and action in ('mute_ticker', 'mute_author');
+
+drop index if exists idx_post_feedback_global_mutes;
+
+alter table post_feedback
+  add constraint post_feedback_mutes_need_subscription
+  check (subscription_id is not null or action in ('up', 'down'));
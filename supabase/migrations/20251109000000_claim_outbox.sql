@@ -0,0 +1,45 @@
+-- Senders claim outbox rows before delivering them, so overlapping poll runs (or a replay during a
+-- scheduled run) never send the same row twice. A claimed row is 'sending' until its lock expires;
+-- a run that crashed or could not mark the row sent leaves it to be claimed again after that.
+
+alter table outbox
+  add column if not exists locked_until timestamptz;
+
+alter table outbox
+  drop constraint if exists outbox_status_check;
+
+alter table outbox
+  add constraint outbox_status_check check (status in ('pending', 'sending', 'sent', 'failed'));
+
+create index if not exists idx_outbox_sending on outbox(locked_until) where status = 'sending';
+
+create or replace function public.claim_outbox(
+  p_now timestamptz,
+  p_limit int,
+  p_lock_seconds int
+)
+returns setof outbox
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  return query
+    update outbox o
+      set status = 'sending',
+          locked_until = p_now + make_interval(secs => p_lock_seconds),
+          updated_at = p_now
+      where o.id in (
+        select id
+        from outbox
+        where (status = 'pending' and next_attempt_at <= p_now)
+           or (status = 'sending' and locked_until <= p_now)
+        order by created_at
+        limit p_limit
+        for update skip locked
+      )
+      returning o.*;
+end;
+$$;
+
+revoke all on function public.claim_outbox(timestamptz, int, int) from public, anon, authenticated;
@@ -0,0 +1,21 @@
+-- Option contracts are judged when they expire rather than only when they fall inside the
+-- performance report's lookback day. option_due_date is the earliest expiry not judged yet and
+-- option_outcomes holds one result per contract (null until judged), in option_contracts order.
+
+alter table reddit_posts
+  add column if not exists option_due_date date,
+  add column if not exists option_outcomes jsonb,
+  add column if not exists option_attempts int not null default 0;
+
+update reddit_posts p
+  set option_due_date = (
+    select min((c->>'expiry')::date)
+    from jsonb_array_elements(p.option_contracts) c
+    where c->>'expiry' is not null
+  )
+  where jsonb_typeof(p.option_contracts) = 'array'
+    and jsonb_array_length(p.option_contracts) > 0;
+
+create index if not exists idx_reddit_posts_option_due
+  on reddit_posts (option_due_date)
+  where option_due_date is not null;
@@ -0,0 +1,62 @@
+-- A subscriber's email is always their account's. Users could previously write `email` through
+-- row-level security and point digests and alerts at any address; now the trigger overwrites it
+-- from auth.users for every caller except the service role, and account email changes follow.
+
+create or replace function public.apply_subscription_defaults()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  requester_role text := coalesce((auth.jwt() ->> 'role'), '');
+begin
+  new.include_tickers := array(select upper(t) from unnest(new.include_tickers) as t);
+  new.exclude_tickers := array(select upper(t) from unnest(new.exclude_tickers) as t);
+  new.updated_at := now();
+
+  if requester_role is distinct from 'service_role' then
+    if tg_op = 'INSERT' then
+      new.user_id := coalesce(auth.uid(), new.user_id);
+      new.last_digest_at := null;
+    elsif tg_op = 'UPDATE' then
+      new.user_id := old.user_id;
+      new.last_digest_at := old.last_digest_at;
+    end if;
+    new.email := null;
+  end if;
+
+  if new.email is null then
+    select email into new.email from auth.users where id = new.user_id;
+  end if;
+
+  return new;
+end;
+$$;
+
+create or replace function public.sync_subscription_email()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update subscriptions set email = new.email where user_id = new.id;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_sync_subscription_email on auth.users;
+
+create trigger trg_sync_subscription_email
+after update of email on auth.users
+for each row
+when (new.email is distinct from old.email)
+execute function public.sync_subscription_email();
+
+-- Rows written before this change take the account email again
+update subscriptions s
+  set email = u.email
+  from auth.users u
+  where u.id = s.user_id
+    and s.email is distinct from u.email;
@@ -0,0 +1,45 @@
+-- Counts a run's ticker mentions in one statement so overlapping poll runs cannot both count the
+-- same post or overwrite each other's increments. A post is counted only by the call whose insert
+-- into ticker_mention_posts succeeds, and buckets are incremented in place.
+
+create or replace function public.record_ticker_mentions(
+  p_posts jsonb,
+  p_counted_at timestamptz,
+  p_prune_before timestamptz
+)
+returns setof ticker_mentions
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from ticker_mention_posts where counted_at <= p_prune_before;
+
+  return query
+    with posts as (
+      select distinct on (p.post_id) p.post_id, p.hour_start, p.tickers
+      from jsonb_to_recordset(coalesce(p_posts, '[]'::jsonb)) as p(post_id text, hour_start timestamptz, tickers text[])
+    ),
+    fresh as (
+      insert into ticker_mention_posts (post_id, counted_at)
+      select post_id, p_counted_at from posts
+      on conflict (post_id) do nothing
+      returning post_id
+    ),
+    counts as (
+      select t.ticker, p.hour_start, count(*)::int as mentions
+      from posts p
+      join fresh f on f.post_id = p.post_id
+      cross join lateral (select distinct upper(unnest(p.tickers)) as ticker) t
+      group by t.ticker, p.hour_start
+    )
+    insert into ticker_mentions as tm (ticker, hour_start, mentions, updated_at)
+    select c.ticker, c.hour_start, c.mentions, p_counted_at from counts c
+    on conflict (ticker, hour_start) do update
+      set mentions = tm.mentions + excluded.mentions,
+          updated_at = excluded.updated_at
+    returning tm.*;
+end;
+$$;
+
+revoke all on function public.record_ticker_mentions(jsonb, timestamptz, timestamptz) from public, anon, authenticated;
@@ -1,4 +1,5 @@
 import type { Post } from '../../lib/reddit';
+import type { RedditAccount, RedditClient, RedditCommentData, RedditListing, RedditSubmission } from '../../lib/reddit-client';
 
 export interface MockRedditPost {
   id: string;
@@ -9,10 +10,14 @@ export interface MockRedditPost {
   permalink: string;
   created_utc: number;
   score: number;
+  upvote_ratio?: number;
+  num_comments?: number;
 }
 
-export class MockRedditClient {
+export class MockRedditClient implements RedditClient {
   private posts: MockRedditPost[] = [];
+  private comments = new Map<string, RedditCommentData[]>();
+  private accounts = new Map<string, RedditAccount>();
   private shouldFail: boolean = false;
   private failureMessage: string = 'Mock Reddit request failed';
 
@@ -38,21 +43,57 @@ export class MockRedditClient {
     }
   }
 
-  getSubreddit(subreddit: string) {
+  setMockComments(postId: string, comments: RedditCommentData[]): void {
+    this.comments.set(postId, comments);
+  }
+
+  setMockAccount(account: RedditAccount): void {
+    this.accounts.set(account.name, account);
+  }
+
+  // Newest first, paged by fullname like Reddit's /new listing
+  async getNew(subreddit: string, options: { limit: number; after?: string }): Promise<RedditListing<RedditSubmission>> {
+    this.assertHealthy();
+
+    const listing = this.posts
+      .filter(post => post.subreddit === subreddit)
+      .sort((a, b) => b.created_utc - a.created_utc);
+    const start = options.after ? listing.findIndex(post => `t3_${post.id}` === options.after) + 1 : 0;
+    const page = listing.slice(start, start + options.limit);
+    const hasMore = start + options.limit < listing.length;
+
+    return {
+      children: page.map(post => this.toSubmission(post)),
+      after: hasMore && page.length > 0 ? `t3_${page[page.length - 1].id}` : null,
+    };
+  }
+
+  async getTopComments(postId: string, limit: number): Promise<RedditCommentData[]> {
+    this.assertHealthy();
+    return (this.comments.get(postId) ?? []).slice(0, limit);
+  }
+
+  async getInfo(fullnames: string[]): Promise<RedditSubmission[]> {
+    this.assertHealthy();
+    const ids = new Set(fullnames.map(name => name.replace(/^t3_/, '')));
+    return this.posts.filter(post => ids.has(post.id)).map(post => this.toSubmission(post));
+  }
+
+  async getAccount(username: string): Promise<RedditAccount | null> {
+    this.assertHealthy();
+    return this.accounts.get(username) ?? null;
+  }
+
+  private assertHealthy(): void {
+    if (this.shouldFail) {
+      throw new Error(this.failureMessage);
+    }
+  }
+
+  private toSubmission(post: MockRedditPost): RedditSubmission {
     return {
-      getNew: async (opts: { limit: number }) => {
-        if (this.shouldFail) {
-          throw new Error(this.failureMessage);
-        }
-
-        return this.posts
-          .filter(post => post.subreddit === subreddit)
-          .slice(0, opts.limit)
-          .map(post => ({
-            ...post,
-            author: { name: post.author },
-          }));
-      },
+      ...post,
+      selftext: post.selftext ?? '',
     };
   }
 }
@@ -12,18 +12,71 @@ export interface MockDatabase {
     created_utc: string;
     score: number;
     detected_tickers: string[];
+    ticker_detections?: Array<{ ticker: string; source: string; confidence: number; assetClass?: string }>;
+    option_contracts?: Array<{ underlying: string; strike: number; right: string; expiry: string | null; quantity: number | null }>;
+    option_due_date?: string | null;
+    option_outcomes?: any[] | null;
+    option_attempts?: number;
     llm_tickers: string[];
     is_future_upside_claim: boolean | null;
+    is_future_downside_claim?: boolean | null;
     stance: string | null;
     reason: string | null;
     quality_score: number | null;
+    evidence_phrases?: string[];
+    confidence?: number | null;
+    price_target?: number | null;
+    target_date?: string | null;
+    horizon_days?: number | null;
+    catalyst_type?: string | null;
+    target_due_date?: string | null;
+    target_evaluated_at?: string | null;
+    target_hit?: boolean | null;
+    target_return_pct?: number | null;
+    target_attempts?: number;
+    target_error?: string | null;
+    pump_risk_score?: number | null;
+    pump_risk_reasons?: string[] | null;
+    suppressed_at?: string | null;
+    llm_status?: string | null;
+    llm_attempts?: number;
+    comments_analyzed?: number | null;
+    comment_agree_count?: number | null;
+    comment_disagree_count?: number | null;
+    comment_tickers?: string[];
+    post_type?: string | null;
+    link_url?: string | null;
+    link_domain?: string | null;
+    flair?: string | null;
+    crosspost_parent?: string | null;
     emailed_at: string | null;
     processed_at: string;
   }>;
+  ticker_mentions: Array<{
+    ticker: string;
+    hour_start: string;
+    mentions: number;
+    spike_alerted_at: string | null;
+    updated_at: string;
+  }>;
+  ticker_mention_posts: Array<{
+    post_id: string;
+    counted_at: string;
+  }>;
+  post_snapshots: Array<{
+    id: number;
+    post_id: string;
+    observed_at: string;
+    score: number;
+    upvote_ratio: number | null;
+    num_comments: number | null;
+    votes_per_minute: number | null;
+  }>;
   price_watches: Array<{
     id: number;
     post_id: string;
     ticker: string;
+    direction?: string;
     quality_score: number;
     entry_price: number;
     entry_price_ts: string;
@@ -63,6 +116,21 @@ export interface MockDatabase {
     last_run_date: string | null;
     updated_at: string;
   }>;
+  author_reputation: Array<{
+    author: string;
+    sample_size: number;
+    hit_count: number;
+    sum_return_pct: number;
+    hit_rate: number;
+    avg_return_pct: number;
+    shrunk_hit_rate: number;
+    shrunk_avg_return_pct: number;
+    credibility: number;
+    suppressed: boolean;
+    suppressed_reason: string | null;
+    last_run_date: string | null;
+    updated_at: string;
+  }>;
   portfolio_positions: Array<{
     id: string;
     user_id: string;
@@ -80,6 +148,46 @@ export interface MockDatabase {
     created_at: string;
     updated_at: string;
   }>;
+  subscriptions: Array<{
+    id: string;
+    user_id: string;
+    email: string;
+    active: boolean;
+    min_quality: number;
+    subreddits: string[];
+    include_tickers: string[];
+    exclude_tickers: string[];
+    exclude_authors?: string[];
+    digest_frequency: string;
+    alert_types: string[];
+    last_digest_at: string | null;
+    created_at: string;
+    updated_at: string;
+  }>;
+  outbox: Array<{
+    id: string;
+    message_type: string;
+    payload: any;
+    recipients: any;
+    status: string;
+    attempts: number;
+    next_attempt_at: string;
+    locked_until?: string | null;
+    last_error: string | null;
+    sent_at: string | null;
+    created_at: string;
+    updated_at: string;
+  }>;
+  post_feedback: Array<{
+    id: string;
+    post_id: string;
+    author: string | null;
+    action: string;
+    target: string;
+    subscription_id: string | null;
+    recipient_key: string;
+    created_at: string;
+  }>;
 }
 
 export class MockSupabaseClient {
@@ -89,10 +197,17 @@ export class MockSupabaseClient {
     this.db = {
       app_meta: [],
       reddit_posts: [],
+      post_snapshots: [],
+      ticker_mentions: [],
+      ticker_mention_posts: [],
       price_watches: [],
       post_performance: [],
       ticker_performance: [],
+      author_reputation: [],
       portfolio_positions: [],
+      subscriptions: [],
+      outbox: [],
+      post_feedback: [],
       ...initialData,
     };
   }
@@ -107,14 +222,65 @@ export class MockSupabaseClient {
     this.db = {
       app_meta: [],
       reddit_posts: [],
+      post_snapshots: [],
+      ticker_mentions: [],
+      ticker_mention_posts: [],
       price_watches: [],
       post_performance: [],
       ticker_performance: [],
+      author_reputation: [],
       portfolio_positions: [],
+      subscriptions: [],
+      outbox: [],
+      post_feedback: [],
       ...newData,
     };
   }
 
+  // Postgres functions called through supabase.rpc, emulated over the mock tables
+  async rpc(fn: string, params: Record<string, any> = {}) {
+    if (fn === 'claim_outbox') {
+      return { data: this.claimOutbox(params.p_now, params.p_limit, params.p_lock_seconds), error: null };
+    }
+    if (fn === 'record_ticker_mentions') {
+      return { data: this.recordTickerMentions(params.p_posts, params.p_counted_at, params.p_prune_before), error: null };
+    }
+    return { data: null, error: new Error(`Unknown function: ${fn}`) };
+  }
+
+  private claimOutbox(now: string, limit: number, lockSeconds: number) {
+    const lockedUntil = new Date(Date.parse(now) + lockSeconds * 1000).toISOString();
+    const claimed = this.db.outbox
+      .filter(row => (row.status === 'pending' && row.next_attempt_at <= now)
+        || (row.status === 'sending' && Boolean(row.locked_until) && row.locked_until! <= now))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .slice(0, limit);
+    claimed.forEach(row => Object.assign(row, { status: 'sending', locked_until: lockedUntil, updated_at: now }));
+    return claimed.map(row => ({ ...row }));
+  }
+
+  private recordTickerMentions(posts: Array<{ post_id: string; hour_start: string; tickers: string[] }>, countedAt: string, pruneBefore: string) {
+    this.db.ticker_mention_posts = this.db.ticker_mention_posts.filter(row => row.counted_at > pruneBefore);
+    const updated = new Map<string, any>();
+    posts.forEach(post => {
+      if (this.db.ticker_mention_posts.some(row => row.post_id === post.post_id)) {
+        return;
+      }
+      this.db.ticker_mention_posts.push({ post_id: post.post_id, counted_at: countedAt });
+      new Set(post.tickers.map(ticker => ticker.toUpperCase())).forEach(ticker => {
+        let bucket = this.db.ticker_mentions.find(row => row.ticker === ticker && row.hour_start === post.hour_start);
+        if (!bucket) {
+          bucket = { ticker, hour_start: post.hour_start, mentions: 0, spike_alerted_at: null, updated_at: countedAt };
+          this.db.ticker_mentions.push(bucket);
+        }
+        bucket.mentions += 1;
+        bucket.updated_at = countedAt;
+        updated.set(`${ticker}|${post.hour_start}`, bucket);
+      });
+    });
+    return [...updated.values()].map(row => ({ ...row }));
+  }
+
   from(table: string) {
     return {
       select: (columns: string = '*') => {
@@ -156,6 +322,11 @@ export class MockSupabaseClient {
         filters.push({ type: 'is', column, value });
         return query;
       },
+      // Only `.not(column, 'is', null)` is supported
+      not: (column: string, _operator: 'is', _value: null) => {
+        filters.push({ type: 'not_is', column });
+        return query;
+      },
       gte: (column: string, value: any) => {
         filters.push({ type: 'gte', column, value });
         return query;
@@ -252,6 +423,8 @@ export class MockSupabaseClient {
                   return filter.value === null
                     ? (row[filter.column!] === null || row[filter.column!] === undefined)
                     : row[filter.column!] === filter.value;
+                case 'not_is':
+                  return row[filter.column!] !== null && row[filter.column!] !== undefined;
                 case 'gte':
                   return row[filter.column!] >= filter.value;
                 case 'gt':
@@ -342,9 +515,9 @@ export class MockSupabaseClient {
               return conflictColumns.every(col => existing[col] === row[col]);
             });
 
-            if (existingIndex >= 0) {
+            if (existingIndex >= 0 && !options?.ignoreDuplicates) {
               tableData[existingIndex] = { ...tableData[existingIndex], ...row };
-            } else {
+            } else if (existingIndex < 0) {
               tableData.push(row);
             }
           }
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { accumulateAuthorOutcomes, authorRankingBoost, scoreAuthor } from '../lib/author-reputation';
+
+describe('accumulateAuthorOutcomes', () => {
+  it('counts a bearish call as a hit when the underlying fell', () => {
+    const totals = accumulateAuthorOutcomes([
+      { author: 'alice', returnPct: 0.04, direction: 'bullish' },
+      { author: 'alice', returnPct: -0.06, direction: 'bearish' },
+      { author: 'bob', returnPct: 0.02, direction: 'bearish' },
+    ]);
+
+    expect(totals.get('alice')).toEqual({ sampleSize: 2, hitCount: 2, sumReturnPct: expect.closeTo(0.1, 6) });
+    expect(totals.get('bob')).toEqual({ sampleSize: 1, hitCount: 0, sumReturnPct: -0.02 });
+  });
+});
+
+describe('scoreAuthor', () => {
+  it('shrinks a short lucky streak toward the prior', () => {
+    const lucky = scoreAuthor({ sampleSize: 2, hitCount: 2, sumReturnPct: 0.3 });
+    const proven = scoreAuthor({ sampleSize: 60, hitCount: 42, sumReturnPct: 2.4 });
+
+    expect(lucky.hitRate).toBe(1);
+    expect(lucky.shrunkHitRate).toBeCloseTo(7 / 12);
+    expect(proven.credibility).toBeGreaterThan(lucky.credibility);
+  });
+
+  it('gives consistently wrong authors negative credibility and no record none', () => {
+    expect(scoreAuthor({ sampleSize: 40, hitCount: 8, sumReturnPct: -2 }).credibility).toBeLessThan(-0.5);
+    expect(scoreAuthor({ sampleSize: 0, hitCount: 0, sumReturnPct: 0 }).credibility).toBe(0);
+  });
+});
+
+describe('authorRankingBoost', () => {
+  it('scales credibility into quality-score points and leaves unknown authors neutral', () => {
+    expect(authorRankingBoost(1)).toBe(1.5);
+    expect(authorRankingBoost(-0.5)).toBe(-0.75);
+    expect(authorRankingBoost(undefined)).toBe(0);
+  });
+});
@@ -0,0 +1,158 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { claimDeadline, scoreAgainstTarget, type StatedTarget } from '../lib/claim-targets';
+import {
+  __resetSupabaseClient,
+  __setSupabaseClient,
+  recordTargetRetries,
+  selectPendingTargetClaims,
+  updateLlmOutcome,
+} from '../lib/db';
+import type { Config } from '../lib/config';
+import { MockSupabaseClient } from './__mocks__/supabase-mock';
+import type { DailyBar } from '../lib/tiingo';
+
+function bar(date: string, open: number, high: number, low: number, close: number): DailyBar {
+  return { timestamp: `${date}T00:00:00.000Z`, open, high, low, close };
+}
+
+const bars = [
+  bar('2025-03-03', 30, 31, 29, 30.5),
+  bar('2025-03-04', 30.5, 41, 30, 36),
+  bar('2025-03-05', 36, 37, 33, 34),
+];
+
+const claim: StatedTarget = {
+  stance: 'bullish',
+  price_target: 40,
+  target_date: null,
+  horizon_days: null,
+  created_utc: '2025-03-01T15:00:00.000Z',
+};
+
+describe('claimDeadline', () => {
+  it('prefers the stated date and otherwise adds the horizon to the post date', () => {
+    expect(claimDeadline({ ...claim, target_date: '2025-06-20', horizon_days: 10 })).toBe('2025-06-20');
+    expect(claimDeadline({ ...claim, horizon_days: 21 })).toBe('2025-03-22');
+    expect(claimDeadline(claim)).toBeNull();
+  });
+});
+
+describe('scoreAgainstTarget', () => {
+  it('counts a price target as hit when any session trades through it', () => {
+    expect(scoreAgainstTarget(claim, bars, '2025-03-03', '2025-03-05')).toMatchObject({
+      entryPrice: 30,
+      deadlineClose: 34,
+      hit: true,
+      direction: 'up',
+    });
+    expect(scoreAgainstTarget(claim, bars, '2025-03-05', '2025-03-05')!.hit).toBe(false);
+  });
+
+  it('reads a target below entry as a downside call', () => {
+    const score = scoreAgainstTarget({ ...claim, stance: 'unclear', price_target: 29.5 }, bars, '2025-03-03', '2025-03-05');
+
+    expect(score).toMatchObject({ direction: 'down', hit: true });
+  });
+
+  it('judges a bare horizon by the close on the claimed side of entry', () => {
+    const bearish = { ...claim, stance: 'bearish', price_target: null, horizon_days: 4 };
+
+    expect(scoreAgainstTarget(bearish, bars, '2025-03-04', '2025-03-05')).toMatchObject({ direction: 'down', hit: false });
+    expect(scoreAgainstTarget(bearish, bars, '2025-03-10', '2025-03-12')).toBeNull();
+  });
+});
+
+describe('updateLlmOutcome', () => {
+  const config = {
+    supabase: { url: 'https://example.supabase.co', apiKey: 'service-key' },
+    llm: { maxAttempts: 3 },
+  } as unknown as Config;
+
+  afterEach(() => {
+    __resetSupabaseClient();
+  });
+
+  it('stores the stated target of a post classified on retry', async () => {
+    const supabaseMock = new MockSupabaseClient({
+      reddit_posts: [{ post_id: 't3_abc', llm_status: 'failed', llm_attempts: 1 } as any],
+    });
+    __setSupabaseClient(supabaseMock as unknown as any);
+
+    await updateLlmOutcome(config, [{
+      post_id: 't3_abc',
+      is_future_upside_claim: true,
+      stance: 'bullish',
+      reason: 'PT $40 by earnings',
+      tickers: ['AMD'],
+      quality_score: 4,
+      price_target: 40,
+      target_date: '2025-04-29',
+      horizon_days: null,
+      catalyst_type: 'earnings',
+    }], new Map([['t3_abc', 2]]));
+
+    expect(supabaseMock.getDatabase().reddit_posts[0]).toMatchObject({
+      llm_status: 'classified',
+      llm_attempts: 2,
+      price_target: 40,
+      target_date: '2025-04-29',
+      horizon_days: null,
+      catalyst_type: 'earnings',
+    });
+  });
+});
+
+describe('selectPendingTargetClaims', () => {
+  const config = {
+    supabase: { url: 'https://example.supabase.co', apiKey: 'service-key' },
+  } as unknown as Config;
+
+  afterEach(() => {
+    __resetSupabaseClient();
+  });
+
+  it('reads only due claims, earliest deadline first, with their failed attempts', async () => {
+    const post = (postId: string, dueDate: string | null, extra: Record<string, unknown> = {}) => ({
+      post_id: postId,
+      title: postId,
+      url: `https://reddit.com/${postId}`,
+      stance: 'bullish',
+      llm_tickers: ['AMD'],
+      created_utc: '2025-03-01T15:00:00.000Z',
+      emailed_at: '2025-03-01T16:00:00.000Z',
+      target_due_date: dueDate,
+      target_evaluated_at: null,
+      ...extra,
+    } as any);
+    const supabaseMock = new MockSupabaseClient({
+      reddit_posts: [
+        post('t3_late', '2025-03-20', { target_attempts: 2 }),
+        post('t3_early', '2025-03-10'),
+        post('t3_future', '2025-04-01'),
+        post('t3_open', null),
+        post('t3_scored', '2025-03-05', { target_evaluated_at: '2025-03-06T00:00:00.000Z' }),
+        post('t3_unsent', '2025-03-05', { emailed_at: null }),
+      ],
+    });
+    __setSupabaseClient(supabaseMock as unknown as any);
+
+    const claims = await selectPendingTargetClaims(config, '2025-01-01T00:00:00.000Z', '2025-03-21', 15);
+
+    expect(claims.map(claim => [claim.post_id, claim.target_attempts])).toEqual([['t3_early', 0], ['t3_late', 2]]);
+  });
+
+  it('keeps retried claims pending with their attempt count and error', async () => {
+    const supabaseMock = new MockSupabaseClient({
+      reddit_posts: [{ post_id: 't3_abc', target_attempts: 1, target_evaluated_at: null } as any],
+    });
+    __setSupabaseClient(supabaseMock as unknown as any);
+
+    await recordTargetRetries(config, [{ postId: 't3_abc', attempts: 2, error: 'No daily bars between entry and deadline' }]);
+
+    expect(supabaseMock.getDatabase().reddit_posts[0]).toMatchObject({
+      target_attempts: 2,
+      target_error: 'No daily bars between entry and deadline',
+      target_evaluated_at: null,
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeComments, summarizeComments } from '../lib/comments';
+import type { Prefiltered } from '../lib/prefilter';
+import type { RedditComment } from '../lib/reddit';
+
+const bullishPost: Prefiltered = {
+  post: {
+    id: 'p1',
+    title: 'AMD will rally after earnings',
+    selftext: 'Undervalued with a clear catalyst.',
+    subreddit: 'stocks',
+    author: 'op',
+    url: 'https://www.reddit.com/r/stocks/comments/p1',
+    createdUtc: '2025-01-02T15:00:00.000Z',
+    score: 120,
+  },
+  tickers: ['AMD'],
+  upsideHits: ['undervalued', 'catalyst'],
+  downsideHits: [],
+  upsideScore: 1.5,
+  downsideScore: 0,
+};
+
+function comment(id: string, body: string, score: number): RedditComment {
+  return {
+    id,
+    postId: 'p1',
+    author: `user-${id}`,
+    body,
+    score,
+    createdUtc: '2025-01-02T15:10:00.000Z',
+  };
+}
+
+describe('analyzeComments', () => {
+  it('counts comments that lean with or against the post', async () => {
+    const signals = await analyzeComments(bullishPost, [
+      comment('c1', 'Bought calls, this is going to breakout', 50),
+      comment('c2', 'Overvalued garbage, buying puts on $NVDA instead', 30),
+      comment('c3', 'Nice write-up', 10),
+      comment('c4', 'Enjoy being a bagholder lol', 5),
+    ]);
+
+    expect(signals.analyzed).toBe(4);
+    expect(signals.agreeCount).toBe(1);
+    expect(signals.disagreeCount).toBe(2);
+    expect(signals.tickers).toEqual(['NVDA']);
+    expect(signals.summary).toContain('4 top comments: 1 agree, 2 disagree');
+  });
+
+  it('does not score agreement when the post has no lean', async () => {
+    const signals = await analyzeComments(
+      { ...bullishPost, upsideHits: [], upsideScore: 0 },
+      [comment('c1', 'Bought calls, this is going to breakout', 50)],
+    );
+
+    expect(signals.agreeCount).toBe(0);
+    expect(signals.disagreeCount).toBe(0);
+  });
+
+  it('only counts push-back phrases as whole words', async () => {
+    const signals = await analyzeComments(bullishPost, [
+      comment('c1', 'Outside the scope of this thread', 20),
+      comment('c2', 'Hedged with the SQQQ inverse ETF', 15),
+      comment('c3', 'Pure cope, it is priced in', 10),
+    ]);
+
+    expect(signals.disagreeCount).toBe(1);
+  });
+});
+
+describe('summarizeComments', () => {
+  it('quotes the highest-scored comments and stays short', () => {
+    const comments = [
+      comment('c1', 'low score', 1),
+      comment('c2', 'x'.repeat(500), 99),
+    ];
+
+    const summary = summarizeComments(
+      { analyzed: 2, agreeCount: 0, disagreeCount: 0, tickers: [], upsideHits: 0, downsideHits: 0 },
+      comments,
+    );
+
+    expect(summary.indexOf('[99]')).toBeLessThan(summary.indexOf('[1]'));
+    expect(summary.length).toBeLessThanOrEqual(600);
+  });
+
+  it('is empty when there are no comments', () => {
+    expect(summarizeComments(
+      { analyzed: 0, agreeCount: 0, disagreeCount: 0, tickers: [], upsideHits: 0, downsideHits: 0 },
+      [],
+    )).toBe('');
+  });
+});
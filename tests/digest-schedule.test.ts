@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { isQuietHour, latestDigestSlot, planDigestRelease } from '../lib/digest-schedule';
+import type { Config } from '../lib/config';
+
+function configWith(app: Partial<Config['app']>): Config {
+  return {
+    app: {
+      digestSchedule: 'hourly',
+      digestImmediateMinQuality: 5,
+      quietHours: { startHour: 22, endHour: 7 },
+      ...app,
+    },
+  } as unknown as Config;
+}
+
+// 10:20 ET (EST)
+const midMorning = new Date('2025-11-14T15:20:00.000Z');
+
+describe('isQuietHour', () => {
+  it('handles windows that wrap past midnight Eastern', () => {
+    const quietHours = { startHour: 22, endHour: 7 };
+    expect(isQuietHour(new Date('2025-11-15T04:00:00.000Z'), quietHours)).toBe(true); // 23:00 ET
+    expect(isQuietHour(new Date('2025-11-15T11:59:00.000Z'), quietHours)).toBe(true); // 06:59 ET
+    expect(isQuietHour(new Date('2025-11-15T12:00:00.000Z'), quietHours)).toBe(false); // 07:00 ET
+    expect(isQuietHour(midMorning, null)).toBe(false);
+  });
+});
+
+describe('latestDigestSlot', () => {
+  it('returns the top of the Eastern hour or the last twice-daily slot', () => {
+    expect(latestDigestSlot('hourly', midMorning).toISOString()).toBe('2025-11-14T15:00:00.000Z');
+    expect(latestDigestSlot('twice_daily', midMorning).toISOString()).toBe('2025-11-14T13:00:00.000Z');
+    // 05:00 ET falls back to the previous afternoon's slot
+    expect(latestDigestSlot('twice_daily', new Date('2025-11-14T10:00:00.000Z')).toISOString())
+      .toBe('2025-11-13T21:00:00.000Z');
+  });
+});
+
+describe('planDigestRelease', () => {
+  it('holds everything during quiet hours, whatever the schedule', () => {
+    const lateNight = new Date('2025-11-15T03:30:00.000Z');
+    expect(planDigestRelease(configWith({ digestSchedule: 'realtime' }), lateNight, null)).toEqual({ kind: 'quiet' });
+  });
+
+  it('releases the whole queue once per slot and only immediate posts in between', () => {
+    const config = configWith({});
+    expect(planDigestRelease(config, midMorning, '2025-11-14T14:00:00.000Z'))
+      .toEqual({ kind: 'rollup', slot: '2025-11-14T15:00:00.000Z' });
+    expect(planDigestRelease(config, midMorning, '2025-11-14T15:00:00.000Z'))
+      .toEqual({ kind: 'immediate', minQuality: 5 });
+  });
+
+  it('sends a slot missed during quiet hours as soon as they end', () => {
+    const config = configWith({ digestSchedule: 'twice_daily', quietHours: { startHour: 6, endHour: 9 } });
+    // 09:05 ET; the 08:00 slot fell inside quiet hours
+    expect(planDigestRelease(config, new Date('2025-11-14T14:05:00.000Z'), '2025-11-13T21:00:00.000Z'))
+      .toEqual({ kind: 'rollup', slot: '2025-11-14T13:00:00.000Z' });
+  });
+
+  it('releases every run on the realtime schedule', () => {
+    const config = configWith({ digestSchedule: 'realtime', quietHours: null });
+    expect(planDigestRelease(config, midMorning, null)).toEqual({ kind: 'rollup', slot: midMorning.toISOString() });
+  });
+});
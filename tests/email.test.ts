@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { composeDigestNotification, previewDigest } from '../lib/email';
+import type { EmailCandidate } from '../lib/db';
+
+const candidate: EmailCandidate = {
+  post_id: 't3_abc',
+  title: 'AMD will rally after earnings',
+  url: 'https://www.reddit.com/r/stocks/comments/abc',
+  reason: 'Forward-looking upside claim citing earnings.',
+  tickers: ['AMD'],
+  llm_tickers: ['AMD'],
+  detected_tickers: ['AMD'],
+  quality_score: 4,
+  evidence_phrases: ['guidance looks strong', 'I expect AMD to go higher'],
+  confidence: 4,
+  created_utc: new Date().toISOString(),
+};
+
+describe('previewDigest', () => {
+  it('shows confidence and quoted evidence under each post', () => {
+    const { textContent, htmlContent } = previewDigest([candidate]);
+
+    expect(textContent).toContain('Confidence: 4/5');
+    expect(textContent).toContain('  “guidance looks strong”');
+    expect(textContent).toContain('  “I expect AMD to go higher”');
+    expect(htmlContent).toContain('“guidance looks strong”');
+  });
+
+  it('omits the evidence block when the LLM gave none', () => {
+    const { textContent } = previewDigest([{ ...candidate, evidence_phrases: [], confidence: null }]);
+
+    expect(textContent).not.toContain('Confidence:');
+    expect(textContent).not.toContain('Evidence:');
+  });
+
+  it('lists bearish claims in their own section after the bullish picks', () => {
+    const bearish: EmailCandidate = {
+      ...candidate,
+      post_id: 't3_bear',
+      direction: 'bearish',
+      title: 'TSLA will drop after deliveries miss',
+      tickers: ['TSLA'],
+      quality_score: 3,
+    };
+
+    const { textContent, htmlContent } = previewDigest([candidate], [bearish]);
+
+    const bearishIndex = textContent.indexOf('🐻 BEARISH CLAIMS (1):');
+    expect(bearishIndex).toBeGreaterThan(textContent.indexOf('AMD will rally'));
+    expect(textContent.indexOf('TSLA will drop')).toBeGreaterThan(bearishIndex);
+    expect(htmlContent).toContain('🐻 BEARISH CLAIMS (1)');
+  });
+
+  it('escapes evidence phrases in the HTML body', () => {
+    const { htmlContent } = previewDigest([{ ...candidate, evidence_phrases: ['<b>to the moon</b>'] }]);
+
+    expect(htmlContent).toContain('&lt;b&gt;to the moon&lt;/b&gt;');
+  });
+
+  it('lists option contracts from the post', () => {
+    const { textContent, htmlContent } = previewDigest([{
+      ...candidate,
+      option_contracts: [{ underlying: 'AMD', strike: 180, right: 'call', expiry: '2025-12-19', quantity: 5 }],
+    }]);
+
+    expect(textContent).toContain('Options: AMD 180C 2025-12-19 x5');
+    expect(htmlContent).toContain('AMD 180C 2025-12-19 x5');
+  });
+
+  it('marks leveraged and inverse ETFs next to the ticker', () => {
+    const { textContent, htmlContent } = previewDigest([{ ...candidate, tickers: ['SOXL', 'NVDA'] }]);
+
+    expect(textContent).toContain('**SOXL (leveraged/inverse ETF), NVDA**');
+    expect(htmlContent).toContain('SOXL (leveraged/inverse ETF), NVDA');
+  });
+
+  it('shows crossposts of one claim once, as a story', () => {
+    const crosspost: EmailCandidate = {
+      ...candidate,
+      post_id: 't3_def',
+      subreddit: 'wallstreetbets',
+      title: 'AMD will rally after earnings!',
+      url: 'https://www.reddit.com/r/wallstreetbets/comments/def',
+      quality_score: 3,
+    };
+
+    const { textContent, htmlContent } = previewDigest([{ ...candidate, subreddit: 'stocks' }, crosspost]);
+
+    expect(textContent).toContain('Story: 2 posts across r/stocks, r/wallstreetbets');
+    expect(textContent).toContain('  Also: AMD will rally after earnings! (r/wallstreetbets) — https://www.reddit.com/r/wallstreetbets/comments/def');
+    expect(textContent).not.toContain('Quality 3/5');
+    expect(htmlContent).toContain('href="https://www.reddit.com/r/wallstreetbets/comments/def"');
+  });
+
+  it('badges elevated pump risk with its reasons and leaves low risk unmarked', () => {
+    const risky = {
+      ...candidate,
+      pumpRisk: { score: 0.65, level: 'high' as const, reasons: ['account 3d old', '12 posts in 6h'] },
+    };
+
+    const { textContent, htmlContent } = previewDigest([risky]);
+    const { textContent: calm } = previewDigest([{ ...candidate, pumpRisk: { score: 0.1, level: 'low', reasons: ['volume 3.2x'] } }]);
+
+    expect(textContent).toContain('⚠️ Pump risk: high (account 3d old, 12 posts in 6h)');
+    expect(htmlContent).toContain('Pump risk: high');
+    expect(calm).not.toContain('Pump risk');
+  });
+
+  it('sends unusual chatter on its own, ahead of any picks', () => {
+    const spike = {
+      ticker: 'GME',
+      hourStart: '2025-11-14T15:00:00.000Z',
+      mentions: 20,
+      baselineMean: 3,
+      baselineStdDev: 1.3,
+      zScore: 13.08,
+    };
+
+    const { textContent, htmlContent } = previewDigest([], [], [spike]);
+
+    expect(textContent).toContain('📣 UNUSUAL CHATTER (1):');
+    expect(textContent).toContain('GME — 20 mentions in the hour from Nov 14, 2025, 10:00 AM ET (usually 3.0 ± 1.3, z 13.1)');
+    expect(htmlContent).toContain('📣 UNUSUAL CHATTER (1)');
+  });
+});
+
+describe('composeDigestNotification', () => {
+  it('adds signed feedback links under each post only when feedback is configured', () => {
+    const feedback = { baseUrl: 'https://feedback.example.com/', secret: 'feedback-secret', subscriptionId: 'sub-1' };
+    const withLinks = composeDigestNotification([{ ...candidate, author: 'chip_bull' }], [], [], new Date(), feedback);
+    const withoutLinks = composeDigestNotification([candidate]);
+
+    expect(withLinks?.text).toContain('Feedback:');
+    expect(withLinks?.text).toMatch(/ {2}Mute AMD: https:\/\/feedback\.example\.com\/\?p=t3_abc&a=mute_ticker&v=AMD&u=sub-1&t=\d+&s=/);
+    expect(withLinks?.html).toContain('Mute u/chip_bull</a>');
+    expect(withoutLinks?.text).not.toContain('Feedback:');
+  });
+});
@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  buildFeedbackUrl,
+  digestFeedbackLinks,
+  feedbackRankingBoost,
+  summarizeFeedbackByQuality,
+  verifyFeedbackLink,
+  type FeedbackLinkSettings,
+} from '../lib/feedback';
+import { __resetSupabaseClient, __setSupabaseClient, recordPostFeedback } from '../lib/db';
+import type { Config } from '../lib/config';
+import type { EmailCandidate } from '../lib/db';
+import { MockSupabaseClient } from './__mocks__/supabase-mock';
+
+const settings: FeedbackLinkSettings = {
+  baseUrl: 'https://feedback.example.com/',
+  secret: 'feedback-secret',
+  subscriptionId: 'sub-1',
+};
+
+const issuedAt = Math.floor(Date.parse('2025-11-14T16:00:00.000Z') / 1000);
+const now = new Date('2025-11-15T16:00:00.000Z');
+
+function queryOf(url: string): Record<string, string> {
+  return Object.fromEntries(new URL(url).searchParams.entries());
+}
+
+describe('verifyFeedbackLink', () => {
+  it('accepts the links it signs and rejects tampered or expired ones', () => {
+    const query = queryOf(buildFeedbackUrl(settings, { postId: 't3_abc', action: 'mute_ticker', target: 'AMD', issuedAt }));
+
+    expect(verifyFeedbackLink(query, settings.secret, now)).toEqual({
+      ok: true,
+      link: { postId: 't3_abc', action: 'mute_ticker', target: 'AMD', subscriptionId: 'sub-1', issuedAt },
+    });
+    expect(verifyFeedbackLink({ ...query, v: 'NVDA' }, settings.secret, now))
+      .toEqual({ ok: false, reason: 'Invalid feedback signature' });
+    expect(verifyFeedbackLink({ ...query, u: 'sub-2' }, settings.secret, now))
+      .toEqual({ ok: false, reason: 'Invalid feedback signature' });
+    expect(verifyFeedbackLink(query, 'other-secret', now))
+      .toEqual({ ok: false, reason: 'Invalid feedback signature' });
+    expect(verifyFeedbackLink(query, settings.secret, new Date('2025-12-20T00:00:00.000Z')))
+      .toEqual({ ok: false, reason: 'Feedback link has expired' });
+  });
+
+  it('rejects mute links signed without a subscription', () => {
+    const shared = { ...settings, subscriptionId: null };
+    const query = queryOf(buildFeedbackUrl(shared, { postId: 't3_abc', action: 'mute_ticker', target: 'AMD', issuedAt }));
+
+    expect(verifyFeedbackLink(query, settings.secret, now))
+      .toEqual({ ok: false, reason: 'Mute link is not tied to a subscription' });
+  });
+});
+
+describe('digestFeedbackLinks', () => {
+  const candidate = { post_id: 't3_abc', tickers: ['AMD', 'NVDA'], author: 'chip_bull' } as EmailCandidate;
+
+  it('links both votes, a mute per ticker and the author mute for a subscriber', () => {
+    const links = digestFeedbackLinks(candidate, settings, now);
+
+    expect(links.map(link => link.label)).toEqual(['👍 Useful', '👎 Garbage', 'Mute AMD', 'Mute NVDA', 'Mute u/chip_bull']);
+    expect(queryOf(links[4].url)).toMatchObject({ p: 't3_abc', a: 'mute_author', v: 'chip_bull', u: 'sub-1' });
+  });
+
+  it('leaves mutes out of the shared EMAIL_TO and channel digests', () => {
+    const links = digestFeedbackLinks(candidate, { ...settings, subscriptionId: null }, now);
+
+    expect(links.map(link => link.label)).toEqual(['👍 Useful', '👎 Garbage']);
+    expect(queryOf(links[0].url).u).toBeUndefined();
+  });
+});
+
+describe('feedbackRankingBoost', () => {
+  it('saturates at one point for the post and three quarters for the author', () => {
+    expect(feedbackRankingBoost(0, 0)).toBe(0);
+    expect(feedbackRankingBoost(3, 10)).toBeCloseTo(1.75);
+    expect(feedbackRankingBoost(-9, -40)).toBeCloseTo(-1.75);
+    expect(feedbackRankingBoost(1, 0)).toBeCloseTo(1 / 3);
+  });
+});
+
+describe('summarizeFeedbackByQuality', () => {
+  it('correlates net votes with quality_score over rated posts only', () => {
+    const report = summarizeFeedbackByQuality([
+      { qualityScore: 5, up: 3, down: 0 },
+      { qualityScore: 4, up: 1, down: 1 },
+      { qualityScore: 3, up: 0, down: 2 },
+      { qualityScore: 3, up: 0, down: 0 },
+    ]);
+
+    expect(report.ratedPosts).toBe(3);
+    expect(report.correlation).toBeCloseTo(0.993, 3);
+    expect(report.byQuality).toEqual({
+      3: { posts: 1, up: 0, down: 2, netPerPost: -2 },
+      4: { posts: 1, up: 1, down: 1, netPerPost: 0 },
+      5: { posts: 1, up: 3, down: 0, netPerPost: 3 },
+    });
+    expect(summarizeFeedbackByQuality([{ qualityScore: 4, up: 1, down: 0 }]).correlation).toBeNull();
+  });
+});
+
+describe('recordPostFeedback', () => {
+  let supabaseMock: MockSupabaseClient;
+  const config = {
+    supabase: { url: 'https://example.supabase.co', apiKey: 'service-key' },
+  } as unknown as Config;
+
+  beforeEach(() => {
+    supabaseMock = new MockSupabaseClient({
+      reddit_posts: [{ post_id: 't3_abc', author: 'chip_bull' } as any],
+      subscriptions: [{ id: 'sub-1', exclude_tickers: ['GME'], exclude_authors: [] } as any],
+    });
+    __setSupabaseClient(supabaseMock as unknown as any);
+  });
+
+  afterEach(() => {
+    __resetSupabaseClient();
+  });
+
+  it('keeps one vote per recipient, the latest one', async () => {
+    const vote = { postId: 't3_abc', target: '', subscriptionId: null, issuedAt };
+    await recordPostFeedback(config, { ...vote, action: 'up' }, '2025-11-14T17:00:00.000Z');
+    await recordPostFeedback(config, { ...vote, action: 'up' }, '2025-11-14T17:01:00.000Z');
+    await recordPostFeedback(config, { ...vote, action: 'down' }, '2025-11-14T17:02:00.000Z');
+
+    expect(supabaseMock.getDatabase().post_feedback.map(row => [row.action, row.author, row.recipient_key]))
+      .toEqual([['down', 'chip_bull', 'global']]);
+  });
+
+  it('adds subscriber mutes to the subscription once', async () => {
+    const mute = { postId: 't3_abc', subscriptionId: 'sub-1', issuedAt };
+    await recordPostFeedback(config, { ...mute, action: 'mute_ticker', target: 'amd' }, '2025-11-14T17:00:00.000Z');
+    await recordPostFeedback(config, { ...mute, action: 'mute_ticker', target: 'AMD' }, '2025-11-14T17:01:00.000Z');
+    await recordPostFeedback(config, { ...mute, action: 'mute_author', target: 'chip_bull' }, '2025-11-14T17:02:00.000Z');
+
+    expect(supabaseMock.getDatabase().subscriptions[0]).toMatchObject({
+      exclude_tickers: ['GME', 'AMD'],
+      exclude_authors: ['chip_bull'],
+    });
+  });
+});
@@ -90,6 +90,9 @@ describe('Database Integration Tests', () => {
           },
           tickers: ['AAPL', 'MSFT'],
           upsideHits: ['will go up'],
+          downsideHits: [],
+          upsideScore: 1,
+          downsideScore: 0,
         },
       ];
 
@@ -139,6 +142,9 @@ describe('Database Integration Tests', () => {
           },
           tickers: ['AAPL'],
           upsideHits: ['will go up'],
+          downsideHits: [],
+          upsideScore: 1,
+          downsideScore: 0,
         },
       ];
 
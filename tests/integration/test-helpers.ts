@@ -31,6 +31,10 @@ export function createTestConfig(overrides?: Partial<Config>): Config {
     llm: {
       provider: 'openai',
       openaiApiKey: 'test_openai_key',
+      temperature: 0.2,
+      maxTokens: 4096,
+      dailySpendCapUsd: 0,
+      maxAttempts: 6,
       ...overrides?.llm,
     },
     marketData: {
@@ -43,6 +47,15 @@ export function createTestConfig(overrides?: Partial<Config>): Config {
       to: 'recipient@example.com',
       ...overrides?.email,
     },
+    notifications: {
+      routes: {
+        digest: ['email'],
+        price_watch: ['email'],
+        position_drop: ['email'],
+        performance_report: ['email'],
+      },
+      ...overrides?.notifications,
+    },
     app: {
       subreddits: ['stocks', 'investing'],
       cronWindowMinutes: 5,
@@ -50,9 +63,24 @@ export function createTestConfig(overrides?: Partial<Config>): Config {
       llmMaxBodyChars: 2000,
       minScoreForLlm: 1,
       qualityThreshold: 3,
+      minConfidenceForEmail: 0,
       maxPostsPerRun: 100,
       minVotesPerMinuteForLlm: 0.5,
+      minClueScore: 0.5,
       maxPriceMovePctForAlert: 0.07,
+      commentsPerPost: 0,
+      maxCommentPostsPerRun: 0,
+      rescoreLookbackHours: 24,
+      emailIncludeFlairs: [],
+      emailExcludeFlairs: [],
+      flairBoosts: {},
+      alertAssetClasses: ['equity', 'etf', 'leveraged_etf', 'crypto'],
+      mentionSpikeZScore: 3,
+      mentionSpikeMinMentions: 5,
+      pumpRiskSuppressScore: 0,
+      digestSchedule: 'realtime',
+      digestImmediateMinQuality: 5,
+      quietHours: null,
       ...overrides?.app,
     },
   };
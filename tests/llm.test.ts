@@ -0,0 +1,365 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { classifyBatch, classifySingle, classifyWithRecovery, llmItemFromStoredPost, type LlmItem } from '../lib/llm';
+import { createLlmProvider, estimateCostUsd, type LlmProvider, type LlmRequest } from '../lib/llm-providers';
+import type { Config } from '../lib/config';
+
+let providerOverride: LlmProvider | null = null;
+
+vi.mock('../lib/llm-providers', async importOriginal => {
+  const actual = await importOriginal<typeof import('../lib/llm-providers')>();
+  return {
+    ...actual,
+    createLlmProvider: (config: Config) => providerOverride ?? actual.createLlmProvider(config),
+  };
+});
+
+let spentTodayUsd = 0;
+
+vi.mock('../lib/db', async importOriginal => {
+  const actual = await importOriginal<typeof import('../lib/db')>();
+  return {
+    ...actual,
+    getLlmSpendSince: async () => spentTodayUsd,
+  };
+});
+
+const baseConfig: Config = {
+  reddit: {
+    clientId: 'clientId',
+    clientSecret: 'clientSecret',
+    username: 'user',
+    password: 'pass',
+    userAgent: 'test-agent',
+  },
+  supabase: {
+    url: 'https://example.supabase.co',
+    apiKey: 'service-key',
+  },
+  llm: {
+    provider: 'stub',
+    temperature: 0.2,
+    maxTokens: 4096,
+    dailySpendCapUsd: 0,
+    maxAttempts: 6,
+  },
+  marketData: {
+    tiingoApiKey: 'tiingo-key',
+  },
+  email: {
+    resendApiKey: 'resend-key',
+    from: 'alerts@example.com',
+    to: 'user@example.com',
+  },
+  notifications: {
+    routes: {
+      digest: ['email'],
+      price_watch: ['email'],
+      position_drop: ['email'],
+      performance_report: ['email'],
+    },
+  },
+  app: {
+    subreddits: ['stocks'],
+    cronWindowMinutes: 30,
+    llmBatchSize: 10,
+    llmMaxBodyChars: 8000,
+    minScoreForLlm: 10,
+    qualityThreshold: 4,
+    minConfidenceForEmail: 0,
+    maxPostsPerRun: 50,
+    minVotesPerMinuteForLlm: 1,
+    minClueScore: 0.5,
+    maxPriceMovePctForAlert: 0.2,
+    commentsPerPost: 0,
+    maxCommentPostsPerRun: 0,
+    rescoreLookbackHours: 24,
+    emailIncludeFlairs: [],
+    emailExcludeFlairs: [],
+    flairBoosts: {},
+    alertAssetClasses: ['equity', 'etf', 'leveraged_etf', 'crypto'],
+    mentionSpikeZScore: 3,
+    mentionSpikeMinMentions: 5,
+    pumpRiskSuppressScore: 0,
+    digestSchedule: 'realtime',
+    digestImmediateMinQuality: 5,
+    quietHours: null,
+  },
+};
+
+const bullishItem: LlmItem = {
+  post_id: 'bull-1',
+  title: 'AMD will rally after earnings',
+  body: 'Guidance looks strong and the stock is undervalued. I expect AMD to go higher.',
+  tickers: ['AMD'],
+};
+
+const hedgedItem: LlmItem = {
+  post_id: 'hedge-1',
+  title: 'Maybe TSLA could go up',
+  body: 'If deliveries are good it might rally.',
+  tickers: ['TSLA'],
+};
+
+describe('createLlmProvider', () => {
+  it('requires credentials for hosted providers', () => {
+    expect(() => createLlmProvider({ ...baseConfig, llm: { ...baseConfig.llm, provider: 'openai' } })).toThrow(/OPENAI_API_KEY/);
+    expect(() => createLlmProvider({ ...baseConfig, llm: { ...baseConfig.llm, provider: 'anthropic' } })).toThrow(/ANTHROPIC_API_KEY/);
+    expect(() => createLlmProvider({ ...baseConfig, llm: { ...baseConfig.llm, provider: 'openai-compatible' } })).toThrow(/LLM_BASE_URL/);
+  });
+
+  it('builds the provider named in config', () => {
+    expect(createLlmProvider(baseConfig).name).toBe('stub');
+    expect(createLlmProvider({
+      ...baseConfig,
+      llm: { ...baseConfig.llm, provider: 'openai-compatible', baseUrl: 'http://localhost:8000/v1' },
+    }).name).toBe('openai-compatible');
+  });
+});
+
+describe('estimateCostUsd', () => {
+  it('prices known models per million tokens', () => {
+    const cost = estimateCostUsd('gpt-4o-mini', { promptTokens: 1_000_000, completionTokens: 500_000 }, baseConfig);
+
+    expect(cost).toBeCloseTo(0.45, 6);
+  });
+
+  it('prices the dated snapshots and aliases the APIs report', () => {
+    const usage = { promptTokens: 1_000_000, completionTokens: 1_000_000 };
+
+    expect(estimateCostUsd('gpt-4o-mini-2024-07-18', usage, baseConfig)).toBeCloseTo(0.75, 6);
+    expect(estimateCostUsd('gpt-4o-2024-08-06', usage, baseConfig)).toBeCloseTo(12.5, 6);
+    expect(estimateCostUsd('gpt-4.1-mini-2025-04-14', usage, baseConfig)).toBeCloseTo(2, 6);
+    expect(estimateCostUsd('claude-3-5-haiku-20241022', usage, baseConfig)).toBeCloseTo(4.8, 6);
+    expect(estimateCostUsd('claude-3-5-sonnet-latest', usage, baseConfig)).toBeCloseTo(18, 6);
+  });
+
+  it('falls back to the configured model when the response names an unknown one', () => {
+    const config: Config = { ...baseConfig, llm: { ...baseConfig.llm, model: 'gpt-4o-mini' } };
+
+    expect(estimateCostUsd('ft:custom-snapshot', { promptTokens: 1_000_000, completionTokens: 0 }, config)).toBeCloseTo(0.15, 6);
+  });
+
+  it('uses configured rates for models outside the price table', () => {
+    const config: Config = {
+      ...baseConfig,
+      llm: { ...baseConfig.llm, promptCostPerMtok: 1, completionCostPerMtok: 2 },
+    };
+
+    expect(estimateCostUsd('local-model', { promptTokens: 2000, completionTokens: 1000 }, config)).toBeCloseTo(0.004, 6);
+    expect(estimateCostUsd('local-model', { promptTokens: 2000, completionTokens: 1000 }, baseConfig)).toBe(0);
+  });
+
+  it('treats missing usage as free', () => {
+    expect(estimateCostUsd('gpt-4o', null, baseConfig)).toBe(0);
+  });
+});
+
+describe('classifyBatch with the stub provider', () => {
+  it('returns schema-valid results for every post', async () => {
+    const results = await classifyBatch([bullishItem, hedgedItem], baseConfig);
+
+    expect(results.map(r => r.post_id)).toEqual(['bull-1', 'hedge-1']);
+  });
+
+  it('flags explicit forward-looking upside claims with a rationale', async () => {
+    const result = await classifySingle(bullishItem, baseConfig);
+
+    expect(result).not.toBeNull();
+    expect(result!.is_future_upside_claim).toBe(true);
+    expect(result!.stance).toBe('bullish');
+    expect(result!.tickers).toEqual(['AMD']);
+    expect(result!.quality_score).toBeGreaterThanOrEqual(3);
+  });
+
+  it('flags explicit forward-looking downside claims', async () => {
+    const result = await classifySingle({
+      post_id: 'bear-1',
+      title: 'TSLA will crash after earnings',
+      body: 'Deliveries missed and the stock is overvalued. Expect it to fall.',
+      tickers: ['TSLA'],
+    }, baseConfig);
+
+    expect(result!.stance).toBe('bearish');
+    expect(result!.is_future_downside_claim).toBe(true);
+    expect(result!.is_future_upside_claim).toBe(false);
+  });
+
+  it('reports stated targets, horizons and the catalyst type', async () => {
+    const result = await classifySingle({
+      ...bullishItem,
+      body: 'Earnings next week. I expect AMD to rally to a price target of $180 within 3 weeks.',
+    }, baseConfig);
+
+    expect(result).toMatchObject({ price_target: 180, horizon_days: 21, target_date: null, catalyst_type: 'earnings' });
+  });
+
+  it('treats hedged language as unclear', async () => {
+    const result = await classifySingle(hedgedItem, baseConfig);
+
+    expect(result!.is_future_upside_claim).toBe(false);
+    expect(result!.stance).toBe('unclear');
+  });
+
+  it('is deterministic across calls', async () => {
+    const first = await classifyBatch([bullishItem], baseConfig);
+    const second = await classifyBatch([bullishItem], baseConfig);
+
+    expect(second).toEqual(first);
+  });
+});
+
+describe('llmItemFromStoredPost', () => {
+  it('carries flair and link target into the prompt item', () => {
+    const item = llmItemFromStoredPost({
+      post_id: 'p1',
+      title: 'AMD earnings',
+      body: 'x'.repeat(50),
+      detected_tickers: ['AMD'],
+      llm_attempts: 1,
+      flair: 'DD',
+      post_type: 'link',
+      link_url: 'https://example.com/amd',
+      link_domain: 'example.com',
+      created_utc: '2025-01-02T15:00:00.000Z',
+    }, 10);
+
+    expect(item).toEqual({
+      post_id: 'p1',
+      title: 'AMD earnings',
+      body: 'x'.repeat(10),
+      tickers: ['AMD'],
+      flair: 'DD',
+      post_type: 'link',
+      link_url: 'https://example.com/amd',
+      link_domain: 'example.com',
+      posted_at: '2025-01-02T15:00:00.000Z',
+    });
+  });
+});
+
+describe('classifyWithRecovery', () => {
+  const items: LlmItem[] = ['a', 'b', 'c', 'd'].map(id => ({
+    post_id: id,
+    title: `${id.toUpperCase()} will rally after earnings`,
+    body: 'Guidance looks strong.',
+    tickers: ['AMD'],
+  }));
+
+  // Answers with the stub rules but drops the given posts whenever they share a request
+  function flakyProvider(dropInBatches: string[], alwaysInvalid: string[] = []) {
+    const stub = createLlmProvider(baseConfig);
+    const calls: string[][] = [];
+    const provider: LlmProvider = {
+      name: 'stub',
+      model: 'flaky',
+      async complete(request: LlmRequest) {
+        calls.push(request.items.map(item => item.post_id));
+        const completion = await stub.complete(request);
+        const parsed = JSON.parse(completion.content) as { results: Array<Record<string, unknown>> };
+        const results = parsed.results
+          .filter(result => request.items.length === 1 || !dropInBatches.includes(result.post_id as string))
+          .map(result => (alwaysInvalid.includes(result.post_id as string) ? { ...result, quality_score: 9 } : result));
+        return { ...completion, content: JSON.stringify({ results }) };
+      },
+    };
+    return { provider, calls };
+  }
+
+  afterEach(() => {
+    providerOverride = null;
+    spentTodayUsd = 0;
+  });
+
+  it('re-sends only the posts missing from the response', async () => {
+    const { provider, calls } = flakyProvider(['b', 'c']);
+    providerOverride = provider;
+
+    const outcome = await classifyWithRecovery(items, baseConfig, { maxAttempts: 6 });
+
+    expect(outcome.results.map(r => r.post_id)).toEqual(['a', 'b', 'c', 'd']);
+    expect(outcome.failedPostIds).toEqual([]);
+    expect(calls).toEqual([['a', 'b', 'c', 'd'], ['b'], ['c']]);
+    expect(outcome.attempts.get('a')).toBe(1);
+    expect(outcome.attempts.get('b')).toBe(2);
+  });
+
+  it('uses the halves round before falling back to single posts', async () => {
+    const { provider, calls } = flakyProvider(['a', 'b', 'c']);
+    providerOverride = provider;
+
+    const outcome = await classifyWithRecovery(items, baseConfig, { maxAttempts: 6 });
+
+    expect(calls).toEqual([['a', 'b', 'c', 'd'], ['a', 'b'], ['c'], ['a'], ['b']]);
+    expect(outcome.failedPostIds).toEqual([]);
+    expect(outcome.attempts.get('a')).toBe(3);
+  });
+
+  it('reports posts that never validate and respects prior attempts', async () => {
+    const { provider, calls } = flakyProvider([], ['d']);
+    providerOverride = provider;
+
+    const outcome = await classifyWithRecovery(items, baseConfig, {
+      maxAttempts: 3,
+      priorAttempts: new Map([['d', 1]]),
+    });
+
+    expect(outcome.failedPostIds).toEqual(['d']);
+    expect(outcome.attempts.get('d')).toBe(3);
+    expect(calls).toEqual([['a', 'b', 'c', 'd'], ['d']]);
+  });
+
+  it('stops at a provider error instead of splitting the batch', async () => {
+    const calls: string[][] = [];
+    providerOverride = {
+      name: 'stub',
+      model: 'down',
+      async complete(request: LlmRequest) {
+        calls.push(request.items.map(item => item.post_id));
+        throw new Error('OpenAI request failed (503 Service Unavailable): upstream overloaded');
+      },
+    };
+
+    const outcome = await classifyWithRecovery(items, baseConfig, { maxAttempts: 6 });
+
+    expect(calls).toEqual([['a', 'b', 'c', 'd']]);
+    expect(outcome.stoppedBy).toBe('provider_error');
+    expect(outcome.failedPostIds).toEqual(['a', 'b', 'c', 'd']);
+    expect(outcome.attempts.get('a')).toBe(1);
+  });
+
+  it('keeps results from earlier chunks when a later chunk hits a provider error', async () => {
+    const { provider } = flakyProvider(['a', 'b', 'c']);
+    const calls: string[][] = [];
+    providerOverride = {
+      ...provider,
+      async complete(request: LlmRequest) {
+        calls.push(request.items.map(item => item.post_id));
+        if (calls.length === 3) {
+          throw new Error('OpenAI request failed (429 Too Many Requests): rate limited');
+        }
+        return provider.complete(request);
+      },
+    };
+
+    const outcome = await classifyWithRecovery(items, baseConfig, { maxAttempts: 6 });
+
+    expect(calls).toEqual([['a', 'b', 'c', 'd'], ['a', 'b'], ['c']]);
+    expect(outcome.stoppedBy).toBe('provider_error');
+    expect(outcome.results.map(r => r.post_id)).toEqual(['d']);
+    expect(outcome.failedPostIds).toEqual(['a', 'b', 'c']);
+  });
+
+  it('checks the spend cap before each retry round', async () => {
+    const { provider, calls } = flakyProvider(['b', 'c']);
+    providerOverride = provider;
+    spentTodayUsd = 2.5;
+
+    const outcome = await classifyWithRecovery(items, { ...baseConfig, llm: { ...baseConfig.llm, dailySpendCapUsd: 2 } }, {
+      maxAttempts: 6,
+    });
+
+    expect(calls).toEqual([['a', 'b', 'c', 'd']]);
+    expect(outcome.stoppedBy).toBe('spend_cap');
+    expect(outcome.failedPostIds).toEqual(['b', 'c']);
+  });
+});
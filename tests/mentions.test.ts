@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  baselineHours,
+  countMentionsByHour,
+  detectMentionSpikes,
+  selectRecentBuckets,
+  type MentionCount,
+} from '../lib/mentions';
+import { __resetSupabaseClient, __setSupabaseClient, recordTickerMentions } from '../lib/db';
+import type { Config } from '../lib/config';
+import { MockSupabaseClient } from './__mocks__/supabase-mock';
+
+const hour = '2025-11-14T15:00:00.000Z';
+const trackingStart = '2025-11-07T00:00:00.000Z';
+
+// The same hour on each of the previous seven days
+function history(ticker: string, counts: number[]): MentionCount[] {
+  return counts.map((mentions, index) => ({
+    ticker,
+    hourStart: new Date(Date.parse(hour) - (index + 1) * 24 * 60 * 60 * 1000).toISOString(),
+    mentions,
+  }));
+}
+
+describe('countMentionsByHour', () => {
+  it('counts each ticker once per post in the hour the post was made', () => {
+    expect(countMentionsByHour([
+      { createdUtc: '2025-11-14T15:05:00Z', tickers: ['GME', 'gme', 'AMC'] },
+      { createdUtc: '2025-11-14T15:55:00Z', tickers: ['GME'] },
+      { createdUtc: '2025-11-14T16:01:00Z', tickers: ['GME'] },
+    ])).toEqual([
+      { ticker: 'GME', hourStart: hour, mentions: 2 },
+      { ticker: 'AMC', hourStart: hour, mentions: 1 },
+      { ticker: 'GME', hourStart: '2025-11-14T16:00:00.000Z', mentions: 1 },
+    ]);
+  });
+});
+
+describe('baselineHours', () => {
+  it('walks back a day at a time and stops where tracking began', () => {
+    expect(baselineHours(hour, 14, '2025-11-12T00:00:00Z')).toEqual([
+      '2025-11-13T15:00:00.000Z',
+      '2025-11-12T15:00:00.000Z',
+    ]);
+    expect(baselineHours(hour, 14, null)).toEqual([]);
+  });
+});
+
+describe('selectRecentBuckets', () => {
+  it('keeps the current and previous hour only', () => {
+    const buckets = ['13:00', '14:00', '15:00'].map(time => ({ ticker: 'GME', hourStart: `2025-11-14T${time}:00.000Z`, mentions: 1 }));
+
+    expect(selectRecentBuckets(buckets, new Date('2025-11-14T15:20:00Z')).map(b => b.hourStart)).toEqual([
+      '2025-11-14T14:00:00.000Z',
+      hour,
+    ]);
+  });
+});
+
+describe('detectMentionSpikes', () => {
+  const options = { zScore: 3, minMentions: 5, trackingStart };
+
+  it('flags a count far above the usual level for that hour', () => {
+    const spikes = detectMentionSpikes(
+      [{ ticker: 'GME', hourStart: hour, mentions: 20, spikeAlertedAt: null }],
+      history('GME', [2, 3, 2, 4, 3, 2, 5]),
+      options,
+    );
+
+    expect(spikes).toHaveLength(1);
+    expect(spikes[0]).toMatchObject({ ticker: 'GME', mentions: 20 });
+    expect(spikes[0].baselineMean).toBeCloseTo(3);
+    expect(spikes[0].zScore).toBeGreaterThan(3);
+  });
+
+  it('treats a ticker that is always busy at that hour as normal', () => {
+    expect(detectMentionSpikes(
+      [{ ticker: 'SPY', hourStart: hour, mentions: 40, spikeAlertedAt: null }],
+      history('SPY', [35, 42, 38, 45, 39, 41, 37]),
+      options,
+    )).toEqual([]);
+  });
+
+  it('skips quiet, already alerted and barely tracked buckets', () => {
+    const quiet = { ticker: 'GME', hourStart: hour, mentions: 4, spikeAlertedAt: null };
+    const alerted = { ticker: 'AMC', hourStart: hour, mentions: 30, spikeAlertedAt: '2025-11-14T15:30:00Z' };
+
+    expect(detectMentionSpikes([quiet, alerted], [], options)).toEqual([]);
+    expect(detectMentionSpikes(
+      [{ ...quiet, mentions: 30 }],
+      [],
+      { ...options, trackingStart: '2025-11-13T00:00:00Z' },
+    )).toEqual([]);
+  });
+});
+
+describe('recordTickerMentions', () => {
+  const config = {
+    supabase: { url: 'https://example.supabase.co', apiKey: 'service-key' },
+  } as unknown as Config;
+
+  afterEach(() => {
+    __resetSupabaseClient();
+  });
+
+  it('counts a post once however many runs fetch it', async () => {
+    const supabaseMock = new MockSupabaseClient();
+    __setSupabaseClient(supabaseMock as unknown as any);
+    const overlap = { postId: 't3_a', createdUtc: '2025-11-14T15:05:00Z', tickers: ['GME'] };
+    const fresh = { postId: 't3_b', createdUtc: '2025-11-14T15:10:00Z', tickers: ['GME'] };
+
+    expect(await recordTickerMentions(config, [overlap])).toMatchObject([{ ticker: 'GME', mentions: 1 }]);
+    expect(await recordTickerMentions(config, [overlap])).toEqual([]);
+    expect(await recordTickerMentions(config, [overlap, fresh])).toMatchObject([{ ticker: 'GME', mentions: 2 }]);
+
+    const db = supabaseMock.getDatabase();
+    expect(db.ticker_mentions.map(row => row.mentions)).toEqual([2]);
+    expect(db.ticker_mention_posts.map(row => row.post_id)).toEqual(['t3_a', 't3_b']);
+  });
+});
@@ -0,0 +1,158 @@
+import { createHmac } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  WebhookNotifier,
+  buildDiscordMessages,
+  buildSlackMessage,
+  dispatchNotification,
+  type Notification,
+  type Notifier,
+} from '../lib/notifiers';
+import type { Config, NotificationChannel } from '../lib/config';
+
+const notification: Notification = {
+  type: 'digest',
+  subject: '🚀 Stock Watch — 2025-11-14 (1 alerts)',
+  text: 'plain text body',
+  html: '<p>html body</p>',
+  sections: [
+    {
+      title: '🔥 HIGH QUALITY (4/5):',
+      lines: ['**AMD** — AMD will rally after earnings & more', 'Link: https://www.reddit.com/r/stocks/comments/abc', ''],
+    },
+  ],
+  payload: { stories: [{ postId: 't3_abc' }] },
+};
+
+const config = {
+  email: { resendApiKey: 'key', from: 'alerts@example.com', to: 'owner@example.com' },
+  notifications: {
+    routes: {
+      digest: ['email', 'slack', 'webhook'],
+      price_watch: ['slack'],
+      position_drop: ['email'],
+      performance_report: ['email'],
+    },
+  },
+} as unknown as Config;
+
+function recordingNotifier(channel: NotificationChannel, sent: string[], fail = false): Notifier {
+  return {
+    channel,
+    send: async () => {
+      if (fail) {
+        throw new Error(`${channel} down`);
+      }
+      sent.push(channel);
+      return `${channel}-id`;
+    },
+  };
+}
+
+describe('buildSlackMessage', () => {
+  it('renders sections as mrkdwn blocks under a header', () => {
+    const message = buildSlackMessage(notification) as { text: string; blocks: any[] };
+
+    expect(message.text).toBe(notification.subject);
+    expect(message.blocks[0]).toMatchObject({ type: 'header', text: { text: notification.subject } });
+    expect(message.blocks[1].text.text).toBe([
+      '*🔥 HIGH QUALITY (4/5):*',
+      '*AMD* — AMD will rally after earnings &amp; more',
+      'Link: https://www.reddit.com/r/stocks/comments/abc',
+    ].join('\n'));
+  });
+});
+
+describe('buildDiscordMessages', () => {
+  it('splits long digests into messages Discord accepts', () => {
+    const long: Notification = {
+      ...notification,
+      sections: [{ title: 'Picks', lines: Array.from({ length: 60 }, (_, i) => `Post ${i} ${'x'.repeat(60)}`) }],
+    };
+
+    const messages = buildDiscordMessages(long);
+
+    expect(messages.length).toBeGreaterThan(1);
+    messages.forEach(message => expect(message.content.length).toBeLessThanOrEqual(2000));
+    expect(messages[0].content.startsWith(`**${notification.subject}**`)).toBe(true);
+  });
+});
+
+describe('WebhookNotifier', () => {
+  it('posts the payload with an HMAC signature over timestamp and body', async () => {
+    const calls: Array<{ url: string; init: any }> = [];
+    const fetchFn = async (url: string, init: any) => {
+      calls.push({ url, init });
+      return { ok: true, status: 200, text: async () => '' };
+    };
+    const notifier = new WebhookNotifier('https://hooks.example.com/in', 'shh', fetchFn, () => 1_763_132_400_000);
+
+    await notifier.send(notification);
+
+    const { init } = calls[0];
+    const body = JSON.parse(init.body);
+    const expected = createHmac('sha256', 'shh').update(`1763132400.${init.body}`).digest('hex');
+    expect(calls[0].url).toBe('https://hooks.example.com/in');
+    expect(body).toMatchObject({ type: 'digest', subject: notification.subject, payload: notification.payload });
+    expect(init.headers[WEBHOOK_TIMESTAMP_HEADER]).toBe('1763132400');
+    expect(init.headers[WEBHOOK_SIGNATURE_HEADER]).toBe(`sha256=${expected}`);
+    expect(body.deliveryId).toBeUndefined();
+  });
+
+  it('surfaces non-2xx responses as errors', async () => {
+    const fetchFn = async () => ({ ok: false, status: 500, text: async () => 'boom' });
+    const notifier = new WebhookNotifier('https://hooks.example.com/in', 'shh', fetchFn);
+
+    await expect(notifier.send(notification)).rejects.toThrow('HTTP 500: boom');
+  });
+
+  it('sends the outbox key as a stable delivery id', async () => {
+    const bodies: string[] = [];
+    const fetchFn = async (_url: string, init: any) => {
+      bodies.push(init.body);
+      return { ok: true, status: 200, text: async () => '' };
+    };
+    const notifier = new WebhookNotifier('https://hooks.example.com/in', 'shh', fetchFn);
+
+    await notifier.send({ ...notification, idempotencyKey: 'outbox-msg-1' });
+    await notifier.send({ ...notification, idempotencyKey: 'outbox-msg-1' });
+
+    expect(bodies.map(body => JSON.parse(body).deliveryId)).toEqual(['outbox-msg-1', 'outbox-msg-1']);
+  });
+});
+
+describe('dispatchNotification', () => {
+  it('sends on every routed channel and keeps going when one fails', async () => {
+    const sent: string[] = [];
+
+    const results = await dispatchNotification(notification, config, {}, channel => recordingNotifier(channel, sent, channel === 'slack'));
+
+    expect(sent).toEqual(['email', 'webhook']);
+    expect(results).toEqual([
+      { channel: 'email', id: 'email-id' },
+      { channel: 'webhook', id: 'webhook-id' },
+    ]);
+  });
+
+  it('emails personal deliveries only and honours excluded channels on broadcasts', async () => {
+    const personal: string[] = [];
+    const broadcast: string[] = [];
+
+    await dispatchNotification(notification, config, { to: 'reader@example.com' }, channel => recordingNotifier(channel, personal));
+    await dispatchNotification(notification, config, { excludeChannels: ['email'] }, channel => recordingNotifier(channel, broadcast));
+
+    expect(personal).toEqual(['email']);
+    expect(broadcast).toEqual(['slack', 'webhook']);
+  });
+
+  it('throws only when every channel failed', async () => {
+    await expect(dispatchNotification(
+      { ...notification, type: 'price_watch' },
+      config,
+      {},
+      channel => recordingNotifier(channel, [], true),
+    )).rejects.toThrow('slack: slack down');
+  });
+});
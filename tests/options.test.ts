@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  evaluateOptionContract,
+  formatOptionContract,
+  nextOptionDueDate,
+  parseOptionContracts,
+  parseStoredOptionOutcomes,
+  resolveExpiry,
+} from '../lib/options';
+import { __resetSupabaseClient, __setSupabaseClient, selectDueOptionClaims } from '../lib/db';
+import type { Config } from '../lib/config';
+import { MockSupabaseClient } from './__mocks__/supabase-mock';
+
+// Friday 2025-11-14, 11:00 ET
+const posted = new Date('2025-11-14T16:00:00Z');
+
+describe('parseOptionContracts', () => {
+  it('reads strike, right and expiry in either order', () => {
+    expect(parseOptionContracts('Loaded SPY 450c 12/15 and $tsla 11/21 250 puts', posted)).toEqual([
+      { underlying: 'SPY', strike: 450, right: 'call', expiry: '2025-12-15', quantity: null },
+      { underlying: 'TSLA', strike: 250, right: 'put', expiry: '2025-11-21', quantity: null },
+    ]);
+  });
+
+  it('picks up quantities, dollar strikes and 0dte', () => {
+    expect(parseOptionContracts('10x NVDA $140.5C exp 1/16/26, QQQ 380p 0dte', posted)).toEqual([
+      { underlying: 'NVDA', strike: 140.5, right: 'call', expiry: '2026-01-16', quantity: 10 },
+      { underlying: 'QQQ', strike: 380, right: 'put', expiry: '2025-11-14', quantity: null },
+    ]);
+  });
+
+  it('leaves the expiry empty when none is given and ignores plain prices', () => {
+    expect(parseOptionContracts('AMD 200 calls. AMD 150 is the floor', posted)).toEqual([
+      { underlying: 'AMD', strike: 200, right: 'call', expiry: null, quantity: null },
+    ]);
+  });
+
+  it('keeps repeated mentions of one contract once', () => {
+    expect(parseOptionContracts('SPY 450c 12/15. Still holding SPY 450C 12/15', posted)).toHaveLength(1);
+  });
+});
+
+describe('resolveExpiry', () => {
+  it('rolls a past month/day into next year unless it only just passed', () => {
+    expect(resolveExpiry('1/16', posted)).toBe('2026-01-16');
+    expect(resolveExpiry('11/7', posted)).toBe('2025-11-07');
+    expect(resolveExpiry('2/30', posted)).toBeNull();
+  });
+});
+
+describe('evaluateOptionContract', () => {
+  it('judges direction against the entry price and moneyness against the strike', () => {
+    const call = { underlying: 'SPY', strike: 450, right: 'call' as const, expiry: '2025-12-15', quantity: 10 };
+
+    expect(evaluateOptionContract(call, 440, 445)).toEqual({ underlyingMovePct: expect.closeTo(1.136, 3), directionCorrect: true, inTheMoney: false });
+    expect(evaluateOptionContract({ ...call, right: 'put' }, 440, 430)).toMatchObject({ directionCorrect: true, inTheMoney: true });
+    expect(formatOptionContract(call)).toBe('SPY 450C 2025-12-15 x10');
+  });
+});
+
+describe('nextOptionDueDate', () => {
+  it('is the earliest expiry among contracts not judged yet', () => {
+    const contracts = [
+      { underlying: 'SPY', strike: 450, right: 'call' as const, expiry: '2025-12-15', quantity: null },
+      { underlying: 'SPY', strike: 400, right: 'put' as const, expiry: '2026-01-16', quantity: null },
+      { underlying: 'SPY', strike: 500, right: 'call' as const, expiry: null, quantity: null },
+    ];
+    const judged = { evaluatedAt: '2025-12-16T21:00:00.000Z', underlyingMovePct: 1.2, directionCorrect: true, inTheMoney: false, error: null };
+
+    expect(nextOptionDueDate(contracts)).toBe('2025-12-15');
+    expect(nextOptionDueDate(contracts, [judged, null, null])).toBe('2026-01-16');
+    expect(nextOptionDueDate(contracts, [judged, judged, null])).toBeNull();
+    expect(parseStoredOptionOutcomes([judged, { bogus: true }], 3)).toEqual([judged, null, null]);
+  });
+});
+
+describe('selectDueOptionClaims', () => {
+  const config = {
+    supabase: { url: 'https://example.supabase.co', apiKey: 'service-key' },
+  } as unknown as Config;
+
+  afterEach(() => {
+    __resetSupabaseClient();
+  });
+
+  it('reads emailed posts whose next unjudged expiry has passed, with outcomes aligned to contracts', async () => {
+    const contracts = [
+      { underlying: 'SPY', strike: 450, right: 'call', expiry: '2025-12-15', quantity: null },
+      { underlying: 'SPY', strike: 400, right: 'put', expiry: '2026-01-16', quantity: null },
+    ];
+    const post = (postId: string, dueDate: string | null, extra: Record<string, unknown> = {}) => ({
+      post_id: postId,
+      title: postId,
+      url: `https://reddit.com/${postId}`,
+      emailed_at: '2025-11-14T16:00:00.000Z',
+      option_contracts: contracts,
+      option_due_date: dueDate,
+      ...extra,
+    } as any);
+    __setSupabaseClient(new MockSupabaseClient({
+      reddit_posts: [
+        post('t3_leaps', '2026-01-16', { option_attempts: 1, option_outcomes: [{ evaluatedAt: '2025-12-16T21:00:00.000Z' }] }),
+        post('t3_monthly', '2025-12-15'),
+        post('t3_judged', null),
+        post('t3_unsent', '2025-12-15', { emailed_at: null }),
+      ],
+    }) as unknown as any);
+
+    const december = await selectDueOptionClaims(config, '2025-01-01T00:00:00.000Z', '2025-12-16', 15);
+    const january = await selectDueOptionClaims(config, '2025-01-01T00:00:00.000Z', '2026-01-20', 15);
+
+    expect(december.map(claim => claim.post_id)).toEqual(['t3_monthly']);
+    expect(december[0].outcomes).toEqual([null, null]);
+    expect(january.map(claim => [claim.post_id, claim.option_attempts])).toEqual([['t3_monthly', 0], ['t3_leaps', 1]]);
+    expect(january[1].outcomes[1]).toBeNull();
+  });
+});
@@ -0,0 +1,231 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { OUTBOX_MAX_ATTEMPTS, deliverOutbox, nextOutboxAttempt, outboxMessagesByChannel } from '../lib/outbox';
+import { __resetSupabaseClient, __setSupabaseClient, claimDigest, requeueFailedOutbox } from '../lib/db';
+import type { Config } from '../lib/config';
+import { dispatchNotification, type Notification, type NotificationTarget } from '../lib/notifiers';
+import { MockSupabaseClient } from './__mocks__/supabase-mock';
+
+const config = {
+  supabase: { url: 'https://example.supabase.co', apiKey: 'service-key' },
+} as unknown as Config;
+
+const notification: Notification = {
+  type: 'digest',
+  subject: '🚀 Stock Watch — 2025-11-14 (1 alerts)',
+  text: 'plain text body',
+  html: '<p>html body</p>',
+  sections: [{ lines: ['AMD will rally after earnings'] }],
+  payload: { stories: [] },
+};
+
+const now = new Date('2025-11-14T16:00:00.000Z');
+
+function outboxRow(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    message_type: 'digest',
+    payload: notification,
+    recipients: { to: 'reader@example.com' },
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: '2025-11-14T15:55:00.000Z',
+    last_error: null,
+    sent_at: null,
+    created_at: '2025-11-14T15:55:00.000Z',
+    updated_at: '2025-11-14T15:55:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('nextOutboxAttempt', () => {
+  it('doubles the delay after each failure and gives up after the last attempt', () => {
+    expect(nextOutboxAttempt(1, now)).toBe('2025-11-14T16:05:00.000Z');
+    expect(nextOutboxAttempt(3, now)).toBe('2025-11-14T16:20:00.000Z');
+    expect(nextOutboxAttempt(OUTBOX_MAX_ATTEMPTS, now)).toBeNull();
+  });
+});
+
+describe('deliverOutbox', () => {
+  let supabaseMock: MockSupabaseClient;
+
+  beforeEach(() => {
+    supabaseMock = new MockSupabaseClient({
+      outbox: [
+        outboxRow('msg-1'),
+        outboxRow('msg-2', { attempts: OUTBOX_MAX_ATTEMPTS - 1 }),
+        outboxRow('msg-3', { next_attempt_at: '2025-11-14T16:30:00.000Z' }),
+        outboxRow('msg-4', { status: 'sent' }),
+      ],
+    });
+    __setSupabaseClient(supabaseMock as unknown as any);
+  });
+
+  afterEach(() => {
+    __resetSupabaseClient();
+  });
+
+  it('sends due messages with an idempotency key per row and records the outcome', async () => {
+    const sent: Array<{ key?: string; target: NotificationTarget }> = [];
+    const dispatch = async (message: Notification, _config: Config, target: NotificationTarget = {}) => {
+      sent.push({ key: message.idempotencyKey, target });
+      return [{ channel: 'email' as const, id: 're_123' }];
+    };
+
+    const result = await deliverOutbox(config, { now, dispatch });
+
+    expect(result).toEqual({ attempted: 2, sent: 2, retrying: 0, failed: 0 });
+    expect(sent).toEqual([
+      { key: 'outbox-msg-1', target: { to: 'reader@example.com' } },
+      { key: 'outbox-msg-2', target: { to: 'reader@example.com' } },
+    ]);
+    const rows = supabaseMock.getDatabase().outbox;
+    expect(rows.filter(row => row.status === 'sent').map(row => row.id)).toEqual(['msg-1', 'msg-2', 'msg-4']);
+    expect(rows.find(row => row.id === 'msg-3')?.status).toBe('pending');
+  });
+
+  it('reschedules failures with backoff, fails them for good after the last attempt, and replays them', async () => {
+    const dispatch = async () => {
+      throw new Error('Resend API error: rate limited');
+    };
+
+    const result = await deliverOutbox(config, { now, dispatch });
+
+    expect(result).toEqual({ attempted: 2, sent: 0, retrying: 1, failed: 1 });
+    const rows = supabaseMock.getDatabase().outbox;
+    expect(rows.find(row => row.id === 'msg-1')).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      next_attempt_at: '2025-11-14T16:05:00.000Z',
+      last_error: 'Resend API error: rate limited',
+    });
+    expect(rows.find(row => row.id === 'msg-2')).toMatchObject({ status: 'failed', attempts: OUTBOX_MAX_ATTEMPTS });
+
+    expect(await requeueFailedOutbox(config)).toBe(1);
+    expect(rows.find(row => row.id === 'msg-2')).toMatchObject({ status: 'pending', attempts: 0 });
+  });
+
+  it('never hands a row to two overlapping runs, and reclaims it once the lock lapses', async () => {
+    const sent: string[] = [];
+    let overlapping: Promise<unknown> | null = null;
+    const dispatch = async (message: Notification) => {
+      // A second run starts while the first is still sending
+      overlapping ??= deliverOutbox(config, { now, dispatch: async (other: Notification) => {
+        sent.push(`overlap:${other.idempotencyKey}`);
+        return [];
+      } });
+      sent.push(message.idempotencyKey ?? '');
+      return [];
+    };
+
+    const first = await deliverOutbox(config, { now, dispatch });
+    const second = await overlapping;
+
+    expect(first.attempted).toBe(2);
+    expect(second).toEqual({ attempted: 0, sent: 0, retrying: 0, failed: 0 });
+    expect(sent).toEqual(['outbox-msg-1', 'outbox-msg-2']);
+
+    const rows = supabaseMock.getDatabase().outbox;
+    const stuck = rows.find(row => row.id === 'msg-1')!;
+    Object.assign(stuck, { status: 'sending', locked_until: '2025-11-14T16:15:00.000Z' });
+    expect((await deliverOutbox(config, { now: new Date('2025-11-14T16:10:00.000Z'), dispatch: async () => [] })).attempted).toBe(0);
+    expect((await deliverOutbox(config, { now: new Date('2025-11-14T16:20:00.000Z'), dispatch: async () => [] })).attempted).toBe(1);
+    expect(supabaseMock.getDatabase().outbox.find(row => row.id === 'msg-1')).toMatchObject({ status: 'sent', locked_until: null });
+  });
+});
+
+describe('outboxMessagesByChannel', () => {
+  const routedConfig = {
+    ...config,
+    notifications: { routes: { digest: ['email', 'slack', 'webhook'] } },
+  } as unknown as Config;
+
+  it('queues one row per routed channel and leaves personal email alone', () => {
+    const rows = outboxMessagesByChannel(routedConfig, [
+      { notification, recipients: {} },
+      { notification, recipients: { excludeChannels: ['email'] } },
+      { notification, recipients: { to: 'reader@example.com' } },
+    ]);
+
+    expect(rows.map(row => row.recipients)).toEqual([
+      { channel: 'email' },
+      { channel: 'slack' },
+      { channel: 'webhook' },
+      { excludeChannels: ['email'], channel: 'slack' },
+      { excludeChannels: ['email'], channel: 'webhook' },
+      { to: 'reader@example.com' },
+    ]);
+  });
+
+  it('retries only the channel that failed', async () => {
+    const supabaseMock = new MockSupabaseClient({
+      outbox: outboxMessagesByChannel(routedConfig, [{ notification, recipients: {} }])
+        .map((message, index) => outboxRow(`msg-${index}`, { recipients: message.recipients })),
+    });
+    __setSupabaseClient(supabaseMock as unknown as any);
+    const sent: string[] = [];
+    const dispatch = (message: Notification, dispatchConfig: Config, target: NotificationTarget = {}) =>
+      dispatchNotification(message, dispatchConfig, target, channel => ({
+        channel,
+        send: async () => {
+          if (channel === 'email') {
+            throw new Error('Resend API error: rate limited');
+          }
+          sent.push(channel);
+          return null;
+        },
+      }));
+
+    try {
+      const result = await deliverOutbox(routedConfig, { now, dispatch });
+
+      expect(result).toEqual({ attempted: 3, sent: 2, retrying: 1, failed: 0 });
+      expect(sent).toEqual(['slack', 'webhook']);
+      expect(supabaseMock.getDatabase().outbox.map(row => [row.recipients.channel, row.status])).toEqual([
+        ['email', 'pending'],
+        ['slack', 'sent'],
+        ['webhook', 'sent'],
+      ]);
+    } finally {
+      __resetSupabaseClient();
+    }
+  });
+});
+
+describe('claimDigest', () => {
+  afterEach(() => {
+    __resetSupabaseClient();
+  });
+
+  it('queues nothing when an overlapping run already claimed the posts', async () => {
+    __setSupabaseClient({
+      rpc: async () => ({
+        data: null,
+        error: { message: 'digest_already_claimed', details: '1 of 2 posts were already emailed' },
+      }),
+    } as unknown as any);
+
+    const queued = await claimDigest(config, {
+      messages: [{ notification, recipients: { channel: 'email' } }],
+      postIds: ['t3_abc', 't3_def'],
+      subscriptionIds: [],
+      spikes: [],
+      claimedAtIso: now.toISOString(),
+    });
+
+    expect(queued).toBeNull();
+  });
+
+  it('still fails on other errors', async () => {
+    __setSupabaseClient({
+      rpc: async () => ({ data: null, error: { message: 'connection reset' } }),
+    } as unknown as any);
+
+    await expect(claimDigest(config, {
+      messages: [],
+      postIds: ['t3_abc'],
+      subscriptionIds: [],
+      spikes: [],
+      claimedAtIso: now.toISOString(),
+    })).rejects.toThrow('Failed to claim digest');
+  });
+});
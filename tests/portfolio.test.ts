@@ -21,6 +21,10 @@ const baseConfig: Config = {
   llm: {
     provider: 'openai',
     openaiApiKey: 'openai-key',
+    temperature: 0.2,
+    maxTokens: 4096,
+    dailySpendCapUsd: 0,
+    maxAttempts: 6,
   },
   marketData: {
     tiingoApiKey: 'tiingo-key',
@@ -30,6 +34,14 @@ const baseConfig: Config = {
     from: 'alerts@example.com',
     to: 'user@example.com',
   },
+  notifications: {
+    routes: {
+      digest: ['email'],
+      price_watch: ['email'],
+      position_drop: ['email'],
+      performance_report: ['email'],
+    },
+  },
   app: {
     subreddits: ['stocks'],
     cronWindowMinutes: 30,
@@ -37,9 +49,24 @@ const baseConfig: Config = {
     llmMaxBodyChars: 8000,
     minScoreForLlm: 10,
     qualityThreshold: 4,
+    minConfidenceForEmail: 0,
     maxPostsPerRun: 50,
     minVotesPerMinuteForLlm: 1,
+    minClueScore: 0.5,
     maxPriceMovePctForAlert: 0.2,
+    commentsPerPost: 0,
+    maxCommentPostsPerRun: 0,
+    rescoreLookbackHours: 24,
+    emailIncludeFlairs: [],
+    emailExcludeFlairs: [],
+    flairBoosts: {},
+    alertAssetClasses: ['equity', 'etf', 'leveraged_etf', 'crypto'],
+    mentionSpikeZScore: 3,
+    mentionSpikeMinMentions: 5,
+    pumpRiskSuppressScore: 0,
+    digestSchedule: 'realtime',
+    digestImmediateMinQuality: 5,
+    quietHours: null,
   },
 };
 
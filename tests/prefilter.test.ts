@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { hasDirectionalSignal, prefilter, scanText } from '../lib/prefilter';
+
+describe('scanText', () => {
+  it('maps company names and aliases to their symbols', async () => {
+    const signals = await scanText('Nvidia and Palantir both look strong into next quarter');
+
+    expect(signals.tickers).toEqual(['NVDA', 'PLTR']);
+    expect(signals.tickerDetections.every(d => d.source === 'name')).toBe(true);
+  });
+
+  it('ignores ambiguous all-caps words without finance context', async () => {
+    const signals = await scanText('ON MY WAY HOME NOW, AI IS EVERYWHERE');
+
+    expect(signals.tickers).toEqual([]);
+  });
+
+  it('counts ambiguous symbols when finance context is nearby', async () => {
+    const signals = await scanText('Loaded up on ON calls before earnings');
+
+    expect(signals.tickers).toEqual(['ON']);
+    expect(signals.tickerDetections[0]).toEqual({ ticker: 'ON', source: 'symbol', confidence: 0.55, assetClass: 'equity' });
+  });
+
+  it('needs context for names that are everyday words', async () => {
+    expect((await scanText('I ate an apple at target')).tickers).toEqual([]);
+    expect((await scanText('Apple shares look cheap here')).tickers).toEqual(['AAPL']);
+  });
+
+  it('keeps the most confident detection per ticker', async () => {
+    const signals = await scanText('NVDA is fine but $NVDA and Nvidia are the same thing, and $AI too');
+
+    expect(signals.tickerDetections).toEqual([
+      { ticker: 'NVDA', source: 'cashtag', confidence: 0.95, assetClass: 'equity' },
+      { ticker: 'AI', source: 'cashtag', confidence: 0.95, assetClass: 'equity' },
+    ]);
+  });
+});
+
+describe('prefilter', () => {
+  it('does not read the "DD" flair as a ticker on its own', async () => {
+    const result = await prefilter({
+      id: 'p1',
+      title: 'Why Nvidia keeps winning',
+      selftext: 'Long write-up on data center demand.',
+      subreddit: 'stocks',
+      author: 'op',
+      url: 'https://www.reddit.com/r/stocks/comments/p1',
+      createdUtc: '2025-01-02T15:00:00.000Z',
+      score: 10,
+      flair: 'DD',
+    });
+
+    expect(result.tickers).toEqual(['NVDA']);
+    expect(hasDirectionalSignal(result)).toBe(true);
+  });
+
+  it('keeps option contracts only for detected underlyings', async () => {
+    const result = await prefilter({
+      id: 'p2',
+      title: 'YOLO: 20x SPY 600c 1/17',
+      selftext: 'I 5c would never. Calls print.',
+      subreddit: 'wallstreetbets',
+      author: 'op',
+      url: 'https://www.reddit.com/r/wallstreetbets/comments/p2',
+      createdUtc: '2025-01-02T15:00:00.000Z',
+      score: 10,
+    });
+
+    expect(result.optionContracts).toEqual([
+      { underlying: 'SPY', strike: 600, right: 'call', expiry: '2025-01-17', quantity: 20 },
+    ]);
+  });
+});
+
+describe('clue scoring', () => {
+  it('matches whole words only', async () => {
+    const signals = await scanText('The recalls hurt $TSLA');
+
+    expect(signals.upsideHits).toEqual([]);
+    expect(signals.upsideScore).toBe(0);
+  });
+
+  it('drops negated and sarcastic clues', async () => {
+    expect((await scanText('I am not bullish on $AMD')).upsideScore).toBe(0);
+    expect((await scanText('$AMD calls are dead')).upsideScore).toBe(0);
+    expect((await scanText('$AMD to the moon, yeah right')).upsideScore).toBe(0);
+  });
+
+  it('sums weights once per phrase and lets longer phrases claim their span', async () => {
+    const signals = await scanText('$AMD to the moon, moon again. Bullish, bullish!');
+
+    expect(signals.upsideHits).toEqual(['to the moon', 'bullish', 'moon']);
+    expect(signals.upsideScore).toBeCloseTo(2.25, 6);
+  });
+
+  it('applies per-subreddit overrides', async () => {
+    expect((await scanText('$GME yolo', 'stocks')).upsideScore).toBe(0.25);
+    expect((await scanText('$GME yolo', 'wallstreetbets')).upsideScore).toBe(0);
+  });
+
+  it('gates on the weighted score rather than a single hit', async () => {
+    const post = {
+      id: 'p2',
+      title: '$GME yolo',
+      subreddit: 'stocks',
+      author: 'op',
+      url: 'https://www.reddit.com/r/stocks/comments/p2',
+      createdUtc: '2025-01-02T15:00:00.000Z',
+      score: 10,
+    };
+    const result = await prefilter(post);
+
+    expect(hasDirectionalSignal(result, 0.5)).toBe(false);
+    expect(hasDirectionalSignal(result, 0.25)).toBe(true);
+  });
+});
+
+describe('ticker formats', () => {
+  it('detects share classes and non-US listings in canonical form', async () => {
+    const signals = await scanText('Adding $brk-b and $SHOP.TO, trimming BF.B');
+
+    expect(signals.tickers).toEqual(['BRK.B', 'SHOP.TO', 'BF.B']);
+  });
+
+  it('ends a cashtag at sentence punctuation', async () => {
+    expect((await scanText('Bought more $NVDA. Then $brk.b.')).tickers).toEqual(['NVDA', 'BRK.B']);
+  });
+
+  it('falls back to the root when a suffix is just the next word', async () => {
+    expect((await scanText('Sold NVDA.I think it is done')).tickers).toEqual(['NVDA']);
+  });
+});
+
+describe('asset classes', () => {
+  it('picks up crypto and ETFs missing from tickers.json and tags each class', async () => {
+    const signals = await scanText('Rotating out of SPY into TQQQ, and bitcoin keeps climbing');
+
+    expect(signals.tickerDetections.map(d => [d.ticker, d.assetClass])).toEqual([
+      ['SPY', 'etf'],
+      ['TQQQ', 'leveraged_etf'],
+      ['BTC', 'crypto'],
+    ]);
+  });
+});
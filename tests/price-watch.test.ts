@@ -6,6 +6,7 @@ import {
   groupByTicker,
   parseNumber,
   computeTiingoWindow,
+  evaluateWatchMove,
   type PriceWatchSeed,
   type DbPriceWatchRow,
 } from '../lib/price-watch';
@@ -224,3 +225,19 @@ describe('computeTiingoWindow', () => {
     expect(window.end.toISOString()).toBe(now.toISOString());
   });
 });
+
+describe('evaluateWatchMove', () => {
+  it('triggers bullish watches while the price is near the entry', () => {
+    expect(evaluateWatchMove('bullish', -0.02)).toBe('trigger');
+    expect(evaluateWatchMove('bullish', 0.05)).toBe('trigger');
+    expect(evaluateWatchMove('bullish', 0.08)).toBe('hold');
+    expect(evaluateWatchMove('bullish', 0.2)).toBe('stop_above');
+  });
+
+  it('triggers bearish watches once the price has dropped', () => {
+    expect(evaluateWatchMove('bearish', -0.06)).toBe('trigger');
+    expect(evaluateWatchMove('bearish', -0.02)).toBe('hold');
+    expect(evaluateWatchMove('bearish', 0.03)).toBe('hold');
+    expect(evaluateWatchMove('bearish', 0.15)).toBe('stop_above');
+  });
+});
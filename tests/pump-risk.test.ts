@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { estimateMarketCap, measureMarketExtension, scorePumpRisk, type PumpRiskSignals } from '../lib/pump-risk';
+import type { IntradayBar } from '../lib/tiingo';
+
+const quiet: PumpRiskSignals = {
+  accountAgeDays: 2000,
+  karma: 25_000,
+  tickerMentions: 1,
+  priceExtensionPct: 0.02,
+  volumeRatio: 1.1,
+  marketCapUsd: 50_000_000_000,
+};
+
+function bars(count: number, build: (index: number) => Partial<IntradayBar>): IntradayBar[] {
+  return Array.from({ length: count }, (_, index) => ({
+    timestamp: new Date(Date.UTC(2025, 10, 14, 14, 30) + index * 5 * 60 * 1000).toISOString(),
+    open: 1,
+    high: 1,
+    low: 1,
+    close: 1,
+    volume: 1000,
+    ...build(index),
+  }));
+}
+
+describe('scorePumpRisk', () => {
+  it('rates an established large cap with ordinary chatter as low with no reasons', () => {
+    expect(scorePumpRisk(quiet)).toEqual({ score: 0, level: 'low', reasons: [] });
+  });
+
+  it('adds up the classic pump pattern to high risk and explains each part', () => {
+    const risk = scorePumpRisk({
+      accountAgeDays: 4.6,
+      karma: 15,
+      tickerMentions: 11,
+      priceExtensionPct: 0.45,
+      volumeRatio: 6.2,
+      marketCapUsd: 40_000_000,
+    });
+
+    expect(risk.score).toBe(1);
+    expect(risk.level).toBe('high');
+    expect(risk.reasons).toEqual([
+      'account 4d old',
+      '15 karma',
+      '11 posts in 6h',
+      '+45% off the low',
+      'volume 6.2x',
+      '$40M market cap',
+    ]);
+  });
+
+  it('marks a new account pushing a running micro cap as elevated and ignores missing signals', () => {
+    const risk = scorePumpRisk({
+      ...quiet,
+      accountAgeDays: 10,
+      karma: null,
+      priceExtensionPct: null,
+      marketCapUsd: 120_000_000,
+    });
+
+    expect(risk.score).toBe(0.35);
+    expect(risk.level).toBe('elevated');
+  });
+});
+
+describe('measureMarketExtension', () => {
+  it('measures the close against the window low and the last hour of volume against before', () => {
+    const series = bars(36, index => ({
+      low: index === 5 ? 0.8 : 1,
+      close: index === 35 ? 1.2 : 1,
+      volume: index >= 24 ? 5000 : 1000,
+    }));
+
+    const { priceExtensionPct, volumeRatio } = measureMarketExtension(series);
+
+    expect(priceExtensionPct).toBeCloseTo(0.5);
+    expect(volumeRatio).toBe(5);
+  });
+
+  it('needs two hours of bars before judging volume', () => {
+    expect(measureMarketExtension(bars(20, () => ({}))).volumeRatio).toBeNull();
+    expect(measureMarketExtension([])).toEqual({ priceExtensionPct: null, volumeRatio: null });
+  });
+});
+
+describe('estimateMarketCap', () => {
+  it('multiplies price by the reported weighted share count', () => {
+    const statement = { ticker: 'PUMP', fiscalDate: '2025-09-30', period: 'Q3', statementType: 'incomeStatement', data: { shareswa: 20_000_000 } };
+
+    expect(estimateMarketCap(statement, 2.5)).toBe(50_000_000);
+    expect(estimateMarketCap({ ...statement, data: {} }, 2.5)).toBeNull();
+    expect(estimateMarketCap(null, 2.5)).toBeNull();
+  });
+});
@@ -0,0 +1,266 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { fetchAuthorProfiles, fetchNew, toPost, __resetRedditClient, __setRedditClient } from '../lib/reddit';
+import { RedditHttpClient, type RedditSubmission } from '../lib/reddit-client';
+import { createMockPost, createMockRedditClient, type MockRedditClient } from './__mocks__/reddit-mock';
+import type { Config } from '../lib/config';
+
+const config = {
+  reddit: {
+    clientId: 'clientId',
+    clientSecret: 'clientSecret',
+    username: 'user',
+    password: 'pass',
+    userAgent: 'test-agent',
+  },
+} as Config;
+const NOW_S = Math.floor(Date.now() / 1000);
+
+// One post per minute going back from now
+function seedPosts(reddit: MockRedditClient, subreddit: string, prefix: string, count: number): void {
+  for (let i = 0; i < count; i++) {
+    reddit.addMockPost(createMockPost({ id: `${prefix}${i}`, subreddit, created_utc: NOW_S - i * 60 }));
+  }
+}
+
+function minutesBack(minutes: number): string {
+  return new Date((NOW_S - minutes * 60) * 1000).toISOString();
+}
+
+describe('fetchNew', () => {
+  let reddit: MockRedditClient;
+  let pageRequests: string[];
+
+  beforeEach(() => {
+    reddit = createMockRedditClient();
+    pageRequests = [];
+    const getNew = reddit.getNew.bind(reddit);
+    reddit.getNew = async (subreddit, options) => {
+      pageRequests.push(`${subreddit}:${options.after ?? 'first'}`);
+      return getNew(subreddit, options);
+    };
+    __setRedditClient(reddit);
+  });
+
+  afterEach(() => {
+    __resetRedditClient();
+  });
+
+  it('pages back with after until each subreddit reaches its own cursor', async () => {
+    seedPosts(reddit, 'busy', 'b', 250);
+    seedPosts(reddit, 'quiet', 'q', 5);
+
+    const posts = await fetchNew(config, ['busy', 'quiet'], new Map([
+      ['busy', minutesBack(150)],
+      ['quiet', minutesBack(2)],
+    ]), 0, 1000);
+
+    expect(pageRequests).toEqual(['busy:first', 'busy:t3_b99', 'quiet:first']);
+    expect(posts.filter(p => p.subreddit === 'busy')).toHaveLength(151);
+    expect(posts.filter(p => p.subreddit === 'quiet')).toHaveLength(3);
+  });
+
+  it('only reads the first page for subreddits without a cursor', async () => {
+    seedPosts(reddit, 'fresh', 'f', 250);
+
+    const posts = await fetchNew(config, ['fresh'], new Map([['fresh', '1970-01-01T00:00:00Z']]), 0, 1000);
+
+    expect(pageRequests).toHaveLength(1);
+    expect(posts).toHaveLength(100);
+  });
+
+  it('keeps the oldest new posts when over the per-run limit', async () => {
+    seedPosts(reddit, 'busy', 'b', 50);
+
+    const posts = await fetchNew(config, ['busy'], new Map([['busy', minutesBack(30)]]), 0, 10);
+
+    expect(posts.map(p => p.id)).toEqual(['b29', 'b28', 'b27', 'b26', 'b25', 'b24', 'b23', 'b22', 'b21', 'b20']);
+  });
+});
+
+describe('fetchAuthorProfiles', () => {
+  afterEach(() => {
+    __resetRedditClient();
+  });
+
+  it('turns account creation time and karma into a profile and skips deleted or missing accounts', async () => {
+    const reddit = createMockRedditClient();
+    reddit.setMockAccount({ name: 'fresh', created_utc: NOW_S - 3 * 86_400, link_karma: 12, comment_karma: 30 });
+    __setRedditClient(reddit);
+
+    const profiles = await fetchAuthorProfiles(config, ['fresh', '[deleted]', 'ghost'], new Date(NOW_S * 1000));
+
+    expect(Array.from(profiles.keys())).toEqual(['fresh']);
+    expect(profiles.get('fresh')).toEqual({ author: 'fresh', accountAgeDays: 3, karma: 42 });
+  });
+});
+
+describe('toPost', () => {
+  const base: RedditSubmission = {
+    id: 'abc',
+    title: 'NVDA earnings preview',
+    selftext: '',
+    subreddit: 'stocks',
+    author: 'someone',
+    permalink: '/r/stocks/comments/abc/nvda/',
+    created_utc: 1_700_000_000,
+    score: 12,
+  };
+
+  it('keeps the link target and flair of link posts', () => {
+    const post = toPost({
+      ...base,
+      is_self: false,
+      url: 'https://www.reuters.com/markets/nvda',
+      domain: 'reuters.com',
+      link_flair_text: ' News ',
+    }, 'stocks');
+
+    expect(post.postType).toBe('link');
+    expect(post.linkUrl).toBe('https://www.reuters.com/markets/nvda');
+    expect(post.linkDomain).toBe('reuters.com');
+    expect(post.flair).toBe('News');
+    expect(post.url).toBe('https://www.reddit.com/r/stocks/comments/abc/nvda/');
+  });
+
+  it('recognises image posts and treats self posts as text', () => {
+    expect(toPost({ ...base, is_self: false, post_hint: 'image', url: 'https://i.redd.it/x.png', domain: 'i.redd.it' }, 'stocks').postType).toBe('image');
+    const text = toPost({ ...base, is_self: true, selftext: 'body', url: 'https://www.reddit.com/r/stocks/comments/abc/nvda/' }, 'stocks');
+    expect(text.postType).toBe('text');
+    expect(text.linkUrl).toBeNull();
+    expect(text.flair).toBeNull();
+  });
+
+  it('borrows the body and link of the original post for crossposts', () => {
+    const post = toPost({
+      ...base,
+      is_self: false,
+      crosspost_parent: 't3_orig',
+      crosspost_parent_list: [{ ...base, id: 'orig', is_self: true, selftext: 'Full DD on NVDA' }],
+    }, 'stocks');
+
+    expect(post.postType).toBe('crosspost');
+    expect(post.crosspostParent).toBe('t3_orig');
+    expect(post.selftext).toBe('Full DD on NVDA');
+    expect(post.linkUrl).toBeNull();
+  });
+});
+
+describe('RedditHttpClient', () => {
+  interface FakeResponse {
+    status: number;
+    body: unknown;
+    headers?: Record<string, string>;
+  }
+
+  function fakeFetch(responses: FakeResponse[]) {
+    const calls: Array<{ url: string; init?: any }> = [];
+    const fetchFn = async (url: string, init?: any) => {
+      calls.push({ url, init });
+      const next = url.includes('access_token')
+        ? { status: 200, body: { access_token: `token-${calls.length}`, expires_in: 3600 } }
+        : responses.shift();
+      if (!next) {
+        throw new Error(`Unexpected request to ${url}`);
+      }
+      const headers = new Map(Object.entries(next.headers ?? {}));
+      return {
+        ok: next.status >= 200 && next.status < 300,
+        status: next.status,
+        statusText: String(next.status),
+        headers: { get: (name: string) => headers.get(name) ?? null },
+        json: async () => next.body,
+        text: async () => JSON.stringify(next.body),
+      };
+    };
+    return { fetchFn, calls };
+  }
+
+  const emptyListing = { kind: 'Listing', data: { after: null, children: [] } };
+
+  it('authenticates once and reuses the token until it expires', async () => {
+    const { fetchFn, calls } = fakeFetch([
+      { status: 200, body: emptyListing },
+      { status: 200, body: emptyListing },
+    ]);
+    const client = new RedditHttpClient(config.reddit, { fetchFn, sleep: async () => {} });
+
+    await client.getNew('stocks', { limit: 100 });
+    await client.getNew('stocks', { limit: 100, after: 't3_abc' });
+
+    expect(calls.map(c => new URL(c.url).pathname)).toEqual(['/api/v1/access_token', '/r/stocks/new', '/r/stocks/new']);
+    expect(calls[1].init.headers.Authorization).toBe('bearer token-1');
+    expect(new URL(calls[2].url).searchParams.get('after')).toBe('t3_abc');
+  });
+
+  it('re-authenticates after a 401', async () => {
+    const { fetchFn, calls } = fakeFetch([
+      { status: 401, body: { message: 'Unauthorized' } },
+      { status: 200, body: emptyListing },
+    ]);
+    const client = new RedditHttpClient(config.reddit, { fetchFn, sleep: async () => {} });
+
+    await client.getNew('stocks', { limit: 100 });
+
+    expect(calls.filter(c => c.url.includes('access_token'))).toHaveLength(2);
+    expect(calls[3].init.headers.Authorization).toBe('bearer token-3');
+  });
+
+  it('waits for the rate-limit window to reset once requests run out', async () => {
+    const sleeps: number[] = [];
+    const { fetchFn } = fakeFetch([
+      { status: 200, body: emptyListing, headers: { 'x-ratelimit-remaining': '0.0', 'x-ratelimit-reset': '42' } },
+      { status: 429, body: {}, headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '5' } },
+      { status: 200, body: emptyListing, headers: { 'x-ratelimit-remaining': '600', 'x-ratelimit-reset': '600' } },
+    ]);
+    let nowMs = 0;
+    const client = new RedditHttpClient(config.reddit, {
+      fetchFn,
+      now: () => nowMs,
+      sleep: async ms => {
+        sleeps.push(ms);
+        nowMs += ms;
+      },
+    });
+
+    await client.getNew('stocks', { limit: 100 });
+    await client.getNew('stocks', { limit: 100 });
+
+    expect(sleeps[0]).toBe(42_000);
+    expect(sleeps[1]).toBe(5_000);
+    expect(sleeps).toHaveLength(2);
+  });
+
+  it('treats suspended accounts as unknown', async () => {
+    const { fetchFn, calls } = fakeFetch([
+      { status: 200, body: { kind: 't2', data: { name: 'banned', is_suspended: true } } },
+    ]);
+    const client = new RedditHttpClient(config.reddit, { fetchFn, sleep: async () => {} });
+
+    expect(await client.getAccount('banned')).toBeNull();
+    expect(new URL(calls[1].url).pathname).toBe('/user/banned/about');
+  });
+
+  it('unwraps comment listings and drops "more" stubs', async () => {
+    const { fetchFn } = fakeFetch([{
+      status: 200,
+      body: [
+        emptyListing,
+        {
+          kind: 'Listing',
+          data: {
+            after: null,
+            children: [
+              { kind: 't1', data: { id: 'c1', author: 'a', body: 'AMD to 200', score: 12, created_utc: NOW_S } },
+              { kind: 'more', data: { count: 40, children: ['c2'] } },
+            ],
+          },
+        },
+      ],
+    }]);
+    const client = new RedditHttpClient(config.reddit, { fetchFn, sleep: async () => {} });
+
+    const comments = await client.getTopComments('p1', 10);
+
+    expect(comments.map(c => c.id)).toEqual(['c1']);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { buildPostSnapshots, selectPromotions } from '../lib/rescore';
+import type { RescoreItem } from '../lib/db';
+import type { PostStats } from '../lib/reddit';
+
+const NOW_MS = Date.parse('2025-01-02T16:00:00.000Z');
+
+function item(postId: string, createdUtc: string, llmStatus: RescoreItem['llm_status']): RescoreItem {
+  return {
+    post_id: postId,
+    title: `${postId.toUpperCase()} will rally after earnings`,
+    body: 'Guidance looks strong.',
+    detected_tickers: ['AMD'],
+    created_utc: createdUtc,
+    score: 1,
+    llm_status: llmStatus,
+    llm_attempts: 0,
+    flair: null,
+    post_type: 'text',
+    link_url: null,
+    link_domain: null,
+  };
+}
+
+const items: RescoreItem[] = [
+  item('slow', '2025-01-02T14:00:00.000Z', 'gated'),
+  item('riser', '2025-01-02T15:00:00.000Z', 'gated'),
+  item('done', '2025-01-02T15:30:00.000Z', 'classified'),
+  item('gone', '2025-01-02T15:40:00.000Z', 'gated'),
+];
+
+const stats: PostStats[] = [
+  { id: 'slow', score: 30, upvoteRatio: 0.8, numComments: 4 },
+  { id: 'riser', score: 180, upvoteRatio: 0.95, numComments: 40 },
+  { id: 'done', score: 300, upvoteRatio: 0.9, numComments: 12 },
+];
+
+describe('buildPostSnapshots', () => {
+  it('records current stats and velocity for posts Reddit still returns', () => {
+    const snapshots = buildPostSnapshots(items, stats, NOW_MS);
+
+    expect(snapshots.map(s => s.post_id)).toEqual(['slow', 'riser', 'done']);
+    expect(snapshots[1]).toEqual({
+      post_id: 'riser',
+      observed_at: '2025-01-02T16:00:00.000Z',
+      score: 180,
+      upvote_ratio: 0.95,
+      num_comments: 40,
+      votes_per_minute: 3,
+    });
+    expect(snapshots[0].votes_per_minute).toBe(0.25);
+  });
+});
+
+describe('selectPromotions', () => {
+  it('promotes only gated posts that crossed the velocity gate, fastest first', () => {
+    const snapshots = buildPostSnapshots(items, stats, NOW_MS);
+
+    expect(selectPromotions(items, snapshots, 1).map(p => p.post_id)).toEqual(['riser']);
+    expect(selectPromotions(items, snapshots, 0.2).map(p => p.post_id)).toEqual(['riser', 'slow']);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { clusterStories, jaccardSimilarity, shingles } from '../lib/stories';
+import type { EmailCandidate } from '../lib/db';
+
+const base: EmailCandidate = {
+  post_id: 't3_a',
+  title: 'NVDA will rip after earnings, data center demand is insane',
+  body: 'Hyperscaler capex guidance went up again and NVDA supplies almost all of it. Expect a beat and raise.',
+  subreddit: 'stocks',
+  url: 'https://www.reddit.com/r/stocks/comments/a',
+  reason: 'Forward-looking upside claim citing earnings.',
+  tickers: ['NVDA'],
+  llm_tickers: ['NVDA'],
+  detected_tickers: ['NVDA'],
+  quality_score: 3,
+  evidence_phrases: [],
+  confidence: 3,
+  created_utc: '2025-11-14T15:00:00Z',
+  catalyst_type: null,
+};
+
+describe('shingles', () => {
+  it('ignores case, cashtags, links and punctuation', () => {
+    const a = shingles('$NVDA will rip!! https://example.com/x after earnings');
+    const b = shingles('nvda will RIP after earnings.');
+
+    expect(jaccardSimilarity(a, b)).toBe(1);
+  });
+});
+
+describe('clusterStories', () => {
+  it('folds crossposts of one claim into a story led by the best post', () => {
+    const crosspost = {
+      ...base,
+      post_id: 't3_b',
+      subreddit: 'wallstreetbets',
+      url: 'https://www.reddit.com/r/wallstreetbets/comments/b',
+      title: 'NVDA will rip after earnings — data center demand is insane',
+      quality_score: 4,
+      created_utc: '2025-11-14T18:00:00Z',
+    };
+    const unrelated = {
+      ...base,
+      post_id: 't3_c',
+      title: 'AMD undervalued vs peers',
+      body: 'Forward PE is half of NVDA and MI300 ramps next quarter.',
+      tickers: ['AMD'],
+    };
+
+    const stories = clusterStories([base, unrelated, crosspost]);
+
+    expect(stories).toHaveLength(2);
+    expect(stories[0].representative.post_id).toBe('t3_b');
+    expect(stories[0].posts.map(post => post.post_id)).toEqual(['t3_b', 't3_a']);
+    expect(stories[0].subreddits).toEqual(['wallstreetbets', 'stocks']);
+    expect(stories[1].posts).toEqual([unrelated]);
+  });
+
+  it('joins differently worded posts on the same ticker and catalyst type', () => {
+    const other = {
+      ...base,
+      post_id: 't3_d',
+      title: 'Calls on NVDA into the print',
+      body: 'Whisper number is way above consensus.',
+      catalyst_type: 'earnings' as const,
+    };
+
+    expect(clusterStories([{ ...base, catalyst_type: 'earnings' }, other])).toHaveLength(1);
+    expect(clusterStories([base, other])).toHaveLength(2);
+  });
+
+  it('keeps identical posts apart when they are days apart or share no ticker', () => {
+    const later = { ...base, post_id: 't3_e', created_utc: '2025-11-18T15:00:00Z' };
+    const otherTicker = { ...base, post_id: 't3_f', tickers: ['AVGO'] };
+
+    expect(clusterStories([base, later, otherTicker])).toHaveLength(3);
+  });
+});
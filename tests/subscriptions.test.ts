@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ALERT_TYPES,
+  digestWindowStart,
+  filterSpikesForSubscription,
+  isDigestDue,
+  matchesSubscription,
+  type Subscription,
+} from '../lib/subscriptions';
+import type { EmailCandidate } from '../lib/db';
+
+const subscription: Subscription = {
+  id: 'sub-1',
+  userId: 'user-1',
+  email: 'reader@example.com',
+  minQuality: 0,
+  subreddits: [],
+  includeTickers: [],
+  excludeTickers: [],
+  excludeAuthors: [],
+  digestFrequency: 'realtime',
+  alertTypes: ALERT_TYPES,
+  lastDigestAt: null,
+};
+
+const candidate: EmailCandidate = {
+  post_id: 't3_abc',
+  direction: 'bullish',
+  title: 'AMD will rally after earnings',
+  subreddit: 'stocks',
+  url: 'https://www.reddit.com/r/stocks/comments/abc',
+  reason: 'Forward-looking upside claim citing earnings.',
+  tickers: ['AMD', 'NVDA'],
+  llm_tickers: ['AMD', 'NVDA'],
+  detected_tickers: ['AMD', 'NVDA'],
+  quality_score: 4,
+  evidence_phrases: [],
+  confidence: 4,
+  created_utc: '2025-11-14T15:00:00.000Z',
+};
+
+const now = new Date('2025-11-14T16:00:00.000Z');
+
+describe('matchesSubscription', () => {
+  it('lets everything through a subscription without filters', () => {
+    expect(matchesSubscription(candidate, subscription)).toBe(true);
+  });
+
+  it('applies quality, subreddit and alert type preferences', () => {
+    expect(matchesSubscription(candidate, { ...subscription, minQuality: 5 })).toBe(false);
+    expect(matchesSubscription(candidate, { ...subscription, subreddits: ['WallStreetBets'] })).toBe(false);
+    expect(matchesSubscription(candidate, { ...subscription, subreddits: ['Stocks'] })).toBe(true);
+    expect(matchesSubscription({ ...candidate, direction: 'bearish' }, { ...subscription, alertTypes: ['digest'] })).toBe(false);
+  });
+
+  it('keeps a post while any of its tickers survives the include and exclude lists', () => {
+    expect(matchesSubscription(candidate, { ...subscription, includeTickers: ['nvda'] })).toBe(true);
+    expect(matchesSubscription(candidate, { ...subscription, excludeTickers: ['AMD'] })).toBe(true);
+    expect(matchesSubscription(candidate, { ...subscription, excludeTickers: ['AMD', 'NVDA'] })).toBe(false);
+    expect(matchesSubscription(candidate, { ...subscription, includeTickers: ['AMD'], excludeTickers: ['AMD'] })).toBe(false);
+  });
+
+  it('drops posts by muted authors', () => {
+    const byAuthor = { ...candidate, author: 'PumpKing' };
+    expect(matchesSubscription(byAuthor, { ...subscription, excludeAuthors: ['pumpking'] })).toBe(false);
+    expect(matchesSubscription(byAuthor, { ...subscription, excludeAuthors: ['someone_else'] })).toBe(true);
+  });
+});
+
+describe('filterSpikesForSubscription', () => {
+  const spike = { ticker: 'GME', hourStart: '2025-11-14T15:00:00.000Z', mentions: 20, baselineMean: 3, baselineStdDev: 1, zScore: 17 };
+
+  it('drops chatter for subscribers who opted out or exclude the ticker', () => {
+    expect(filterSpikesForSubscription([spike], subscription)).toEqual([spike]);
+    expect(filterSpikesForSubscription([spike], { ...subscription, alertTypes: ['digest'] })).toEqual([]);
+    expect(filterSpikesForSubscription([spike], { ...subscription, excludeTickers: ['GME'] })).toEqual([]);
+  });
+});
+
+describe('isDigestDue', () => {
+  it('sends realtime digests every run and roll-ups once their interval has passed', () => {
+    expect(isDigestDue({ ...subscription, lastDigestAt: '2025-11-14T15:59:00.000Z' }, now)).toBe(true);
+    expect(isDigestDue({ ...subscription, digestFrequency: 'hourly', lastDigestAt: '2025-11-14T15:30:00.000Z' }, now)).toBe(false);
+    expect(isDigestDue({ ...subscription, digestFrequency: 'hourly', lastDigestAt: '2025-11-14T15:00:00.000Z' }, now)).toBe(true);
+    expect(isDigestDue({ ...subscription, digestFrequency: 'daily', lastDigestAt: null }, now)).toBe(true);
+  });
+});
+
+describe('digestWindowStart', () => {
+  it('starts at the last digest, one interval back for a first one, and never more than a week back', () => {
+    expect(digestWindowStart({ ...subscription, digestFrequency: 'daily', lastDigestAt: '2025-11-13T08:00:00.000Z' }, now))
+      .toBe('2025-11-13T08:00:00.000Z');
+    expect(digestWindowStart({ ...subscription, digestFrequency: 'hourly' }, now)).toBe('2025-11-14T15:00:00.000Z');
+    expect(digestWindowStart({ ...subscription, digestFrequency: 'daily', lastDigestAt: '2025-09-01T00:00:00.000Z' }, now))
+      .toBe('2025-11-07T16:00:00.000Z');
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { assetClassOf, normalizeTicker, normalizeTickers, parseTicker, toTiingoSymbol } from '../lib/tickers';
+
+describe('normalizeTicker', () => {
+  it('writes share classes with a dot whatever the input separator', () => {
+    expect(normalizeTicker('BRK.B')).toBe('BRK.B');
+    expect(normalizeTicker('brk-b')).toBe('BRK.B');
+    expect(normalizeTicker('$RDS/A')).toBe('RDS.A');
+  });
+
+  it('keeps exchange suffixes and maps venue prefixes onto them', () => {
+    expect(parseTicker('SHOP.TO')).toEqual({ symbol: 'SHOP.TO', root: 'SHOP', shareClass: null, exchange: 'TO' });
+    expect(normalizeTicker('TSX:SHOP')).toBe('SHOP.TO');
+    expect(normalizeTicker('CTC-A.TO')).toBe('CTC.A.TO');
+    expect(normalizeTicker('OTC:NSRGY')).toBe('NSRGY');
+  });
+
+  it('accepts six-letter OTC roots and rejects junk', () => {
+    expect(normalizeTicker('ABCDEF')).toBe('ABCDEF');
+    expect(normalizeTicker('ABCDEFG')).toBeNull();
+    expect(normalizeTicker('AB1')).toBeNull();
+    expect(normalizeTicker('LSE:VOD')).toBeNull();
+    expect(normalizeTicker(42)).toBeNull();
+  });
+
+  it('de-duplicates lists after normalizing', () => {
+    expect(normalizeTickers(['brk-b', 'BRK.B', 'nvda', '???'])).toEqual(['BRK.B', 'NVDA']);
+  });
+});
+
+describe('toTiingoSymbol', () => {
+  it('uses hyphenated share classes and skips non-US listings', () => {
+    expect(toTiingoSymbol('BRK.B')).toBe('BRK-B');
+    expect(toTiingoSymbol('NVDA')).toBe('NVDA');
+    expect(toTiingoSymbol('SHOP.TO')).toBeNull();
+  });
+
+  it('quotes crypto against USD', () => {
+    expect(toTiingoSymbol('BTC')).toBe('btcusd');
+    expect(toTiingoSymbol('$eth')).toBe('ethusd');
+  });
+});
+
+describe('assetClassOf', () => {
+  it('reads the class from ticker metadata and defaults to equity', () => {
+    expect(assetClassOf('SOXL')).toBe('leveraged_etf');
+    expect(assetClassOf('SQQQ')).toBe('leveraged_etf');
+    expect(assetClassOf('qqq')).toBe('etf');
+    expect(assetClassOf('DOGE')).toBe('crypto');
+    expect(assetClassOf('NVDA')).toBe('equity');
+  });
+});